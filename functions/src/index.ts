@@ -1,5 +1,9 @@
 import { setGlobalOptions } from "firebase-functions/v2";
 import { onSchedule } from "firebase-functions/v2/scheduler";
+import {
+  onDocumentCreated,
+  onDocumentWritten,
+} from "firebase-functions/v2/firestore";
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
 
@@ -17,6 +21,49 @@ setGlobalOptions({ maxInstances: 10 });
 import { getApiKey } from "./getApiKey";
 export { getApiKey };
 
+/**
+ * Sends a push notification to every device registered for a user.
+ * @param {string} userId The user to notify.
+ * @param {object} notification The notification title and body.
+ * @return {Promise<void>}
+ */
+async function sendPushToUser(
+  userId: string,
+  notification: { title: string; body: string }
+): Promise<void> {
+  const tokensSnapshot = await db.collection("users").doc(userId)
+    .collection("fcmTokens").get();
+  if (tokensSnapshot.empty) {
+    logger.warn(`User ${userId} has no FCM tokens. Skipping push.`);
+    return;
+  }
+
+  const tokens = tokensSnapshot.docs.map((tokenDoc) => tokenDoc.id);
+
+  try {
+    const response = await messaging.sendEachForMulticast({
+      notification,
+      tokens: tokens,
+    });
+    logger.info(
+      `Successfully sent message to ${response.successCount} ` +
+      `device(s) for user ${userId}.`
+    );
+    if (response.failureCount > 0) {
+      logger.warn(
+        `Failed to send to ${response.failureCount} device(s) for ` +
+        `user ${userId}.`
+      );
+      // Optional: Add logic here to clean up invalid tokens.
+    }
+  } catch (error) {
+    logger.error(
+      `Error sending push notification to user ${userId}:`,
+      error
+    );
+  }
+}
+
 /**
  * A scheduled function that runs periodically to check for timers
  * that have been running for an extended period and sends a reminder
@@ -73,49 +120,12 @@ export const checkLongRunningTimers = onSchedule(
             `has been running for over ${thresholdHours} hours.`
           );
 
-          // 4. Get the user's FCM registration tokens.
-          const tokensSnapshot = await db.collection("users").doc(userId)
-            .collection("fcmTokens").get();
-          if (tokensSnapshot.empty) {
-            logger.warn(
-              `User ${userId} has a long-running timer but no FCM tokens.`
-            );
-            continue;
-          }
-
-          const tokens = tokensSnapshot.docs.map((tokenDoc) => tokenDoc.id);
-
-          // 5. Construct and send the push notification.
-          const messagePayload = {
-            notification: {
-              title: "Timer Still Running?",
-              body: `Your timer for "${session.projectName}" has been ` +
-                `active for over ${thresholdHours} hours.`,
-            },
-            tokens: tokens,
-          };
-
-          try {
-            const response = await messaging.sendEachForMulticast(
-              messagePayload
-            );
-            logger.info(
-              `Successfully sent message to ${response.successCount} ` +
-              `device(s) for user ${userId}.`
-            );
-            if (response.failureCount > 0) {
-              logger.warn(
-                `Failed to send to ${response.failureCount} device(s) for ` +
-                `user ${userId}.`
-              );
-              // Optional: Add logic here to clean up invalid tokens.
-            }
-          } catch (error) {
-            logger.error(
-              `Error sending push notification to user ${userId}:`,
-              error
-            );
-          }
+          // 4. Send the push notification to the user's devices.
+          await sendPushToUser(userId, {
+            title: "Timer Still Running?",
+            body: `Your timer for "${session.projectName}" has been ` +
+              `active for over ${thresholdHours} hours.`,
+          });
         } else {
           logger.info(
             `Session for user ${userId} is within the ` +
@@ -130,3 +140,85 @@ export const checkLongRunningTimers = onSchedule(
       );
     }
   });
+
+/**
+ * Sends a push notification when the app records that a project has
+ * crossed a budget threshold (80% or 100%). The client writes one document
+ * per project, period and threshold, so each alert is only pushed once.
+ */
+export const onBudgetAlertCreated = onDocumentCreated(
+  "users/{userId}/budgetAlerts/{alertId}",
+  async (event) => {
+    const alert = event.data?.data();
+    if (!alert) return;
+
+    const userId = event.params.userId;
+    const overBudget = alert.threshold >= 100;
+    logger.info(
+      `Budget alert for user ${userId}: "${alert.projectName}" ` +
+      `reached ${alert.threshold}% (${alert.period}).`
+    );
+
+    await sendPushToUser(userId, {
+      title: overBudget ? "Project Over Budget" : "Project Budget Warning",
+      body: overBudget ?
+        `"${alert.projectName}" has gone over its budget.` :
+        `"${alert.projectName}" has used ${alert.threshold}% of its budget.`,
+    });
+  });
+
+/**
+ * Tells an organization's owners and admins when a member submits a weekly
+ * timesheet, and the member when it has been approved or rejected.
+ */
+export const onTimesheetWritten = onDocumentWritten(
+  "organizations/{orgId}/timesheets/{timesheetId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const timesheet = event.data?.after.data();
+    if (!timesheet || before?.status === timesheet.status) return;
+
+    const week = `the week of ${timesheet.weekStart}`;
+    logger.info(
+      `Timesheet ${event.params.timesheetId} in organization ` +
+      `${event.params.orgId} is now ${timesheet.status}.`
+    );
+
+    if (timesheet.status === "submitted") {
+      const orgSnapshot = await db.collection("organizations")
+        .doc(event.params.orgId).get();
+      const org = orgSnapshot.data();
+      if (!org) return;
+
+      // Organizations from before roles treat their creator as the owner
+      const members: Record<string, { role?: string }> = org.members || {};
+      const managers = new Set(
+        Object.entries(members)
+          .filter(([, member]) =>
+            member.role === "owner" || member.role === "admin")
+          .map(([userId]) => userId)
+      );
+      if (org.createdBy in members) managers.add(org.createdBy);
+      managers.delete(timesheet.userId);
+
+      const member = timesheet.userEmail || "A team member";
+      await Promise.all([...managers].map((userId) =>
+        sendPushToUser(userId, {
+          title: "Timesheet Submitted",
+          body: `${member} submitted their timesheet for ${week}.`,
+        })
+      ));
+    } else if (timesheet.status === "approved") {
+      await sendPushToUser(timesheet.userId, {
+        title: "Timesheet Approved",
+        body: `Your timesheet for ${week} has been approved.`,
+      });
+    } else if (timesheet.status === "rejected") {
+      await sendPushToUser(timesheet.userId, {
+        title: "Timesheet Rejected",
+        body: timesheet.comment ?
+          `Your timesheet for ${week} was sent back: ${timesheet.comment}` :
+          `Your timesheet for ${week} was sent back.`,
+      });
+    }
+  });
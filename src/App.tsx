@@ -2,6 +2,7 @@
 import { useEffect, useState, lazy, Suspense, useCallback, useRef } from 'react';
 import { BrowserRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
 import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useCan } from './hooks/useCan';
 import { useProjectsStore } from './store/projects';
 import { useSessionsStore } from './store/sessions';
 import { useUIStore } from './store/ui';
@@ -10,6 +11,15 @@ import { usePredefinedNotesStore } from './store/predefinedNotes';
 import { useCustomersStore } from './store/customers';
 import { useOrganizationStore } from './store/organization';
 import { useTravelEntriesStore } from './store/travelEntries';
+import { useExpensesStore } from './store/expenses';
+import { usePerDiemsStore } from './store/perDiems';
+import { useInvoicesStore } from './store/invoices';
+import { useTagsStore } from './store/tags';
+import { useConflictsStore } from './store/conflicts';
+import { useOutboxStore } from './store/outbox';
+import { useTeamStore } from './store/team';
+import { useTimesheetsStore } from './store/timesheets';
+import { useNotificationSettingsStore } from './store/notificationSettings';
 import { db, clearDatabase } from './db/dexie';
 import { auth } from './firebase';
 import { onAuthStateChanged, signOut, User } from 'firebase/auth';
@@ -18,8 +28,11 @@ import { Stopwatch } from './components/Stopwatch';
 import { Toast } from './components/Toast';
 import { InstallButton } from './pwa/InstallButton';
 import { UserMenu } from './components/UserMenu';
+import { SyncConflictsButton } from './components/SyncConflictsButton';
+import { SyncStatusIndicator } from './components/SyncStatusIndicator';
 import { formatDuration } from './utils/time';
 import { audioManager } from './utils/audioManager';
+import { collectGarbage, migrateFirestoreData, stopAllSync, syncSharedDataSource } from './services/syncEngine';
 import './styles.css';
 
  // Lazy load all non-critical/route-specific components
@@ -27,6 +40,8 @@ const HistoryPanel = lazy(() => import('./components/HistoryPanel').then(module
 const SettingsPage = lazy(() => import('./pages/SettingsPage').then(module => ({ default: module.SettingsPage })));
 const ProfilePage = lazy(() => import('./pages/ProfilePage').then(module => ({ default: module.ProfilePage })));
 const CustomersPage = lazy(() => import('./pages/CustomersPage'));
+const TimesheetPage = lazy(() => import('./pages/TimesheetPage').then(module => ({ default: module.TimesheetPage })));
+const TeamPage = lazy(() => import('./pages/TeamPage').then(module => ({ default: module.TeamPage })));
 const CorporatePage = lazy(() => import('./pages/CorporatePage').then(module => ({ default: module.CorporatePage })));
 const FAQPage = lazy(() => import('./pages/FAQPage').then(module => ({ default: module.FAQPage })));
 const Auth = lazy(() => import('./components/Auth').then(module => ({ default: module.Auth })));
@@ -36,7 +51,7 @@ const ProjectManagerModal = lazy(() => import('./components/ProjectManagerModal'
 const ConfirmDialog = lazy(() => import('./components/ConfirmDialog').then(module => ({ default: module.ConfirmDialog })));
 const TodaysActivity = lazy(() => import('./components/TodaysActivity'));
 
-type Tab = 'tracker' | 'history' | 'settings' | 'profile' | 'customers' | 'corporate' | 'faq';
+type Tab = 'tracker' | 'history' | 'timesheet' | 'team' | 'settings' | 'profile' | 'customers' | 'corporate' | 'faq';
 
 export function App() {
   return (
@@ -50,16 +65,26 @@ function AppContent() {
   const isOnline = useOnlineStatus();
   const { reconcileProjects, startProjectSync, stopProjectSync } = useProjectsStore();
   const { startSync, stopSync, reconcileSessions } = useSessionsStore();
-  const { startPredefinedNotesSync, stopPredefinedNotesSync } = usePredefinedNotesStore();
-  const { startCustomerSync, stopCustomerSync, loadCustomers } = useCustomersStore();
-  const { startOrganizationSync, stopOrganizationSync, loadOrganization } = useOrganizationStore();
-  const { startSync: startTravelEntriesSync, stopSync: stopTravelEntriesSync } = useTravelEntriesStore();
+  const { startPredefinedNotesSync, stopPredefinedNotesSync, reconcilePredefinedNotes } = usePredefinedNotesStore();
+  const { startCustomerSync, stopCustomerSync, loadCustomers, reconcileCustomers } = useCustomersStore();
+  const { startOrganizationSync, stopOrganizationSync, loadOrganization, loadMyInvitations } = useOrganizationStore();
+  const activeOrganizationName = useOrganizationStore(state => state.organization?.corporateInfo.companyName);
+  const hasOrganization = useOrganizationStore(state => !!state.organization);
+  const can = useCan();
+  const canViewTeam = hasOrganization && can('viewTeamSessions');
+  const { startSync: startTravelEntriesSync, stopSync: stopTravelEntriesSync, reconcileTravelEntries } = useTravelEntriesStore();
+  const { startSync: startExpensesSync, stopSync: stopExpensesSync, reconcileExpenses } = useExpensesStore();
+  const { startSync: startPerDiemsSync, stopSync: stopPerDiemsSync, reconcilePerDiems } = usePerDiemsStore();
+  const { startSync: startInvoicesSync, stopSync: stopInvoicesSync, reconcileInvoices } = useInvoicesStore();
+  const { startSync: startTagsSync, stopSync: stopTagsSync, reconcileTags, loadTags } = useTagsStore();
+  const { loadConflicts } = useConflictsStore();
+  const { loadOutbox, flush: flushOutbox } = useOutboxStore();
   const { currentProjectId, setCurrentProject, openAddEntryModal, openTravelDistanceModal, theme, setTheme } = useUIStore();
   const { user, setUserAndOrg, isLoading: isAuthLoading } = useAuthStore();
   const [isGuest, setIsGuest] = useState(false);
   const location = useLocation();
 
-  const activeTab: Tab = location.pathname === '/history' ? 'history' : location.pathname === '/settings' ? 'settings' : location.pathname === '/profile' ? 'profile' : location.pathname === '/customers' ? 'customers' : location.pathname === '/corporate' ? 'corporate' : location.pathname === '/faq' ? 'faq' : 'tracker';
+  const activeTab: Tab = location.pathname === '/history' ? 'history' : location.pathname === '/timesheet' ? 'timesheet' : location.pathname === '/team' ? 'team' : location.pathname === '/settings' ? 'settings' : location.pathname === '/profile' ? 'profile' : location.pathname === '/customers' ? 'customers' : location.pathname === '/corporate' ? 'corporate' : location.pathname === '/faq' ? 'faq' : 'tracker';
 
   const { runningSession, getCurrentElapsed, loadSessions, loadRunningSession } = useSessionsStore();
 
@@ -96,16 +121,46 @@ function AppContent() {
 
     if (currentUser) {
       setIsGuest(false);
+      await migrateFirestoreData();
+      // Settings that follow the user across devices, such as allowing overlaps
+      useNotificationSettingsStore.getState().startConfigSync();
+      try {
+        await syncSharedDataSource();
+      } catch (error) {
+        useUIStore.getState().showToast((error as Error).message, 'error');
+      }
+      await reconcileCustomers();
       await reconcileProjects();
       await reconcileSessions();
       startProjectSync();
       startSync();
+      await reconcilePredefinedNotes();
       startPredefinedNotesSync();
+      await reconcileTags();
+      startTagsSync();
       startCustomerSync();
+      await reconcileTravelEntries();
       startTravelEntriesSync();
+      await reconcileExpenses();
+      startExpensesSync();
+      await reconcilePerDiems();
+      startPerDiemsSync();
+      await reconcileInvoices();
+      startInvoicesSync();
+      await collectGarbage();
+      await loadConflicts();
+      await loadOutbox();
+      // Signed-off weeks stay locked while offline
+      await useTimesheetsStore.getState().loadTimesheets();
       await startOrganizationSync();
+      await loadMyInvitations();
+      const { myInvitations } = useOrganizationStore.getState();
+      if (myInvitations.length > 0) {
+        useUIStore.getState().showToast(`You have been invited to join ${myInvitations[0].orgName}. Respond on the Corporate page.`, 'info');
+      }
     } else if (isGuest) {
       await loadSessions();
+      await loadTags();
       await loadCustomers();
       await loadOrganization();
     }
@@ -115,7 +170,7 @@ function AppContent() {
     if (lastProject?.lastProjectId) {
       setCurrentProject(lastProject.lastProjectId);
     }
-  }, [isGuest, setUserAndOrg, reconcileProjects, reconcileSessions, loadSessions, loadRunningSession, startSync, setCurrentProject, startProjectSync, startPredefinedNotesSync, startCustomerSync, startTravelEntriesSync, startOrganizationSync, loadCustomers, loadOrganization]);
+  }, [isGuest, setUserAndOrg, reconcileCustomers, reconcilePredefinedNotes, reconcileTravelEntries, reconcileProjects, reconcileSessions, loadSessions, loadRunningSession, startSync, setCurrentProject, startProjectSync, startPredefinedNotesSync, startCustomerSync, startTravelEntriesSync, reconcileExpenses, startExpensesSync, reconcilePerDiems, startPerDiemsSync, reconcileInvoices, startInvoicesSync, startOrganizationSync, loadMyInvitations, loadCustomers, loadOrganization, reconcileTags, startTagsSync, loadTags, loadConflicts, loadOutbox]);
 
   useEffect(() => {
     // onAuthStateChanged returns an unsubscribe function that we can use for cleanup.
@@ -127,8 +182,12 @@ function AppContent() {
       stopSync();
       stopPredefinedNotesSync();
       stopTravelEntriesSync();
+      stopExpensesSync();
+      stopPerDiemsSync();
+      stopInvoicesSync();
+      stopTagsSync();
     };
-  }, [initializeApp, stopProjectSync, stopSync, stopPredefinedNotesSync, stopTravelEntriesSync]);
+  }, [initializeApp, stopProjectSync, stopSync, stopPredefinedNotesSync, stopTravelEntriesSync, stopExpensesSync, stopPerDiemsSync, stopInvoicesSync, stopTagsSync]);
 
   useEffect(() => {
     const defaultTitle = "BuzTracker - Time Tracker";
@@ -179,18 +238,48 @@ function AppContent() {
     setIsGuest(true);
   };
 
+  // Replay writes made without a connection as soon as it is back
+  useEffect(() => {
+    if (isOnline && user) {
+      flushOutbox();
+    }
+  }, [isOnline, user, flushOutbox]);
+
   const handleLogout = async () => {
+    // Signing out clears the local database, outbox included
+    const unsynced = useOutboxStore.getState().entries.length;
+    if (unsynced > 0) {
+      useUIStore.getState().showConfirm(
+        'Unsynced Changes',
+        `${unsynced} ${unsynced === 1 ? 'change has' : 'changes have'} not reached the server yet and will be lost if you log out now. Log out anyway?`,
+        logout
+      );
+      return;
+    }
+    await logout();
+  };
+
+  const logout = async () => {
     stopProjectSync();
     stopSync();
     stopPredefinedNotesSync();
     stopCustomerSync();
     stopOrganizationSync();
+    stopInvoicesSync();
+    stopTagsSync();
+    // Any synced table without its own stop call above
+    stopAllSync();
+    useNotificationSettingsStore.getState().stopConfigSync();
     if (auth) {
       await signOut(auth);
     }
     await clearDatabase();
     useProjectsStore.setState({ projects: [], isLoading: false, error: null });
     useSessionsStore.setState({ sessions: [], runningSession: null, isLoading: true, error: null });
+    useConflictsStore.setState({ conflicts: [] });
+    useOutboxStore.setState({ entries: [] });
+    useOrganizationStore.getState().clearOrganization();
+    useTeamStore.getState().clearTeamSessions();
     useUIStore.setState({ currentProjectId: null });
     setIsGuest(false);
     await db.on.ready.fire(db);
@@ -231,6 +320,14 @@ function AppContent() {
                 style={{ width: 'auto', aspectRatio: '856/1040' }}
               />
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white">BuzTracker</h1>
+              {activeOrganizationName && (
+                <span
+                  className="hidden sm:inline ml-3 px-2 py-0.5 text-sm text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded truncate max-w-xs"
+                  title="Active organization"
+                >
+                  {activeOrganizationName}
+                </span>
+              )}
               {!isOnline && (
                 <div className="ml-2" title="You are currently offline.">
                   <svg className="w-6 h-6 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -241,6 +338,8 @@ function AppContent() {
             </div>
 
             <div className="flex items-center space-x-4">
+              {user && <SyncConflictsButton />}
+              {user && <SyncStatusIndicator />}
               <InstallButton />
               {(user || isGuest) && (
                 <UserMenu onLogout={handleLogout} isGuest={isGuest} />
@@ -256,7 +355,9 @@ function AppContent() {
             <div className="flex space-x-8">
               {[
                 { id: 'tracker', label: 'Time Tracker', path: '/' },
-                { id: 'history', label: 'History', path: '/history' }
+                { id: 'history', label: 'History', path: '/history' },
+                { id: 'timesheet', label: 'Timesheet', path: '/timesheet' },
+                ...(canViewTeam ? [{ id: 'team', label: 'Team', path: '/team' }] : [])
               ].map((tab) => {
                 return (
                   <Link
@@ -309,6 +410,8 @@ function AppContent() {
             <Route path="/customers" element={<CustomersPage />} />
             <Route path="/corporate" element={<CorporatePage />} />
             <Route path="/history" element={<HistoryPanel />} />
+            <Route path="/timesheet" element={<TimesheetPage />} />
+            <Route path="/team" element={<TeamPage />} />
             <Route path="/profile" element={<ProfilePage />} />
             <Route path="/settings" element={<SettingsPage />} />
             <Route path="/faq" element={<FAQPage />} />
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { getBillableSummary, isSessionBillable } from '../utils/billable'
+import { Project, Session } from '../db/dexie'
+
+const HOUR = 60 * 60 * 1000
+
+const projects: Project[] = [
+  { id: '1', name: 'Client work', color: '#3b82f6', createdAt: 0, archived: false },
+  { id: '2', name: 'Admin', color: '#6b7280', createdAt: 0, archived: false, billable: false }
+]
+
+const session = (projectId: string, hours: number, billable?: boolean): Session => ({
+  id: 's1',
+  projectId,
+  start: 0,
+  stop: hours * HOUR,
+  durationMs: hours * HOUR,
+  createdAt: 0,
+  ...(billable !== undefined ? { billable } : {})
+})
+
+describe('billable utils', () => {
+  it('falls back to the project default when the session has no flag', () => {
+    expect(isSessionBillable(session('1', 1), projects)).toBe(true)
+    expect(isSessionBillable(session('2', 1), projects)).toBe(false)
+    expect(isSessionBillable(session('99', 1), projects)).toBe(true)
+  })
+
+  it('lets the session flag override the project default', () => {
+    expect(isSessionBillable(session('1', 1, false), projects)).toBe(false)
+    expect(isSessionBillable(session('2', 1, true), projects)).toBe(true)
+  })
+
+  it('summarizes billable time and utilization', () => {
+    const summary = getBillableSummary([session('1', 6), session('2', 1), session('1', 1, false)], projects)
+    expect(summary.billableMs).toBe(6 * HOUR)
+    expect(summary.nonBillableMs).toBe(2 * HOUR)
+    expect(summary.utilization).toBe(75)
+    expect(getBillableSummary([], projects).utilization).toBe(0)
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { getBudgetUsage, getBurnDown, getNewBudgetAlerts } from '../utils/budget'
+import { Customer, Project, Session } from '../db/dexie'
+
+const HOUR = 60 * 60 * 1000
+const NOW = new Date('2024-03-15T12:00:00').getTime()
+
+const project = (overrides: Partial<Project>): Project => ({
+  id: '1',
+  name: 'Site work',
+  color: '#3b82f6',
+  createdAt: new Date('2024-01-01T00:00:00').getTime(),
+  archived: false,
+  budget: { hours: 10, amount: 0, resetMonthly: false },
+  ...overrides
+})
+
+const session = (start: string, hours: number): Session => ({
+  id: 's1',
+  projectId: '1',
+  start: new Date(start).getTime(),
+  stop: new Date(start).getTime() + hours * HOUR,
+  durationMs: hours * HOUR,
+  createdAt: 0
+})
+
+const customer = {
+  id: '1',
+  companyName: 'Acme',
+  address: '',
+  city: '',
+  province: 'ON',
+  postalCode: '',
+  country: 'Canada',
+  contacts: [],
+  standardRate: 100,
+  createdAt: 0,
+  archived: false
+} as Customer
+
+describe('budget utils', () => {
+  it('reports hours used as a percentage of the budget', () => {
+    const sessions = [session('2024-02-01T09:00:00', 3), session('2024-03-14T09:00:00', 5)]
+    const usage = getBudgetUsage(project({}), sessions, customer, 0, NOW)
+    expect(usage?.hoursUsed).toBe(8)
+    expect(usage?.percent).toBeCloseTo(80)
+  })
+
+  it('uses the larger of hours and money usage and counts running time', () => {
+    const p = project({ budget: { hours: 10, amount: 400, resetMonthly: false } })
+    const usage = getBudgetUsage(p, [session('2024-03-14T09:00:00', 3)], customer, HOUR, NOW)
+    expect(usage?.amountUsed).toBe(400)
+    expect(usage?.percent).toBeCloseTo(100)
+  })
+
+  it('only counts the current month for monthly budgets', () => {
+    const p = project({ budget: { hours: 10, amount: 0, resetMonthly: true } })
+    const sessions = [session('2024-02-28T09:00:00', 6), session('2024-03-01T09:00:00', 2)]
+    const usage = getBudgetUsage(p, sessions, customer, 0, NOW)
+    expect(usage?.hoursUsed).toBe(2)
+    expect(usage?.period.key).toBe('2024-03')
+  })
+
+  it('returns no usage for projects without a budget', () => {
+    expect(getBudgetUsage(project({ budget: undefined }), [], customer, 0, NOW)).toBeNull()
+  })
+
+  it('only reports thresholds that have not been alerted in this period', () => {
+    const p = project({ budgetAlerts: ['total:80'] })
+    const usage = getBudgetUsage(p, [session('2024-03-14T09:00:00', 11)], customer, 0, NOW)!
+    expect(getNewBudgetAlerts(p, usage)).toEqual([100])
+    expect(getNewBudgetAlerts(project({ budgetAlerts: ['2024-02:80'] }), usage)).toEqual([80, 100])
+  })
+
+  it('builds a daily burn-down with an ideal line for monthly budgets', () => {
+    const p = project({ budget: { hours: 31, amount: 0, resetMonthly: true } })
+    const burnDown = getBurnDown(p, [session('2024-03-02T09:00:00', 4)], customer, NOW)!
+    expect(burnDown.labels).toHaveLength(31)
+    expect(burnDown.remaining[0]).toBe(31)
+    expect(burnDown.remaining[1]).toBe(27)
+    expect(burnDown.remaining[20]).toBeNaN()
+    expect(burnDown.ideal[30]).toBe(0)
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { planBulkEdit } from '../utils/bulkEdit'
+import { at, session, timesheet } from './fixtures'
+
+const start = at('09:00')
+const stop = at('10:00')
+
+describe('bulk edit', () => {
+  it('reassigns only sessions on another project', () => {
+    expect(planBulkEdit([session('a', start, stop), session('b', start, stop, { projectId: 'p2' })], { type: 'project', projectId: 'p2' }, []))
+      .toEqual([{ id: 'a', changes: { projectId: 'p2' } }])
+  })
+
+  it('appends to notes or replaces them', () => {
+    const sessions = [session('a', start, stop, { note: 'Design' }), session('b', start, stop)]
+    expect(planBulkEdit(sessions, { type: 'note', mode: 'append', text: ' Review ' }, [])).toEqual([
+      { id: 'a', changes: { note: 'Design; Review' } },
+      { id: 'b', changes: { note: 'Review' } }
+    ])
+    expect(planBulkEdit(sessions, { type: 'note', mode: 'set', text: '' }, [])).toEqual([{ id: 'a', changes: { note: undefined } }])
+  })
+
+  it('shifts start and stop together', () => {
+    expect(planBulkEdit([session('a', start, stop)], { type: 'shift', minutes: -30 }, []))
+      .toEqual([{ id: 'a', changes: { start: at('08:30'), stop: at('09:30') } }])
+    expect(planBulkEdit([session('a', start, stop)], { type: 'shift', minutes: 0 }, [])).toEqual([])
+  })
+
+  it('sets the billable flag', () => {
+    const sessions = [session('a', start, stop, { billable: true }), session('b', start, stop, { billable: false })]
+    expect(planBulkEdit(sessions, { type: 'billable', billable: false }, [])).toEqual([{ id: 'a', changes: { billable: false } }])
+  })
+
+  it('sets the invoice number', () => {
+    expect(planBulkEdit([session('a', start, stop)], { type: 'invoiced', invoiceNumber: ' INV-1 ' }, []))
+      .toEqual([{ id: 'a', changes: { invoiceNumber: 'INV-1' } }])
+    expect(planBulkEdit([session('a', start, stop)], { type: 'invoiced', invoiceNumber: ' ' }, [])).toEqual([])
+  })
+
+  it('leaves invoiced sessions alone, whatever the edit', () => {
+    const invoiced = session('b', start, stop, { billable: true, invoiceNumber: 'INV-1' })
+    const sessions = [session('a', start, stop, { billable: true }), invoiced]
+    expect(planBulkEdit(sessions, { type: 'project', projectId: 'p2' }, []).map(u => u.id)).toEqual(['a'])
+    expect(planBulkEdit(sessions, { type: 'note', mode: 'set', text: 'Review' }, []).map(u => u.id)).toEqual(['a'])
+    expect(planBulkEdit(sessions, { type: 'shift', minutes: 15 }, []).map(u => u.id)).toEqual(['a'])
+    expect(planBulkEdit(sessions, { type: 'billable', billable: false }, []).map(u => u.id)).toEqual(['a'])
+    // Neither replaced nor cleared: that goes through voiding the invoice
+    expect(planBulkEdit(sessions, { type: 'invoiced', invoiceNumber: 'INV-2' }, []).map(u => u.id)).toEqual(['a'])
+  })
+
+  it('leaves sessions on a signed-off timesheet alone', () => {
+    const sessions = [session('a', start, stop), session('b', start, stop, { organizationId: 'org1' })]
+    expect(planBulkEdit(sessions, { type: 'project', projectId: 'p2' }, [timesheet('submitted')]).map(u => u.id)).toEqual(['a'])
+    expect(planBulkEdit(sessions, { type: 'project', projectId: 'p2' }, [timesheet('draft')]).map(u => u.id)).toEqual(['a', 'b'])
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { getCalendarDays, layoutDay, moveSession, resizeSession, shiftAnchor, snapMinutes } from '../utils/calendar'
+import { Session } from '../db/dexie'
+
+const at = (day: string, time = '09:00') => new Date(`${day}T${time}`).getTime()
+const minutes = (m: number) => m * 60000
+
+const session = (id: string, start: number, durationMs: number): Session => ({
+  id,
+  projectId: 'p1',
+  start,
+  stop: start + durationMs,
+  durationMs,
+  createdAt: 0
+})
+
+describe('calendar', () => {
+  it('shows a day, its week, or whole weeks around its month', () => {
+    expect(getCalendarDays('day', '2025-04-02')).toEqual(['2025-04-02'])
+    expect(getCalendarDays('week', '2025-04-02')).toEqual(['2025-03-31', '2025-04-01', '2025-04-02', '2025-04-03', '2025-04-04', '2025-04-05', '2025-04-06'])
+    const month = getCalendarDays('month', '2025-04-15')
+    expect(month[0]).toBe('2025-03-31')
+    expect(month[month.length - 1]).toBe('2025-05-04')
+    expect(month.length % 7).toBe(0)
+  })
+
+  it('moves by a day, week or month', () => {
+    expect(shiftAnchor('day', '2025-04-30', 1)).toBe('2025-05-01')
+    expect(shiftAnchor('week', '2025-04-02', -1)).toBe('2025-03-26')
+    expect(shiftAnchor('month', '2025-01-31', 1)).toBe('2025-02-28')
+  })
+
+  it('snaps to quarter hours', () => {
+    expect(snapMinutes(67)).toBe(60)
+    expect(snapMinutes(68)).toBe(75)
+  })
+
+  it('puts overlapping sessions side by side', () => {
+    const blocks = layoutDay([
+      session('a', at('2025-04-02', '09:00'), minutes(120)),
+      session('b', at('2025-04-02', '10:00'), minutes(60)),
+      session('c', at('2025-04-02', '13:00'), minutes(30))
+    ], '2025-04-02')
+    const byId = Object.fromEntries(blocks.map(block => [block.session.id, block]))
+    expect(byId.a).toMatchObject({ top: 540, bottom: 660, lane: 0, lanes: 2 })
+    expect(byId.b).toMatchObject({ lane: 1, lanes: 2 })
+    expect(byId.c).toMatchObject({ lane: 0, lanes: 1 })
+  })
+
+  it('cuts sessions off at midnight', () => {
+    const [block] = layoutDay([session('a', at('2025-04-02', '23:00'), minutes(120))], '2025-04-02')
+    expect(block.bottom).toBe(24 * 60)
+  })
+
+  it('moves a session to another day, keeping its length', () => {
+    expect(moveSession(session('a', at('2025-04-02'), minutes(90)), '2025-04-03', 14 * 60)).toEqual({
+      start: at('2025-04-03', '14:00'),
+      stop: at('2025-04-03', '15:30'),
+      durationMs: minutes(90)
+    })
+  })
+
+  it('resizes either edge, keeping at least a quarter hour', () => {
+    const s = session('a', at('2025-04-02'), minutes(60))
+    expect(resizeSession(s, 'stop', 11 * 60)).toEqual({ start: at('2025-04-02'), stop: at('2025-04-02', '11:00'), durationMs: minutes(120) })
+    expect(resizeSession(s, 'start', 8 * 60 + 30)).toEqual({ start: at('2025-04-02', '08:30'), stop: at('2025-04-02', '10:00'), durationMs: minutes(90) })
+    expect(resizeSession(s, 'start', 11 * 60).durationMs).toBe(minutes(15))
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { chooseAll, formatConflictValue, formatFieldName, getConflictFields, mergeConflict } from '../utils/conflicts'
+
+describe('Conflict utilities', () => {
+  const mine = { id: 1, firestoreId: 'abc', revision: 3, syncedRevision: 1, updatedAt: 10, note: 'Design', start: 1000, tags: ['travel'], meals: { breakfast: true, lunch: false } }
+  const theirs = { firestoreId: 'abc', revision: 2, updatedAt: 20, note: 'Design review', start: 1000, tags: ['travel'], meals: { lunch: false, breakfast: true }, billable: true }
+
+  it('lists only fields that really differ, ignoring sync metadata and key order', () => {
+    expect(getConflictFields(mine, theirs)).toEqual([
+      { field: 'note', mine: 'Design', theirs: 'Design review' },
+      { field: 'billable', mine: undefined, theirs: true }
+    ])
+    expect(getConflictFields(mine, theirs, ['billable']).map(f => f.field)).toEqual(['note'])
+  })
+
+  it('merges the fields chosen from their version into mine', () => {
+    const fields = getConflictFields(mine, theirs)
+    const merged = mergeConflict(mine, theirs, { note: 'theirs' })
+    expect(merged.note).toBe('Design review')
+    expect(merged).not.toHaveProperty('billable')
+    expect(mergeConflict(mine, theirs, chooseAll(fields, 'theirs'))).toMatchObject({ note: 'Design review', billable: true, revision: 3 })
+    expect(mergeConflict(mine, theirs, chooseAll(fields, 'mine'))).toEqual(mine)
+  })
+
+  it('formats field names and values for display', () => {
+    expect(formatFieldName('durationMs')).toBe('Duration ms')
+    expect(formatFieldName('customerFirestoreId')).toBe('Customer firestore id')
+    expect(formatConflictValue('note', '')).toBe('—')
+    expect(formatConflictValue('billable', false)).toBe('No')
+    expect(formatConflictValue('tags', ['travel', 'on-site'])).toBe('travel, on-site')
+    expect(formatConflictValue('start', 0)).toBe(new Date(0).toLocaleString())
+    expect(formatConflictValue('durationMs', 3600000)).toBe('3600000')
+  })
+})
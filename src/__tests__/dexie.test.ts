@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import Dexie from 'dexie'
 import { BuzTrackerDB } from '../db/dexie'
+import { createId } from '../utils/ids'
 
 describe('Dexie Database', () => {
   let db: BuzTrackerDB
@@ -16,11 +18,12 @@ describe('Dexie Database', () => {
   describe('Projects', () => {
     it('creates and retrieves projects', async () => {
       const projectId = await db.projects.add({
+        id: createId(),
         name: 'Test Project',
         color: '#ff0000',
         createdAt: Date.now(),
         archived: false
-      }) as number
+      }) as string
 
       const project = await db.projects.get(projectId)
       expect(project).toBeDefined()
@@ -30,11 +33,12 @@ describe('Dexie Database', () => {
 
     it('updates project properties', async () => {
       const projectId = await db.projects.add({
+        id: createId(),
         name: 'Test Project',
         color: '#ff0000',
         createdAt: Date.now(),
         archived: false
-      }) as number
+      }) as string
 
       await db.projects.update(projectId, { name: 'Updated Project' })
       
@@ -46,21 +50,23 @@ describe('Dexie Database', () => {
   describe('Sessions', () => {
     it('creates and retrieves sessions', async () => {
       const projectId = await db.projects.add({
+        id: createId(),
         name: 'Test Project',
         color: '#ff0000',
         createdAt: Date.now(),
         archived: false
-      }) as number
+      }) as string
 
       const start = Date.now()
       const stop = start + 3600000 // 1 hour
       const sessionId = await db.sessions.add({
+        id: createId(),
         projectId,
         start,
         stop,
         durationMs: stop - start,
         createdAt: Date.now()
-      }) as number
+      }) as string
 
       const session = await db.sessions.get(sessionId)
       expect(session).toBeDefined()
@@ -70,14 +76,16 @@ describe('Dexie Database', () => {
 
     it('queries sessions by project', async () => {
       const projectId = await db.projects.add({
+        id: createId(),
         name: 'Test Project',
         color: '#ff0000',
         createdAt: Date.now(),
         archived: false
-      }) as number
+      }) as string
 
       const start = Date.now()
       await db.sessions.add({
+        id: createId(),
         projectId,
         start,
         stop: start + 1000,
@@ -86,6 +94,7 @@ describe('Dexie Database', () => {
       })
 
       await db.sessions.add({
+        id: createId(),
         projectId,
         start: start + 2000,
         stop: start + 3000,
@@ -114,11 +123,12 @@ describe('Dexie Database', () => {
   describe('Running Session', () => {
     it('stores and retrieves running session', async () => {
       const projectId = await db.projects.add({
+        id: createId(),
         name: 'Test Project',
         color: '#ff0000',
         createdAt: Date.now(),
         archived: false
-      }) as number
+      }) as string
 
       await db.runningSession.add({
         running: true,
@@ -137,4 +147,75 @@ describe('Dexie Database', () => {
       expect(runningSession?.projectId).toBe(projectId)
     })
   })
+
+  describe('Migration to shared ids', () => {
+    const previousSchema = {
+      projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
+      sessions: '++id, projectId, firestoreId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: '++id, firestoreId, note, createdAt',
+      customers: '++id, firestoreId, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      invoices: '++id, firestoreId, number, customerId, customerFirestoreId, issuedAt, status, createdAt',
+      expenses: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, category, createdAt, invoiceNumber',
+      perDiems: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      tags: '++id, &key, firestoreId, name, createdAt',
+      conflicts: '++id, &[collection+recordId], detectedAt',
+      outbox: '++id, [collection+recordId], createdAt',
+      tombstones: '++id, &[collection+firestoreId], deletedAt'
+    }
+
+    beforeEach(async () => {
+      // Replace the database opened above with one from before the migration
+      await db.delete()
+      const previous = new Dexie('BuzTrackerDB')
+      previous.version(650).stores(previousSchema)
+      await previous.open()
+      const customerId = await previous.table('customers').add({ companyName: 'Acme', firestoreId: 'cust-remote', createdAt: 1, archived: false })
+      const uploadedId = await previous.table('projects').add({ name: 'Uploaded', firestoreId: 'proj-remote', customerId, customerFirestoreId: 'cust-remote', revision: 2 })
+      const localId = await previous.table('projects').add({ name: 'Local only', customerId })
+      const sessionId = await previous.table('sessions').add({ projectId: localId, start: 1, stop: 2, durationMs: 1, createdAt: 1 })
+      await previous.table('expenses').add({ projectId: uploadedId, customerId, customerFirestoreId: 'cust-remote', firestoreId: 'exp-remote' })
+      await previous.table('runningSession').add({ running: true, projectId: localId, continuedFromSessionId: sessionId })
+      await previous.table('outbox').add({ collection: 'sessions', recordId: sessionId, operation: 'set', createdAt: 1 })
+      await previous.table('outbox').add({ collection: 'tags', recordId: 9, operation: 'delete', firestoreId: 'tag-remote', createdAt: 2 })
+      await previous.table('tombstones').add({ collection: 'tags', firestoreId: 'tag-remote', deletedAt: 2 })
+      previous.close()
+
+      db = new BuzTrackerDB()
+      await db.open()
+    })
+
+    it('keeps the ids of uploaded records and rewrites references', async () => {
+      const uploaded = await db.projects.get('proj-remote')
+      expect(uploaded).toMatchObject({ name: 'Uploaded', customerId: 'cust-remote', syncedRevision: 2 })
+      expect(uploaded).not.toHaveProperty('firestoreId')
+      expect(uploaded).not.toHaveProperty('customerFirestoreId')
+
+      const expense = await db.expenses.get('exp-remote')
+      expect(expense).toMatchObject({ projectId: 'proj-remote', customerId: 'cust-remote' })
+    })
+
+    it('gives records that were never uploaded new ids', async () => {
+      const local = await db.projects.where('name').equals('Local only').first()
+      expect(typeof local?.id).toBe('string')
+      expect((local as { syncedRevision?: number } | undefined)?.syncedRevision).toBeUndefined()
+
+      const session = await db.sessions.toCollection().first()
+      expect(session?.projectId).toBe(local?.id)
+
+      const running = await db.runningSession.toCollection().first()
+      expect(running).toMatchObject({ projectId: local?.id, continuedFromSessionId: session?.id })
+    })
+
+    it('points queued writes and tombstones at the new ids', async () => {
+      const session = await db.sessions.toCollection().first()
+      const entries = await db.outbox.orderBy('id').toArray()
+      expect(entries.map(e => e.recordId)).toEqual([session?.id, 'tag-remote'])
+      expect(await db.tombstones.where('[collection+recordId]').equals(['tags', 'tag-remote']).count()).toBe(1)
+    })
+  })
 })
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { getExpenseBillableAmount, getExpenseTotals, getReceiptPath, getUninvoicedExpenses } from '../utils/expense'
+import { buildInvoiceLines } from '../utils/invoice'
+import { Customer, Expense } from '../db/dexie'
+
+const customer: Customer = {
+  id: '1',
+  companyName: 'Acme Ltd',
+  address: '1 Main St',
+  city: 'Victoria',
+  province: 'BC',
+  postalCode: 'V8W 1A1',
+  country: 'Canada',
+  contacts: [],
+  standardRate: 100,
+  currency: 'CAD',
+  createdAt: 0,
+  archived: false
+}
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: '1',
+  projectId: '1',
+  date: new Date('2024-03-04T00:00:00').getTime(),
+  category: 'parking',
+  amount: 11.3,
+  currency: 'CAD',
+  taxPaid: 1.3,
+  billable: true,
+  markupPercent: 0,
+  createdAt: 0,
+  ...overrides
+})
+
+describe('expense utils', () => {
+  it('bills the pre-tax amount plus markup', () => {
+    expect(getExpenseBillableAmount(expense({}))).toBe(10)
+    expect(getExpenseBillableAmount(expense({ markupPercent: 15 }))).toBe(11.5)
+    expect(getExpenseBillableAmount(expense({ taxPaid: 0, amount: 20 }))).toBe(20)
+  })
+
+  it('only offers billable expenses that have not been invoiced', () => {
+    const expenses = [expense({ id: '1' }), expense({ id: '2', billable: false }), expense({ id: '3', invoiceNumber: 'INV-0001' })]
+    expect(getUninvoicedExpenses(expenses).map(e => e.id)).toEqual(['1'])
+  })
+
+  it('totals the amount paid per currency', () => {
+    const totals = getExpenseTotals([expense({}), expense({ amount: 5 }), expense({ currency: 'USD', amount: 30 })])
+    expect(totals).toEqual({ CAD: 16.3, USD: 30 })
+  })
+
+  it('builds a safe receipt path under the user folder', () => {
+    expect(getReceiptPath('uid1', 'my receipt (1).jpg', 123)).toBe('receipts/uid1/123_my_receipt__1_.jpg')
+  })
+
+  it('adds one invoice line per category in the customer currency', () => {
+    const lines = buildInvoiceLines(customer, [], [], [
+      expense({}),
+      expense({ amount: 20, taxPaid: 0 }),
+      expense({ category: 'materials', amount: 100, taxPaid: 0, markupPercent: 10 }),
+      expense({ category: 'tolls', currency: 'USD' }),
+      expense({ category: 'meals', billable: false })
+    ])
+    expect(lines.map(l => [l.description, l.amount])).toEqual([
+      ['Expenses: Parking (2 receipts)', 30],
+      ['Expenses: Materials (1 receipt)', 110]
+    ])
+  })
+})
@@ -0,0 +1,28 @@
+// Shared test data. Times are local, on 2025-04-02 unless another day is given.
+import { Session, Timesheet, TimesheetStatus } from '../db/dexie'
+
+export const at = (time: string, day = '2025-04-02') => new Date(`${day}T${time}`).getTime()
+export const minutes = (m: number) => m * 60000
+
+// A finished session on project p1, worked from start to stop without pauses
+export const session = (id: string, start: number, stop: number, extra: Partial<Session> = {}): Session => ({
+  id,
+  projectId: 'p1',
+  start,
+  stop,
+  durationMs: stop - start,
+  createdAt: 0,
+  ...extra
+})
+
+// The week of 2025-04-02 in organization org1, signed off unless another status is given
+export const timesheet = (status: TimesheetStatus = 'approved', weekStart = '2025-03-31', orgId = 'org1'): Timesheet => ({
+  id: `u1_${weekStart}`,
+  orgId,
+  userId: 'u1',
+  weekStart,
+  status,
+  totalMs: 0,
+  sessionCount: 0,
+  updatedAt: 0
+})
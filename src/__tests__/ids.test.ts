@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { buildIdMap, createId, mapReference, migrateRecordIds, remapReferences } from '../utils/ids'
+
+describe('id utilities', () => {
+  it('creates unique ids', () => {
+    expect(createId()).not.toBe(createId())
+  })
+
+  it('keeps the doc id of uploaded records and gives the rest a new one', () => {
+    const ids = buildIdMap([{ id: 1, firestoreId: 'doc-1' }, { id: 2 }])
+    expect(ids.get(1)).toBe('doc-1')
+    expect(ids.get(2)).toMatch(/^[0-9a-f-]{36}$/)
+  })
+
+  it('maps local references and keeps doc ids as they are', () => {
+    const ids = new Map([[1, 'doc-1']])
+    expect(mapReference(1, ids)).toBe('doc-1')
+    expect(mapReference(7, ids)).toBe('7')
+    expect(mapReference('doc-2', ids)).toBe('doc-2')
+    expect(mapReference(undefined, ids)).toBeUndefined()
+  })
+
+  it('prefers the local customer reference over the uploaded one', () => {
+    const projectIds = new Map([[3, 'proj-3']])
+    const customerIds = new Map([[5, 'cust-5']])
+    expect(remapReferences({ projectId: 3, customerId: 5, customerFirestoreId: 'cust-old' }, projectIds, customerIds))
+      .toEqual({ projectId: 'proj-3', customerId: 'cust-5' })
+    expect(remapReferences({ projectId: 3, customerFirestoreId: 'cust-old' }, projectIds, customerIds))
+      .toEqual({ projectId: 'proj-3', customerId: 'cust-old' })
+  })
+
+  it('marks uploaded records as synced and the rest as never uploaded', () => {
+    const ids = new Map([[1, 'doc-1'], [2, 'new-2']])
+    expect(migrateRecordIds({ id: 1, firestoreId: 'doc-1', revision: 4 }, ids, new Map(), new Map()))
+      .toEqual({ id: 'doc-1', revision: 4, syncedRevision: 4 })
+    expect(migrateRecordIds({ id: 2, revision: 1, syncedRevision: 1 }, ids, new Map(), new Map()))
+      .toEqual({ id: 'new-2', revision: 1 })
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { buildInvoiceLines, getInvoiceSequence, getInvoiceSubtotal, getNextInvoiceNumber, getTravelDays, getUninvoicedSessions } from '../utils/invoice'
+import { Customer, Session, TravelEntry } from '../db/dexie'
+
+const HOUR = 60 * 60 * 1000
+
+const customer: Customer = {
+  id: '1',
+  companyName: 'Acme Ltd',
+  address: '1 Main St',
+  city: 'Victoria',
+  province: 'BC',
+  postalCode: 'V8W 1A1',
+  country: 'Canada',
+  contacts: [],
+  standardRate: 100,
+  travelRate: 50,
+  travelDistanceUnit: 'km',
+  distanceRate: 0.5,
+  perDiemRate: 75,
+  currency: 'CAD',
+  createdAt: 0,
+  archived: false
+}
+
+const day1 = new Date('2024-03-04T09:00:00').getTime()
+const day2 = new Date('2024-03-05T09:00:00').getTime()
+
+const session = (start: number, hours: number, tags?: string[], invoiceNumber?: string): Session => ({
+  id: 's1',
+  projectId: '1',
+  start,
+  stop: start + hours * HOUR,
+  durationMs: hours * HOUR,
+  tags,
+  createdAt: start,
+  invoiceNumber
+})
+
+const travel = (date: number, distance: number, unit: 'km' | 'miles' = 'km'): TravelEntry => ({
+  id: 't1',
+  projectId: '1',
+  customerId: '1',
+  date,
+  distance,
+  unit,
+  createdAt: date
+})
+
+describe('Invoice utilities', () => {
+  describe('buildInvoiceLines', () => {
+    it('bills labour, travel time, distance and per-diem days at the customer rates', () => {
+      const lines = buildInvoiceLines(
+        customer,
+        [session(day1, 3), session(day1 + 4 * HOUR, 1.5, ['travel'])],
+        [travel(day1, 120), travel(day2, 80)]
+      )
+
+      expect(lines).toEqual([
+        { type: 'labour', description: 'Professional services', quantity: 3, unit: 'hr', rate: 100, amount: 300 },
+        { type: 'travelTime', description: 'Travel time', quantity: 1.5, unit: 'hr', rate: 50, amount: 75 },
+        { type: 'distance', description: 'Travel distance', quantity: 200, unit: 'km', rate: 0.5, amount: 100 },
+        { type: 'perDiem', description: 'Per diem', quantity: 2, unit: 'day', rate: 75, amount: 150 }
+      ])
+      expect(getInvoiceSubtotal(lines)).toBe(625)
+    })
+
+    it('converts distance into the customer unit', () => {
+      const lines = buildInvoiceLines({ ...customer, travelDistanceUnit: 'miles' }, [], [travel(day1, 16.09344)])
+      expect(lines.find(l => l.type === 'distance')?.quantity).toBe(10)
+    })
+
+    it('skips lines without a rate', () => {
+      const lines = buildInvoiceLines({ ...customer, distanceRate: 0, perDiemRate: 0 }, [session(day1, 1)], [travel(day1, 50)])
+      expect(lines.map(l => l.type)).toEqual(['labour'])
+    })
+  })
+
+  it('counts each travel day once', () => {
+    expect(getTravelDays([session(day1, 1, ['travel'])], [travel(day1, 10), travel(day2, 10)])).toEqual(['2024-03-04', '2024-03-05'])
+  })
+
+  it('excludes sessions that are already invoiced or still running', () => {
+    const running = { ...session(day2, 0), stop: null }
+    const billed = session(day1, 1, undefined, 'INV-0001')
+    const open = session(day1, 2)
+    expect(getUninvoicedSessions([running, billed, open])).toEqual([open])
+  })
+
+  it('generates the next sequential invoice number', () => {
+    expect(getNextInvoiceNumber([])).toBe('INV-0001')
+    expect(getNextInvoiceNumber(['INV-0009', 'INV-0012', 'INV-0002'])).toBe('INV-0013')
+    expect(getInvoiceSequence('INV-0042')).toBe(42)
+    expect(getInvoiceSequence('Draft')).toBe(0)
+  })
+})
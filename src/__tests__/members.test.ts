@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { canInvite, canManageMember, getAssignableRoles, getUserOrganizationIds, isLastOwner, isValidEmail, normalizeEmail, sortMembers } from '../utils/members'
+import { OrganizationMember } from '../db/dexie'
+
+const members: Record<string, OrganizationMember> = {
+  u1: { role: 'user', addedAt: 3, email: 'zoe@example.com' },
+  o1: { role: 'owner', addedAt: 1, email: 'owner@example.com' },
+  a1: { role: 'admin', addedAt: 2, email: 'admin@example.com' },
+  u2: { role: 'user', addedAt: 4, email: 'amy@example.com' }
+}
+
+describe('member utilities', () => {
+  it('normalizes and validates invitation emails', () => {
+    expect(normalizeEmail('  Jane.Doe@Example.COM ')).toBe('jane.doe@example.com')
+    expect(isValidEmail('jane@example.com')).toBe(true)
+    expect(isValidEmail('jane@example')).toBe(false)
+    expect(isValidEmail('ja/ne@example.com')).toBe(false)
+  })
+
+  it('lets owners and admins invite, with admins limited to plain members', () => {
+    expect(canInvite('owner')).toBe(true)
+    expect(canInvite('admin')).toBe(true)
+    expect(canInvite('user')).toBe(false)
+    expect(canInvite(undefined)).toBe(false)
+    expect(getAssignableRoles('owner')).toEqual(['owner', 'admin', 'user'])
+    expect(getAssignableRoles('admin')).toEqual(['user'])
+    expect(getAssignableRoles('user')).toEqual([])
+  })
+
+  it('lets owners manage everyone and admins only plain members', () => {
+    expect(canManageMember('owner', 'owner')).toBe(true)
+    expect(canManageMember('admin', 'user')).toBe(true)
+    expect(canManageMember('admin', 'admin')).toBe(false)
+    expect(canManageMember('user', 'user')).toBe(false)
+  })
+
+  it('knows when the last owner would be lost', () => {
+    expect(isLastOwner(members, 'o1')).toBe(true)
+    expect(isLastOwner(members, 'a1')).toBe(false)
+    expect(isLastOwner({ ...members, a1: { role: 'owner', addedAt: 2 } }, 'o1')).toBe(false)
+  })
+
+  it('lists every organization of a user, including the one from before multiple were supported', () => {
+    expect(getUserOrganizationIds({ organizations: ['org1', 'org2'], organizationId: 'org2' })).toEqual(['org1', 'org2'])
+    expect(getUserOrganizationIds({ organizationId: 'org1' })).toEqual(['org1'])
+    expect(getUserOrganizationIds(null)).toEqual([])
+  })
+
+  it('lists members by role, then email', () => {
+    expect(sortMembers(members).map(([id]) => id)).toEqual(['o1', 'a1', 'u2', 'u1'])
+  })
+})
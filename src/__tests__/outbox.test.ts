@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_OUTBOX_ATTEMPTS,
+  TOMBSTONE_RETENTION_DAYS,
+  describeSyncResult,
+  getRecordSyncState,
+  getRetryDelay,
+  getSyncStatus,
+  getTombstoneCutoff,
+  isPermanentSyncError
+} from '../utils/outbox'
+import { OutboxEntry } from '../db/dexie'
+
+const entry = (id: number, collection: string, recordId: string, failed = false): OutboxEntry => ({
+  id, collection, recordId, operation: 'set', createdAt: 0, attempts: 0, nextAttemptAt: 0, failed
+})
+
+describe('Outbox utilities', () => {
+  it('backs off exponentially up to five minutes', () => {
+    expect(getRetryDelay(1)).toBe(2000)
+    expect(getRetryDelay(2)).toBe(4000)
+    expect(getRetryDelay(4)).toBe(16000)
+    expect(getRetryDelay(20)).toBe(5 * 60 * 1000)
+  })
+
+  it('gives up on errors retrying cannot fix and after too many attempts', () => {
+    expect(isPermanentSyncError('permission-denied', 1)).toBe(true)
+    expect(isPermanentSyncError('unavailable', 1)).toBe(false)
+    expect(isPermanentSyncError(undefined, 1)).toBe(false)
+    expect(isPermanentSyncError('unavailable', MAX_OUTBOX_ATTEMPTS)).toBe(true)
+  })
+
+  it('summarizes the queue for the header, failures first', () => {
+    const entries = [entry(1, 'sessions', 's1'), entry(2, 'customers', 'c4')]
+    expect(getSyncStatus([], true, false)).toEqual({ state: 'synced', pending: 0, failed: 0 })
+    expect(getSyncStatus(entries, true, false)).toEqual({ state: 'pending', pending: 2, failed: 0 })
+    expect(getSyncStatus(entries, true, true).state).toBe('syncing')
+    expect(getSyncStatus(entries, false, false).state).toBe('offline')
+    expect(getSyncStatus([...entries, entry(3, 'sessions', 's2', true)], false, false)).toEqual({ state: 'error', pending: 2, failed: 1 })
+  })
+
+  it('finds the sync state of a single record', () => {
+    const entries = [entry(1, 'sessions', 's1'), entry(2, 'sessions', 's2', true), entry(3, 'customers', 'c1')]
+    expect(getRecordSyncState(entries, 'sessions', 's1')).toBe('pending')
+    expect(getRecordSyncState(entries, 'sessions', 's2')).toBe('failed')
+    expect(getRecordSyncState(entries, 'sessions', 's3')).toBeUndefined()
+    expect(getRecordSyncState(entries, 'sessions', undefined)).toBeUndefined()
+  })
+
+  it('describes the result of a manual sync', () => {
+    expect(describeSyncResult({ uploaded: 0, pending: 0, failed: 0, conflicts: 0 })).toBe('Everything is already in sync')
+    expect(describeSyncResult({ uploaded: 1, pending: 2, failed: 0, conflicts: 1 }))
+      .toBe('Sync finished: 1 change uploaded, 2 still pending, 1 conflict needs review')
+  })
+
+  it('keeps tombstones for the retention window', () => {
+    const now = Date.UTC(2026, 5, 1)
+    expect(getTombstoneCutoff(now)).toBe(now - TOMBSTONE_RETENTION_DAYS * 86400000)
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { findOverlapping, findOverlaps, getFixProblem, isContained, mergeOverlap, splitOverlap, trimOverlap } from '../utils/overlaps'
+import { at, session, timesheet } from './fixtures'
+
+describe('overlaps', () => {
+  it('finds pairs that share time, but not ones that only touch', () => {
+    const a = session('a', at('09:00'), at('11:00'))
+    const b = session('b', at('10:00'), at('12:00'))
+    const c = session('c', at('12:00'), at('13:00'))
+    const overlaps = findOverlaps([c, b, a])
+    expect(overlaps).toHaveLength(1)
+    expect(overlaps[0].first.id).toBe('a')
+    expect(overlaps[0].second.id).toBe('b')
+    expect(overlaps[0].overlapMs).toBe(60 * 60000)
+  })
+
+  it('leaves the session itself out when checking a change', () => {
+    const a = session('a', at('09:00'), at('11:00'))
+    const b = session('b', at('10:00'), at('12:00'))
+    expect(findOverlapping({ ...a, stop: at('10:30'), durationMs: at('10:30') - at('09:00') }, [a, b]).map(s => s.id)).toEqual(['b'])
+    expect(findOverlapping({ ...a, stop: at('10:00'), durationMs: at('10:00') - at('09:00') }, [a, b])).toEqual([])
+  })
+
+  it('trims the first session to where the second starts', () => {
+    const [overlap] = findOverlaps([session('a', at('09:00'), at('11:00')), session('b', at('10:00'), at('12:00'))])
+    expect(isContained(overlap)).toBe(false)
+    expect(trimOverlap(overlap).update).toEqual([{ id: 'a', changes: { stop: at('10:00'), durationMs: 60 * 60000 } }])
+  })
+
+  it('splits the first session around one inside it', () => {
+    const [overlap] = findOverlaps([session('a', at('09:00'), at('13:00'), { note: 'Design', tags: ['ui'] }), session('b', at('10:00'), at('11:00'))])
+    expect(isContained(overlap)).toBe(true)
+    const fix = splitOverlap(overlap)
+    expect(fix.update).toEqual([{ id: 'a', changes: { stop: at('10:00'), durationMs: 60 * 60000 } }])
+    expect(fix.create).toHaveLength(1)
+    expect(fix.create[0]).toMatchObject({ projectId: 'p1', start: at('11:00'), stop: at('13:00'), note: 'Design', tags: ['ui'] })
+    expect(fix.remove).toEqual([])
+  })
+
+  it('keeps only the part after when both start together', () => {
+    const [overlap] = findOverlaps([session('a', at('09:00'), at('12:00')), session('b', at('09:00'), at('10:00'))])
+    const fix = splitOverlap(overlap)
+    expect(fix.update).toEqual([{ id: 'a', changes: { start: at('10:00'), stop: at('12:00'), durationMs: 2 * 60 * 60000 } }])
+    expect(fix.create).toEqual([])
+  })
+
+  it('merges both into the first, joining notes and tags', () => {
+    const [overlap] = findOverlaps([
+      session('a', at('09:00'), at('11:00'), { note: 'Design', tags: ['ui'] }),
+      session('b', at('10:00'), at('12:00'), { note: 'Review', tags: ['ui', 'qa'] })
+    ])
+    expect(mergeOverlap(overlap)).toEqual({
+      update: [{ id: 'a', changes: { stop: at('12:00'), durationMs: 3 * 60 * 60000, note: 'Design; Review', tags: ['ui', 'qa'] } }],
+      create: [],
+      remove: ['b']
+    })
+  })
+
+  it('keeps paused time out of a merge', () => {
+    const [overlap] = findOverlaps([
+      session('a', at('09:00'), at('11:00'), { durationMs: 90 * 60000 }),
+      session('b', at('10:00'), at('12:00'))
+    ])
+    // 90 + 120 minutes worked, with the hour they share counted once
+    expect(mergeOverlap(overlap).update[0].changes.durationMs).toBe(150 * 60000)
+  })
+
+  it('leaves invoiced and signed-off sessions to be fixed elsewhere', () => {
+    const a = session('a', at('09:00'), at('11:00'), { organizationId: 'org1' })
+    const b = session('b', at('10:00'), at('12:00'), { organizationId: 'org1' })
+    expect(getFixProblem(findOverlaps([a, b])[0], [])).toBeNull()
+    expect(getFixProblem(findOverlaps([a, { ...b, invoiceNumber: 'INV-1' }])[0], [])).toMatch(/Invoiced/)
+    expect(getFixProblem(findOverlaps([a, b])[0], [timesheet('submitted')])).toMatch(/timesheet/)
+    expect(getFixProblem(findOverlaps([a, b])[0], [timesheet('draft')])).toBeNull()
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { describePerDiemMeals, getPerDiemAmount, getPerDiemDays, getPerDiemSuggestions } from '../utils/perDiem'
+import { buildInvoiceLines } from '../utils/invoice'
+import { Customer, PerDiemEntry, Project, Session, TravelEntry } from '../db/dexie'
+
+const HOUR = 60 * 60 * 1000
+const day1 = new Date('2024-03-04T00:00:00').getTime()
+const day2 = new Date('2024-03-05T00:00:00').getTime()
+
+const customer: Customer = {
+  id: '1',
+  companyName: 'Acme Ltd',
+  address: '',
+  city: '',
+  province: 'BC',
+  postalCode: '',
+  country: 'Canada',
+  contacts: [],
+  standardRate: 100,
+  perDiemRate: 80,
+  currency: 'CAD',
+  createdAt: 0,
+  archived: false
+}
+
+const projects: Project[] = [
+  { id: '1', name: 'Site A', color: '#000', createdAt: 0, archived: false, customerId: '1' },
+  { id: '2', name: 'Site B', color: '#000', createdAt: 0, archived: false, customerId: '1' },
+  { id: '3', name: 'Office', color: '#000', createdAt: 0, archived: false, customerId: '2' }
+]
+
+const noPerDiemCustomer: Customer = { ...customer, id: '2', perDiemRate: 0 }
+
+const entry = (date: number, meals: PerDiemEntry['meals'], projectId = '1'): PerDiemEntry => ({
+  id: 'pd1',
+  projectId,
+  date,
+  meals,
+  createdAt: 0
+})
+
+const session = (projectId: string, start: number, hours: number): Session => ({
+  id: 's1',
+  projectId,
+  start,
+  stop: start + hours * HOUR,
+  durationMs: hours * HOUR,
+  createdAt: 0
+})
+
+describe('per-diem utils', () => {
+  it('counts partial days by the meals claimed', () => {
+    const entries = [entry(day1, ['breakfast', 'lunch', 'dinner']), entry(day2, ['breakfast', 'dinner'])]
+    expect(getPerDiemDays(entries)).toBe(1.75)
+    expect(getPerDiemAmount(entries, 80)).toBe(140)
+    expect(describePerDiemMeals(['breakfast', 'lunch', 'dinner'])).toBe('Full day')
+    expect(describePerDiemMeals(['dinner', 'breakfast'])).toBe('Breakfast, Dinner')
+  })
+
+  it('suggests one day per customer using the busiest project', () => {
+    const sessions = [
+      session('1', day1 + 9 * HOUR, 1),
+      session('2', day1 + 11 * HOUR, 3),
+      session('3', day1 + 9 * HOUR, 8)
+    ]
+    const travel: TravelEntry[] = [{ id: 't1', projectId: '1', customerId: '1', date: day2, distance: 40, unit: 'km', createdAt: 0 }]
+    const suggestions = getPerDiemSuggestions(sessions, travel, [], projects, [customer, noPerDiemCustomer])
+    expect(suggestions).toEqual([
+      { projectId: '2', date: day1 },
+      { projectId: '1', date: day2 }
+    ])
+  })
+
+  it('does not suggest days that already have a per diem at that customer', () => {
+    const sessions = [session('2', day1 + 9 * HOUR, 2)]
+    const suggestions = getPerDiemSuggestions(sessions, [], [entry(day1, ['dinner'], '1')], projects, [customer])
+    expect(suggestions).toEqual([])
+  })
+
+  it('bills per-diem entries instead of travel days when given', () => {
+    const lines = buildInvoiceLines(customer, [], [], [], [entry(day1, ['breakfast', 'lunch'])])
+    expect(lines).toEqual([
+      { type: 'perDiem', description: 'Per diem', quantity: 0.5, unit: 'day', rate: 80, amount: 40 }
+    ])
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { can, changesCustomerRates, clearRestrictedFields, withoutCustomerRates } from '../utils/permissions'
+import { getMemberRole } from '../utils/members'
+import { Customer, Organization } from '../db/dexie'
+
+const customer: Customer = {
+  id: 'c1',
+  companyName: 'Acme',
+  address: '',
+  city: '',
+  province: 'BC',
+  postalCode: '',
+  country: 'Canada',
+  contacts: [],
+  standardRate: 100,
+  rounding: { incrementMinutes: 15, direction: 'up', scope: 'session', minimumMinutes: 0 },
+  createdAt: 0,
+  archived: false
+}
+
+describe('permissions', () => {
+  it('gives each role its permissions', () => {
+    expect(can('owner', 'editCorporateInfo')).toBe(true)
+    expect(can('admin', 'editCorporateInfo')).toBe(false)
+    expect(can('admin', 'editCustomerRates')).toBe(true)
+    expect(can('user', 'editCustomerRates')).toBe(false)
+    expect(can('user', 'viewTeamSessions')).toBe(false)
+  })
+
+  it('allows everything without an organization', () => {
+    expect(can(undefined, 'editCorporateInfo')).toBe(true)
+    expect(can(undefined, 'deleteProjects')).toBe(true)
+  })
+
+  it('finds the role of a member, treating the creator of an older organization as owner', () => {
+    const org: Organization = {
+      firestoreId: 'org1',
+      corporateInfo: {} as Organization['corporateInfo'],
+      createdBy: 'u1',
+      createdAt: 0,
+      updatedAt: 0,
+      members: { u2: { role: 'admin', addedAt: 0 } }
+    }
+    expect(getMemberRole(org, 'u2')).toBe('admin')
+    expect(getMemberRole(org, 'u1')).toBe('owner')
+    expect(getMemberRole(org, 'u3')).toBeUndefined()
+    expect(getMemberRole(null, 'u1')).toBeUndefined()
+  })
+
+  it('detects changes to customer rates', () => {
+    expect(changesCustomerRates(customer, { companyName: 'Acme Inc.', standardRate: 100 })).toBe(false)
+    expect(changesCustomerRates(customer, { standardRate: 120 })).toBe(true)
+    expect(changesCustomerRates(customer, { rounding: { ...customer.rounding!, incrementMinutes: 6 } })).toBe(true)
+    expect(changesCustomerRates(customer, { perDiemRate: 80 })).toBe(true)
+  })
+
+  it('strips rates from updates', () => {
+    expect(withoutCustomerRates({ companyName: 'Acme Inc.', standardRate: 120, currency: 'USD' })).toEqual({ companyName: 'Acme Inc.' })
+  })
+
+  it('leaves the project budgets of members joining without budget rights behind', () => {
+    const project = () => ({ id: 'p1', name: 'Site', budget: { hours: 10, resetMonthly: false } })
+    const stripped: Record<string, unknown> = project()
+    expect(clearRestrictedFields('projects', 'user', stripped)).toBe(true)
+    expect(stripped).toEqual({ id: 'p1', name: 'Site' })
+    expect(clearRestrictedFields('projects', 'user', stripped)).toBe(false)
+    for (const role of ['admin', 'owner', undefined] as const) {
+      const kept: Record<string, unknown> = project()
+      expect(clearRestrictedFields('projects', role, kept)).toBe(false)
+      expect(kept).toEqual(project())
+    }
+  })
+
+  it('clears the rates of customers added without rate rights', () => {
+    const record: Record<string, unknown> = { ...customer }
+    expect(clearRestrictedFields('customers', 'user', record)).toBe(true)
+    expect(record).toEqual({ ...withoutCustomerRates(customer), standardRate: 0 })
+    expect(clearRestrictedFields('customers', 'admin', { ...customer })).toBe(false)
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { getRoundedDurations, getRoundedTotal, roundDuration } from '../utils/rounding'
+import { RoundingRule, Session } from '../db/dexie'
+
+const MINUTE = 60 * 1000
+
+const rule = (overrides: Partial<RoundingRule>): RoundingRule => ({
+  incrementMinutes: 15,
+  direction: 'up',
+  scope: 'session',
+  minimumMinutes: 0,
+  ...overrides
+})
+
+const session = (start: string, minutes: number): Session => ({
+  id: 's1',
+  projectId: '1',
+  start: new Date(start).getTime(),
+  stop: new Date(start).getTime() + minutes * MINUTE,
+  durationMs: minutes * MINUTE,
+  createdAt: 0
+})
+
+describe('rounding utils', () => {
+  it('rounds up, down and to the nearest increment', () => {
+    expect(roundDuration(7 * MINUTE, rule({ direction: 'up' }))).toBe(15 * MINUTE)
+    expect(roundDuration(7 * MINUTE, rule({ direction: 'nearest' }))).toBe(0)
+    expect(roundDuration(8 * MINUTE, rule({ direction: 'nearest' }))).toBe(15 * MINUTE)
+    expect(roundDuration(29 * MINUTE, rule({ direction: 'down' }))).toBe(15 * MINUTE)
+    expect(roundDuration(61 * MINUTE, rule({ incrementMinutes: 6 }))).toBe(66 * MINUTE)
+  })
+
+  it('applies the minimum charge and leaves time alone without a rule', () => {
+    expect(roundDuration(20 * MINUTE, rule({ minimumMinutes: 60 }))).toBe(60 * MINUTE)
+    expect(roundDuration(0, rule({ minimumMinutes: 60 }))).toBe(0)
+    expect(roundDuration(7 * MINUTE, undefined)).toBe(7 * MINUTE)
+  })
+
+  it('rounds each session separately in per-session scope', () => {
+    const sessions = [session('2024-03-04T09:00:00', 5), session('2024-03-04T13:00:00', 5)]
+    const rounded = getRoundedDurations(sessions, rule({}))
+    expect(getRoundedTotal(sessions, rounded)).toBe(30 * MINUTE)
+    expect(sessions[0].durationMs).toBe(5 * MINUTE)
+  })
+
+  it('rounds the daily total in per-day scope and shares it across sessions', () => {
+    const sessions = [
+      session('2024-03-04T09:00:00', 5),
+      session('2024-03-04T13:00:00', 15),
+      session('2024-03-05T09:00:00', 10)
+    ]
+    const rounded = getRoundedDurations(sessions, rule({ scope: 'day', minimumMinutes: 60 }))
+    expect(getRoundedTotal(sessions, rounded)).toBe(120 * MINUTE)
+    expect(rounded.get(sessions[0])).toBe(15 * MINUTE)
+    expect(rounded.get(sessions[1])).toBe(45 * MINUTE)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { getMergeProblem, getSplitProblem, getSplitTimeAtPercent, planMerge, planSplit } from '../utils/splitMerge'
+import { at, minutes, session, timesheet } from './fixtures'
+
+describe('split and merge', () => {
+  it('splits at a time, the second part going to another project', () => {
+    const original = session('a', at('09:00'), at('13:00'), { note: 'Design', tags: ['ui'], billable: false })
+    const { first, second } = planSplit(original, at('10:30'), 'p2')
+    expect(first).toEqual({ stop: at('10:30'), durationMs: minutes(90) })
+    expect(second).toMatchObject({ projectId: 'p2', start: at('10:30'), stop: at('13:00'), durationMs: minutes(150), note: 'Design', tags: ['ui'] })
+    // The other project's billable default applies
+    expect(second.billable).toBeUndefined()
+    expect(planSplit(original, at('10:30')).second.billable).toBe(false)
+  })
+
+  it('shares paused time out so the parts add up', () => {
+    const paused = session('a', at('09:00'), at('13:00'), { durationMs: minutes(200) })
+    const { first, second } = planSplit(paused, getSplitTimeAtPercent(paused, 25))
+    expect(first).toEqual({ stop: at('10:00'), durationMs: minutes(50) })
+    expect(first.durationMs + second.durationMs).toBe(minutes(200))
+  })
+
+  it('only splits inside the session', () => {
+    const original = session('a', at('09:00'), at('10:00'))
+    expect(() => planSplit(original, at('09:00'))).toThrow()
+    expect(() => planSplit(original, at('11:00'))).toThrow()
+  })
+
+  it('merges neighbouring sessions on one project and day', () => {
+    const a = session('a', at('09:00'), at('10:00'))
+    const b = session('b', at('10:15'), at('11:00'))
+    const c = session('c', at('11:30'), at('12:00'))
+    const other = session('x', at('10:05'), at('10:10'), { projectId: 'p2' })
+    const later = session('y', at('11:05'), at('11:20'), { projectId: 'p2' })
+    expect(getMergeProblem([a], [a, b, c], [], [])).not.toBeNull()
+    expect(getMergeProblem([a, b], [a, b, c, later], [], [])).toBeNull()
+    expect(getMergeProblem([a, c], [a, b, c], [], [])).toMatch(/next to each other/)
+    // Another project's session in the gap would end up inside the merged one
+    expect(getMergeProblem([a, b], [a, b, other], [], [])).toMatch(/next to each other/)
+    expect(getMergeProblem([a, other], [a, other], [], [])).toMatch(/same project/)
+    expect(getMergeProblem([a, session('d', at('09:00', '2025-04-03'), at('10:00', '2025-04-03'))], [], [], [])).toMatch(/same day/)
+  })
+
+  it('leaves invoiced and signed-off sessions as they are', () => {
+    const a = session('a', at('09:00'), at('10:00'), { organizationId: 'org1' })
+    const b = session('b', at('10:15'), at('11:00'), { organizationId: 'org1' })
+    expect(getSplitProblem(a, [])).toBeNull()
+    expect(getSplitProblem({ ...a, invoiceNumber: 'INV-1' }, [])).toMatch(/Invoiced/)
+    expect(getSplitProblem(a, [timesheet('submitted')])).toMatch(/timesheet/)
+    expect(getMergeProblem([a, b], [a, b], [timesheet('draft')], [])).toBeNull()
+    expect(getMergeProblem([a, { ...b, invoiceNumber: 'INV-1' }], [a, b], [], [])).toMatch(/Invoiced/)
+    expect(getMergeProblem([a, b], [a, b], [timesheet('approved')], [])).toMatch(/timesheet/)
+  })
+
+  it('only merges sessions that are all billable or all not', () => {
+    const a = session('a', at('09:00'), at('10:00'), { billable: true })
+    const b = session('b', at('10:15'), at('11:00'), { billable: false })
+    expect(getMergeProblem([a, b], [a, b], [], [])).toMatch(/non-billable/)
+    expect(getMergeProblem([a, { ...b, billable: true }], [a, b], [], [])).toBeNull()
+    // Sessions without a flag of their own follow the project
+    const legacy = { ...b, billable: undefined }
+    const project = { id: 'p1', name: 'Site', color: '#000', archived: false, createdAt: 0 }
+    expect(getMergeProblem([a, legacy], [a, b], [], [project])).toBeNull()
+    expect(getMergeProblem([a, legacy], [a, b], [], [{ ...project, billable: false }])).toMatch(/non-billable/)
+  })
+
+  it('keeps the time worked and combines notes and tags', () => {
+    const merge = planMerge([
+      session('b', at('10:15'), at('11:00'), { note: 'Review', tags: ['qa'] }),
+      session('a', at('09:00'), at('10:00'), { note: 'Review', tags: ['ui'] }),
+      session('c', at('11:30'), at('12:00'), { note: 'Fixes' })
+    ])
+    expect(merge).toEqual({
+      keep: 'a',
+      changes: { stop: at('12:00'), durationMs: minutes(135), note: 'Review; Fixes', tags: ['ui', 'qa'] },
+      remove: ['b', 'c']
+    })
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { TRAVEL_TAG, getLegacyTags, mergeTags, toTagKey, toggleTag } from '../utils/tags'
+import { Tag } from '../db/dexie'
+
+describe('Tag utilities', () => {
+  it('turns tag names into stable keys', () => {
+    expect(toTagKey('  On-site Work ')).toBe('on-site-work')
+    expect(toTagKey('R&D / Prototyping')).toBe('r-d-prototyping')
+    expect(toTagKey('!!!')).toBe('')
+  })
+
+  it('lists built-in tags first and ignores user tags that shadow them', () => {
+    const userTags: Tag[] = [
+      { id: '1', key: 'on-site', name: 'On-site', color: '#3b82f6', createdAt: 1 },
+      { id: '2', key: TRAVEL_TAG, name: 'My Travel', color: '#ef4444', createdAt: 2 }
+    ]
+    expect(mergeTags(userTags).map(t => [t.key, t.name])).toEqual([
+      [TRAVEL_TAG, 'Travel'],
+      ['on-site', 'On-site']
+    ])
+  })
+
+  it('toggles a tag on and off', () => {
+    expect(toggleTag([], TRAVEL_TAG)).toEqual([TRAVEL_TAG])
+    expect(toggleTag([TRAVEL_TAG, 'on-site'], TRAVEL_TAG)).toEqual(['on-site'])
+  })
+
+  it('migrates notes mentioning travel to the travel tag', () => {
+    expect(getLegacyTags('Travel to site')).toEqual([TRAVEL_TAG])
+    expect(getLegacyTags('drive back, TRAVELLING')).toEqual([TRAVEL_TAG])
+    expect(getLegacyTags('Design review')).toEqual([])
+    expect(getLegacyTags(undefined)).toEqual([])
+  })
+})
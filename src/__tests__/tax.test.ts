@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { calculateTaxes, getTaxTotal, normalizeProvince, TaxCustomer, TaxSeller } from '../utils/tax'
+
+const seller: TaxSeller = {
+  province: 'BC',
+  gstNumber: '123456789RT0001',
+  pstNumber: 'PST-1234-5678',
+  qstNumber: '1234567890TQ0001'
+}
+
+const customerIn = (province: string, extra: Partial<TaxCustomer> = {}): TaxCustomer => ({
+  province,
+  country: 'Canada',
+  ...extra
+})
+
+describe('tax utils', () => {
+  it('normalizes province names and codes', () => {
+    expect(normalizeProvince('Ontario')).toBe('ON')
+    expect(normalizeProvince(' qc ')).toBe('QC')
+    expect(normalizeProvince('Nowhere')).toBeNull()
+  })
+
+  it('charges HST in harmonized provinces', () => {
+    const taxes = calculateTaxes(1000, seller, customerIn('ON'))
+    expect(taxes).toHaveLength(1)
+    expect(taxes[0]).toMatchObject({ code: 'HST', rate: 13, amount: 130 })
+  })
+
+  it('charges GST and PST when the seller is registered in the same province', () => {
+    const taxes = calculateTaxes(1000, seller, customerIn('British Columbia'))
+    expect(taxes.map(t => t.code)).toEqual(['GST', 'PST'])
+    expect(getTaxTotal(taxes)).toBe(120)
+  })
+
+  it('skips PST without a PST number or outside the seller province', () => {
+    expect(calculateTaxes(1000, { ...seller, pstNumber: '' }, customerIn('BC')).map(t => t.code)).toEqual(['GST'])
+    expect(calculateTaxes(1000, seller, customerIn('SK')).map(t => t.code)).toEqual(['GST'])
+  })
+
+  it('charges QST in Quebec when the seller has a QST number', () => {
+    const taxes = calculateTaxes(1000, seller, customerIn('QC'))
+    expect(taxes.map(t => t.code)).toEqual(['GST', 'QST'])
+    expect(taxes[1].amount).toBe(99.75)
+    expect(calculateTaxes(1000, { ...seller, qstNumber: '' }, customerIn('QC')).map(t => t.code)).toEqual(['GST'])
+  })
+
+  it('does not tax exempt or foreign customers, or unregistered sellers', () => {
+    expect(calculateTaxes(1000, seller, customerIn('ON', { taxExempt: true }))).toEqual([])
+    expect(calculateTaxes(1000, seller, customerIn('WA', { country: 'USA' }))).toEqual([])
+    expect(calculateTaxes(1000, { ...seller, gstNumber: '' }, customerIn('ON'))).toEqual([])
+    expect(calculateTaxes(1000, undefined, customerIn('ON'))).toEqual([])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { excludeArchived, getDayKeys, getDayTotals, getProjectTotals } from '../utils/history'
+import { getMemberLabel, getMissingDays, isWorkday } from '../utils/team'
+import { Customer, Project } from '../db/dexie'
+
+const at = (day: string, time = '09:00') => new Date(`${day}T${time}`).getTime()
+const hours = (h: number) => h * 3600000
+
+const projects: Project[] = [
+  { id: 'p1', name: 'Deck', color: '#000', createdAt: 0, archived: false, customerId: 'c1' },
+  { id: 'p2', name: 'Old', color: '#000', createdAt: 0, archived: true },
+  { id: 'p3', name: 'Fence', color: '#000', createdAt: 0, archived: false, customerId: 'c2' }
+]
+const customers = [
+  { id: 'c1', archived: false },
+  { id: 'c2', archived: true }
+] as Customer[]
+
+describe('history utilities', () => {
+  it('lists every day of a range', () => {
+    expect(getDayKeys(at('2025-03-30', '00:00'), at('2025-04-02', '23:59'))).toEqual(['2025-03-30', '2025-03-31', '2025-04-01', '2025-04-02'])
+  })
+
+  it('totals time per day, including days without any', () => {
+    const sessions = [
+      { start: at('2025-04-02'), durationMs: hours(2) },
+      { start: at('2025-04-01'), durationMs: hours(1) },
+      { start: at('2025-04-02', '14:00'), durationMs: hours(3) }
+    ]
+    expect([...getDayTotals(sessions, at('2025-03-31', '00:00'), at('2025-04-02', '23:59'))]).toEqual([
+      ['2025-03-31', 0],
+      ['2025-04-01', hours(1)],
+      ['2025-04-02', hours(5)]
+    ])
+  })
+
+  it('totals time per project', () => {
+    const sessions = [
+      { projectId: 'p1', durationMs: hours(1) },
+      { projectId: 'p3', durationMs: hours(2) },
+      { projectId: 'p1', durationMs: hours(2) }
+    ]
+    expect([...getProjectTotals(sessions)]).toEqual([['p1', hours(3)], ['p3', hours(2)]])
+  })
+
+  it('leaves out archived projects and projects of archived customers', () => {
+    const entries = [{ projectId: 'p1' }, { projectId: 'p2' }, { projectId: 'p3' }, { projectId: 'gone' }]
+    expect(excludeArchived(entries, projects, customers)).toEqual([{ projectId: 'p1' }, { projectId: 'gone' }])
+  })
+})
+
+describe('team utilities', () => {
+  it('knows workdays', () => {
+    expect(isWorkday('2025-04-04')).toBe(true)  // Friday
+    expect(isWorkday('2025-04-05')).toBe(false)  // Saturday
+    expect(isWorkday('2025-04-06')).toBe(false)  // Sunday
+  })
+
+  it('flags workdays up to today without time', () => {
+    const dayTotals = new Map([
+      ['2025-04-03', 0],
+      ['2025-04-04', hours(8)],
+      ['2025-04-05', 0],
+      ['2025-04-07', 0],
+      ['2025-04-08', 0]
+    ])
+    expect(getMissingDays(dayTotals, at('2025-04-07', '12:00'))).toEqual(['2025-04-03', '2025-04-07'])
+  })
+
+  it('labels members by email', () => {
+    expect(getMemberLabel({ role: 'user', addedAt: 0, email: 'amy@example.com' }, false)).toBe('amy@example.com')
+    expect(getMemberLabel({ role: 'owner', addedAt: 0, email: 'bo@example.com' }, true)).toBe('bo@example.com (you)')
+    expect(getMemberLabel(undefined, false)).toBe('Unknown member')
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { canSubmit, formatWeek, getWeekRange, getWeekStart, isSessionLocked, shiftWeek } from '../utils/timesheets'
+import { Timesheet, TimesheetStatus } from '../db/dexie'
+
+const at = (day: string, time = '09:00') => new Date(`${day}T${time}`).getTime()
+
+const timesheet = (weekStart: string, status: TimesheetStatus, orgId = 'org1'): Timesheet => ({
+  id: `u1_${weekStart}`,
+  orgId,
+  userId: 'u1',
+  weekStart,
+  status,
+  totalMs: 0,
+  sessionCount: 0,
+  updatedAt: 0
+})
+
+describe('timesheet utilities', () => {
+  it('starts weeks on Monday', () => {
+    expect(getWeekStart(at('2025-04-02'))).toBe('2025-03-31')
+    expect(getWeekStart(at('2025-04-06', '23:30'))).toBe('2025-03-31')
+    expect(getWeekStart(at('2025-04-07', '00:00'))).toBe('2025-04-07')
+  })
+
+  it('covers Monday to the end of Sunday', () => {
+    const { start, end } = getWeekRange('2025-03-31')
+    expect(start).toBe(at('2025-03-31', '00:00'))
+    expect(end).toBe(at('2025-04-06', '23:59:59.999'))
+  })
+
+  it('moves between weeks and formats them', () => {
+    expect(shiftWeek('2025-03-31', 1)).toBe('2025-04-07')
+    expect(shiftWeek('2025-03-31', -1)).toBe('2025-03-24')
+    expect(formatWeek('2025-03-31')).toBe('Mar 31 – Apr 6, 2025')
+  })
+
+  it('submits drafts and rejected weeks only', () => {
+    expect(canSubmit(undefined)).toBe(true)
+    expect(canSubmit('draft')).toBe(true)
+    expect(canSubmit('rejected')).toBe(true)
+    expect(canSubmit('submitted')).toBe(false)
+    expect(canSubmit('approved')).toBe(false)
+  })
+
+  it('locks sessions of submitted and approved weeks in their organization', () => {
+    const timesheets = [timesheet('2025-03-31', 'submitted'), timesheet('2025-04-07', 'rejected'), timesheet('2025-03-24', 'approved')]
+    expect(isSessionLocked({ start: at('2025-04-02'), organizationId: 'org1' }, timesheets)).toBe(true)
+    expect(isSessionLocked({ start: at('2025-03-25'), organizationId: 'org1' }, timesheets)).toBe(true)
+    expect(isSessionLocked({ start: at('2025-04-08'), organizationId: 'org1' }, timesheets)).toBe(false)
+    expect(isSessionLocked({ start: at('2025-04-02'), organizationId: 'org2' }, timesheets)).toBe(false)
+    expect(isSessionLocked({ start: at('2025-04-02') }, timesheets)).toBe(false)
+  })
+})
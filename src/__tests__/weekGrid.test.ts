@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { formatHoursInput, getCellTotals, getWeekDays, parseHoursInput, planCellChange } from '../utils/weekGrid'
+
+const at = (day: string, time = '09:00') => new Date(`${day}T${time}`).getTime()
+const hours = (h: number) => h * 3600000
+
+describe('week grid', () => {
+  it('lists the days of a week', () => {
+    expect(getWeekDays('2025-03-31')).toEqual(['2025-03-31', '2025-04-01', '2025-04-02', '2025-04-03', '2025-04-04', '2025-04-05', '2025-04-06'])
+  })
+
+  it('totals time per project and day', () => {
+    const totals = getCellTotals([
+      { projectId: 'p1', start: at('2025-04-01'), durationMs: hours(1) },
+      { projectId: 'p1', start: at('2025-04-01', '14:00'), durationMs: hours(2) },
+      { projectId: 'p2', start: at('2025-04-02'), durationMs: hours(0.5) }
+    ])
+    expect(totals.get('p1')?.get('2025-04-01')).toBe(hours(3))
+    expect(totals.get('p2')?.get('2025-04-02')).toBe(hours(0.5))
+    expect(totals.get('p2')?.get('2025-04-01')).toBeUndefined()
+  })
+
+  it('reads decimal hours and hours and minutes', () => {
+    expect(parseHoursInput('1.5')).toBe(hours(1.5))
+    expect(parseHoursInput('.25')).toBe(hours(0.25))
+    expect(parseHoursInput('1:30')).toBe(hours(1.5))
+    expect(parseHoursInput(' ')).toBe(0)
+    expect(parseHoursInput('abc')).toBeNull()
+    expect(parseHoursInput('-1')).toBeNull()
+    expect(parseHoursInput('1:75')).toBeNull()
+  })
+
+  it('formats cell hours for typing over', () => {
+    expect(formatHoursInput(hours(1.5))).toBe('1.5')
+    expect(formatHoursInput(hours(2))).toBe('2')
+    expect(formatHoursInput(20 * 60000)).toBe('0.33')
+    expect(formatHoursInput(0)).toBe('')
+  })
+
+  it('creates a session for an empty cell and extends the latest one otherwise', () => {
+    expect(planCellChange([], hours(2))).toEqual({ create: hours(2), update: [], remove: [] })
+    const sessions = [
+      { id: 'b', start: at('2025-04-01', '14:00'), durationMs: hours(1) },
+      { id: 'a', start: at('2025-04-01'), durationMs: hours(2) }
+    ]
+    expect(planCellChange(sessions, hours(4))).toEqual({ update: [{ id: 'b', durationMs: hours(2) }], remove: [] })
+    expect(planCellChange(sessions, hours(3))).toEqual({ update: [], remove: [] })
+  })
+
+  it('trims from the latest session back', () => {
+    const sessions = [
+      { id: 'a', start: at('2025-04-01'), durationMs: hours(2) },
+      { id: 'b', start: at('2025-04-01', '14:00'), durationMs: hours(1) }
+    ]
+    expect(planCellChange(sessions, hours(1.5))).toEqual({ update: [{ id: 'a', durationMs: hours(1.5) }], remove: ['b'] })
+    expect(planCellChange(sessions, 0)).toEqual({ update: [], remove: ['b', 'a'] })
+  })
+})
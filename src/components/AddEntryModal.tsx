@@ -3,6 +3,8 @@ import { useSessionsStore } from '../store/sessions'
 import { useProjectsStore } from '../store/projects'
 import { useUIStore } from '../store/ui'
 import { formatDate, parseDurationToMs } from '../utils/time'
+import { isProjectBillable } from '../utils/billable'
+import { TagPicker } from './TagPicker'
 import dayjs from 'dayjs'
 
 export function AddEntryModal() {
@@ -11,24 +13,38 @@ export function AddEntryModal() {
   const { isAddEntryModalOpen, closeAddEntryModal, currentProjectId, showToast } = useUIStore()
 
   const [formData, setFormData] = useState({
-    projectId: 0,
+    projectId: '',
     date: formatDate(Date.now()),
     duration: '',
-    note: ''
+    note: '',
+    billable: true,
+    tags: [] as string[]
   })
 
   useEffect(() => {
     if (isAddEntryModalOpen) {
       // Set default values when modal opens
+      const projectId = currentProjectId || (projects.find(p => !p.archived)?.id || '')
       setFormData({
-        projectId: currentProjectId || (projects.find(p => !p.archived)?.id || 0),
+        projectId,
         date: formatDate(Date.now()),
         duration: '',
-        note: ''
+        note: '',
+        billable: isProjectBillable(projects.find(p => p.id === projectId)),
+        tags: []
       })
     }
   }, [isAddEntryModalOpen, currentProjectId, projects])
 
+  // Switching project picks up that project's billable default
+  const handleProjectChange = (projectId: string) => {
+    setFormData({
+      ...formData,
+      projectId,
+      billable: isProjectBillable(projects.find(p => p.id === projectId))
+    })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -59,7 +75,9 @@ export function AddEntryModal() {
         start,
         stop,
         durationMs,
-        note: formData.note.trim() || undefined
+        note: formData.note.trim() || undefined,
+        billable: formData.billable,
+        tags: formData.tags
       })
 
       showToast('Session added successfully', 'success')
@@ -115,11 +133,11 @@ export function AddEntryModal() {
   </label>
   <select
   value={formData.projectId}
-  onChange={(e) => setFormData({ ...formData, projectId: Number(e.target.value) })}
+  onChange={(e) => handleProjectChange(e.target.value)}
   className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
   required
   >
-  <option value={0}>Select a project...</option>
+  <option value="">Select a project...</option>
   {activeProjects.map(project => (
   <option key={project.id} value={project.id}>
   {project.name}
@@ -168,6 +186,26 @@ export function AddEntryModal() {
   />
   </div>
 
+  <div>
+  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+  Tags
+  </label>
+  <TagPicker value={formData.tags} onChange={(tags) => setFormData({ ...formData, tags })} />
+  </div>
+
+  <div className="flex items-center">
+  <input
+  id="add-entry-billable"
+  type="checkbox"
+  checked={formData.billable}
+  onChange={(e) => setFormData({ ...formData, billable: e.target.checked })}
+  className="h-4 w-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+  />
+  <label htmlFor="add-entry-billable" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+  Billable
+  </label>
+  </div>
+
   <div className="flex justify-end space-x-3 pt-4">
   <button
   type="button"
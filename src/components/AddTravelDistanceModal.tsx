@@ -28,9 +28,6 @@ export function AddTravelDistanceModal() {
 
   const selectedCustomer = useMemo(() => {
     if (!currentProject) return null;
-    if (currentProject.customerFirestoreId) {
-      return customers.find(c => c.firestoreId === currentProject.customerFirestoreId);
-    }
     return customers.find(c => c.id === currentProject.customerId);
   }, [currentProject, customers]);
 
@@ -39,8 +36,8 @@ export function AddTravelDistanceModal() {
       if (currentProject) {
         const projectCustomer = selectedCustomer;
         setFormData({
-          customerId: projectCustomer?.firestoreId?.toString() || projectCustomer?.id?.toString() || '',
-          projectId: currentProject.firestoreId?.toString() || currentProject.id?.toString() || '',
+          customerId: projectCustomer?.id || '',
+          projectId: currentProject.id,
           date: dayjs().format('YYYY-MM-DD'),
           distance: '',
           note: '',
@@ -76,7 +73,7 @@ export function AddTravelDistanceModal() {
 
     try {
       const dateTimestamp = dayjs(formData.date).startOf('day').valueOf();
-      const customerId = selectedCustomer?.firestoreId || selectedCustomer?.id;
+      const customerId = selectedCustomer?.id;
 
       if (!customerId) {
         showToast('Could not determine customer for this project', 'error');
@@ -84,11 +81,8 @@ export function AddTravelDistanceModal() {
       }
 
       const success = await createTravelEntry({
-        // Use the firestoreId if available, otherwise fall back to the local ID.
-        // The store logic will handle resolving this to the correct local project ID.
-        projectId: currentProject.firestoreId || currentProject.id!,
+        projectId: currentProject.id,
         customerId: customerId,
-        customerFirestoreId: currentProject.customerFirestoreId,
         date: dateTimestamp,
         distance: parseFloat(formData.distance),
         unit,
@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { db, Project } from '../db/dexie';
+import { useProjectsStore } from '../store/projects';
+import { useCustomersStore } from '../store/customers';
+import { useUIStore } from '../store/ui';
+import { getBurnDown } from '../utils/budget';
+import { getProjectCustomer } from '../utils/rounding';
+import { getCurrencySymbol } from '../utils/currency';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface BudgetBurnDownProps {
+  project: Project;
+}
+
+export function BudgetBurnDown({ project }: BudgetBurnDownProps) {
+  const { projects } = useProjectsStore();
+  const { customers } = useCustomersStore();
+  const { theme } = useUIStore();
+
+  const sessions = useLiveQuery(
+    () => project.id ? db.sessions.where('projectId').equals(project.id).toArray() : [],
+    [project.id]
+  );
+
+  const customer = getProjectCustomer(project.id!, projects, customers);
+  const burnDown = useMemo(
+    () => sessions ? getBurnDown(project, sessions, customer) : null,
+    [project, sessions, customer]
+  );
+
+  if (!burnDown) return null;
+
+  const isDark = theme === 'dark';
+  const textColor = isDark ? '#e5e7eb' : '#374151';
+  const gridColor = isDark ? '#374151' : '#e5e7eb';
+  const unitLabel = burnDown.unit === 'hours' ? 'Hours' : getCurrencySymbol(customer?.currency || 'CAD');
+
+  const data = {
+    labels: burnDown.labels,
+    datasets: [
+      {
+        label: 'Remaining',
+        data: burnDown.remaining,
+        borderColor: project.color,
+        backgroundColor: project.color,
+        pointRadius: 0,
+        tension: 0.1
+      },
+      ...(burnDown.ideal.length > 0 ? [{
+        label: 'Ideal',
+        data: burnDown.ideal,
+        borderColor: '#9ca3af',
+        backgroundColor: '#9ca3af',
+        borderDash: [4, 4],
+        pointRadius: 0
+      }] : [])
+    ]
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: 'top' as const, labels: { color: textColor } },
+      title: { display: true, text: `${project.name} Burn-down`, color: textColor }
+    },
+    scales: {
+      x: { ticks: { color: textColor, maxTicksLimit: 8 }, grid: { color: gridColor } },
+      y: {
+        title: { display: true, text: `Remaining (${unitLabel})`, color: textColor },
+        ticks: { color: textColor },
+        grid: { color: gridColor }
+      }
+    }
+  };
+
+  return (
+    <div className="h-48 mt-2">
+      <Line data={data} options={options} />
+    </div>
+  );
+}
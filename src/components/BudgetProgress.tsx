@@ -0,0 +1,68 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, Project } from '../db/dexie';
+import { useProjectsStore } from '../store/projects';
+import { useCustomersStore } from '../store/customers';
+import { useAuthStore } from '../store/auth';
+import { getBudgetUsage, hasBudget } from '../utils/budget';
+import { getProjectCustomer } from '../utils/rounding';
+import { formatCurrency } from '../utils/currency';
+
+interface BudgetProgressProps {
+  project: Project;
+  runningMs?: number; // Unsaved time from the running timer
+  compact?: boolean;
+}
+
+export function BudgetProgress({ project, runningMs = 0, compact = false }: BudgetProgressProps) {
+  const { projects } = useProjectsStore();
+  const { customers } = useCustomersStore();
+  // Usage comes from this device's sessions, so in an organization it is the user's own time only
+  const ownTimeOnly = !!useAuthStore(state => state.activeOrganization);
+
+  const sessions = useLiveQuery(
+    () => project.id ? db.sessions.where('projectId').equals(project.id).toArray() : [],
+    [project.id]
+  );
+
+  if (!hasBudget(project.budget) || !sessions) return null;
+
+  const customer = getProjectCustomer(project.id!, projects, customers);
+  const usage = getBudgetUsage(project, sessions, customer, runningMs);
+  if (!usage) return null;
+
+  const currency = customer?.currency || 'CAD';
+  const barColor = usage.percent >= 100 ? 'bg-red-500' : usage.percent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+
+  const parts: string[] = [];
+  if (usage.hoursBudget) {
+    parts.push(`${usage.hoursUsed.toFixed(1)} / ${usage.hoursBudget} h`);
+  }
+  if (usage.amountBudget) {
+    parts.push(`${formatCurrency(usage.amountUsed, currency)} / ${formatCurrency(usage.amountBudget, currency)}`);
+  }
+  const label = `${parts.join(' · ')}${project.budget?.resetMonthly ? ' this month' : ''}`;
+
+  return (
+    <div
+      className={compact ? 'mt-1' : 'mt-3'}
+      title={`${Math.round(usage.percent)}% of budget used${ownTimeOnly ? " by your own time. Teammates' time isn't counted." : ''}`}
+    >
+      <div className={`w-full bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden ${compact ? 'h-1' : 'h-2'}`}>
+        <div
+          className={`${barColor} h-full rounded-full transition-all`}
+          style={{ width: `${Math.min(usage.percent, 100)}%` }}
+          role="progressbar"
+          aria-valuenow={Math.round(usage.percent)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-label={`${project.name} budget`}
+        />
+      </div>
+      {!compact && (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 text-left">
+          Budget{ownTimeOnly ? ' (your time)' : ''}: {label} ({Math.round(usage.percent)}%)
+        </p>
+      )}
+    </div>
+  );
+}
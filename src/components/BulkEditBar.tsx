@@ -0,0 +1,241 @@
+// src/components/BulkEditBar.tsx
+
+import { useState } from 'react';
+import type { Session } from '../db/dexie';
+import { useSessionsStore } from '../store/sessions';
+import { useProjectsStore } from '../store/projects';
+import { useTimesheetsStore } from '../store/timesheets';
+import { useUIStore } from '../store/ui';
+import { isSessionLocked } from '../utils/timesheets';
+import { planBulkEdit, type BulkEdit } from '../utils/bulkEdit';
+
+type BulkAction = BulkEdit['type'] | 'delete';
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  project: 'Reassign Project',
+  note: 'Edit Note',
+  shift: 'Shift Times',
+  billable: 'Set Billable',
+  invoiced: 'Set Invoice Number',
+  delete: 'Delete',
+};
+
+interface BulkEditBarProps {
+  sessions: Session[];  // Every session the filters show
+  selectedIds: Set<string>;
+  onSelectedIdsChange: (ids: Set<string>) => void;
+}
+
+// Actions on the selected sessions, each saved in one batch and undone in one step
+export function BulkEditBar({ sessions, selectedIds, onSelectedIdsChange }: BulkEditBarProps) {
+  const { updateSessions, deleteSessions } = useSessionsStore();
+  const { projects } = useProjectsStore();
+  const timesheets = useTimesheetsStore(state => state.timesheets);
+  const { showConfirm, showToast } = useUIStore();
+
+  const [action, setAction] = useState<BulkAction>('project');
+  const [projectId, setProjectId] = useState('');
+  const [noteMode, setNoteMode] = useState<'set' | 'append'>('append');
+  const [noteText, setNoteText] = useState('');
+  const [shiftMinutes, setShiftMinutes] = useState('');
+  const [billable, setBillable] = useState(true);
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const selected = sessions.filter(s => selectedIds.has(s.id));
+  const deletable = selected.filter(s => !s.invoiceNumber);
+  const selectable = sessions.filter(s => !isSessionLocked(s, timesheets));
+
+  if (selected.length === 0) return null;
+
+  const getEdit = (): BulkEdit | string => {
+    switch (action) {
+      case 'project':
+        return projectId ? { type: 'project', projectId } : 'Choose a project';
+      case 'note':
+        return { type: 'note', mode: noteMode, text: noteText };
+      case 'shift': {
+        const minutes = Number(shiftMinutes);
+        return shiftMinutes.trim() && Number.isInteger(minutes) && minutes !== 0 ? { type: 'shift', minutes } : 'Enter the minutes to shift by, e.g. 30 or -15';
+      }
+      case 'billable':
+        return { type: 'billable', billable };
+      case 'invoiced':
+        return invoiceNumber.trim() ? { type: 'invoiced', invoiceNumber } : 'Enter an invoice number';
+      default:
+        return 'Choose an action';
+    }
+  };
+
+  const handleDelete = () => {
+    if (deletable.length === 0) {
+      showToast('Nothing to delete', 'info');
+      return;
+    }
+    showConfirm(
+      'Delete Sessions',
+      `Are you sure you want to delete ${deletable.length} sessions?`,
+      async () => {
+        setIsApplying(true);
+        try {
+          const deleted = await deleteSessions(deletable.map(s => s.id));
+          onSelectedIdsChange(new Set());
+          showToast(`Deleted ${deleted.length} sessions`, 'success', {
+            label: 'Undo',
+            onClick: async () => {
+              try {
+                await useSessionsStore.getState().restoreSessions(deleted);
+                showToast('Sessions restored', 'success');
+              } catch (error) {
+                showToast((error as Error).message, 'error');
+              }
+            }
+          });
+        } catch (error) {
+          showToast((error as Error).message, 'error');
+        } finally {
+          setIsApplying(false);
+        }
+      }
+    );
+  };
+
+  const handleApply = async () => {
+    if (action === 'delete') {
+      handleDelete();
+      return;
+    }
+    const edit = getEdit();
+    if (typeof edit === 'string') {
+      showToast(edit, 'error');
+      return;
+    }
+    const updates = planBulkEdit(selected, edit, timesheets);
+    if (updates.length === 0) {
+      showToast('Nothing to change', 'info');
+      return;
+    }
+
+    setIsApplying(true);
+    try {
+      const undo = await updateSessions(updates);
+      onSelectedIdsChange(new Set());
+      showToast(`Updated ${updates.length} sessions`, 'success', {
+        label: 'Undo',
+        onClick: async () => {
+          try {
+            await useSessionsStore.getState().updateSessions(undo, { allowOverlap: true });
+            showToast('Changes undone', 'success');
+          } catch (error) {
+            showToast((error as Error).message, 'error');
+          }
+        }
+      });
+    } catch (error) {
+      showToast((error as Error).message, 'error');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const inputClass = 'border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+        <span className="font-medium">{selected.length} selected</span>
+        {selected.length < selectable.length && (
+          <button
+            type="button"
+            onClick={() => onSelectedIdsChange(new Set(selectable.map(s => s.id)))}
+            className="text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Select all {selectable.length} filtered sessions
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onSelectedIdsChange(new Set())}
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Clear selection
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={action} onChange={(e) => setAction(e.target.value as BulkAction)} className={inputClass} aria-label="Bulk action">
+          {(Object.keys(ACTION_LABELS) as BulkAction[]).map(option => (
+            <option key={option} value={option}>{ACTION_LABELS[option]}</option>
+          ))}
+        </select>
+
+        {action === 'project' && (
+          <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass} aria-label="Project">
+            <option value="">Choose a project...</option>
+            {projects.filter(p => !p.archived).map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        )}
+
+        {action === 'note' && (
+          <>
+            <select value={noteMode} onChange={(e) => setNoteMode(e.target.value as 'set' | 'append')} className={inputClass} aria-label="Note mode">
+              <option value="append">Append</option>
+              <option value="set">Replace with</option>
+            </select>
+            <input
+              type="text"
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+              placeholder={noteMode === 'set' ? 'Leave empty to clear notes' : 'Text to add'}
+              className={`${inputClass} flex-1 min-w-[12rem]`}
+            />
+          </>
+        )}
+
+        {action === 'shift' && (
+          <input
+            type="number"
+            step={1}
+            value={shiftMinutes}
+            onChange={(e) => setShiftMinutes(e.target.value)}
+            placeholder="Minutes, e.g. -30"
+            className={`${inputClass} w-44`}
+            aria-label="Minutes to shift by"
+          />
+        )}
+
+        {action === 'billable' && (
+          <select value={billable ? 'yes' : 'no'} onChange={(e) => setBillable(e.target.value === 'yes')} className={inputClass} aria-label="Billable">
+            <option value="yes">Billable</option>
+            <option value="no">Non-billable</option>
+          </select>
+        )}
+
+        {action === 'invoiced' && (
+          <input
+            type="text"
+            value={invoiceNumber}
+            onChange={(e) => setInvoiceNumber(e.target.value)}
+            placeholder="Invoice number"
+            className={`${inputClass} w-64`}
+            aria-label="Invoice number"
+          />
+        )}
+
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isApplying}
+          className={`px-4 py-1.5 text-sm text-white rounded-md disabled:opacity-50 ${action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+        >
+          {action === 'delete' ? `Delete ${deletable.length} Sessions` : 'Apply'}
+        </button>
+      </div>
+      {selected.some(s => s.invoiceNumber) && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Invoiced sessions are left as they are. Void their invoice to change them.</p>
+      )}
+    </div>
+  );
+}
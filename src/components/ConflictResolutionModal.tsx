@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react'
+import { useConflictsStore, type ConflictDetails } from '../store/conflicts'
+import { useUIStore } from '../store/ui'
+import { chooseAll, formatConflictValue, formatFieldName, type ConflictChoice } from '../utils/conflicts'
+import { getCollectionLabel } from '../utils/outbox'
+
+// Short description of the record, e.g. "Session · 3/14/2026, 9:00:00 AM"
+function describeConflict({ conflict, mine }: ConflictDetails): string {
+  const label = getCollectionLabel(conflict.collection)
+  const title = mine.name ?? mine.companyName ?? mine.number ?? mine.note
+  if (typeof title === 'string' && title) return `${label} · ${title}`
+  const date = mine.start ?? mine.date
+  return typeof date === 'number' ? `${label} · ${new Date(date).toLocaleString()}` : label
+}
+
+interface ConflictResolutionModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function ConflictResolutionModal({ isOpen, onClose }: ConflictResolutionModalProps) {
+  const { conflicts, resolveConflict } = useConflictsStore()
+  const { showToast } = useUIStore()
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({})
+  const [isResolving, setIsResolving] = useState(false)
+
+  // One conflict at a time, oldest first
+  const current = conflicts[0]
+
+  useEffect(() => {
+    setChoices({})
+  }, [current?.conflict.id])
+
+  useEffect(() => {
+    if (isOpen && !current) {
+      onClose()
+    }
+  }, [isOpen, current, onClose])
+
+  if (!isOpen || !current) {
+    return null
+  }
+
+  const resolve = async (resolution: Record<string, ConflictChoice>) => {
+    setIsResolving(true)
+    await resolveConflict(current, resolution)
+    setIsResolving(false)
+    showToast('Conflict resolved', 'success')
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose()
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="conflict-title"
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 id="conflict-title" className="text-xl font-semibold text-gray-900 dark:text-white">
+            Sync Conflict {conflicts.length > 1 && <span className="text-sm font-normal text-gray-500 dark:text-gray-400">(1 of {conflicts.length})</span>}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          <span className="font-medium text-gray-900 dark:text-white">{describeConflict(current)}</span> was changed on this device and on another one.
+          Pick the version to keep for each field, or keep one version entirely.
+        </p>
+
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+              <tr>
+                <th scope="col" className="px-4 py-3">Field</th>
+                <th scope="col" className="px-4 py-3">This device</th>
+                <th scope="col" className="px-4 py-3">Other device</th>
+              </tr>
+            </thead>
+            <tbody>
+              {current.fields.map(({ field, mine, theirs }) => {
+                const choice = choices[field] || 'mine'
+                return (
+                  <tr key={field} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+                    <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{formatFieldName(field)}</td>
+                    {(['mine', 'theirs'] as const).map(side => (
+                      <td key={side} className="px-4 py-3">
+                        <label className={`flex items-start gap-2 p-2 rounded cursor-pointer ${choice === side ? 'bg-blue-50 dark:bg-blue-900/30' : ''}`}>
+                          <input
+                            type="radio"
+                            name={`conflict-${field}`}
+                            checked={choice === side}
+                            onChange={() => setChoices({ ...choices, [field]: side })}
+                            className="mt-1"
+                          />
+                          <span className="break-all">{formatConflictValue(field, side === 'mine' ? mine : theirs)}</span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            onClick={() => resolve(chooseAll(current.fields, 'mine'))}
+            disabled={isResolving}
+            className="px-4 py-2 bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-400 dark:hover:bg-gray-500 disabled:opacity-50"
+          >
+            Keep mine
+          </button>
+          <button
+            onClick={() => resolve(chooseAll(current.fields, 'theirs'))}
+            disabled={isResolving}
+            className="px-4 py-2 bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-400 dark:hover:bg-gray-500 disabled:opacity-50"
+          >
+            Keep theirs
+          </button>
+          <button
+            onClick={() => resolve(choices)}
+            disabled={isResolving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Merge selected
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
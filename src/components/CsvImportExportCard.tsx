@@ -1,30 +1,40 @@
  // src/components/CsvImportExportCard.tsx
-import React from 'react';
+import React, { useState } from 'react';
 import { db as dexieDB } from '../db/dexie';
 import { useProjectsStore } from '../store/projects';
+import { useCustomersStore } from '../store/customers';
 import { useUIStore } from '../store/ui';
 import { useAuthStore } from '../store/auth';
+import { useNotificationSettingsStore } from '../store/notificationSettings';
+import { useTimesheetsStore } from '../store/timesheets';
 import { formatDurationHours, formatDate } from '../utils/time';
+import { filterBillableSessions, isSessionBillable } from '../utils/billable';
+import { getRoundedDurationsByCustomer } from '../utils/rounding';
+import { findOverlapping } from '../utils/overlaps';
 import Papa from 'papaparse';
 import { db as firestoreDB } from '../firebase';
 import { collection, addDoc, getDocs, query, where } from 'firebase/firestore';
 
 export function CsvImportExportCard() {
     const { projects } = useProjectsStore();
+    const { customers } = useCustomersStore();
     const { showToast } = useUIStore();
-    const { user } = useAuthStore();
+    const { user, activeOrganization } = useAuthStore();
+    const [billableOnly, setBillableOnly] = useState(false);
 
     const exportCSV = async () => {
-        const allSessions = await dexieDB.sessions.toArray();
+        const storedSessions = await dexieDB.sessions.toArray();
+        const allSessions = billableOnly ? filterBillableSessions(storedSessions, projects) : storedSessions;
 
         if (allSessions.length === 0) {
-          showToast('No sessions to export', 'info');
+          showToast(billableOnly ? 'No billable sessions to export' : 'No sessions to export', 'info');
           return;
         }
 
         const projectMap = new Map(projects.map(p => [p.id, p.name]));
+        const rounded = getRoundedDurationsByCustomer(allSessions, projects, customers);
 
-        const headers = ['Date', 'Start', 'Stop', 'Duration (hours)', 'Project', 'Note'];
+        const headers = ['Date', 'Start', 'Stop', 'Duration (hours)', 'Project', 'Note', 'Billable', 'Rounded (hours)'];
         const rows = allSessions.map(session => {
           const projectName = projectMap.get(session.projectId) || 'Unknown';
           return [
@@ -33,7 +43,9 @@ export function CsvImportExportCard() {
             session.stop ? new Date(session.stop).toLocaleTimeString() : '',
             formatDurationHours(session.durationMs),
             projectName,
-            session.note || ''
+            session.note || '',
+            isSessionBillable(session, projects) ? 'Yes' : 'No',
+            formatDurationHours(rounded.get(session) ?? session.durationMs)
           ];
         });
 
@@ -45,13 +57,13 @@ export function CsvImportExportCard() {
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `buztracker-sessions-all-${formatDate(Date.now())}.csv`;
+        a.download = `buztracker-sessions-${billableOnly ? 'billable' : 'all'}-${formatDate(Date.now())}.csv`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
 
-        showToast('All sessions exported to CSV', 'success');
+        showToast(billableOnly ? 'Billable sessions exported to CSV' : 'All sessions exported to CSV', 'success');
     };
 
     const importCSV = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -98,6 +110,8 @@ export function CsvImportExportCard() {
                 stop,
                 durationMs,
                 note: row['Note'] || '',
+                // Older exports have no Billable column; leave those to the project default
+                billable: row['Billable'] ? row['Billable'].trim().toLowerCase() !== 'no' : undefined,
               };
             }).filter(Boolean);
 
@@ -106,22 +120,52 @@ export function CsvImportExportCard() {
               return;
             }
 
+            // Weeks signed off in the active organization take no more time
+            const { isSessionLocked } = useTimesheetsStore.getState();
+            const unlockedSessions = importedSessions.filter(session => !isSessionLocked({ start: session.start, organizationId: activeOrganization ?? undefined }));
+            const locked = importedSessions.length - unlockedSessions.length;
+
+            // Unless the user allows overlaps, leave out sessions overlapping time already logged or imported
+            let sessionsToImport = unlockedSessions;
+            if (!useNotificationSettingsStore.getState().settings.allowOverlaps) {
+              const existingSessions = await dexieDB.sessions.toArray();
+              sessionsToImport = [];
+              for (const session of unlockedSessions) {
+                if (findOverlapping(session, [...existingSessions, ...sessionsToImport]).length === 0) {
+                  sessionsToImport.push(session);
+                }
+              }
+            }
+            const skipped = unlockedSessions.length - sessionsToImport.length;
+            const lockedNote = locked > 0 ? ` Skipped ${locked} on submitted or approved timesheets.` : '';
+            if (sessionsToImport.length === 0) {
+              showToast(skipped > 0
+                ? `All ${skipped} sessions overlap time you already logged. Nothing was imported.${lockedNote}`
+                : `Nothing was imported.${lockedNote}`, 'info');
+              return;
+            }
+
             try {
               const db = firestoreDB;
               if (!db) {
                 throw new Error("Firestore is not initialized");
               }
 
-              const projectsCol = collection(db, 'users', user.uid, 'projects');
+              // Projects are shared with the organization the user is in
+              const projectsCol = activeOrganization
+                ? collection(db, 'organizations', activeOrganization, 'projects')
+                : collection(db, 'users', user.uid, 'projects');
               const sessionsCol = collection(db, 'users', user.uid, 'sessions');
 
-              for (const session of importedSessions) {
+              for (const session of sessionsToImport) {
                 const q = query(projectsCol, where("name", "==", session.projectName));
                 const querySnapshot = await getDocs(q);
+                // Deleted projects stay behind as tombstones for a while
+                const existingProject = querySnapshot.docs.find(d => !d.data().deletedAt);
 
                 let projectId: string;
 
-                if (querySnapshot.empty) {
+                if (!existingProject) {
                   const newProject = {
                     name: session.projectName,
                     color: `#${Math.floor(Math.random()*16777215).toString(16)}`,
@@ -131,7 +175,7 @@ export function CsvImportExportCard() {
                   const docRef = await addDoc(projectsCol, newProject);
                   projectId = docRef.id;
                 } else {
-                  projectId = querySnapshot.docs[0].id;
+                  projectId = existingProject.id;
                 }
 
                 const newSession = {
@@ -140,13 +184,18 @@ export function CsvImportExportCard() {
                   stop: session.stop,
                   durationMs: session.durationMs,
                   note: session.note,
-                  createdAt: Date.now()
+                  createdAt: Date.now(),
+                  ...(session.billable !== undefined ? { billable: session.billable } : {})
                 };
 
                 await addDoc(sessionsCol, newSession);
               }
 
-              showToast(`Successfully imported ${importedSessions.length} sessions to Firestore.`, 'success');
+              showToast(
+                `Successfully imported ${sessionsToImport.length} sessions to Firestore.` +
+                (skipped > 0 ? ` Skipped ${skipped} that overlap time you already logged.` : '') + lockedNote,
+                'success'
+              );
             } catch(error) {
               console.error("Import error:", error);
               showToast('Failed to import sessions to Firestore', 'error');
@@ -164,12 +213,21 @@ export function CsvImportExportCard() {
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
                 Export all your session data to a CSV file, or import sessions from a previously exported file.
             </p>
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300 mb-4">
+                <input
+                    type="checkbox"
+                    checked={billableOnly}
+                    onChange={(e) => setBillableOnly(e.target.checked)}
+                    className="h-4 w-4 mr-2 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+                />
+                Export billable time only
+            </label>
             <div className="flex flex-wrap gap-3">
                 <button
                     onClick={exportCSV}
                     className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors text-sm"
                 >
-                    Export All to CSV
+                    {billableOnly ? 'Export Billable to CSV' : 'Export All to CSV'}
                 </button>
                 <label
                     className={`px-4 py-2 bg-purple-600 text-white rounded-md transition-colors text-sm ${
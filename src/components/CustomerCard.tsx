@@ -6,7 +6,10 @@ import { useCustomersStore } from '../store/customers';
 import { useUIStore } from '../store/ui';
 import { formatAddressMultiline } from '../utils/customer';
 import { formatRate } from '../utils/currency';
+import { describeRoundingRule, hasRounding } from '../utils/rounding';
 import { CustomerProjectManager } from './CustomerProjectManager';
+import { SyncBadge } from './SyncBadge';
+import { useCan } from '../hooks/useCan';
 
 interface CustomerCardProps {
   customer: Customer;
@@ -17,17 +20,12 @@ export function CustomerCard({ customer, onEdit }: CustomerCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const { archiveCustomer, deleteCustomer } = useCustomersStore();
   const { showConfirm, showToast } = useUIStore();
+  const can = useCan();
 
   // Get projects linked to this customer
   const projects = useLiveQuery(
-    () => {
-      if (!customer.firestoreId) {
-        // Fallback to customerId for backward compatibility
-        return db.projects.where('customerId').equals(customer.id!).toArray();
-      }
-      return db.projects.where('customerFirestoreId').equals(customer.firestoreId).toArray();
-    },
-    [customer.id, customer.firestoreId]
+    () => db.projects.where('customerId').equals(customer.id).toArray(),
+    [customer.id]
   );
 
   const projectCount = projects?.length || 0;
@@ -89,6 +87,7 @@ export function CustomerCard({ customer, onEdit }: CustomerCardProps) {
                   Archived
                 </span>
               )}
+              <span className="ml-2 align-middle"><SyncBadge collection="customers" recordId={customer.id} /></span>
             </h3>
             <p className="text-sm text-gray-600 dark:text-gray-400">
               {addressLines[0] || 'No address'}
@@ -119,7 +118,7 @@ export function CustomerCard({ customer, onEdit }: CustomerCardProps) {
               </svg>
             </button>
 
-            {projectCount === 0 && !customer.archived && (
+            {projectCount === 0 && !customer.archived && can('deleteCustomers') && (
               <button
                 onClick={handleDelete}
                 className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
@@ -166,6 +165,18 @@ export function CustomerCard({ customer, onEdit }: CustomerCardProps) {
               {formatRate(customer.perDiemRate || 0, customer.currency || 'CAD')}/day
             </span>
           )}
+
+          {customer.taxExempt && (
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300">
+              Tax exempt
+            </span>
+          )}
+
+          {hasRounding(customer.rounding) && (
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300">
+              {describeRoundingRule(customer.rounding)}
+            </span>
+          )}
         </div>
 
         {/* Expand/Collapse Button */}
@@ -223,17 +234,14 @@ export function CustomerCard({ customer, onEdit }: CustomerCardProps) {
               </div>
             </div>
             {/* Linked Projects */}
-            {customer.firestoreId && (
-              <div>
-                <CustomerProjectManager
-                  customerFirestoreId={customer.firestoreId}
-                  customerId={customer.id!}
-                  customerName={customer.companyName}
-                  customerArchived={customer.archived || false}
-                  projects={projects || []}
-                />
-              </div>
-            )}
+            <div>
+              <CustomerProjectManager
+                customerId={customer.id}
+                customerName={customer.companyName}
+                customerArchived={customer.archived || false}
+                projects={projects || []}
+              />
+            </div>
           </div>
         )}
       </div>
@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
-import { Customer, Contact } from '../db/dexie';
+import { Customer, Contact, RoundingRule } from '../db/dexie';
 import { useCustomersStore } from '../store/customers';
 import { useUIStore } from '../store/ui';
 import { CURRENCIES } from '../utils/currency';
 import { isValidEmail } from '../utils/customer';
+import { DEFAULT_ROUNDING_RULE } from '../utils/rounding';
+import { withoutCustomerRates } from '../utils/permissions';
+import { useCan } from '../hooks/useCan';
+
+const ROUNDING_INCREMENTS = [0, 1, 5, 6, 10, 15, 30, 60];
 
 interface CustomerFormModalProps {
   isOpen: boolean;
@@ -14,6 +19,9 @@ interface CustomerFormModalProps {
 export function CustomerFormModal({ isOpen, onClose, customer }: CustomerFormModalProps) {
   const { addCustomer, updateCustomer } = useCustomersStore();
   const { showToast } = useUIStore();
+  const can = useCan();
+  // Setting rates takes editCustomerRates, on new customers too
+  const ratesLocked = !can('editCustomerRates');
 
   // Form state
   const [companyName, setCompanyName] = useState('');
@@ -29,6 +37,10 @@ export function CustomerFormModal({ isOpen, onClose, customer }: CustomerFormMod
   const [distanceRate, setDistanceRate] = useState('0.7');
   const [perDiemRate, setPerDiemRate] = useState('0');
   const [currency, setCurrency] = useState('CAD');
+  const [taxExempt, setTaxExempt] = useState(false);
+  const [taxExemptNumber, setTaxExemptNumber] = useState('');
+  const [rounding, setRounding] = useState<RoundingRule>(DEFAULT_ROUNDING_RULE);
+  const [minimumMinutes, setMinimumMinutes] = useState('0');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Load customer data when editing
@@ -47,6 +59,10 @@ export function CustomerFormModal({ isOpen, onClose, customer }: CustomerFormMod
       setDistanceRate(customer.distanceRate?.toString() || '0.7');
       setPerDiemRate(customer.perDiemRate?.toString() || '0');
       setCurrency(customer.currency || 'CAD');
+      setTaxExempt(customer.taxExempt || false);
+      setTaxExemptNumber(customer.taxExemptNumber || '');
+      setRounding(customer.rounding || DEFAULT_ROUNDING_RULE);
+      setMinimumMinutes(customer.rounding?.minimumMinutes.toString() || '0');
     } else {
       // Reset form for new customer
       setCompanyName('');
@@ -62,6 +78,10 @@ export function CustomerFormModal({ isOpen, onClose, customer }: CustomerFormMod
       setDistanceRate('0.7');
       setPerDiemRate('0');
       setCurrency('CAD');
+      setTaxExempt(false);
+      setTaxExemptNumber('');
+      setRounding(DEFAULT_ROUNDING_RULE);
+      setMinimumMinutes('0');
     }
   }, [customer, isOpen]);
 
@@ -119,6 +139,10 @@ export function CustomerFormModal({ isOpen, onClose, customer }: CustomerFormMod
     if (isNaN(pdRate) || pdRate < 0) {
       return 'Per diem rate must be a positive number';
     }
+    const minMinutes = parseInt(minimumMinutes, 10);
+    if (isNaN(minMinutes) || minMinutes < 0) {
+      return 'Minimum charge must be zero or more minutes';
+    }
 
     return null;
   };
@@ -152,11 +176,14 @@ export function CustomerFormModal({ isOpen, onClose, customer }: CustomerFormMod
         distanceRate: parseFloat(distanceRate),
         perDiemRate: parseFloat(perDiemRate),
         currency,
+        taxExempt,
+        taxExemptNumber: taxExempt ? taxExemptNumber.trim() : '',
+        rounding: { ...rounding, minimumMinutes: parseInt(minimumMinutes, 10) },
         archived: customer?.archived || false,
       };
 
       if (customer?.id) {
-        await updateCustomer(customer.id, customerData);
+        await updateCustomer(customer.id, ratesLocked ? withoutCustomerRates(customerData) : customerData);
         showToast('Customer updated successfully', 'success');
       } else {
         await addCustomer(customerData);
@@ -359,8 +386,11 @@ export function CustomerFormModal({ isOpen, onClose, customer }: CustomerFormMod
           </div>
 
           {/* Rates Section */}
-          <div className="space-y-4">
+          <fieldset className="space-y-4" disabled={ratesLocked}>
             <h3 className="text-lg font-medium text-gray-900 dark:text-white">Rates</h3>
+            {ratesLocked && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Only owners and admins can set rates.</p>
+            )}
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -456,7 +486,105 @@ export function CustomerFormModal({ isOpen, onClose, customer }: CustomerFormMod
                 placeholder="0"
               />
             </div>
-          </div>
+
+            <div>
+              <label className="flex items-center gap-2 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={taxExempt}
+                  onChange={(e) => setTaxExempt(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+                />
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Tax exempt</span>
+              </label>
+              {taxExempt && (
+                <input
+                  type="text"
+                  value={taxExemptNumber}
+                  onChange={(e) => setTaxExemptNumber(e.target.value)}
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Exemption certificate or status number"
+                />
+              )}
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                GST/HST, PST and QST are worked out from this customer's province and country. Customers outside Canada are not taxed.
+              </p>
+            </div>
+          </fieldset>
+
+          {/* Time Rounding */}
+          <fieldset className="space-y-4" disabled={ratesLocked}>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Time Rounding</h3>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Increment
+                </label>
+                <select
+                  value={rounding.incrementMinutes}
+                  onChange={(e) => setRounding({ ...rounding, incrementMinutes: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {ROUNDING_INCREMENTS.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? 'No rounding' : `${minutes} minutes`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Direction
+                </label>
+                <select
+                  value={rounding.direction}
+                  onChange={(e) => setRounding({ ...rounding, direction: e.target.value as RoundingRule['direction'] })}
+                  disabled={rounding.incrementMinutes === 0}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                >
+                  <option value="up">Round up</option>
+                  <option value="nearest">Round to nearest</option>
+                  <option value="down">Round down</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Apply To
+                </label>
+                <select
+                  value={rounding.scope}
+                  onChange={(e) => setRounding({ ...rounding, scope: e.target.value as RoundingRule['scope'] })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="session">Each session</option>
+                  <option value="day">Each day's total</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Minimum Charge (minutes)
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={minimumMinutes}
+                  onChange={(e) => setMinimumMinutes(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="0"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Rounding only affects reports, exports and invoices for this customer. Tracked session times are kept as recorded.
+            </p>
+          </fieldset>
 
           {/* Form Actions */}
           <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
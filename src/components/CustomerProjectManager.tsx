@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useProjectsStore } from '../store/projects';
 import { useUIStore } from '../store/ui';
 import { Project } from '../db/dexie';
+import { useCan } from '../hooks/useCan';
 
 const COLORS = [
   '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6',
@@ -10,16 +11,16 @@ const COLORS = [
 ];
 
 interface CustomerProjectManagerProps {
-  customerFirestoreId: string;
-  customerId: number;
+  customerId: string;
   customerName: string;  // Add customer name for better context in dialogs
   customerArchived: boolean;  // Add customer archived state
   projects: Project[];
 }
 
-export function CustomerProjectManager({ customerFirestoreId, customerId, customerName, customerArchived, projects }: CustomerProjectManagerProps) {
+export function CustomerProjectManager({ customerId, customerName, customerArchived, projects }: CustomerProjectManagerProps) {
   const { createProject, updateProject, deleteProject, archiveProject } = useProjectsStore();
   const { showConfirm, showToast } = useUIStore();
+  const can = useCan();
   const [isCreating, setIsCreating] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [formData, setFormData] = useState({ name: '', color: COLORS[0] });
@@ -43,8 +44,7 @@ export function CustomerProjectManager({ customerFirestoreId, customerId, custom
         await updateProject(editingProject.id!, {
           name: formData.name.trim(),
           color: formData.color,
-          customerId: customerId,
-          customerFirestoreId: customerFirestoreId
+          customerId: customerId
         });
         showToast('Project updated', 'success');
       } else {
@@ -52,7 +52,6 @@ export function CustomerProjectManager({ customerFirestoreId, customerId, custom
           name: formData.name.trim(),
           color: formData.color,
           customerId: customerId,
-          customerFirestoreId: customerFirestoreId,
           archived: false
         });
         showToast('Project created', 'success');
@@ -88,8 +87,12 @@ export function CustomerProjectManager({ customerFirestoreId, customerId, custom
       'Delete Project',
       `Are you sure you want to delete "${project.name}" from ${customerName}?\n\nThis will also delete all associated time sessions.\n\nThis action cannot be undone.`,
       async () => {
-        await deleteProject(project.id!);
-        showToast('Project deleted', 'success');
+        try {
+          await deleteProject(project.id!);
+          showToast('Project deleted', 'success');
+        } catch (error) {
+          showToast((error as Error).message, 'error');
+        }
       },
       undefined,
       confirmText
@@ -234,16 +237,18 @@ export function CustomerProjectManager({ customerFirestoreId, customerId, custom
                     </svg>
                   </button>
 
-                  <button
-                    onClick={() => handleDelete(project)}
-                    className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors p-1"
-                    aria-label="Delete project"
-                    title="Delete project"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                  </button>
+                  {can('deleteProjects') && (
+                    <button
+                      onClick={() => handleDelete(project)}
+                      className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors p-1"
+                      aria-label="Delete project"
+                      title="Delete project"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -296,16 +301,18 @@ export function CustomerProjectManager({ customerFirestoreId, customerId, custom
                       </svg>
                     </button>
 
-                    <button
-                      onClick={() => handleDelete(project)}
-                      className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors p-1"
-                      aria-label="Delete project"
-                      title="Delete project"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
+                    {can('deleteProjects') && (
+                      <button
+                        onClick={() => handleDelete(project)}
+                        className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors p-1"
+                        aria-label="Delete project"
+                        title="Delete project"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
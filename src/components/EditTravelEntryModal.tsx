@@ -20,7 +20,6 @@ const EditTravelEntryModal: React.FC<EditTravelEntryModalProps> = ({ entry, onCl
   const [formData, setFormData] = useState({
     date: formatDate(entry.date),
     customerId: entry.customerId,
-    customerFirestoreId: entry.customerFirestoreId,
     projectId: entry.projectId,
     distance: entry.distance,
     unit: entry.unit,
@@ -43,13 +42,12 @@ const EditTravelEntryModal: React.FC<EditTravelEntryModalProps> = ({ entry, onCl
     setFormData(prev => ({ ...prev, [name]: value }));
 
     if (name === 'customerId') {
-        const selectedCustomer = customers.find(c => c.id === Number(value));
+        const selectedCustomer = customers.find(c => c.id === value);
         if (selectedCustomer) {
             setFormData(prev => ({
                 ...prev,
-                customerFirestoreId: selectedCustomer.firestoreId,
                 // Automatically select the first project associated with the customer
-                projectId: projects.find(p => p.customerId === selectedCustomer.id || p.customerFirestoreId === selectedCustomer.firestoreId)?.id || 0
+                projectId: projects.find(p => p.customerId === selectedCustomer.id)?.id || ''
             }));
         }
     }
@@ -64,7 +62,6 @@ const EditTravelEntryModal: React.FC<EditTravelEntryModalProps> = ({ entry, onCl
         ...formData,
         date: new Date(formData.date).getTime(),
         distance: Number(formData.distance),
-        customerId: Number(formData.customerId),
       });
       showToast('Travel entry updated successfully', 'success');
       onClose();
@@ -82,7 +79,7 @@ const EditTravelEntryModal: React.FC<EditTravelEntryModalProps> = ({ entry, onCl
     }
   };
 
-  const availableProjects = projects.filter(p => !p.archived && (p.customerId === formData.customerId || p.customerFirestoreId === formData.customerFirestoreId));
+  const availableProjects = projects.filter(p => !p.archived && p.customerId === formData.customerId);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-25 dark:bg-opacity-50 flex items-center justify-center z-50 modal-backdrop" onKeyDown={handleKeyDown}>
@@ -0,0 +1,312 @@
+import { useState, useMemo } from 'react';
+import dayjs from 'dayjs';
+import { Expense, ExpenseCategory } from '../db/dexie';
+import { useExpensesStore } from '../store/expenses';
+import { useProjectsStore } from '../store/projects';
+import { useCustomersStore } from '../store/customers';
+import { useUIStore } from '../store/ui';
+import { CURRENCIES } from '../utils/currency';
+import { isProjectBillable } from '../utils/billable';
+import { getProjectCustomer } from '../utils/rounding';
+import { EXPENSE_CATEGORIES, MAX_RECEIPT_BYTES } from '../utils/expense';
+
+interface ExpenseFormModalProps {
+  expense?: Expense | null;  // Edit this expense, or add a new one when unset
+  onClose: () => void;
+}
+
+export function ExpenseFormModal({ expense, onClose }: ExpenseFormModalProps) {
+  const { projects } = useProjectsStore();
+  const { customers } = useCustomersStore();
+  const { createExpense, updateExpense } = useExpensesStore();
+  const { showToast, currentProjectId } = useUIStore();
+
+  const activeProjects = useMemo(() => projects.filter(p => !p.archived), [projects]);
+  const initialProject = expense
+    ? projects.find(p => p.id === expense.projectId)
+    : activeProjects.find(p => p.id === currentProjectId) || activeProjects[0];
+
+  const [formData, setFormData] = useState({
+    projectId: initialProject?.id || '',
+    date: dayjs(expense?.date).format('YYYY-MM-DD'),
+    category: expense?.category || 'parking' as ExpenseCategory,
+    description: expense?.description || '',
+    amount: expense ? expense.amount.toString() : '',
+    taxPaid: expense ? expense.taxPaid.toString() : '',
+    currency: expense?.currency || (initialProject?.id ? getProjectCustomer(initialProject.id, projects, customers)?.currency : undefined) || 'CAD',
+    billable: expense ? expense.billable : isProjectBillable(initialProject),
+    markupPercent: expense ? expense.markupPercent.toString() : '0',
+  });
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [removeReceipt, setRemoveReceipt] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isInvoiced = !!expense?.invoiceNumber;
+
+  // Default currency and billable flag follow the selected project
+  const handleProjectChange = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    const customer = project?.id ? getProjectCustomer(project.id, projects, customers) : undefined;
+    setFormData(prev => ({
+      ...prev,
+      projectId,
+      currency: expense ? prev.currency : customer?.currency || prev.currency,
+      billable: expense ? prev.billable : isProjectBillable(project),
+    }));
+  };
+
+  const handleReceiptChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    if (file && !file.type.startsWith('image/')) {
+      showToast('Receipts must be an image', 'error');
+      e.target.value = '';
+      return;
+    }
+    if (file && file.size > MAX_RECEIPT_BYTES) {
+      showToast('Receipt image must be smaller than 10 MB', 'error');
+      e.target.value = '';
+      return;
+    }
+    setReceiptFile(file);
+    setRemoveReceipt(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(formData.amount);
+    const taxPaid = formData.taxPaid ? parseFloat(formData.taxPaid) : 0;
+    const markupPercent = formData.markupPercent ? parseFloat(formData.markupPercent) : 0;
+
+    if (!formData.projectId) {
+      showToast('Please select a project', 'error');
+      return;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      showToast('Please enter a valid amount', 'error');
+      return;
+    }
+    if (isNaN(taxPaid) || taxPaid < 0 || taxPaid > amount) {
+      showToast('Tax paid must be between 0 and the amount', 'error');
+      return;
+    }
+    if (isNaN(markupPercent) || markupPercent < 0) {
+      showToast('Markup must be zero or more', 'error');
+      return;
+    }
+
+    const data = {
+      projectId: formData.projectId,
+      date: dayjs(formData.date).startOf('day').valueOf(),
+      category: formData.category,
+      description: formData.description.trim(),
+      amount,
+      currency: formData.currency,
+      taxPaid,
+      billable: formData.billable,
+      markupPercent,
+    };
+
+    setIsSaving(true);
+    const success = expense?.id
+      ? await updateExpense(expense.id, data, removeReceipt ? null : receiptFile || undefined)
+      : await createExpense(data, receiptFile || undefined);
+    setIsSaving(false);
+
+    if (success) {
+      showToast(expense ? 'Expense updated' : 'Expense added', 'success');
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onClose();
+    else if (e.key === 'Enter' && e.ctrlKey) handleSubmit(e as any);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-60';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+            {expense ? 'Edit Expense' : 'Add Expense'}
+          </h2>
+          {isInvoiced && (
+            <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
+              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                Billed on invoice {expense?.invoiceNumber}. Void the invoice to change the amounts.
+              </p>
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className={labelClass}>
+                Project <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={formData.projectId}
+                onChange={(e) => handleProjectChange(e.target.value)}
+                className={inputClass}
+                required
+              >
+                <option value="">Select a project</option>
+                {activeProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>
+                  Date <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Category</label>
+                <select
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value as ExpenseCategory })}
+                  className={inputClass}
+                >
+                  {EXPENSE_CATEGORIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className={labelClass}>
+                  Amount <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  className={inputClass}
+                  disabled={isInvoiced}
+                  required
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Tax paid</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.taxPaid}
+                  onChange={(e) => setFormData({ ...formData, taxPaid: e.target.value })}
+                  className={inputClass}
+                  disabled={isInvoiced}
+                  placeholder="0.00"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Currency</label>
+                <select
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  className={inputClass}
+                  disabled={isInvoiced}
+                >
+                  {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+                </select>
+              </div>
+            </div>
+            <p className="-mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Enter the receipt total including tax. Tax paid is left out when the expense is billed.
+            </p>
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <label className="flex items-center text-sm text-gray-700 dark:text-gray-300 pb-2">
+                <input
+                  type="checkbox"
+                  checked={formData.billable}
+                  onChange={(e) => setFormData({ ...formData, billable: e.target.checked })}
+                  disabled={isInvoiced}
+                  className="h-4 w-4 mr-2 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+                />
+                Bill to customer
+              </label>
+              <div>
+                <label className={labelClass}>Markup (%)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={formData.markupPercent}
+                  onChange={(e) => setFormData({ ...formData, markupPercent: e.target.value })}
+                  className={inputClass}
+                  disabled={isInvoiced || !formData.billable}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className={`${inputClass} resize-none`}
+                rows={2}
+                placeholder="Optional, e.g. vendor or what was bought"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Receipt</label>
+              {expense?.receiptUrl && !removeReceipt && !receiptFile && (
+                <div className="flex items-center gap-3 mb-2 text-sm">
+                  <a href={expense.receiptUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                    View current receipt
+                  </a>
+                  <button
+                    type="button"
+                    onClick={() => setRemoveReceipt(true)}
+                    className="text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handleReceiptChange}
+                className="w-full text-sm text-gray-700 dark:text-gray-300"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Photo of the receipt, up to 10 MB. Uploaded when signed in and online.
+              </p>
+            </div>
+            <div className="flex justify-end gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : expense ? 'Save Changes' : 'Add Expense'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Expense } from '../db/dexie';
+import { useExpensesStore } from '../store/expenses';
+import { useCustomersStore } from '../store/customers';
+import { useProjectsStore } from '../store/projects';
+import { useUIStore } from '../store/ui';
+import { formatCurrency } from '../utils/currency';
+import { getProjectCustomer } from '../utils/rounding';
+import { getExpenseBillableAmount, getExpenseCategoryLabel, getExpenseTotals } from '../utils/expense';
+import { ExpenseFormModal } from './ExpenseFormModal';
+
+interface ExpenseLogProps {
+  expenses: Expense[];
+}
+
+export function ExpenseLog({ expenses }: ExpenseLogProps) {
+  const { deleteExpense } = useExpensesStore();
+  const { customers } = useCustomersStore();
+  const { projects } = useProjectsStore();
+  const { showConfirm, showToast } = useUIStore();
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const sortedExpenses = [...expenses].sort((a, b) => b.date - a.date);
+  const totals = getExpenseTotals(expenses);
+
+  const findProject = (projectId: string) => {
+    return projects.find(p => p.id === projectId);
+  };
+
+  const handleDelete = (expense: Expense) => {
+    if (expense.invoiceNumber) {
+      showToast(`This expense is billed on invoice ${expense.invoiceNumber}. Void the invoice first.`, 'error');
+      return;
+    }
+    showConfirm(
+      'Delete Expense',
+      `Are you sure you want to delete this ${getExpenseCategoryLabel(expense.category).toLowerCase()} expense of ${formatCurrency(expense.amount, expense.currency)}?`,
+      async () => {
+        if (expense.id) {
+          await deleteExpense(expense.id);
+          showToast('Expense deleted', 'success');
+        }
+      }
+    );
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap justify-between items-center gap-3 px-6 py-4">
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          {Object.keys(totals).length > 0
+            ? <>Total: {Object.entries(totals).map(([currency, total]) => formatCurrency(total, currency)).join(' · ')}</>
+            : 'No expenses'}
+        </div>
+        <button
+          onClick={() => setIsAdding(true)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+        >
+          Add Expense
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+            <tr>
+              <th scope="col" className="px-6 py-3">Date</th>
+              <th scope="col" className="px-6 py-3">Category</th>
+              <th scope="col" className="px-6 py-3">Amount</th>
+              <th scope="col" className="px-6 py-3">Billed</th>
+              <th scope="col" className="px-6 py-3">Customer</th>
+              <th scope="col" className="px-6 py-3">Project</th>
+              <th scope="col" className="px-6 py-3">Description</th>
+              <th scope="col" className="px-6 py-3">Receipt</th>
+              <th scope="col" className="px-6 py-3">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedExpenses.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                  No expenses found for the selected date range and filters.
+                </td>
+              </tr>
+            ) : (
+              sortedExpenses.map(expense => {
+                const project = findProject(expense.projectId);
+                const customer = project?.id ? getProjectCustomer(project.id, projects, customers) : undefined;
+                return (
+                  <tr key={expense.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
+                    <td className="px-6 py-4">{new Date(expense.date).toLocaleDateString()}</td>
+                    <td className="px-6 py-4">{getExpenseCategoryLabel(expense.category)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {formatCurrency(expense.amount, expense.currency)}
+                      {expense.taxPaid > 0 && (
+                        <span className="block text-xs">incl. {formatCurrency(expense.taxPaid, expense.currency)} tax</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {expense.billable ? (
+                        <>
+                          {formatCurrency(getExpenseBillableAmount(expense), expense.currency)}
+                          {expense.markupPercent > 0 && <span className="block text-xs">+{expense.markupPercent}% markup</span>}
+                          {expense.invoiceNumber && (
+                            <span className="block text-xs text-green-600 dark:text-green-400">{expense.invoiceNumber}</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">Non-billable</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">{customer?.companyName || 'N/A'}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center">
+                        <div
+                          className="w-3 h-3 rounded-full mr-2 flex-shrink-0"
+                          style={{ backgroundColor: project?.color || '#6b7280' }}
+                        />
+                        {project?.name || 'Unknown Project'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">{expense.description}</td>
+                    <td className="px-6 py-4">
+                      {expense.receiptUrl ? (
+                        <a href={expense.receiptUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline dark:text-blue-400">
+                          View
+                        </a>
+                      ) : '-'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <button onClick={() => setEditingExpense(expense)} className="text-blue-600 hover:text-blue-900 dark:text-blue-500 dark:hover:text-blue-300" aria-label="Edit expense">
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" />
+                            <path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clipRule="evenodd" />
+                          </svg>
+                        </button>
+                        <button onClick={() => handleDelete(expense)} className="text-red-600 hover:text-red-900 dark:text-red-500 dark:hover:text-red-300" aria-label="Delete expense">
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" />
+                          </svg>
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+      {(isAdding || editingExpense) && (
+        <ExpenseFormModal
+          expense={editingExpense}
+          onClose={() => {
+            setIsAdding(false);
+            setEditingExpense(null);
+          }}
+        />
+      )}
+    </>
+  );
+}
@@ -3,37 +3,28 @@
 import { useState, useMemo, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db as dexieDB, type TravelEntry } from '../db/dexie';
+import { db as dexieDB, type TravelEntry, type Invoice, type Expense, type PerDiemEntry } from '../db/dexie';
 import { useSessionsStore } from '../store/sessions';
 import { useProjectsStore } from '../store/projects';
 import { useCustomersStore } from '../store/customers';
 import { useUIStore } from '../store/ui';
 import { getDateRanges, formatDurationHours, formatDate } from '../utils/time';
+import { DATE_FILTER_LABELS, excludeArchived, getDayTotals, getFilterRange, getProjectTotals, type DateFilter } from '../utils/history';
+import { getBillableSummary } from '../utils/billable';
+import { getRoundedDurationsByCustomer, getRoundedTotal } from '../utils/rounding';
 import { SessionsTable } from './SessionsTable';
 import { SessionsReport } from './SessionsReport';
 import TravelLog from './TravelLog';
-import {
-  Chart as ChartJS,
-  CategoryScale,
-  LinearScale,
-  BarElement,
-  Title,
-  Tooltip,
-  Legend
-} from 'chart.js';
-import { Bar } from 'react-chartjs-2';
-import { useWindowWidth } from '../hooks/useWindowWidth';
-
-ChartJS.register(
-  CategoryScale,
-  LinearScale,
-  BarElement,
-  Title,
-  Tooltip,
-  Legend
-);
-
-type DateFilter = 'today' | 'thisWeek' | 'lastWeek' | 'thisMonth' | 'lastMonth' | 'thisYear' | 'lastYear' | 'custom';
+import { ExpenseLog } from './ExpenseLog';
+import { PerDiemLog } from './PerDiemLog';
+import { InvoiceModal } from './InvoiceModal';
+import { InvoiceList } from './InvoiceList';
+import { InvoiceDocument } from './InvoiceDocument';
+import { HoursChart } from './HoursChart';
+import { TimesheetCard } from './TimesheetCard';
+import { OverlapsReport } from './OverlapsReport';
+import { BulkEditBar } from './BulkEditBar';
+
 type GroupBy = 'day' | 'project';
 
 export function HistoryPanel() {
@@ -41,23 +32,26 @@ export function HistoryPanel() {
   const { projects } = useProjectsStore();
   const { customers } = useCustomersStore();
   const { theme } = useUIStore();
-  const windowWidth = useWindowWidth();
 
   const [dateFilter, setDateFilter] = useState<DateFilter>('thisYear');
   const [customStart, setCustomStart] = useState('');
   const [customEnd, setCustomEnd] = useState('');
-  const [selectedProjectIds, setSelectedProjectIds] = useState<(string | number)[]>([]);
+  const [selectedProjectIds, setSelectedProjectIds] = useState<string[]>([]);
   const [groupBy, setGroupBy] = useState<GroupBy>('day');
   const [sortOrder, setSortOrder] = useState<'date-desc' | 'date-asc' | 'start-desc' | 'start-asc'>('date-desc');
   const [noteFilter, setNoteFilter] = useState('');
   const [showReport, setShowReport] = useState(false);
-  const [activeTab, setActiveTab] = useState<'sessions' | 'travel'>('sessions');
+  const [billableOnly, setBillableOnly] = useState(false);
+  const [activeTab, setActiveTab] = useState<'sessions' | 'travel' | 'perDiems' | 'expenses' | 'invoices'>('sessions');
+  const [showInvoiceModal, setShowInvoiceModal] = useState(false);
+  const [viewingInvoice, setViewingInvoice] = useState<Invoice | null>(null);
+  const [selectedSessionIds, setSelectedSessionIds] = useState<Set<string>>(new Set());
 
   const [showUpArrow, setShowUpArrow] = useState(false);
   const [showProjectDropdown, setShowProjectDropdown] = useState(false);
 
   useEffect(() => {
-    if (showReport) {
+    if (showReport || viewingInvoice) {
       document.body.classList.add('report-active');
     } else {
       document.body.classList.remove('report-active');
@@ -65,21 +59,14 @@ export function HistoryPanel() {
     return () => {
       document.body.classList.remove('report-active');
     };
-  }, [showReport]);
+  }, [showReport, viewingInvoice]);
 
   const dateRanges = useMemo(() => getDateRanges(), []);
 
-  const { startDate, endDate } = useMemo(() => {
-    if (dateFilter === 'custom') {
-      return {
-        startDate: customStart ? new Date(customStart).getTime() : dateRanges.today.start,
-        endDate: customEnd ? new Date(customEnd).setHours(23, 59, 59, 999) : dateRanges.today.end
-      };
-    }
-
-    const range = dateRanges[dateFilter];
-    return { startDate: range.start, endDate: range.end };
-  }, [dateFilter, customStart, customEnd, dateRanges]);
+  const { startDate, endDate } = useMemo(
+    () => getFilterRange(dateFilter, customStart, customEnd, dateRanges),
+    [dateFilter, customStart, customEnd, dateRanges]
+  );
 
   const sessions = useLiveQuery(() => {
     const query = dexieDB.sessions
@@ -99,29 +86,27 @@ export function HistoryPanel() {
     return query.toArray();
   }, [startDate, endDate]);
 
+  const expenses = useLiveQuery(() => {
+    if (!dexieDB.expenses) return Promise.resolve([] as Expense[]);
+    return dexieDB.expenses
+      .where('date')
+      .between(startDate, endDate)
+      .toArray();
+  }, [startDate, endDate]);
+
+  const perDiems = useLiveQuery(() => {
+    if (!dexieDB.perDiems) return Promise.resolve([] as PerDiemEntry[]);
+    return dexieDB.perDiems
+      .where('date')
+      .between(startDate, endDate)
+      .toArray();
+  }, [startDate, endDate]);
+
   const filteredSessions = useMemo(() => {
     if (!sessions) return [];
 
-    let filtered = sessions;
-
     // Filter out sessions from archived projects and archived customers
-    filtered = filtered.filter(s => {
-      const project = projects.find(p => p.id === s.projectId);
-
-      // Filter out archived projects
-      if (project?.archived) return false;
-
-      // Filter out projects from archived customers
-      if (project?.customerFirestoreId) {
-        const customer = customers.find(c => c.firestoreId === project.customerFirestoreId);
-        if (customer?.archived) return false;
-      } else if (project?.customerId) {
-        const customer = customers.find(c => c.id === project.customerId);
-        if (customer?.archived) return false;
-      }
-
-      return true;
-    });
+    let filtered = excludeArchived(sessions, projects, customers);
 
     if (selectedProjectIds.length > 0) {
       const projectIdsSet = new Set(selectedProjectIds);
@@ -153,26 +138,8 @@ export function HistoryPanel() {
   const filteredTravelEntries = useMemo(() => {
     if (!travelEntries) return [];
 
-    let filtered = travelEntries;
-
     // Filter out entries from archived projects and archived customers
-    filtered = filtered.filter(t => {
-      const project = projects.find(p => p.id === t.projectId || p.firestoreId === t.projectId);
-
-      // Filter out archived projects
-      if (project?.archived) return false;
-
-      // Filter out projects from archived customers
-      if (project?.customerFirestoreId) {
-        const customer = customers.find(c => c.firestoreId === project.customerFirestoreId);
-        if (customer?.archived) return false;
-      } else if (project?.customerId) {
-        const customer = customers.find(c => c.id === project.customerId);
-        if (customer?.archived) return false;
-      }
-
-      return true;
-    });
+    let filtered = excludeArchived(travelEntries, projects, customers);
 
     if (selectedProjectIds.length > 0) {
       const projectIdsSet = new Set(selectedProjectIds);
@@ -185,22 +152,50 @@ export function HistoryPanel() {
     return filtered;
   }, [travelEntries, selectedProjectIds, projects, customers]);
 
+  const filteredExpenses = useMemo(() => {
+    if (!expenses) return [];
+
+    // Same archived project/customer rules as the travel log
+    let filtered = excludeArchived(expenses, projects, customers);
+
+    if (selectedProjectIds.length > 0) {
+      const projectIdsSet = new Set(selectedProjectIds);
+      filtered = filtered.filter(e => projectIdsSet.has(e.projectId));
+    }
+
+    return filtered;
+  }, [expenses, selectedProjectIds, projects, customers]);
+
+  const filteredPerDiems = useMemo(() => {
+    if (!perDiems) return [];
+
+    let filtered = excludeArchived(perDiems, projects, customers);
+
+    if (selectedProjectIds.length > 0) {
+      const projectIdsSet = new Set(selectedProjectIds);
+      filtered = filtered.filter(e => projectIdsSet.has(e.projectId));
+    }
+
+    return filtered;
+  }, [perDiems, selectedProjectIds, projects, customers]);
+
   const summaryData = useMemo(() => {
     const totalMs = getTotalDuration(filteredSessions);
+    const { billableMs, nonBillableMs, utilization } = getBillableSummary(filteredSessions, projects);
+    const roundedMs = getRoundedTotal(filteredSessions, getRoundedDurationsByCustomer(filteredSessions, projects, customers));
     return {
       totalHours: parseFloat(formatDurationHours(totalMs)),
-      sessionsCount: filteredSessions.length
+      roundedHours: roundedMs !== totalMs ? parseFloat(formatDurationHours(roundedMs)) : null,
+      sessionsCount: filteredSessions.length,
+      billableHours: parseFloat(formatDurationHours(billableMs)),
+      nonBillableHours: parseFloat(formatDurationHours(nonBillableMs)),
+      utilization
     };
-  }, [filteredSessions, getTotalDuration]);
+  }, [filteredSessions, getTotalDuration, projects, customers]);
 
   const chartData = useMemo(() => {
     if (groupBy === 'project') {
-      const projectTotals = new Map<string | number, number>();
-
-      filteredSessions.forEach(session => {
-        const current = projectTotals.get(session.projectId) || 0;
-        projectTotals.set(session.projectId, current + session.durationMs);
-      });
+      const projectTotals = getProjectTotals(filteredSessions);
 
       const labels = Array.from(projectTotals.keys()).map(id => {
         const project = projects.find(p => p.id === id);
@@ -227,33 +222,11 @@ export function HistoryPanel() {
         }]
       };
     } else {
-      // Group by day
-      const dayTotals = new Map<string, number>();
-
-      filteredSessions.forEach(session => {
-        const day = formatDate(session.start);
-        const current = dayTotals.get(day) || 0;
-        dayTotals.set(day, current + session.durationMs);
-      });
+      // Group by day, including days in range without time
+      const dayTotals = getDayTotals(filteredSessions, startDate, endDate);
 
-      // Fill in missing days in range
-      const currentDate = new Date(startDate);
-      const endDateObj = new Date(endDate);
-
-      while (currentDate <= endDateObj) {
-        const day = formatDate(currentDate.getTime());
-        if (!dayTotals.has(day)) {
-          dayTotals.set(day, 0);
-        }
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-
-      const sortedEntries = Array.from(dayTotals.entries()).sort((a, b) =>
-        new Date(a[0]).getTime() - new Date(b[0]).getTime()
-      );
-
-      const labels = sortedEntries.map(([date]) => date);
-      const data = sortedEntries.map(([, ms]) => parseFloat(formatDurationHours(ms)));
+      const labels = Array.from(dayTotals.keys());
+      const data = Array.from(dayTotals.values()).map(ms => parseFloat(formatDurationHours(ms)));
 
       return {
         labels,
@@ -268,62 +241,6 @@ export function HistoryPanel() {
     }
   }, [filteredSessions, groupBy, projects, startDate, endDate]);
 
-  const chartOptions = useMemo(() => {
-    const maxDataValue = chartData.datasets[0].data.length > 0
-      ? Math.max(...chartData.datasets[0].data)
-      : 0;
-
-    const isMobile = windowWidth < 768;
-    const isDark = document.documentElement.classList.contains('dark');
-    const textColor = isDark ? '#e5e7eb' : '#374151';
-    const gridColor = isDark ? '#374151' : '#e5e7eb';
-
-    return {
-      responsive: true,
-      maintainAspectRatio: false,
-      plugins: {
-        legend: {
-          position: 'top' as const,
-          labels: {
-            color: textColor
-          }
-        },
-        title: {
-          display: true,
-          text: groupBy === 'project' ? 'Hours by Project' : 'Hours per Day',
-          color: textColor
-        },
-      },
-      scales: {
-        x: {
-          ticks: {
-            color: textColor
-          },
-          grid: {
-            color: gridColor
-          }
-        },
-        y: {
-          beginAtZero: true,
-          title: {
-            display: true,
-            text: 'Hours',
-            color: textColor
-          },
-          ticks: {
-            color: textColor
-          },
-          grid: {
-            color: gridColor
-          },
-          max: !isMobile && maxDataValue <= 5 ? 5 : undefined
-        }
-      }
-    };
-  }, [chartData, groupBy, windowWidth]);
-
-
-
   const getDynamicTitle = () => {
     switch (dateFilter) {
       case 'thisYear': return "This Year's Sessions";
@@ -358,6 +275,8 @@ export function HistoryPanel() {
 
   return (
     <div className="space-y-6">
+      <TimesheetCard />
+
       {/* Filters */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 no-print">
         <div className="flex justify-between items-center mb-4">
@@ -374,14 +293,9 @@ export function HistoryPanel() {
               onChange={(e) => setDateFilter(e.target.value as DateFilter)}
               className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <option value="thisYear">This Year</option>
-              <option value="lastYear">Last Year</option>
-              <option value="today">Today</option>
-              <option value="thisWeek">This Week</option>
-              <option value="lastWeek">Last Week</option>
-              <option value="thisMonth">This Month</option>
-              <option value="lastMonth">Last Month</option>
-              <option value="custom">Custom Range</option>
+              {(Object.keys(DATE_FILTER_LABELS) as DateFilter[]).map(filter => (
+                <option key={filter} value={filter}>{DATE_FILTER_LABELS[filter]}</option>
+              ))}
             </select>
           </div>
 
@@ -523,10 +437,7 @@ export function HistoryPanel() {
                   if (p.archived) return false;
 
                   // Filter out projects from archived customers
-                  if (p.customerFirestoreId) {
-                    const customer = customers.find(c => c.firestoreId === p.customerFirestoreId);
-                    if (customer?.archived) return false;
-                  } else if (p.customerId) {
+                  if (p.customerId) {
                     const customer = customers.find(c => c.id === p.customerId);
                     if (customer?.archived) return false;
                   }
@@ -561,6 +472,21 @@ export function HistoryPanel() {
           >
             Printable Report
           </button>
+          <button
+            onClick={() => setShowInvoiceModal(true)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+          >
+            Create Invoice
+          </button>
+          <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={billableOnly}
+              onChange={(e) => setBillableOnly(e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+            />
+            Billable time only in report
+          </label>
         </div>
       </div>
 
@@ -587,6 +513,36 @@ export function HistoryPanel() {
           >
             Travel Log
           </button>
+          <button
+            onClick={() => setActiveTab('perDiems')}
+            className={`${
+              activeTab === 'perDiems'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+          >
+            Per Diem
+          </button>
+          <button
+            onClick={() => setActiveTab('expenses')}
+            className={`${
+              activeTab === 'expenses'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+          >
+            Expenses
+          </button>
+          <button
+            onClick={() => setActiveTab('invoices')}
+            className={`${
+              activeTab === 'invoices'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+          >
+            Invoices
+          </button>
         </nav>
       </div>
 
@@ -600,6 +556,11 @@ export function HistoryPanel() {
                 <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">
                   {summaryData.totalHours.toFixed(1)}
                 </p>
+                {summaryData.roundedHours !== null && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400" title="After customer rounding rules">
+                    Rounded: {summaryData.roundedHours.toFixed(1)}
+                  </p>
+                )}
               </div>
               <div className="text-right">
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Sessions</h3>
@@ -608,19 +569,40 @@ export function HistoryPanel() {
                 </p>
               </div>
             </div>
+            <div className="grid grid-cols-3 gap-4 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Billable</p>
+                <p className="text-xl font-semibold text-gray-900 dark:text-white">{summaryData.billableHours.toFixed(1)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Non-billable</p>
+                <p className="text-xl font-semibold text-gray-900 dark:text-white">{summaryData.nonBillableHours.toFixed(1)}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Utilization</p>
+                <p className="text-xl font-semibold text-gray-900 dark:text-white">{summaryData.utilization.toFixed(0)}%</p>
+              </div>
+            </div>
           </div>
 
+          <OverlapsReport sessions={filteredSessions} />
+
           {/* Sessions Table */}
-          <div className="no-print">
-            <SessionsTable sessions={filteredSessions} showAllProjects={true} title={getDynamicTitle()} />
+          <div className="no-print space-y-3">
+            <BulkEditBar sessions={filteredSessions} selectedIds={selectedSessionIds} onSelectedIdsChange={setSelectedSessionIds} />
+            <SessionsTable
+              sessions={filteredSessions}
+              showAllProjects={true}
+              title={getDynamicTitle()}
+              selectedIds={selectedSessionIds}
+              onSelectedIdsChange={setSelectedSessionIds}
+            />
           </div>
 
           {/* Chart */}
           {chartData.datasets[0].data.some(val => val > 0) && (
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 no-print">
-              <div className="chart-container">
-                <Bar data={chartData} options={chartOptions} />
-              </div>
+              <HoursChart data={chartData} title={groupBy === 'project' ? 'Hours by Project' : 'Hours per Day'} />
             </div>
           )}
         </>
@@ -632,6 +614,40 @@ export function HistoryPanel() {
         </div>
       )}
 
+      {activeTab === 'perDiems' && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md no-print">
+          <PerDiemLog perDiems={filteredPerDiems} sessions={filteredSessions} travelEntries={filteredTravelEntries} />
+        </div>
+      )}
+
+      {activeTab === 'expenses' && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md no-print">
+          <ExpenseLog expenses={filteredExpenses} />
+        </div>
+      )}
+
+      {activeTab === 'invoices' && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md no-print">
+          <InvoiceList startDate={startDate} endDate={endDate} onView={setViewingInvoice} />
+        </div>
+      )}
+
+      {showInvoiceModal && (
+        <InvoiceModal
+          sessions={filteredSessions}
+          travelEntries={filteredTravelEntries}
+          expenses={filteredExpenses}
+          perDiems={filteredPerDiems}
+          periodStart={startDate}
+          periodEnd={endDate}
+          onClose={() => setShowInvoiceModal(false)}
+          onCreated={(invoice) => {
+            setShowInvoiceModal(false);
+            setViewingInvoice(invoice);
+          }}
+        />
+      )}
+
 
       {/* Floating up arrow button */}
       <button
@@ -672,16 +688,43 @@ export function HistoryPanel() {
               }
               sessions={filteredSessions}
               travelEntries={filteredTravelEntries}
+              expenses={filteredExpenses}
+              perDiems={filteredPerDiems}
               dateRange={{ start: customStart || formatDate(startDate), end: customEnd || formatDate(endDate) }}
               projects={projects}
               // Optional logo: place a file at public/company-logo.png to display
               logoUrl="/company-logo.png"
               theme={theme}
+              billableOnly={billableOnly}
             />
           </div>
         </div>,
         document.body
       )}
+
+      {/* --- INVOICE OVERLAY --- */}
+      {viewingInvoice && createPortal(
+        <div className={`fixed inset-0 ${theme === 'dark' ? 'bg-gray-900' : 'bg-white'} z-50 overflow-y-auto printable-report-container print:bg-white`}>
+          <div className="max-w-4xl mx-auto p-4 printable-report">
+            <div className="text-right mb-4 no-print">
+               <button
+                onClick={() => window.print()}
+                className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 mr-2"
+              >
+                Print
+              </button>
+              <button
+                onClick={() => setViewingInvoice(null)}
+                className={`px-4 py-2 ${theme === 'dark' ? 'text-gray-200 border-gray-600 hover:bg-gray-800' : 'text-gray-700 border-gray-300 hover:bg-gray-50'} border rounded-md`}
+              >
+                Close
+              </button>
+            </div>
+            <InvoiceDocument invoice={viewingInvoice} theme={theme} />
+          </div>
+        </div>,
+        document.body
+      )}
     </div>
   );
 }
@@ -0,0 +1,99 @@
+// src/components/HoursChart.tsx
+
+import { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+  type ChartData
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { useWindowWidth } from '../hooks/useWindowWidth';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface HoursChartProps {
+  data: ChartData<'bar', number[], string>;
+  title: string;
+  stacked?: boolean;  // Stack the datasets, e.g. one per team member
+}
+
+// Bar chart of hours, themed for light and dark mode
+export function HoursChart({ data, title, stacked = false }: HoursChartProps) {
+  const windowWidth = useWindowWidth();
+
+  const options = useMemo(() => {
+    const barTotals = data.labels?.map((_, index) => stacked
+      ? data.datasets.reduce((sum, dataset) => sum + (dataset.data[index] || 0), 0)
+      : Math.max(0, ...data.datasets.map(dataset => dataset.data[index] || 0))
+    ) ?? [];
+    const maxDataValue = barTotals.length > 0 ? Math.max(...barTotals) : 0;
+
+    const isMobile = windowWidth < 768;
+    const isDark = document.documentElement.classList.contains('dark');
+    const textColor = isDark ? '#e5e7eb' : '#374151';
+    const gridColor = isDark ? '#374151' : '#e5e7eb';
+
+    return {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: {
+          position: 'top' as const,
+          labels: {
+            color: textColor
+          }
+        },
+        title: {
+          display: true,
+          text: title,
+          color: textColor
+        },
+      },
+      scales: {
+        x: {
+          stacked,
+          ticks: {
+            color: textColor
+          },
+          grid: {
+            color: gridColor
+          }
+        },
+        y: {
+          stacked,
+          beginAtZero: true,
+          title: {
+            display: true,
+            text: 'Hours',
+            color: textColor
+          },
+          ticks: {
+            color: textColor
+          },
+          grid: {
+            color: gridColor
+          },
+          max: !isMobile && maxDataValue <= 5 ? 5 : undefined
+        }
+      }
+    };
+  }, [data, title, stacked, windowWidth]);
+
+  return (
+    <div className="chart-container">
+      <Bar data={data} options={options} />
+    </div>
+  );
+}
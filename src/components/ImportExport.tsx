@@ -2,6 +2,8 @@ import React, { useRef, useState } from 'react'
 import { useSessionsStore } from '../store/sessions'
 import { useProjectsStore } from '../store/projects'
 import { useUIStore } from '../store/ui'
+import { useAuthStore } from '../store/auth'
+import { useTimesheetsStore } from '../store/timesheets'
 import { Session, Project } from '../db/dexie'
 import dayjs from 'dayjs'
 
@@ -51,13 +53,14 @@ export function ImportExport() {
         throw new Error('Invalid backup file format')
       }
 
-      // Create project ID mapping for new projects
-      const projectIdMap = new Map<number, number>()
+      // Create project ID mapping for new projects. Backups made before ids were
+      // shared have numeric ids, so keys are compared as strings.
+      const projectIdMap = new Map<string, string>()
       
       for (const project of data.projects) {
         const existingProject = projects.find(p => p.name === project.name)
         if (existingProject) {
-          projectIdMap.set(project.id!, existingProject.id!)
+          projectIdMap.set(String(project.id), existingProject.id)
         } else {
           await createProject({
             name: project.name,
@@ -68,31 +71,43 @@ export function ImportExport() {
           const newProjects = useProjectsStore.getState().projects
           const newProject = newProjects.find(p => p.name === project.name)
           if (newProject) {
-            projectIdMap.set(project.id!, newProject.id!)
+            projectIdMap.set(String(project.id), newProject.id)
           }
         }
       }
 
-      // Import sessions with mapped project IDs
+      // Import sessions with mapped project IDs, leaving out weeks signed off in the active organization
+      const { isSessionLocked } = useTimesheetsStore.getState()
+      const organizationId = useAuthStore.getState().activeOrganization ?? undefined
       let importedCount = 0
+      let lockedCount = 0
       for (const session of data.sessions) {
+        if (isSessionLocked({ start: session.start, organizationId })) {
+          lockedCount++
+          continue
+        }
         const existingSession = sessions.find(s => 
-          s.start === session.start && s.projectId === projectIdMap.get(session.projectId)
+          s.start === session.start && s.projectId === projectIdMap.get(String(session.projectId))
         )
         
         if (!existingSession) {
           await createSession({
-            projectId: projectIdMap.get(session.projectId) || session.projectId,
+            projectId: projectIdMap.get(String(session.projectId)) || String(session.projectId),
             start: session.start,
             stop: session.stop,
             durationMs: session.durationMs,
-            note: session.note
+            note: session.note,
+            billable: session.billable
           })
           importedCount++
         }
       }
 
-      showToast(`Imported ${importedCount} sessions successfully`, 'success')
+      showToast(
+        `Imported ${importedCount} sessions successfully` +
+        (lockedCount > 0 ? `. Skipped ${lockedCount} on submitted or approved timesheets.` : ''),
+        'success'
+      )
     } catch (error) {
       showToast(`Import failed: ${(error as Error).message}`, 'error')
     } finally {
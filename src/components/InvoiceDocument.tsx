@@ -0,0 +1,125 @@
+import { Invoice } from '../db/dexie';
+import { formatDate } from '../utils/time';
+import { formatCurrency } from '../utils/currency';
+import { formatTaxLabel } from '../utils/tax';
+
+interface InvoiceDocumentProps {
+  invoice: Invoice;
+  theme?: 'light' | 'dark';
+}
+
+export function InvoiceDocument({ invoice, theme = 'light' }: InvoiceDocumentProps) {
+  const { seller, billTo } = invoice;
+
+  const sellerCityLine = [seller.city, seller.province, seller.postalCode].filter(Boolean).join(', ');
+  const sellerPhone = seller.phone ? `${seller.areaCode ? `(${seller.areaCode}) ` : ''}${seller.phone}` : '';
+
+  // Define theme-based classes
+  const isDark = theme === 'dark';
+  const bgClass = isDark ? 'bg-gray-900' : 'bg-white';
+  const textClass = isDark ? 'text-gray-100' : 'text-gray-800';
+  const headerTextClass = isDark ? 'text-gray-50' : 'text-gray-900';
+  const subTextClass = isDark ? 'text-gray-300' : 'text-gray-600';
+  const borderClass = isDark ? 'border-gray-700' : 'border-gray-300';
+  const borderLightClass = isDark ? 'border-gray-800' : 'border-gray-200';
+  const tableHeaderBgClass = isDark ? 'bg-gray-800' : 'bg-gray-100';
+  const tableHeaderTextClass = isDark ? 'text-gray-300' : 'text-gray-600';
+  const thClass = `border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`;
+  const tdClass = `border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`;
+
+  return (
+    <div className={`${bgClass} p-6 font-sans ${textClass} text-xs print:bg-white print:text-gray-800`}>
+      {/* Seller and invoice details */}
+      <header className={`mb-6 border-b ${borderClass} pb-3 flex justify-between items-start print:border-gray-300`}>
+        <div>
+          {seller.logoUrl && (
+            <img src={seller.logoUrl} alt="" role="presentation" className="w-24 h-24 mb-2 object-contain" />
+          )}
+          <p className={`text-base font-semibold ${headerTextClass} print:text-gray-900`}>{seller.companyName}</p>
+          {seller.streetAddress && <p className={`${subTextClass} print:text-gray-600`}>{seller.streetAddress}</p>}
+          {sellerCityLine && <p className={`${subTextClass} print:text-gray-600`}>{sellerCityLine}</p>}
+          {sellerPhone && <p className={`${subTextClass} print:text-gray-600`}>{sellerPhone}</p>}
+          {seller.email && <p className={`${subTextClass} print:text-gray-600`}>{seller.email}</p>}
+          {seller.gstNumber && (
+            <p className={`mt-1 ${subTextClass} print:text-gray-600`}>GST/HST No. {seller.gstNumber}</p>
+          )}
+          {seller.qstNumber && <p className={`${subTextClass} print:text-gray-600`}>QST No. {seller.qstNumber}</p>}
+          {seller.pstNumber && <p className={`${subTextClass} print:text-gray-600`}>PST No. {seller.pstNumber}</p>}
+        </div>
+        <div className="text-right">
+          <h1 className={`text-2xl font-bold ${headerTextClass} print:text-gray-900`}>
+            Invoice
+            {invoice.status === 'void' && <span className="ml-2 text-red-600">VOID</span>}
+          </h1>
+          <p className={`text-sm ${subTextClass} print:text-gray-600`}>{invoice.number}</p>
+          <p className={`${subTextClass} print:text-gray-600`}>Date: {formatDate(invoice.issuedAt)}</p>
+          <p className={`${subTextClass} print:text-gray-600`}>
+            Period: {formatDate(invoice.periodStart)} to {formatDate(invoice.periodEnd)}
+          </p>
+        </div>
+      </header>
+
+      {/* Bill to */}
+      <div className="mb-6">
+        <p className={`text-sm font-semibold ${subTextClass} print:text-gray-600`}>Bill To</p>
+        <p className={`text-base font-semibold ${headerTextClass} print:text-gray-900`}>{billTo.companyName}</p>
+        {billTo.addressLines.map((line, index) => (
+          <p key={index} className={`${subTextClass} print:text-gray-600`}>{line}</p>
+        ))}
+        {billTo.taxExemptNumber && (
+          <p className={`mt-1 ${subTextClass} print:text-gray-600`}>Tax exempt: {billTo.taxExemptNumber}</p>
+        )}
+      </div>
+
+      {/* Lines */}
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr>
+            <th className={thClass}>Description</th>
+            <th className={`${thClass} text-right`}>Qty</th>
+            <th className={`${thClass} text-right`}>Rate</th>
+            <th className={`${thClass} text-right`}>Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {invoice.lines.map((line) => (
+            <tr key={`${line.type}-${line.description}`}>
+              <td className={tdClass}>{line.description}</td>
+              <td className={`${tdClass} text-right`}>{line.quantity} {line.unit}</td>
+              <td className={`${tdClass} text-right`}>{formatCurrency(line.rate, invoice.currency)}/{line.unit}</td>
+              <td className={`${tdClass} text-right`}>{formatCurrency(line.amount, invoice.currency)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={3} className={`py-2 px-3 text-right font-semibold ${subTextClass} print:text-gray-600`}>
+              Subtotal
+            </td>
+            <td className={`py-2 px-3 text-right border-t-2 ${borderClass} print:border-gray-300`}>
+              {formatCurrency(invoice.subtotal, invoice.currency)}
+            </td>
+          </tr>
+          {invoice.taxes.map((tax) => (
+            <tr key={tax.code}>
+              <td colSpan={3} className={`py-2 px-3 text-right ${subTextClass} print:text-gray-600`}>
+                {formatTaxLabel(tax)}
+              </td>
+              <td className="py-2 px-3 text-right">
+                {formatCurrency(tax.amount, invoice.currency)}
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td colSpan={3} className={`py-2 px-3 text-right font-bold uppercase ${headerTextClass} print:text-gray-900`}>
+              Total ({invoice.currency})
+            </td>
+            <td className={`py-2 px-3 text-right font-bold ${headerTextClass} print:text-gray-900`}>
+              {formatCurrency(invoice.total, invoice.currency)}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect } from 'react';
+import { Invoice } from '../db/dexie';
+import { useInvoicesStore } from '../store/invoices';
+import { useUIStore } from '../store/ui';
+import { formatDate } from '../utils/time';
+import { formatCurrency } from '../utils/currency';
+import { formatTaxLabel, getTaxTotal } from '../utils/tax';
+
+interface InvoiceListProps {
+  startDate: number;
+  endDate: number;
+  onView: (invoice: Invoice) => void;
+}
+
+export function InvoiceList({ startDate, endDate, onView }: InvoiceListProps) {
+  const { invoices, loadInvoices, voidInvoice } = useInvoicesStore();
+  const { showConfirm, showToast } = useUIStore();
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  // Show invoices whose billing period overlaps the selected date range
+  const invoicesInRange = invoices.filter(i => i.periodStart <= endDate && i.periodEnd >= startDate);
+
+  const exportCSV = () => {
+    const taxCodes = ['GST', 'HST', 'PST', 'QST'] as const;
+    const headers = ['Number', 'Date', 'Customer', 'Status', 'Currency', 'Subtotal', ...taxCodes, 'Total'];
+    const rows = invoicesInRange.map(invoice => [
+      invoice.number,
+      formatDate(invoice.issuedAt),
+      invoice.billTo.companyName,
+      invoice.status,
+      invoice.currency,
+      invoice.subtotal.toFixed(2),
+      ...taxCodes.map(code => (invoice.taxes.find(t => t.code === code)?.amount || 0).toFixed(2)),
+      invoice.total.toFixed(2)
+    ]);
+
+    const csvContent = [headers, ...rows]
+      .map(row => row.map(cell => `"${cell.toString().replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `buztracker-invoices-${formatDate(startDate)}-${formatDate(endDate)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    showToast('Invoices exported to CSV', 'success');
+  };
+
+  const handleVoid = (invoice: Invoice) => {
+    showConfirm(
+      'Void Invoice',
+      `Void ${invoice.number} for ${invoice.billTo.companyName}?\n\nIts sessions and travel entries will become available to invoice again.`,
+      async () => {
+        await voidInvoice(invoice.id!);
+        showToast(`${invoice.number} voided`, 'success');
+      }
+    );
+  };
+
+  if (invoicesInRange.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+        <p>No invoices for this period</p>
+        <p className="text-sm">Use "Create Invoice" to bill unbilled time and travel</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-end">
+        <button
+          onClick={exportCSV}
+          className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors text-sm"
+        >
+          Export CSV
+        </button>
+      </div>
+      <table className="w-full">
+        <thead className="bg-gray-50 dark:bg-gray-700">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Number</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Date</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Customer</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Subtotal</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Tax</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Total</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {invoicesInRange.map(invoice => (
+            <tr key={invoice.id} className={`hover:bg-gray-50 dark:hover:bg-gray-700 ${invoice.status === 'void' ? 'opacity-60' : ''}`}>
+              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">
+                {invoice.number}
+                {invoice.status === 'void' && (
+                  <span className="ml-2 text-xs px-2 py-1 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded">
+                    Void
+                  </span>
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">{formatDate(invoice.issuedAt)}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">{invoice.billTo.companyName}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900 dark:text-gray-100">
+                {formatCurrency(invoice.subtotal, invoice.currency)}
+              </td>
+              <td
+                className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900 dark:text-gray-100"
+                title={invoice.taxes.map(t => `${formatTaxLabel(t)}: ${formatCurrency(t.amount, invoice.currency)}`).join('\n') || 'No tax'}
+              >
+                {formatCurrency(getTaxTotal(invoice.taxes), invoice.currency)}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900 dark:text-gray-100">
+                {formatCurrency(invoice.total, invoice.currency)}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm">
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => onView(invoice)}
+                    className="text-blue-600 hover:text-blue-800 transition-colors"
+                  >
+                    View
+                  </button>
+                  {invoice.status !== 'void' && (
+                    <button
+                      onClick={() => handleVoid(invoice)}
+                      className="text-red-600 hover:text-red-800 transition-colors"
+                    >
+                      Void
+                    </button>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState, useMemo } from 'react';
+import { Customer, Expense, Invoice, PerDiemEntry, Session, TravelEntry } from '../db/dexie';
+import { useCustomersStore } from '../store/customers';
+import { useProjectsStore } from '../store/projects';
+import { useInvoicesStore } from '../store/invoices';
+import { useOrganizationStore } from '../store/organization';
+import { formatDate } from '../utils/time';
+import { formatCurrency } from '../utils/currency';
+import { calculateTaxes, formatTaxLabel, getTaxTotal } from '../utils/tax';
+import { filterBillableSessions } from '../utils/billable';
+import { getUninvoicedExpenses } from '../utils/expense';
+import { getUninvoicedPerDiems } from '../utils/perDiem';
+import {
+  buildInvoiceLines,
+  getInvoiceSubtotal,
+  roundCurrency,
+  getUninvoicedSessions,
+  getUninvoicedTravelEntries,
+  isExpenseInCurrency,
+} from '../utils/invoice';
+
+interface InvoiceModalProps {
+  sessions: Session[];
+  travelEntries: TravelEntry[];
+  expenses: Expense[];
+  perDiems: PerDiemEntry[];
+  periodStart: number;
+  periodEnd: number;
+  onClose: () => void;
+  onCreated: (invoice: Invoice) => void;
+}
+
+export function InvoiceModal({ sessions, travelEntries, expenses, perDiems, periodStart, periodEnd, onClose, onCreated }: InvoiceModalProps) {
+  const { customers } = useCustomersStore();
+  const { projects } = useProjectsStore();
+  const { organization } = useOrganizationStore();
+  const { createInvoice } = useInvoicesStore();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Resolve each project to its customer
+  const customerByProject = useMemo(() => {
+    const map = new Map<string, Customer>();
+    projects.forEach(project => {
+      const customer = customers.find(c => c.id === project.customerId);
+      if (customer) map.set(project.id, customer);
+    });
+    return map;
+  }, [projects, customers]);
+
+  // Non-billable time is never invoiced
+  const uninvoicedSessions = useMemo(
+    () => filterBillableSessions(getUninvoicedSessions(sessions), projects),
+    [sessions, projects]
+  );
+  const uninvoicedEntries = useMemo(() => getUninvoicedTravelEntries(travelEntries), [travelEntries]);
+  const uninvoicedExpenses = useMemo(() => getUninvoicedExpenses(expenses), [expenses]);
+  const uninvoicedPerDiems = useMemo(() => getUninvoicedPerDiems(perDiems), [perDiems]);
+
+  // Only offer customers that still have unbilled work in the selected period
+  const billableCustomers = useMemo(() => {
+    const found = new Map<string, Customer>();
+    [
+      ...uninvoicedSessions.map(s => s.projectId),
+      ...uninvoicedEntries.map(e => e.projectId),
+      ...uninvoicedExpenses.map(e => e.projectId),
+      ...uninvoicedPerDiems.map(e => e.projectId),
+    ].forEach(projectId => {
+      const customer = customerByProject.get(projectId);
+      if (customer && !customer.archived) found.set(customer.id, customer);
+    });
+    return Array.from(found.values()).sort((a, b) => a.companyName.localeCompare(b.companyName));
+  }, [uninvoicedSessions, uninvoicedEntries, uninvoicedExpenses, uninvoicedPerDiems, customerByProject]);
+
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const customer = billableCustomers.find(c => c.id === customerId) || billableCustomers[0] || null;
+
+  const customerSessions = useMemo(
+    () => customer ? uninvoicedSessions.filter(s => customerByProject.get(s.projectId)?.id === customer.id) : [],
+    [customer, uninvoicedSessions, customerByProject]
+  );
+  const customerEntries = useMemo(
+    () => customer ? uninvoicedEntries.filter(e => customerByProject.get(e.projectId)?.id === customer.id) : [],
+    [customer, uninvoicedEntries, customerByProject]
+  );
+
+  const customerExpenses = useMemo(
+    () => customer ? uninvoicedExpenses.filter(e => customerByProject.get(e.projectId)?.id === customer.id) : [],
+    [customer, uninvoicedExpenses, customerByProject]
+  );
+  const customerPerDiems = useMemo(
+    () => customer ? uninvoicedPerDiems.filter(e => customerByProject.get(e.projectId)?.id === customer.id) : [],
+    [customer, uninvoicedPerDiems, customerByProject]
+  );
+  // Expenses paid in another currency can't go on this customer's invoice
+  const otherCurrencyExpenses = customer ? customerExpenses.filter(e => !isExpenseInCurrency(e, customer)).length : 0;
+
+  const lines = useMemo(
+    () => customer ? buildInvoiceLines(customer, customerSessions, customerEntries, customerExpenses, customerPerDiems) : [],
+    [customer, customerSessions, customerEntries, customerExpenses, customerPerDiems]
+  );
+  const subtotal = getInvoiceSubtotal(lines);
+  const taxes = customer ? calculateTaxes(subtotal, organization?.corporateInfo, customer) : [];
+  const total = roundCurrency(subtotal + getTaxTotal(taxes));
+  const currency = customer?.currency || 'CAD';
+
+  const handleCreate = async () => {
+    if (!customer) return;
+    setIsSaving(true);
+    const invoice = await createInvoice({
+      customer,
+      sessions: customerSessions,
+      travelEntries: customerEntries,
+      expenses: customerExpenses,
+      perDiems: customerPerDiems,
+      periodStart,
+      periodEnd,
+    });
+    setIsSaving(false);
+    if (invoice) {
+      onCreated(invoice);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full" onKeyDown={handleKeyDown}>
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">Create Invoice</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+            {formatDate(periodStart)} to {formatDate(periodEnd)}
+          </p>
+
+          {!organization?.corporateInfo && (
+            <div className="mb-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
+              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                Add your company details on the Corporate page before creating invoices.
+              </p>
+            </div>
+          )}
+
+          {billableCustomers.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 py-4">
+              There is no unbilled time, travel, per diem or expenses in this period.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Customer
+                </label>
+                <select
+                  value={customer?.id ?? ''}
+                  onChange={(e) => setCustomerId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {billableCustomers.map(c => (
+                    <option key={c.id} value={c.id}>{c.companyName}</option>
+                  ))}
+                </select>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <th className="py-2">Description</th>
+                    <th className="py-2 text-right">Qty</th>
+                    <th className="py-2 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {lines.map(line => (
+                    <tr key={`${line.type}-${line.description}`} className="text-gray-900 dark:text-gray-100">
+                      <td className="py-2">{line.description}</td>
+                      <td className="py-2 text-right">{line.quantity} {line.unit}</td>
+                      <td className="py-2 text-right">{formatCurrency(line.amount, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="text-gray-700 dark:text-gray-300">
+                    <td colSpan={2} className="py-2 text-right">Subtotal</td>
+                    <td className="py-2 text-right">{formatCurrency(subtotal, currency)}</td>
+                  </tr>
+                  {taxes.map(tax => (
+                    <tr key={tax.code} className="text-gray-700 dark:text-gray-300">
+                      <td colSpan={2} className="py-1 text-right">{formatTaxLabel(tax)}</td>
+                      <td className="py-1 text-right">{formatCurrency(tax.amount, currency)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold text-gray-900 dark:text-white">
+                    <td colSpan={2} className="py-2 text-right">Total</td>
+                    <td className="py-2 text-right">{formatCurrency(total, currency)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+              {otherCurrencyExpenses > 0 && (
+                <p className="text-xs text-yellow-700 dark:text-yellow-300">
+                  {otherCurrencyExpenses} expense{otherCurrencyExpenses === 1 ? ' is' : 's are'} not in {currency} and won't be included.
+                </p>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Billed sessions, travel, per-diem entries and expenses are marked with the invoice number and won't be offered again.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={!customer || lines.length === 0 || !organization?.corporateInfo || isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Creating...' : 'Create Invoice'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
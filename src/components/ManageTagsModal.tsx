@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react'
+import { useTagsStore } from '../store/tags'
+import { useUIStore } from '../store/ui'
+import { Tag } from '../db/dexie'
+import { TAG_COLORS } from '../utils/tags'
+
+interface ManageTagsModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function ManageTagsModal({ isOpen, onClose }: ManageTagsModalProps) {
+  const { tags, createTag, updateTag, deleteTag } = useTagsStore()
+  const { showConfirm, showToast } = useUIStore()
+  const [editingTag, setEditingTag] = useState<Tag | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [name, setName] = useState('')
+  const [color, setColor] = useState(TAG_COLORS[0])
+
+  const resetForm = () => {
+    setEditingTag(null)
+    setIsCreating(false)
+    setName('')
+    setColor(TAG_COLORS[0])
+  }
+
+  useEffect(() => {
+    if (!isOpen) {
+      resetForm()
+    }
+  }, [isOpen])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    // React bubbles events through portals, so don't submit the host form as well
+    e.stopPropagation()
+
+    if (!name.trim()) {
+      showToast('Tag name is required', 'error')
+      return
+    }
+
+    if (editingTag) {
+      await updateTag(editingTag.id!, { name: name.trim(), color })
+      showToast('Tag updated', 'success')
+    } else {
+      const created = await createTag(name, color)
+      if (!created) return
+      showToast('Tag added', 'success')
+    }
+    resetForm()
+  }
+
+  const handleEdit = (tag: Tag) => {
+    setEditingTag(tag)
+    setName(tag.name)
+    setColor(tag.color)
+    setIsCreating(false)
+  }
+
+  const handleDelete = (tag: Tag) => {
+    showConfirm(
+      'Delete Tag',
+      `Are you sure you want to delete "${tag.name}"? It will be removed from every session that has it.`,
+      async () => {
+        await deleteTag(tag.id!)
+        showToast('Tag deleted', 'success')
+      }
+    )
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep keys from reaching the modal that opened this one
+    e.stopPropagation()
+    if (e.key === 'Escape' && !editingTag && !isCreating) {
+      onClose()
+    }
+  }
+
+  if (!isOpen) {
+    return null
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="manage-tags-title"
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 id="manage-tags-title" className="text-xl font-semibold text-gray-900 dark:text-white">
+            Manage Session Tags
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {(isCreating || editingTag) && (
+          <form onSubmit={handleSubmit} className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+            <h3 className="font-medium text-gray-900 dark:text-white mb-4">
+              {editingTag ? 'Edit Tag' : 'Add New Tag'}
+            </h3>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g. On-site"
+                  autoFocus
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Color
+                </label>
+                <div className="flex gap-2">
+                  {TAG_COLORS.map(c => (
+                    <button
+                      key={c}
+                      type="button"
+                      onClick={() => setColor(c)}
+                      className={`w-8 h-8 rounded-full border-2 ${color === c ? 'border-gray-900 dark:border-white' : 'border-transparent'}`}
+                      style={{ backgroundColor: c }}
+                      aria-label={`Use color ${c}`}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex space-x-2">
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {editingTag ? 'Update' : 'Add'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-400 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </form>
+        )}
+
+        {!isCreating && !editingTag && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="w-full mb-4 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            + Add New Tag
+          </button>
+        )}
+
+        <div className="space-y-2">
+          {tags.map((tag) => (
+            <div
+              key={tag.key}
+              className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+            >
+              <span className="flex items-center text-gray-900 dark:text-white flex-1">
+                <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </span>
+              {tag.builtIn ? (
+                <span className="text-xs text-gray-500 dark:text-gray-400">Built-in</span>
+              ) : (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleEdit(tag)}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label={`Edit ${tag.name}`}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(tag)}
+                    className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+                    aria-label={`Delete ${tag.name}`}
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
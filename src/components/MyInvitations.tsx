@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { useOrganizationStore } from '../store/organization';
+import { useUIStore } from '../store/ui';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { OrganizationInvitation } from '../db/dexie';
+import { ROLE_LABELS } from '../utils/members';
+
+// Invitations sent to the signed-in user's email, to accept or decline
+export function MyInvitations() {
+  const { myInvitations, loadMyInvitations, acceptInvitation, declineInvitation } = useOrganizationStore();
+  const { showToast } = useUIStore();
+  const isOnline = useOnlineStatus();
+  const [busyOrgId, setBusyOrgId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOnline) loadMyInvitations();
+  }, [isOnline, loadMyInvitations]);
+
+  if (myInvitations.length === 0) return null;
+
+  const respond = async (invitation: OrganizationInvitation, accept: boolean) => {
+    setBusyOrgId(invitation.orgId);
+    try {
+      if (accept) {
+        await acceptInvitation(invitation);
+        showToast(`You joined ${invitation.orgName}`, 'success');
+      } else {
+        await declineInvitation(invitation);
+        showToast('Invitation declined', 'info');
+      }
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Something went wrong. Please try again.', 'error');
+    } finally {
+      setBusyOrgId(null);
+    }
+  };
+
+  return (
+    <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-6">
+      <h3 className="text-lg font-semibold text-blue-900 dark:text-blue-100 mb-2">Invitations</h3>
+      <ul className="divide-y divide-blue-200 dark:divide-blue-800">
+        {myInvitations.map(invitation => (
+          <li key={invitation.orgId} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <div className="text-sm text-blue-900 dark:text-blue-100">
+              <p className="font-medium">{invitation.orgName}</p>
+              <p className="text-xs text-blue-800 dark:text-blue-200">
+                {ROLE_LABELS[invitation.role]}{invitation.invitedByEmail ? ` · invited by ${invitation.invitedByEmail}` : ''}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => respond(invitation, false)}
+                disabled={!isOnline || busyOrgId !== null}
+                className="px-4 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Decline
+              </button>
+              <button
+                type="button"
+                onClick={() => respond(invitation, true)}
+                disabled={!isOnline || busyOrgId !== null}
+                className="px-4 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {busyOrgId === invitation.orgId ? 'Joining...' : 'Accept'}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { useOrganizationStore } from '../store/organization';
+import { useAuthStore } from '../store/auth';
+import { useUIStore } from '../store/ui';
+import { useOutboxStore } from '../store/outbox';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { OrganizationRole } from '../db/dexie';
+import { ROLE_LABELS, canInvite, canManageMember, getAssignableRoles, isLastOwner, isValidEmail, normalizeEmail, sortMembers } from '../utils/members';
+
+// Members of the organization, pending invitations, and the actions the user's role allows
+export function OrganizationMembers() {
+  const { organization, invitations, getMyRole, inviteMember, revokeInvitation, changeMemberRole, removeMember, leaveOrganization } = useOrganizationStore();
+  const { user } = useAuthStore();
+  const { showConfirm, showToast } = useUIStore();
+  const isOnline = useOnlineStatus();
+
+  const myRole = getMyRole();
+  const assignableRoles = getAssignableRoles(myRole);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('user');
+  const [emailError, setEmailError] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+
+  if (!organization || !user) return null;
+  const members = organization.members || {};
+
+  const run = async (action: () => Promise<void>, success: string): Promise<boolean> => {
+    try {
+      await action();
+      showToast(success, 'success');
+      return true;
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Something went wrong. Please try again.', 'error');
+      return false;
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = normalizeEmail(email);
+    if (!isValidEmail(address)) {
+      setEmailError('Please enter a valid email address');
+      return;
+    }
+    setIsInviting(true);
+    if (await run(() => inviteMember(address, role), `Invitation sent to ${address}`)) {
+      setEmail('');
+    }
+    setIsInviting(false);
+  };
+
+  const handleRemove = (userId: string, label: string) => {
+    showConfirm(
+      'Remove Member',
+      `Remove ${label} from ${organization.corporateInfo.companyName}? They will lose access to the organization.`,
+      () => run(() => removeMember(userId), `${label} was removed`)
+    );
+  };
+
+  const handleLeave = async () => {
+    // Customers and projects that aren't uploaded yet are dropped along with the organization's
+    const unsynced = await useOutboxStore.getState().flushSharedEntries();
+    const warning = unsynced > 0
+      ? ` ${unsynced} ${unsynced === 1 ? 'change' : 'changes'} to its customers and projects ${unsynced === 1 ? 'has' : 'have'} not reached the server yet and will be lost.`
+      : '';
+    showConfirm(
+      'Leave Organization',
+      `Leave ${organization.corporateInfo.companyName}? You will need a new invitation to join again.${warning}`,
+      () => run(() => leaveOrganization(), 'You left the organization')
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Members</h3>
+        <button
+          type="button"
+          onClick={handleLeave}
+          disabled={!isOnline || isLastOwner(members, user.uid)}
+          title={isLastOwner(members, user.uid) ? 'Make someone else an owner before leaving' : undefined}
+          className="px-3 py-1 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Leave Organization
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {sortMembers(members).map(([userId, member]) => {
+          const isMe = userId === user.uid;
+          const label = member.email || (isMe ? 'You' : 'Member');
+          const canManage = !isMe && canManageMember(myRole, member.role);
+          return (
+            <li key={userId} className="py-3 flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {label}{isMe && member.email ? ' (you)' : ''}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Joined {new Date(member.addedAt).toLocaleDateString()}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {canManage && myRole === 'owner' ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => run(() => changeMemberRole(userId, e.target.value as OrganizationRole), `${label} is now ${ROLE_LABELS[e.target.value as OrganizationRole].toLowerCase()}`)}
+                    disabled={!isOnline}
+                    aria-label={`Role of ${label}`}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    {assignableRoles.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                ) : (
+                  <span className="px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">{ROLE_LABELS[member.role]}</span>
+                )}
+                {canManage && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(userId, label)}
+                    disabled={!isOnline}
+                    className="text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {canInvite(myRole) && (
+        <>
+          <form onSubmit={handleInvite} className="space-y-2">
+            <label htmlFor="inviteEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Invite by email
+            </label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="email"
+                id="inviteEmail"
+                value={email}
+                onChange={(e) => { setEmail(e.target.value); setEmailError(''); }}
+                className={`flex-1 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white ${
+                  emailError ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="colleague@example.com"
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as OrganizationRole)}
+                aria-label="Role"
+                className="px-4 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              >
+                {assignableRoles.filter(r => r !== 'owner').map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+              <button
+                type="submit"
+                disabled={!isOnline || isInviting || !email.trim()}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isInviting ? 'Sending...' : 'Invite'}
+              </button>
+            </div>
+            {emailError && <p className="text-sm text-red-600 dark:text-red-400">{emailError}</p>}
+            <p className="text-xs text-gray-500 dark:text-gray-400">They can accept the invitation after signing in with this email address.</p>
+          </form>
+
+          {invitations.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Pending invitations</h4>
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {invitations.map(invitation => (
+                  <li key={invitation.email} className="py-2 flex items-center justify-between gap-4 text-sm">
+                    <span className="text-gray-900 dark:text-white">
+                      {invitation.email} <span className="text-gray-500 dark:text-gray-400">· {ROLE_LABELS[invitation.role]}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => run(() => revokeInvitation(invitation.email), 'Invitation withdrawn')}
+                      disabled={!isOnline}
+                      className="text-gray-500 dark:text-gray-400 hover:underline disabled:opacity-50"
+                    >
+                      Withdraw
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+// src/components/OverlapsReport.tsx
+
+import { useMemo, useState } from 'react';
+import type { Session } from '../db/dexie';
+import { useSessionsStore } from '../store/sessions';
+import { useProjectsStore } from '../store/projects';
+import { useTimesheetsStore } from '../store/timesheets';
+import { useUIStore } from '../store/ui';
+import { formatDate, formatDurationHHMM, formatTime } from '../utils/time';
+import { isSessionBillable } from '../utils/billable';
+import {
+  findOverlaps,
+  getFixProblem,
+  getSessionEnd,
+  isContained,
+  mergeOverlap,
+  splitOverlap,
+  trimOverlap,
+  type Overlap,
+  type OverlapFix
+} from '../utils/overlaps';
+
+interface OverlapsReportProps {
+  sessions: Session[];
+}
+
+// Sessions in the range that overlap each other, with one-click fixes
+export function OverlapsReport({ sessions }: OverlapsReportProps) {
+  const { fixOverlap, deleteSession } = useSessionsStore();
+  const { projects } = useProjectsStore();
+  const timesheets = useTimesheetsStore(state => state.timesheets);
+  const { showToast } = useUIStore();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const overlaps = useMemo(() => findOverlaps(sessions), [sessions]);
+
+  if (overlaps.length === 0) return null;
+
+  const getProjectName = (projectId: string) => projects.find(p => p.id === projectId)?.name || 'Unknown Project';
+
+  const apply = async (overlap: Overlap, label: string, run: () => Promise<void>) => {
+    const key = `${overlap.first.id}_${overlap.second.id}`;
+    setBusyKey(key);
+    try {
+      await run();
+      showToast(label, 'success');
+    } catch (error) {
+      showToast((error as Error).message, 'error');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const applyFix = (overlap: Overlap, label: string, fix: OverlapFix) => apply(overlap, label, () => fixOverlap(overlap, fix));
+
+  const describe = (session: Session) => (
+    <span>
+      <span className="font-medium">{getProjectName(session.projectId)}</span>{' '}
+      {formatTime(session.start)} – {formatTime(getSessionEnd(session))}
+      {session.note ? <span className="text-gray-500 dark:text-gray-400"> · {session.note}</span> : null}
+    </span>
+  );
+
+  const buttonClass = 'px-3 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden no-print">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Overlapping Sessions <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({overlaps.length})</span>
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Time counted twice. Trim the earlier session, split it around the later one, merge them, or delete one.
+        </p>
+      </div>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {overlaps.map(overlap => {
+          const { first, second, overlapMs } = overlap;
+          const key = `${first.id}_${second.id}`;
+          const problem = getFixProblem(overlap, timesheets);
+          const disabled = !!problem || busyKey !== null;
+          // The merged session has one billable flag, so time would be billed differently
+          const mixedBillable = isSessionBillable(first, projects) !== isSessionBillable(second, projects);
+          return (
+            <li key={key} className="px-6 py-4 text-sm">
+              <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+                <div className="space-y-1 text-gray-900 dark:text-gray-100">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(first.start)} · {formatDurationHHMM(overlapMs)} overlap
+                    {problem ? ` · ${problem}` : ''}
+                  </p>
+                  <p>{describe(first)}</p>
+                  <p>{describe(second)}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {isContained(overlap) ? (
+                    <button
+                      type="button"
+                      onClick={() => applyFix(overlap, 'Session split', splitOverlap(overlap))}
+                      disabled={disabled}
+                      className={buttonClass}
+                      title="Cut the longer session around the shorter one"
+                    >
+                      Split
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => applyFix(overlap, 'Session trimmed', trimOverlap(overlap))}
+                      disabled={disabled}
+                      className={buttonClass}
+                      title="End the earlier session where the later one starts"
+                    >
+                      Trim
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => applyFix(overlap, 'Sessions merged', mergeOverlap(overlap))}
+                    disabled={disabled || mixedBillable}
+                    className={buttonClass}
+                    title={mixedBillable ? "Billable and non-billable sessions can't be merged" : "Combine both into the earlier session's project"}
+                  >
+                    Merge
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => apply(overlap, 'Session deleted', () => deleteSession(first.id))}
+                    disabled={disabled}
+                    className={`${buttonClass} text-red-600 dark:text-red-400`}
+                  >
+                    Delete First
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => apply(overlap, 'Session deleted', () => deleteSession(second.id))}
+                    disabled={disabled}
+                    className={`${buttonClass} text-red-600 dark:text-red-400`}
+                  >
+                    Delete Second
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useMemo } from 'react';
+import dayjs from 'dayjs';
+import { PerDiemEntry, PerDiemMeal } from '../db/dexie';
+import { usePerDiemsStore } from '../store/perDiems';
+import { useProjectsStore } from '../store/projects';
+import { useUIStore } from '../store/ui';
+import { FULL_DAY_MEALS, PER_DIEM_MEALS, getPerDiemPercent } from '../utils/perDiem';
+
+interface PerDiemFormModalProps {
+  entry?: PerDiemEntry | null;  // Edit this entry, or add a new one when unset
+  onClose: () => void;
+}
+
+export function PerDiemFormModal({ entry, onClose }: PerDiemFormModalProps) {
+  const { projects } = useProjectsStore();
+  const { createPerDiems, updatePerDiem } = usePerDiemsStore();
+  const { showToast, currentProjectId } = useUIStore();
+
+  const activeProjects = useMemo(() => projects.filter(p => !p.archived), [projects]);
+  const initialProject = entry
+    ? projects.find(p => p.id === entry.projectId)
+    : activeProjects.find(p => p.id === currentProjectId) || activeProjects[0];
+
+  const [projectId, setProjectId] = useState(initialProject?.id || '');
+  const [date, setDate] = useState(dayjs(entry?.date).format('YYYY-MM-DD'));
+  const [meals, setMeals] = useState<PerDiemMeal[]>(entry?.meals || FULL_DAY_MEALS);
+  const [note, setNote] = useState(entry?.note || '');
+
+  const toggleMeal = (meal: PerDiemMeal) => {
+    setMeals(prev => prev.includes(meal) ? prev.filter(m => m !== meal) : [...prev, meal]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!projectId) {
+      showToast('Please select a project', 'error');
+      return;
+    }
+    if (meals.length === 0) {
+      showToast('Select at least one meal', 'error');
+      return;
+    }
+
+    const data = {
+      projectId,
+      date: dayjs(date).startOf('day').valueOf(),
+      meals,
+      note: note.trim(),
+    };
+
+    if (entry?.id) {
+      await updatePerDiem(entry.id, data);
+      showToast('Per diem updated', 'success');
+    } else {
+      const added = await createPerDiems([data]);
+      if (added === 0) return;
+      showToast('Per diem added', 'success');
+    }
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onClose();
+    else if (e.key === 'Enter' && e.ctrlKey) handleSubmit(e as any);
+  };
+
+  const isInvoiced = !!entry?.invoiceNumber;
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full" onKeyDown={handleKeyDown}>
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+            {entry ? 'Edit Per Diem' : 'Add Per Diem'}
+          </h2>
+          {isInvoiced && (
+            <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
+              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                Billed on invoice {entry?.invoiceNumber}. Void the invoice to change the meals claimed.
+              </p>
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className={labelClass}>
+                Project <span className="text-red-500">*</span>
+              </label>
+              <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass} required>
+                <option value="">Select a project</option>
+                {activeProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>
+                Date <span className="text-red-500">*</span>
+              </label>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className={labelClass}>Meals</label>
+              <div className="flex flex-wrap gap-4">
+                {PER_DIEM_MEALS.map(meal => (
+                  <label key={meal.value} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={meals.includes(meal.value)}
+                      onChange={() => toggleMeal(meal.value)}
+                      disabled={isInvoiced}
+                      className="h-4 w-4 mr-2 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+                    />
+                    {meal.label} ({meal.percent}%)
+                  </label>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Claiming {getPerDiemPercent(meals)}% of the customer's daily rate.
+              </p>
+            </div>
+            <div>
+              <label className={labelClass}>Note</label>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className={`${inputClass} resize-none`}
+                rows={2}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                {entry ? 'Save Changes' : 'Add Per Diem'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react';
+import { PerDiemEntry, Session, TravelEntry } from '../db/dexie';
+import { usePerDiemsStore } from '../store/perDiems';
+import { useCustomersStore } from '../store/customers';
+import { useProjectsStore } from '../store/projects';
+import { useUIStore } from '../store/ui';
+import { formatCurrency } from '../utils/currency';
+import { formatDate } from '../utils/time';
+import { getProjectCustomer } from '../utils/rounding';
+import {
+  FULL_DAY_MEALS,
+  describePerDiemMeals,
+  getPerDiemAmount,
+  getPerDiemDays,
+  getPerDiemPercent,
+  getPerDiemSuggestions,
+} from '../utils/perDiem';
+import { PerDiemFormModal } from './PerDiemFormModal';
+
+interface PerDiemLogProps {
+  perDiems: PerDiemEntry[];
+  // Activity in the same period, used to suggest missing per-diem days
+  sessions: Session[];
+  travelEntries: TravelEntry[];
+}
+
+export function PerDiemLog({ perDiems, sessions, travelEntries }: PerDiemLogProps) {
+  const { createPerDiems, deletePerDiem } = usePerDiemsStore();
+  const { customers } = useCustomersStore();
+  const { projects } = useProjectsStore();
+  const { showConfirm, showToast } = useUIStore();
+  const [editingEntry, setEditingEntry] = useState<PerDiemEntry | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const sortedEntries = [...perDiems].sort((a, b) => b.date - a.date);
+
+  const suggestions = useMemo(
+    () => getPerDiemSuggestions(sessions, travelEntries, perDiems, projects, customers),
+    [sessions, travelEntries, perDiems, projects, customers]
+  );
+
+  // Amount per currency at each customer's daily rate
+  const totals = useMemo(() => {
+    const byCurrency: Record<string, number> = {};
+    perDiems.forEach(entry => {
+      const customer = getProjectCustomer(entry.projectId, projects, customers);
+      if (!customer?.perDiemRate) return;
+      const currency = customer.currency || 'CAD';
+      byCurrency[currency] = (byCurrency[currency] || 0) + getPerDiemAmount([entry], customer.perDiemRate);
+    });
+    return byCurrency;
+  }, [perDiems, projects, customers]);
+
+  const findProject = (projectId: string) => {
+    return projects.find(p => p.id === projectId);
+  };
+
+  const handleAddSuggestions = async (toAdd: typeof suggestions) => {
+    const added = await createPerDiems(toAdd.map(s => ({ projectId: s.projectId, date: s.date, meals: FULL_DAY_MEALS })));
+    if (added > 0) {
+      showToast(`Added ${added} per-diem ${added === 1 ? 'day' : 'days'}`, 'success');
+    }
+  };
+
+  const handleDelete = (entry: PerDiemEntry) => {
+    if (entry.invoiceNumber) {
+      showToast(`This per diem is billed on invoice ${entry.invoiceNumber}. Void the invoice first.`, 'error');
+      return;
+    }
+    showConfirm(
+      'Delete Per Diem',
+      `Are you sure you want to delete the per diem for ${formatDate(entry.date)}?`,
+      async () => {
+        if (entry.id) {
+          await deletePerDiem(entry.id);
+          showToast('Per diem deleted', 'success');
+        }
+      }
+    );
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap justify-between items-center gap-3 px-6 py-4">
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          {perDiems.length > 0 ? (
+            <>
+              {getPerDiemDays(perDiems)} days
+              {Object.entries(totals).map(([currency, total]) => ` · ${formatCurrency(total, currency)}`)}
+            </>
+          ) : 'No per-diem days'}
+        </div>
+        <button
+          onClick={() => setIsAdding(true)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+        >
+          Add Per Diem
+        </button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="mx-6 mb-4 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md">
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <p className="text-sm text-blue-800 dark:text-blue-200">
+              {suggestions.length} {suggestions.length === 1 ? 'day has' : 'days have'} travel or work for customers with a per-diem rate but no per diem.
+            </p>
+            <div className="flex gap-3 text-sm">
+              <button onClick={() => setShowSuggestions(!showSuggestions)} className="text-blue-700 dark:text-blue-300 hover:underline">
+                {showSuggestions ? 'Hide' : 'Review'}
+              </button>
+              <button onClick={() => handleAddSuggestions(suggestions)} className="text-blue-700 dark:text-blue-300 font-medium hover:underline">
+                Add all as full days
+              </button>
+            </div>
+          </div>
+          {showSuggestions && (
+            <ul className="mt-3 divide-y divide-blue-100 dark:divide-blue-800">
+              {suggestions.map(suggestion => (
+                <li key={`${suggestion.projectId}-${suggestion.date}`} className="flex justify-between items-center py-2 text-sm text-gray-700 dark:text-gray-300">
+                  <span>{formatDate(suggestion.date)} · {findProject(suggestion.projectId)?.name || 'Unknown Project'}</span>
+                  <button onClick={() => handleAddSuggestions([suggestion])} className="text-blue-700 dark:text-blue-300 hover:underline">
+                    Add
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+            <tr>
+              <th scope="col" className="px-6 py-3">Date</th>
+              <th scope="col" className="px-6 py-3">Meals</th>
+              <th scope="col" className="px-6 py-3">Amount</th>
+              <th scope="col" className="px-6 py-3">Customer</th>
+              <th scope="col" className="px-6 py-3">Project</th>
+              <th scope="col" className="px-6 py-3">Note</th>
+              <th scope="col" className="px-6 py-3">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedEntries.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                  No per-diem entries found for the selected date range and filters.
+                </td>
+              </tr>
+            ) : (
+              sortedEntries.map(entry => {
+                const project = findProject(entry.projectId);
+                const customer = getProjectCustomer(entry.projectId, projects, customers);
+                return (
+                  <tr key={entry.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
+                    <td className="px-6 py-4">{new Date(entry.date).toLocaleDateString()}</td>
+                    <td className="px-6 py-4">
+                      {describePerDiemMeals(entry.meals)}
+                      <span className="block text-xs">{getPerDiemPercent(entry.meals)}%</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {customer?.perDiemRate
+                        ? formatCurrency(getPerDiemAmount([entry], customer.perDiemRate), customer.currency || 'CAD')
+                        : 'No rate'}
+                      {entry.invoiceNumber && (
+                        <span className="block text-xs text-green-600 dark:text-green-400">{entry.invoiceNumber}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">{customer?.companyName || 'N/A'}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center">
+                        <div
+                          className="w-3 h-3 rounded-full mr-2 flex-shrink-0"
+                          style={{ backgroundColor: project?.color || '#6b7280' }}
+                        />
+                        {project?.name || 'Unknown Project'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">{entry.note}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <button onClick={() => setEditingEntry(entry)} className="text-blue-600 hover:text-blue-900 dark:text-blue-500 dark:hover:text-blue-300" aria-label="Edit per diem">
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" />
+                            <path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clipRule="evenodd" />
+                          </svg>
+                        </button>
+                        <button onClick={() => handleDelete(entry)} className="text-red-600 hover:text-red-900 dark:text-red-500 dark:hover:text-red-300" aria-label="Delete per diem">
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" />
+                          </svg>
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+      {(isAdding || editingEntry) && (
+        <PerDiemFormModal
+          entry={editingEntry}
+          onClose={() => {
+            setIsAdding(false);
+            setEditingEntry(null);
+          }}
+        />
+      )}
+    </>
+  );
+}
@@ -2,7 +2,13 @@ import React, { useState, useEffect } from 'react'
 import { useProjectsStore } from '../store/projects'
 import { useCustomersStore } from '../store/customers'
 import { useUIStore } from '../store/ui'
-import { Project } from '../db/dexie'
+import { useAuthStore } from '../store/auth'
+import { Project, ProjectBudget } from '../db/dexie'
+import { isProjectBillable } from '../utils/billable'
+import { hasBudget } from '../utils/budget'
+import { BudgetProgress } from './BudgetProgress'
+import { BudgetBurnDown } from './BudgetBurnDown'
+import { useCan } from '../hooks/useCan'
 
 const COLORS = [
   '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6',
@@ -10,13 +16,26 @@ const COLORS = [
   '#14b8a6', '#f43f5e', '#22c55e', '#a855f7', '#0ea5e9'
 ]
 
+const EMPTY_FORM = {
+  name: '',
+  color: COLORS[0],
+  customerId: undefined as string | undefined,
+  billable: true,
+  budgetHours: '',
+  budgetAmount: '',
+  resetMonthly: false
+}
+
 export function ProjectManagerModal() {
   const { projects, createProject, updateProject, deleteProject, archiveProject } = useProjectsStore()
   const { customers, loadCustomers } = useCustomersStore()
   const { isProjectManagerOpen, closeProjectManager, showConfirm, showToast } = useUIStore()
+  const can = useCan()
+  const activeOrganization = useAuthStore(state => state.activeOrganization)
+  const canEditBudget = can('editProjectBudgets')
   const [editingProject, setEditingProject] = useState<Project | null>(null)
   const [isCreating, setIsCreating] = useState(false)
-  const [formData, setFormData] = useState({ name: '', color: COLORS[0], customerFirestoreId: undefined as string | undefined })
+  const [formData, setFormData] = useState(EMPTY_FORM)
 
   useEffect(() => {
     if (isProjectManagerOpen) {
@@ -28,7 +47,7 @@ export function ProjectManagerModal() {
     if (!isProjectManagerOpen) {
       setEditingProject(null)
       setIsCreating(false)
-      setFormData({ name: '', color: COLORS[0], customerFirestoreId: undefined })
+      setFormData(EMPTY_FORM)
     }
   }, [isProjectManagerOpen])
 
@@ -40,26 +59,36 @@ export function ProjectManagerModal() {
       return
     }
 
-    try {
-      // Find the customer's local ID for backward compatibility
-      const customer = formData.customerFirestoreId
-        ? customers.find(c => c.firestoreId === formData.customerFirestoreId)
-        : undefined;
+    const budgetHours = formData.budgetHours ? parseFloat(formData.budgetHours) : 0
+    const budgetAmount = formData.budgetAmount ? parseFloat(formData.budgetAmount) : 0
+    if (isNaN(budgetHours) || budgetHours < 0 || isNaN(budgetAmount) || budgetAmount < 0) {
+      showToast('Budgets must be positive numbers', 'error')
+      return
+    }
+    // Zero limits mean "no budget"; Firestore doesn't accept undefined fields
+    const budget = { hours: budgetHours, amount: budgetAmount, resetMonthly: formData.resetMonthly }
+    // Without permission the budget is left as it is
+    const budgetUpdate = canEditBudget ? { budget } : {}
 
+    try {
       if (editingProject) {
         await updateProject(editingProject.id!, {
           name: formData.name.trim(),
           color: formData.color,
-          customerId: customer?.id,
-          customerFirestoreId: formData.customerFirestoreId
+          customerId: formData.customerId,
+          billable: formData.billable,
+          ...budgetUpdate,
+          // A changed budget starts its alerts over
+          ...(canEditBudget && budgetChanged(editingProject.budget, budget) ? { budgetAlerts: [] } : {})
         })
         showToast('Project updated', 'success')
       } else {
         await createProject({
           name: formData.name.trim(),
           color: formData.color,
-          customerId: customer?.id,
-          customerFirestoreId: formData.customerFirestoreId,
+          customerId: formData.customerId,
+          billable: formData.billable,
+          ...budgetUpdate,
           archived: false
         })
         showToast('Project created', 'success')
@@ -67,7 +96,7 @@ export function ProjectManagerModal() {
 
       setEditingProject(null)
       setIsCreating(false)
-      setFormData({ name: '', color: COLORS[0], customerFirestoreId: undefined })
+      setFormData(EMPTY_FORM)
     } catch (error) {
       showToast('Failed to save project', 'error')
     }
@@ -75,20 +104,28 @@ export function ProjectManagerModal() {
 
   const handleEdit = (project: Project) => {
     setEditingProject(project)
-    setFormData({ name: project.name, color: project.color, customerFirestoreId: project.customerFirestoreId })
+    setFormData({
+      name: project.name,
+      color: project.color,
+      customerId: project.customerId,
+      billable: isProjectBillable(project),
+      budgetHours: project.budget?.hours ? project.budget.hours.toString() : '',
+      budgetAmount: project.budget?.amount ? project.budget.amount.toString() : '',
+      resetMonthly: project.budget?.resetMonthly || false
+    })
     setIsCreating(false)
   }
 
   const handleCreate = () => {
     setIsCreating(true)
     setEditingProject(null)
-    setFormData({ name: '', color: COLORS[0], customerFirestoreId: undefined })
+    setFormData(EMPTY_FORM)
   }
 
   const handleDelete = (project: Project) => {
     // Find the customer name if the project is linked to a customer
-    const customer = project.customerFirestoreId
-      ? customers.find(c => c.firestoreId === project.customerFirestoreId)
+    const customer = project.customerId
+      ? customers.find(c => c.id === project.customerId)
       : undefined;
 
     const customerInfo = customer ? ` from ${customer.companyName}` : '';
@@ -98,8 +135,12 @@ export function ProjectManagerModal() {
       'Delete Project',
       `Are you sure you want to delete "${project.name}"${customerInfo}?\n\nThis will also delete all associated time sessions.\n\nThis action cannot be undone.`,
       async () => {
-        await deleteProject(project.id!)
-        showToast('Project deleted', 'success')
+        try {
+          await deleteProject(project.id!)
+          showToast('Project deleted', 'success')
+        } catch (error) {
+          showToast((error as Error).message, 'error')
+        }
       },
       undefined,
       confirmText
@@ -121,7 +162,7 @@ export function ProjectManagerModal() {
   const handleCancel = () => {
     setEditingProject(null)
     setIsCreating(false)
-    setFormData({ name: '', color: COLORS[0], customerFirestoreId: undefined })
+    setFormData(EMPTY_FORM)
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -137,10 +178,7 @@ export function ProjectManagerModal() {
   const activeProjects = projects.filter(p => {
     if (p.archived) return false
     // Filter out projects from archived customers
-    if (p.customerFirestoreId) {
-      const customer = customers.find(c => c.firestoreId === p.customerFirestoreId)
-      if (customer?.archived) return false
-    } else if (p.customerId) {
+    if (p.customerId) {
       const customer = customers.find(c => c.id === p.customerId)
       if (customer?.archived) return false
     }
@@ -201,19 +239,77 @@ export function ProjectManagerModal() {
                   Customer (Optional)
                 </label>
                 <select
-                  value={formData.customerFirestoreId || ''}
-                  onChange={(e) => setFormData({ ...formData, customerFirestoreId: e.target.value || undefined })}
+                  value={formData.customerId || ''}
+                  onChange={(e) => setFormData({ ...formData, customerId: e.target.value || undefined })}
                   className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="">No customer</option>
                   {customers.filter(c => !c.archived).map((customer) => (
-                    <option key={customer.id} value={customer.firestoreId}>
+                    <option key={customer.id} value={customer.id}>
                       {customer.companyName}
                     </option>
                   ))}
                 </select>
               </div>
 
+              <div>
+                <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.billable}
+                    onChange={(e) => setFormData({ ...formData, billable: e.target.checked })}
+                    className="h-4 w-4 mr-2 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+                  />
+                  Billable by default
+                </label>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  New sessions on this project start as billable. Each session can still be changed.
+                </p>
+              </div>
+
+              <fieldset disabled={!canEditBudget}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Budget (Optional)
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    value={formData.budgetHours}
+                    onChange={(e) => setFormData({ ...formData, budgetHours: e.target.value })}
+                    className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Hours"
+                    aria-label="Budget hours"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.budgetAmount}
+                    onChange={(e) => setFormData({ ...formData, budgetAmount: e.target.value })}
+                    className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Amount"
+                    aria-label="Budget amount"
+                  />
+                </div>
+                <label className="mt-2 flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.resetMonthly}
+                    onChange={(e) => setFormData({ ...formData, resetMonthly: e.target.checked })}
+                    className="h-4 w-4 mr-2 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+                  />
+                  Reset every month
+                </label>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {canEditBudget
+                    ? "The amount is billable time at the customer's rates. You'll be alerted at 80% and 100%."
+                    : 'Only owners and admins can change budgets.'}
+                  {activeOrganization && " Usage and alerts count only the time you log yourself, not your teammates'."}
+                </p>
+              </fieldset>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Color
@@ -275,7 +371,7 @@ export function ProjectManagerModal() {
                     key={project.id}
                     project={project}
                     onEdit={handleEdit}
-                    onDelete={handleDelete}
+                    onDelete={can('deleteProjects') ? handleDelete : undefined}
                     onArchive={handleArchive}
                   />
                 ))}
@@ -292,7 +388,7 @@ export function ProjectManagerModal() {
                     key={project.id}
                     project={project}
                     onEdit={handleEdit}
-                    onDelete={handleDelete}
+                    onDelete={can('deleteProjects') ? handleDelete : undefined}
                     onArchive={handleArchive}
                   />
                 ))}
@@ -308,81 +404,114 @@ export function ProjectManagerModal() {
 interface ProjectItemProps {
   project: Project
   onEdit: (project: Project) => void
-  onDelete: (project: Project) => void
+  onDelete?: (project: Project) => void  // Left out when the user may not delete projects
   onArchive: (project: Project) => void
 }
 
 
 function ProjectItem({ project, onEdit, onDelete, onArchive }: ProjectItemProps) {
   const { customers } = useCustomersStore();
-  const customer = project.customerFirestoreId
-    ? customers.find(c => c.firestoreId === project.customerFirestoreId)
+  const [showBurnDown, setShowBurnDown] = useState(false);
+  const customer = project.customerId
+    ? customers.find(c => c.id === project.customerId)
     : undefined;
 
   return (
     <div className={`
-      flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg
+      p-3 border border-gray-200 dark:border-gray-700 rounded-lg
       ${project.archived ? 'bg-gray-50 dark:bg-gray-700 opacity-75' : 'bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700'}
     `}>
-      <div className="flex items-center">
-        <div
-          className="w-4 h-4 rounded-full mr-3 flex-shrink-0"
-          style={{ backgroundColor: project.color }}
-        />
-        <div className="flex flex-col">
-          <span className={`font-medium ${project.archived ? 'text-gray-500 dark:text-gray-400' : 'text-gray-900 dark:text-white'}`}>
-            {project.name}
-          </span>
-          {customer && (
-            <span className="text-xs text-gray-500 dark:text-gray-400">
-              {customer.companyName}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <div
+            className="w-4 h-4 rounded-full mr-3 flex-shrink-0"
+            style={{ backgroundColor: project.color }}
+          />
+          <div className="flex flex-col">
+            <span className={`font-medium ${project.archived ? 'text-gray-500 dark:text-gray-400' : 'text-gray-900 dark:text-white'}`}>
+              {project.name}
+            </span>
+            {customer && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {customer.companyName}
+              </span>
+            )}
+            {!isProjectBillable(project) && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                Non-billable
+              </span>
+            )}
+          </div>
+          {project.archived && (
+            <span className="ml-2 px-2 py-1 bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300 text-xs rounded-full">
+              Archived
             </span>
           )}
         </div>
-        {project.archived && (
-          <span className="ml-2 px-2 py-1 bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300 text-xs rounded-full">
-            Archived
-          </span>
-        )}
-      </div>
 
-      <div className="flex space-x-2">
-        <button
-          onClick={() => onEdit(project)}
-          className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors p-1"
-          aria-label="Edit project"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-          </svg>
-        </button>
-
-        <button
-          onClick={() => onArchive(project)}
-          className="text-orange-600 dark:text-orange-400 hover:text-orange-800 dark:hover:text-orange-300 transition-colors p-1"
-          aria-label={project.archived ? 'Unarchive project' : 'Archive project'}
-        >
-          {project.archived ? (
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16l-4-4m0 0l4-4m-4 4h18" />
-            </svg>
-          ) : (
+        <div className="flex space-x-2">
+          {hasBudget(project.budget) && (
+            <button
+              onClick={() => setShowBurnDown(!showBurnDown)}
+              className="text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-300 transition-colors p-1"
+              aria-label={showBurnDown ? 'Hide budget burn-down' : 'Show budget burn-down'}
+              aria-expanded={showBurnDown}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 17h8m0 0V9m0 8l-8-8-4 4-6-6" />
+              </svg>
+            </button>
+          )}
+
+          <button
+            onClick={() => onEdit(project)}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors p-1"
+            aria-label="Edit project"
+          >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
             </svg>
+          </button>
+
+          <button
+            onClick={() => onArchive(project)}
+            className="text-orange-600 dark:text-orange-400 hover:text-orange-800 dark:hover:text-orange-300 transition-colors p-1"
+            aria-label={project.archived ? 'Unarchive project' : 'Archive project'}
+          >
+            {project.archived ? (
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16l-4-4m0 0l4-4m-4 4h18" />
+              </svg>
+            ) : (
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+              </svg>
+            )}
+          </button>
+
+          {onDelete && (
+            <button
+              onClick={() => onDelete(project)}
+              className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors p-1"
+              aria-label="Delete project"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
           )}
-        </button>
-
-        <button
-          onClick={() => onDelete(project)}
-          className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors p-1"
-          aria-label="Delete project"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-          </svg>
-        </button>
+        </div>
       </div>
+
+      <BudgetProgress project={project} />
+      {showBurnDown && <BudgetBurnDown project={project} />}
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Whether the limits or reset of a project budget were edited
+function budgetChanged(before: ProjectBudget | undefined, after: ProjectBudget) {
+  return (before?.hours || 0) !== (after.hours || 0)
+    || (before?.amount || 0) !== (after.amount || 0)
+    || (before?.resetMonthly || false) !== after.resetMonthly
+}
@@ -4,9 +4,10 @@ import { useProjectsStore } from '../store/projects'
 import { useUIStore } from '../store/ui'
 import { useNavigate } from 'react-router-dom'
 import { db } from '../db/dexie'
+import { BudgetProgress } from './BudgetProgress'
 
 interface ProjectSelectProps {
-  onProjectChange?: (projectId: number) => void
+  onProjectChange?: (projectId: string) => void
   disabled?: boolean
 }
 
@@ -30,10 +31,7 @@ export function ProjectSelect({ onProjectChange, disabled = false }: ProjectSele
       const firstActiveProject = projects.find(p => {
       if (p.archived) return false
         // Check if customer is archived
-      if (p.customerFirestoreId) {
-    const customer = customers?.find(c => c.firestoreId === p.customerFirestoreId)
-  if (customer?.archived) return false
-} else if (p.customerId) {
+      if (p.customerId) {
   const customer = customers?.find(c => c.id === p.customerId)
   if (customer?.archived) return false
 }
@@ -49,10 +47,7 @@ export function ProjectSelect({ onProjectChange, disabled = false }: ProjectSele
     const activeProjects = projects.filter(p => {
       if (p.archived) return false
       // Check if customer is archived
-    if (p.customerFirestoreId) {
-      const customer = customers?.find(c => c.firestoreId === p.customerFirestoreId)
-    if (customer?.archived) return false
-  } else if (p.customerId) {
+    if (p.customerId) {
 const customer = customers?.find(c => c.id === p.customerId)
   if (customer?.archived) return false
     }
@@ -61,7 +56,7 @@ const customer = customers?.find(c => c.id === p.customerId)
         
         const currentProject = projects.find(p => p.id === currentProjectId)
         
-        const handleProjectSelect = (projectId: number) => {
+        const handleProjectSelect = (projectId: string) => {
           setCurrentProject(projectId)
           onProjectChange?.(projectId)
           setIsOpen(false)
@@ -115,6 +110,7 @@ aria-label="Select project"
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                     </svg>
                     </button>
+                    {currentProject && <BudgetProgress project={currentProject} compact />}
                   
                 {isOpen && (
               <div className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-lg">
@@ -138,7 +134,10 @@ aria-label="Select project"
                   className="w-3 h-3 rounded-full mr-2 flex-shrink-0"
                 style={{ backgroundColor: project.color }}
                 />
-              <span className="truncate">{project.name}</span>
+              <div className="flex-1 min-w-0">
+                <span className="block truncate">{project.name}</span>
+                <BudgetProgress project={project} compact />
+              </div>
             </button>
           </li>
         ))
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { useNotificationSettingsStore } from '../store/notificationSettings';
+
+// How sessions are checked when they are saved
+export function SessionSettings() {
+  const { settings, loadSettings, updateSetting } = useNotificationSettingsStore();
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Sessions</h3>
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-gray-800 dark:text-gray-200">Allow Overlapping Sessions</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Save sessions that overlap other time instead of refusing them. Overlaps still show up in the History report. Applies on all your devices.</p>
+        </div>
+        <label htmlFor="allow-overlaps-toggle" className="relative inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            id="allow-overlaps-toggle"
+            className="sr-only peer"
+            checked={settings.allowOverlaps}
+            onChange={(e) => updateSetting('allowOverlaps', e.target.checked)}
+          />
+          <div className="w-11 h-6 bg-gray-200 rounded-full peer peer-focus:ring-2 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+// src/components/SessionsCalendar.tsx
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import dayjs from 'dayjs';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type Session } from '../db/dexie';
+import { useSessionsStore } from '../store/sessions';
+import { useProjectsStore } from '../store/projects';
+import { useAuthStore } from '../store/auth';
+import { useTimesheetsStore } from '../store/timesheets';
+import { useUIStore } from '../store/ui';
+import { formatDate, formatDurationHours, formatTime } from '../utils/time';
+import { isSessionLocked } from '../utils/timesheets';
+import {
+  CALENDAR_VIEW_LABELS,
+  SNAP_MINUTES,
+  atMinutes,
+  formatCalendarTitle,
+  getCalendarDays,
+  layoutDay,
+  moveSession,
+  resizeSession,
+  shiftAnchor,
+  snapMinutes,
+  type CalendarView
+} from '../utils/calendar';
+
+const HOUR_HEIGHT = 48;  // px
+const PX_PER_MINUTE = HOUR_HEIGHT / 60;
+const DAY_MINUTES = 24 * 60;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+type Drag =
+  | { type: 'create'; day: string; from: number; to: number }
+  | { type: 'move'; session: Session; day: string; start: number; grabOffset: number; moved: boolean }
+  | { type: 'resize'; session: Session; edge: 'start' | 'stop'; minutes: number };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Sessions as blocks on a day, week or month calendar. Drag to create, move and resize them.
+export function SessionsCalendar() {
+  const { createSession, updateSession } = useSessionsStore();
+  const { projects } = useProjectsStore();
+  const activeOrganization = useAuthStore(state => state.activeOrganization);
+  const timesheets = useTimesheetsStore(state => state.timesheets);
+  const { currentProjectId, showToast } = useUIStore();
+
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => formatDate(Date.now()));
+  const [newProjectId, setNewProjectId] = useState(() => currentProjectId || projects.find(p => !p.archived)?.id || '');
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const days = useMemo(() => getCalendarDays(view, anchor), [view, anchor]);
+
+  const visibleSessions = useLiveQuery(
+    () => db.sessions.where('start').between(atMinutes(days[0], 0), atMinutes(days[days.length - 1], DAY_MINUTES), true, false).toArray(),
+    [days],
+    [] as Session[]
+  );
+
+  // Leave out sessions of another organization's projects
+  const sessions = useMemo(
+    () => visibleSessions.filter(s => projects.some(p => p.id === s.projectId)),
+    [visibleSessions, projects]
+  );
+
+  // Start the time grid at the working day
+  useEffect(() => {
+    if (view !== 'month' && scrollRef.current) {
+      scrollRef.current.scrollTop = 7 * HOUR_HEIGHT;
+    }
+  }, [view]);
+
+  const getProject = (projectId: string) => projects.find(p => p.id === projectId);
+
+  // Invoiced sessions and ones on a submitted or approved timesheet stay put
+  const isFixed = (session: Session) => !!session.invoiceNumber || isSessionLocked(session, timesheets);
+
+  const sessionsOn = (day: string) => sessions.filter(s => formatDate(s.start) === day);
+
+  const pointerAt = (e: React.PointerEvent) => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    const column = clamp(Math.floor((e.clientX - rect.left) / (rect.width / days.length)), 0, days.length - 1);
+    return { day: days[column], minutes: clamp((e.clientY - rect.top) / PX_PER_MINUTE, 0, DAY_MINUTES) };
+  };
+
+  const saveSession = async (session: Session, updates: { start: number; stop: number; durationMs: number }) => {
+    if (isSessionLocked({ ...session, ...updates }, timesheets)) {
+      showToast("That week is on a submitted or approved timesheet", 'error');
+      return;
+    }
+    try {
+      await updateSession(session.id, updates);
+    } catch (error) {
+      showToast((error as Error).message, 'error');
+    }
+  };
+
+  const handleGridPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    const { day, minutes } = pointerAt(e);
+    const from = Math.floor(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ type: 'create', day, from, to: from });
+  };
+
+  const handleBlockPointerDown = (e: React.PointerEvent<HTMLDivElement>, session: Session, top: number) => {
+    e.stopPropagation();
+    if (e.button !== 0 || isFixed(session)) return;
+    gridRef.current?.setPointerCapture(e.pointerId);
+    const edge = (e.target as HTMLElement).dataset.edge as 'start' | 'stop' | undefined;
+    if (edge) {
+      setDrag({ type: 'resize', session, edge, minutes: edge === 'start' ? top : top + session.durationMs / 60000 });
+    } else {
+      setDrag({ type: 'move', session, day: formatDate(session.start), start: top, grabOffset: pointerAt(e).minutes - top, moved: false });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const { day, minutes } = pointerAt(e);
+    if (drag.type === 'create') {
+      setDrag({ ...drag, to: snapMinutes(minutes) });
+    } else if (drag.type === 'move') {
+      const start = clamp(snapMinutes(minutes - drag.grabOffset), 0, DAY_MINUTES - SNAP_MINUTES);
+      if (start !== drag.start || day !== drag.day) {
+        setDrag({ ...drag, day, start, moved: true });
+      }
+    } else {
+      setDrag({ ...drag, minutes: snapMinutes(minutes) });
+    }
+  };
+
+  const handlePointerUp = async () => {
+    const finished = drag;
+    setDrag(null);
+    if (!finished) return;
+
+    if (finished.type === 'create') {
+      const from = Math.min(finished.from, finished.to);
+      const to = Math.max(finished.from, finished.to);
+      if (to - from < SNAP_MINUTES) return;
+      if (!newProjectId) {
+        showToast('Choose a project for new sessions first', 'error');
+        return;
+      }
+      const start = atMinutes(finished.day, from);
+      if (isSessionLocked({ start, organizationId: activeOrganization ?? undefined }, timesheets)) {
+        showToast("That week is on a submitted or approved timesheet", 'error');
+        return;
+      }
+      const durationMs = (to - from) * 60000;
+      try {
+        await createSession({ projectId: newProjectId, start, stop: start + durationMs, durationMs, tags: [] });
+      } catch (error) {
+        showToast((error as Error).message, 'error');
+      }
+    } else if (finished.type === 'move') {
+      if (finished.moved) {
+        await saveSession(finished.session, moveSession(finished.session, finished.day, finished.start));
+      }
+    } else {
+      await saveSession(finished.session, resizeSession(finished.session, finished.edge, finished.minutes));
+    }
+  };
+
+  // Month view: drop a session on another day at the same time of day
+  const handleDrop = async (day: string) => {
+    const session = sessions.find(s => s.id === draggedId);
+    setDraggedId(null);
+    if (!session || formatDate(session.start) === day) return;
+    const minutes = (session.start - dayjs(session.start).startOf('day').valueOf()) / 60000;
+    await saveSession(session, moveSession(session, day, minutes));
+  };
+
+  // The block being dragged, where it would end up
+  const dragPreview = (day: string): { top: number; bottom: number; color: string } | null => {
+    if (!drag) return null;
+    if (drag.type === 'create') {
+      if (drag.day !== day || drag.from === drag.to) return null;
+      return { top: Math.min(drag.from, drag.to), bottom: Math.max(drag.from, drag.to), color: getProject(newProjectId)?.color || '#6b7280' };
+    }
+    const color = getProject(drag.session.projectId)?.color || '#6b7280';
+    if (drag.type === 'move') {
+      if (!drag.moved || drag.day !== day) return null;
+      return { top: drag.start, bottom: drag.start + drag.session.durationMs / 60000, color };
+    }
+    if (formatDate(drag.session.start) !== day) return null;
+    const { start, stop } = resizeSession(drag.session, drag.edge, drag.minutes);
+    const midnight = dayjs(day).startOf('day').valueOf();
+    return { top: (start - midnight) / 60000, bottom: (stop - midnight) / 60000, color };
+  };
+
+  const today = formatDate(Date.now());
+  const dayTotal = (day: string) => sessionsOn(day).reduce((total, s) => total + s.durationMs, 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}
+            className="px-2 py-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            aria-label="Previous"
+          >
+            ‹
+          </button>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{formatCalendarTitle(view, anchor)}</h3>
+          <button
+            type="button"
+            onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}
+            className="px-2 py-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            aria-label="Next"
+          >
+            ›
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor(today)}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Today
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {view !== 'month' && (
+            <select
+              value={newProjectId}
+              onChange={(e) => setNewProjectId(e.target.value)}
+              className="border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Project for new sessions"
+              title="Project for sessions drawn on the calendar"
+            >
+              <option value="">New sessions for...</option>
+              {projects.filter(p => !p.archived).map(project => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+          )}
+          <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+            {(Object.keys(CALENDAR_VIEW_LABELS) as CalendarView[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`px-3 py-1 text-sm ${view === option ? 'bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+              >
+                {CALENDAR_VIEW_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {view === 'month' ? (
+        <div className="grid grid-cols-7 text-sm">
+          {days.slice(0, 7).map(day => (
+            <div key={day} className="px-2 py-2 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase bg-gray-50 dark:bg-gray-700">
+              {dayjs(day).format('ddd')}
+            </div>
+          ))}
+          {days.map(day => {
+            const inMonth = dayjs(day).isSame(anchor, 'month');
+            return (
+              <div
+                key={day}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(day)}
+                className={`min-h-[6rem] p-1 border-t border-l border-gray-200 dark:border-gray-700 ${inMonth ? '' : 'bg-gray-50 dark:bg-gray-900/40'}`}
+              >
+                <div className="flex justify-between items-center mb-1">
+                  <button
+                    type="button"
+                    onClick={() => { setView('day'); setAnchor(day); }}
+                    className={`text-xs px-1 rounded hover:underline ${day === today ? 'bg-blue-600 text-white' : inMonth ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400'}`}
+                  >
+                    {dayjs(day).date()}
+                  </button>
+                  {dayTotal(day) > 0 && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{formatDurationHours(dayTotal(day))} h</span>
+                  )}
+                </div>
+                {sessionsOn(day).sort((a, b) => a.start - b.start).map(session => {
+                  const project = getProject(session.projectId);
+                  return (
+                    <div
+                      key={session.id}
+                      draggable={!isFixed(session)}
+                      onDragStart={() => setDraggedId(session.id)}
+                      onDragEnd={() => setDraggedId(null)}
+                      title={`${project?.name || 'Unknown Project'} · ${formatTime(session.start)} · ${formatDurationHours(session.durationMs)} h${session.note ? ` · ${session.note}` : ''}`}
+                      className={`mb-0.5 px-1 rounded text-xs text-white truncate ${isFixed(session) ? 'opacity-70' : 'cursor-move'}`}
+                      style={{ backgroundColor: project?.color || '#6b7280' }}
+                    >
+                      {formatDurationHours(session.durationMs)} {project?.name || 'Unknown Project'}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <>
+          <div className="flex border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700">
+            <div className="w-14 flex-shrink-0" />
+            {days.map(day => (
+              <div key={day} className="flex-1 px-2 py-2 text-center text-xs font-medium text-gray-500 dark:text-gray-300">
+                <span className={`uppercase ${day === today ? 'text-blue-600 dark:text-blue-400' : ''}`}>{dayjs(day).format('ddd MMM D')}</span>
+                <span className="block font-normal">{formatDurationHours(dayTotal(day))} h</span>
+              </div>
+            ))}
+          </div>
+          <div ref={scrollRef} className="overflow-y-auto custom-scrollbar" style={{ maxHeight: 12 * HOUR_HEIGHT }}>
+            <div className="flex">
+              <div className="w-14 flex-shrink-0">
+                {HOURS.map(hour => (
+                  <div key={hour} className="text-right pr-2 text-xs text-gray-400" style={{ height: HOUR_HEIGHT }}>
+                    {dayjs().hour(hour).format('h A')}
+                  </div>
+                ))}
+              </div>
+              <div
+                ref={gridRef}
+                onPointerDown={handleGridPointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+                className="flex-1 flex relative select-none touch-none"
+                style={{ height: DAY_MINUTES * PX_PER_MINUTE }}
+              >
+                {days.map(day => {
+                  const dragged = drag && drag.type !== 'create' ? drag.session.id : null;
+                  const preview = dragPreview(day);
+                  return (
+                    <div key={day} className={`flex-1 relative border-l border-gray-200 dark:border-gray-700 ${day === today ? 'bg-blue-50/40 dark:bg-blue-900/10' : ''}`}>
+                      {HOURS.map(hour => (
+                        <div key={hour} className="border-t border-gray-100 dark:border-gray-700/60" style={{ height: HOUR_HEIGHT }} />
+                      ))}
+                      {layoutDay(sessionsOn(day), day).map(({ session, top, bottom, lane, lanes }) => {
+                        const project = getProject(session.projectId);
+                        const fixed = isFixed(session);
+                        return (
+                          <div
+                            key={session.id}
+                            onPointerDown={(e) => handleBlockPointerDown(e, session, top)}
+                            title={`${project?.name || 'Unknown Project'}${session.note ? ` · ${session.note}` : ''}${fixed ? ' (locked)' : ''}`}
+                            className={`absolute rounded px-1 text-xs text-white overflow-hidden border border-white/60 dark:border-gray-800/60 ${fixed ? 'opacity-70' : 'cursor-move'} ${session.id === dragged ? 'opacity-40' : ''}`}
+                            style={{
+                              top: top * PX_PER_MINUTE,
+                              height: Math.max((bottom - top) * PX_PER_MINUTE, 12),
+                              left: `${(lane / lanes) * 100}%`,
+                              width: `${100 / lanes}%`,
+                              backgroundColor: project?.color || '#6b7280'
+                            }}
+                          >
+                            {!fixed && <div data-edge="start" className="absolute top-0 inset-x-0 h-1.5 cursor-ns-resize" />}
+                            <div className="font-medium truncate">{project?.name || 'Unknown Project'}</div>
+                            <div className="truncate">{formatTime(session.start)} – {formatTime(session.start + session.durationMs)}</div>
+                            {!fixed && <div data-edge="stop" className="absolute bottom-0 inset-x-0 h-1.5 cursor-ns-resize" />}
+                          </div>
+                        );
+                      })}
+                      {preview && (
+                        <div
+                          className="absolute inset-x-0 rounded border-2 border-dashed border-white opacity-80 pointer-events-none"
+                          style={{
+                            top: preview.top * PX_PER_MINUTE,
+                            height: Math.max((preview.bottom - preview.top) * PX_PER_MINUTE, 12),
+                            backgroundColor: preview.color
+                          }}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      <p className="px-6 py-3 text-xs text-gray-500 dark:text-gray-400">
+        {view === 'month'
+          ? 'Drag a session to another day to move it. Pick a day to draw new sessions on it.'
+          : 'Drag on empty space to add a session, drag a session to move it, or drag its top or bottom edge to change its times.'}
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 import { useEffect, useMemo, useState } from 'react';
-import { Session, Project, TravelEntry } from '../db/dexie';
+import { Session, Project, TravelEntry, Expense, PerDiemEntry } from '../db/dexie';
 import { formatDurationHours, formatDate, getTotalDuration } from '../utils/time';
+import { filterBillableSessions } from '../utils/billable';
+import { getRoundedDurationsByCustomer, getRoundedTotal } from '../utils/rounding';
+import { getExpenseCategoryLabel, getExpenseTotals } from '../utils/expense';
+import { formatCurrency } from '../utils/currency';
+import { isTravelSession } from '../utils/invoice';
+import { describePerDiemMeals, getPerDiemDays, getPerDiemPercent } from '../utils/perDiem';
 import { useCustomersStore } from '../store/customers';
 import { useOrganizationStore } from '../store/organization';
 import { auth, db as firestoreDB } from '../firebase';
@@ -10,13 +16,16 @@ interface SessionsReportProps {
   project: Project | null;
   sessions: Session[];
   travelEntries?: TravelEntry[];
+  expenses?: Expense[];
+  perDiems?: PerDiemEntry[];
   dateRange: { start: string; end: string };
   logoUrl?: string; // Optional: For your business logo
   projects: Project[];
   theme?: 'light' | 'dark'; // Add theme prop
+  billableOnly?: boolean; // Leave out non-billable sessions and expenses
 }
 
-export function SessionsReport({ project, sessions, travelEntries = [], dateRange, logoUrl, projects, theme = 'light' }: SessionsReportProps) {
+export function SessionsReport({ project, sessions: allSessions, travelEntries = [], expenses: allExpenses = [], perDiems = [], dateRange, logoUrl, projects, theme = 'light', billableOnly = false }: SessionsReportProps) {
   // Stores
   const { customers } = useCustomersStore();
   const { organization } = useOrganizationStore();
@@ -65,14 +74,17 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
     return () => { didCancel = true; };
   }, []);
 
+  const sessions = billableOnly ? filterBillableSessions(allSessions, projects) : allSessions;
+  const expenses = (billableOnly ? allExpenses.filter(e => e.billable) : allExpenses)
+    .slice()
+    .sort((a, b) => a.date - b.date);
+  const expenseTotals = getExpenseTotals(expenses);
+  const sortedPerDiems = perDiems.slice().sort((a, b) => a.date - b.date);
+  const perDiemDays = getPerDiemDays(perDiems);
+
   // Separate sessions into regular and travel sessions
-  const regularSessions = sessions.filter(session => 
-    !session.note?.toLowerCase().includes('travel')
-  );
-  
-  const travelSessions = sessions.filter(session => 
-    session.note?.toLowerCase().includes('travel')
-  );
+  const regularSessions = sessions.filter(session => !isTravelSession(session));
+  const travelSessions = sessions.filter(isTravelSession);
 
   // Calculate total duration for regular sessions
   const regularTotalMs = getTotalDuration(regularSessions);
@@ -82,6 +94,13 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
   const travelTotalMs = getTotalDuration(travelSessions);
   const travelTotalHours = parseFloat(formatDurationHours(travelTotalMs)).toFixed(2);
 
+  // Customer rounding rules, shown next to the raw hours when they change anything
+  const rounded = getRoundedDurationsByCustomer(sessions, projects, customers);
+  const showRounded = sessions.some(s => rounded.get(s) !== s.durationMs);
+  const roundedHours = (ms: number) => parseFloat(formatDurationHours(ms)).toFixed(2);
+  const regularRoundedHours = roundedHours(getRoundedTotal(regularSessions, rounded));
+  const travelRoundedHours = roundedHours(getRoundedTotal(travelSessions, rounded));
+
   // Group travel entries by unit and calculate totals
   const distanceTotals = useMemo(() => {
     console.log('📊 Calculating distanceTotals from travelEntries:', travelEntries);
@@ -97,18 +116,14 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
     return totals;
   }, [travelEntries]);
 
-  const getProjectName = (projectId: number | string) => {
-    const project = projects.find(p => p.id === projectId || p.firestoreId === projectId);
+  const getProjectName = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
     return project?.name || 'Unknown Project';
   };
 
-  // Resolve the customer for the provided project (handles both firestoreId and local id links)
+  // Resolve the customer for the provided project
   const customerNameForSelectedProject = useMemo(() => {
     if (!project) return '';
-    if (project.customerFirestoreId) {
-      const c = customers.find(cu => cu.firestoreId === project.customerFirestoreId);
-      return c?.companyName || '';
-    }
     if (project.customerId) {
       const c = customers.find(cu => cu.id === project.customerId);
       return c?.companyName || '';
@@ -200,6 +215,9 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
           <p className={`text-xs ${mutedTextClass} mt-1 print:text-gray-500`}>
             {formatDate(new Date(dateRange.start).getTime())} to {formatDate(new Date(dateRange.end).getTime())}
           </p>
+          {billableOnly && (
+            <p className={`text-xs ${mutedTextClass} print:text-gray-500`}>Billable time only</p>
+          )}
         </div>
       </header>
 
@@ -209,11 +227,17 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
           <div>
             <p className={`text-sm font-semibold ${subTextClass} print:text-gray-600`}>Regular Hours</p>
             <p className={`text-2xl font-bold ${headerTextClass} print:text-gray-900`}>{regularTotalHours}</p>
+            {showRounded && (
+              <p className={`text-xs ${mutedTextClass} print:text-gray-500`}>Rounded: {regularRoundedHours}</p>
+            )}
           </div>
           {travelSessions.length > 0 && (
             <div>
               <p className={`text-sm font-semibold ${subTextClass} print:text-gray-600`}>Travel Hours</p>
               <p className={`text-2xl font-bold ${headerTextClass} print:text-gray-900`}>{travelTotalHours}</p>
+              {showRounded && (
+                <p className={`text-xs ${mutedTextClass} print:text-gray-500`}>Rounded: {travelRoundedHours}</p>
+              )}
             </div>
           )}
         </div>
@@ -231,6 +255,26 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
             </div>
           </div>
         )}
+        {perDiems.length > 0 && (
+          <div className={`mt-3 pt-3 border-t ${borderLightClass} print:border-gray-200`}>
+            <p className={`text-sm font-semibold ${subTextClass} mb-2 print:text-gray-600`}>Per Diem</p>
+            <span className={`text-xl font-bold ${headerTextClass} print:text-gray-900`}>
+              {perDiemDays} {perDiemDays === 1 ? 'day' : 'days'}
+            </span>
+          </div>
+        )}
+        {expenses.length > 0 && (
+          <div className={`mt-3 pt-3 border-t ${borderLightClass} print:border-gray-200`}>
+            <p className={`text-sm font-semibold ${subTextClass} mb-2 print:text-gray-600`}>Expenses</p>
+            <div className="flex gap-4 flex-wrap">
+              {Object.entries(expenseTotals).map(([currency, total]) => (
+                <span key={currency} className={`text-xl font-bold ${headerTextClass} print:text-gray-900`}>
+                  {formatCurrency(total, currency)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Regular Sessions Table */}
@@ -244,6 +288,11 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
               <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} text-center print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
                 Hrs
               </th>
+              {showRounded && (
+                <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} text-center print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                  Rounded
+                </th>
+              )}
               <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
                 Project
               </th>
@@ -261,6 +310,11 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
                 <td className={`border-b ${borderLightClass} py-2 px-3 text-center print:border-gray-200 print:text-gray-800`}>
                   {formatDurationHours(session.durationMs)}
                 </td>
+                {showRounded && (
+                  <td className={`border-b ${borderLightClass} py-2 px-3 text-center print:border-gray-200 print:text-gray-800`}>
+                    {formatDurationHours(rounded.get(session) ?? session.durationMs)}
+                  </td>
+                )}
                 <td className={`border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`}>
                    {getProjectName(session.projectId)}
                 </td>
@@ -278,6 +332,11 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
               <td className={`py-3 px-3 text-center font-bold ${totalTextClass} border-t-2 ${borderClass} print:text-gray-900 print:border-gray-300`}>
                 {regularTotalHours}
               </td>
+              {showRounded && (
+                <td className={`py-3 px-3 text-center font-bold ${totalTextClass} border-t-2 ${borderClass} print:text-gray-900 print:border-gray-300`}>
+                  {regularRoundedHours}
+                </td>
+              )}
               <td colSpan={2} className={`border-t-2 ${borderClass} print:border-gray-300`}></td>
             </tr>
           </tfoot>
@@ -298,6 +357,11 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
                   <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} text-center print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
                     Hrs
                   </th>
+                  {showRounded && (
+                    <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} text-center print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                      Rounded
+                    </th>
+                  )}
                   <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
                     Project
                   </th>
@@ -315,6 +379,11 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
                     <td className={`border-b ${borderLightClass} py-2 px-3 text-center print:border-gray-200 print:text-gray-800`}>
                       {formatDurationHours(session.durationMs)}
                     </td>
+                    {showRounded && (
+                      <td className={`border-b ${borderLightClass} py-2 px-3 text-center print:border-gray-200 print:text-gray-800`}>
+                        {formatDurationHours(rounded.get(session) ?? session.durationMs)}
+                      </td>
+                    )}
                     <td className={`border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`}>
                        {getProjectName(session.projectId)}
                     </td>
@@ -332,6 +401,11 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
                   <td className={`py-3 px-3 text-center font-bold ${totalTextClass} border-t-2 ${borderClass} print:text-gray-900 print:border-gray-300`}>
                     {travelTotalHours}
                   </td>
+                  {showRounded && (
+                    <td className={`py-3 px-3 text-center font-bold ${totalTextClass} border-t-2 ${borderClass} print:text-gray-900 print:border-gray-300`}>
+                      {travelRoundedHours}
+                    </td>
+                  )}
                   <td colSpan={2} className={`border-t-2 ${borderClass} print:border-gray-300`}></td>
                 </tr>
               </tfoot>
@@ -396,6 +470,126 @@ export function SessionsReport({ project, sessions, travelEntries = [], dateRang
             </table>
           </div>
         )}
+
+        {/* Per Diem Table - Only show if there are per-diem entries */}
+        {sortedPerDiems.length > 0 && (
+          <div className="mt-8">
+            <h2 className={`text-xl font-bold ${headerTextClass} mb-4 print:text-gray-900`}>
+              Per Diem
+            </h2>
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr>
+                  <th className={`min-w-32 border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                    Date
+                  </th>
+                  <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} text-center print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                    Day
+                  </th>
+                  <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                    Meals
+                  </th>
+                  <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                    Project
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedPerDiems.map((entry) => (
+                  <tr key={entry.id} className={`${hoverBgClass} whitespace-nowrap print:hover:bg-gray-50`}>
+                    <td className={`border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`}>
+                      {formatDate(entry.date)}
+                    </td>
+                    <td className={`border-b ${borderLightClass} py-2 px-3 text-center print:border-gray-200 print:text-gray-800`}>
+                      {getPerDiemPercent(entry.meals)}%
+                    </td>
+                    <td className={`border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`}>
+                      {describePerDiemMeals(entry.meals)}
+                    </td>
+                    <td className={`border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`}>
+                       {getProjectName(entry.projectId)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={1} className={`py-3 px-3 text-right font-bold uppercase ${footerTextClass} print:text-gray-700`}>
+                    Total (days)
+                  </td>
+                  <td className={`py-3 px-3 text-center font-bold ${totalTextClass} border-t-2 ${borderClass} print:text-gray-900 print:border-gray-300`}>
+                    {perDiemDays}
+                  </td>
+                  <td colSpan={2} className={`border-t-2 ${borderClass} print:border-gray-300`}></td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+
+        {/* Expenses Table - Only show if there are expenses */}
+        {expenses.length > 0 && (
+          <div className="mt-8">
+            <h2 className={`text-xl font-bold ${headerTextClass} mb-4 print:text-gray-900`}>
+              Expenses
+            </h2>
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr>
+                  <th className={`min-w-32 border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                    Date
+                  </th>
+                  <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                    Category
+                  </th>
+                  <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} text-right print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                    Amount
+                  </th>
+                  <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                    Project
+                  </th>
+                  <th className={`border-b-2 ${borderClass} py-2 px-3 ${tableHeaderBgClass} font-bold uppercase text-xs ${tableHeaderTextClass} print:bg-gray-100 print:text-gray-600 print:border-gray-300`}>
+                    Description
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {expenses.map((expense) => (
+                  <tr key={expense.id} className={`${hoverBgClass} whitespace-nowrap print:hover:bg-gray-50`}>
+                    <td className={`border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`}>
+                      {formatDate(expense.date)}
+                    </td>
+                    <td className={`border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`}>
+                      {getExpenseCategoryLabel(expense.category)}
+                    </td>
+                    <td className={`border-b ${borderLightClass} py-2 px-3 text-right print:border-gray-200 print:text-gray-800`}>
+                      {formatCurrency(expense.amount, expense.currency)}
+                    </td>
+                    <td className={`border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`}>
+                       {getProjectName(expense.projectId)}
+                    </td>
+                    <td className={`border-b ${borderLightClass} py-2 px-3 print:border-gray-200 print:text-gray-800`}>
+                      {expense.description || '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                {Object.entries(expenseTotals).map(([currency, total]) => (
+                  <tr key={currency}>
+                    <td colSpan={2} className={`py-3 px-3 text-right font-bold uppercase ${footerTextClass} print:text-gray-700`}>
+                      Total ({currency})
+                    </td>
+                    <td className={`py-3 px-3 text-right font-bold ${totalTextClass} border-t-2 ${borderClass} print:text-gray-900 print:border-gray-300`}>
+                      {formatCurrency(total, currency)}
+                    </td>
+                    <td colSpan={2} className={`border-t-2 ${borderClass} print:border-gray-300`}></td>
+                  </tr>
+                ))}
+              </tfoot>
+            </table>
+          </div>
+        )}
       </main>
     </div>
   );
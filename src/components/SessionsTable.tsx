@@ -1,25 +1,41 @@
 import React, { useState, useEffect } from 'react'
+import dayjs from 'dayjs'
 import { useSessionsStore } from '../store/sessions'
 import { useProjectsStore } from '../store/projects'
 import { useUIStore } from '../store/ui'
 import { useCustomersStore } from '../store/customers'
-import { formatDurationHHMM, isToday, formatDate, parseDurationToMs } from '../utils/time'
+import { useTimesheetsStore } from '../store/timesheets'
+import { formatDurationHHMM, isToday, formatDate, formatTime, parseDurationToMs, parseTimeInput } from '../utils/time'
 import { Session } from '../db/dexie'
+import { isSessionBillable } from '../utils/billable'
+import { isSessionLocked } from '../utils/timesheets'
+import { getSessionEnd } from '../utils/overlaps'
+import { getMergeProblem, getSplitProblem, getSplitTimeAtPercent, planSplit } from '../utils/splitMerge'
+import { TagPicker, TagBadges } from './TagPicker'
+import { SyncBadge } from './SyncBadge'
 
 interface SessionsTableProps {
-  projectId?: number
+  projectId?: string
   showAllProjects?: boolean
   sessions?: Session[]
   title?: string
   todayTotal?: number
+  // Selection kept by the parent, e.g. for bulk actions; the table keeps its own otherwise
+  selectedIds?: Set<string>
+  onSelectedIdsChange?: (ids: Set<string>) => void
 }
 
-export function SessionsTable({ projectId, showAllProjects = false, sessions: externalSessions, title, todayTotal }: SessionsTableProps) {
-  const { getTodaySessions, deleteSession, loadSessions, continueSession, runningSession, sessions } = useSessionsStore()
+export function SessionsTable({ projectId, showAllProjects = false, sessions: externalSessions, title, todayTotal, selectedIds: externalSelectedIds, onSelectedIdsChange }: SessionsTableProps) {
+  const { getTodaySessions, deleteSession, loadSessions, continueSession, runningSession, sessions, mergeSessions } = useSessionsStore()
   const { projects } = useProjectsStore()
   const { customers } = useCustomersStore()
+  const timesheets = useTimesheetsStore(state => state.timesheets)
   const { showConfirm, showToast } = useUIStore()
   const [editingSession, setEditingSession] = useState<Session | null>(null)
+  const [splittingSession, setSplittingSession] = useState<Session | null>(null)
+  const [ownSelectedIds, setOwnSelectedIds] = useState<Set<string>>(new Set())
+  const selectedIds = externalSelectedIds ?? ownSelectedIds
+  const setSelectedIds = onSelectedIdsChange ?? setOwnSelectedIds
 
   useEffect(() => {
     if (!externalSessions) {
@@ -27,24 +43,21 @@ export function SessionsTable({ projectId, showAllProjects = false, sessions: ex
     }
   }, [loadSessions, externalSessions])
 
-  const getProjectName = (projectId: number) => {
+  const getProjectName = (projectId: string) => {
     const project = projects.find(p => p.id === projectId)
     return project?.name || 'Unknown Project'
   }
 
-  const getProjectColor = (projectId: number) => {
+  const getProjectColor = (projectId: string) => {
     const project = projects.find(p => p.id === projectId)
     return project?.color || '#6b7280'
   }
 
-  const getCustomerName = (projectId: number) => {
+  const getCustomerName = (projectId: string) => {
     const project = projects.find(p => p.id === projectId);
     if (!project) return 'N/A';
 
-    const customer = customers.find(c => 
-      (project.customerId && c.id === project.customerId) || 
-      (project.customerFirestoreId && c.firestoreId === project.customerFirestoreId)
-    );
+    const customer = customers.find(c => c.id === project.customerId);
     return customer?.companyName || 'N/A';
   };
 
@@ -73,7 +86,12 @@ export function SessionsTable({ projectId, showAllProjects = false, sessions: ex
       'Delete Session',
       `Are you sure you want to delete this ${formatDurationHHMM(session.durationMs)} session?`,
       async () => {
-        await deleteSession(session.id!)
+        try {
+          await deleteSession(session.id!)
+        } catch (error) {
+          showToast((error as Error).message, 'error')
+          return
+        }
 
         showToast(
           'Session deleted',
@@ -81,17 +99,62 @@ export function SessionsTable({ projectId, showAllProjects = false, sessions: ex
           {
             label: 'Undo',
             onClick: async () => {
-              await useSessionsStore.getState().createSession({
+              try {
+                await useSessionsStore.getState().restoreSessions([session])
+                showToast('Session restored', 'success')
+              } catch (error) {
+                showToast((error as Error).message, 'error')
+              }
+            }
+          }
+        )
+      }
+    )
+  }
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    setSelectedIds(next)
+  }
+
+  const handleMerge = async (selected: Session[]) => {
+    const [kept] = [...selected].sort((a, b) => a.start - b.start)
+    try {
+      await mergeSessions(selected.map(s => s.id))
+    } catch (error) {
+      showToast((error as Error).message, 'error')
+      return
+    }
+    setSelectedIds(new Set())
+
+    showToast(
+      `Merged ${selected.length} sessions`,
+      'success',
+      {
+        label: 'Undo',
+        onClick: async () => {
+          try {
+            await useSessionsStore.getState().saveSessionChanges({
+              update: [{ id: kept.id, changes: { stop: kept.stop, durationMs: kept.durationMs, note: kept.note, tags: kept.tags ?? [] } }],
+              create: selected.filter(s => s.id !== kept.id).map(session => ({
                 projectId: session.projectId,
                 start: session.start,
                 stop: session.stop,
                 durationMs: session.durationMs,
-                note: session.note
-              })
-              showToast('Session restored', 'success')
-            }
+                note: session.note,
+                billable: session.billable,
+                tags: session.tags,
+                organizationId: session.organizationId
+              })),
+              remove: []
+            }, { allowOverlap: true })
+            showToast('Sessions restored', 'success')
+          } catch (error) {
+            showToast((error as Error).message, 'error')
           }
-        )
+        }
       }
     )
   }
@@ -112,10 +175,7 @@ export function SessionsTable({ projectId, showAllProjects = false, sessions: ex
     if (project?.archived) return false
 
     // Check if project's customer is archived
-    if (project?.customerFirestoreId) {
-      const customer = customers.find(c => c.firestoreId === project.customerFirestoreId)
-      if (customer?.archived) return false
-    } else if (project?.customerId) {
+    if (project?.customerId) {
       const customer = customers.find(c => c.id === project.customerId)
       if (customer?.archived) return false
     }
@@ -123,6 +183,12 @@ export function SessionsTable({ projectId, showAllProjects = false, sessions: ex
     return true
   });
 
+  // Sessions on a signed-off timesheet can't be changed, and invoiced ones can't be split or merged
+  const selectableSessions = sessionsToList.filter(s => !isSessionLocked(s, timesheets))
+  const selectedSessions = sessionsToList.filter(s => selectedIds.has(s.id))
+  const allSelected = selectableSessions.length > 0 && selectableSessions.every(s => selectedIds.has(s.id))
+  const mergeProblem = selectedSessions.length > 1 ? getMergeProblem(selectedSessions, sessions, timesheets, projects) : null
+
   if (sessionsToList.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
@@ -151,17 +217,40 @@ export function SessionsTable({ projectId, showAllProjects = false, sessions: ex
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
           {title || (showAllProjects ? "Today's Sessions" : "Sessions Today")}
         </h3>
-        {todayTotal !== undefined && (
-          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
-            Today: {formatDurationHHMM(todayTotal)} hours
-          </span>
-        )}
+        <div className="flex items-center gap-3">
+          {selectedSessions.length > 1 && (
+            <button
+              type="button"
+              onClick={() => handleMerge(selectedSessions)}
+              disabled={!!mergeProblem}
+              title={mergeProblem ?? 'Combine the selected sessions into one'}
+              className="px-3 py-1 text-xs bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Merge {selectedSessions.length} Sessions
+            </button>
+          )}
+          {todayTotal !== undefined && (
+            <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+              Today: {formatDurationHHMM(todayTotal)} hours
+            </span>
+          )}
+        </div>
       </div>
 
       <div className="overflow-x-auto overflow-y-auto max-h-[18rem] custom-scrollbar">
         <table className="w-full">
           <thead className="bg-gray-50 dark:bg-gray-700">
             <tr>
+              <th className="pl-6 py-3 w-4">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelectedIds(allSelected ? new Set() : new Set(selectableSessions.map(s => s.id)))}
+                  disabled={selectableSessions.length === 0}
+                  aria-label="Select all sessions"
+                  className="h-4 w-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 disabled:opacity-40"
+                />
+              </th>
               {showAllProjects && (
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                   Date
@@ -191,6 +280,16 @@ export function SessionsTable({ projectId, showAllProjects = false, sessions: ex
           <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
             {sessionsToList.map((session) => (
               <tr key={session.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                <td className="pl-6 py-4 w-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(session.id)}
+                    onChange={() => toggleSelected(session.id)}
+                    disabled={isSessionLocked(session, timesheets)}
+                    aria-label="Select session"
+                    className="h-4 w-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 disabled:opacity-40"
+                  />
+                </td>
                 {showAllProjects && (
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
                     {formatDate(session.start)}
@@ -219,42 +318,74 @@ export function SessionsTable({ projectId, showAllProjects = false, sessions: ex
                   <div className="truncate" title={session.note}>
                     {session.note || '-'}
                   </div>
+                  <TagBadges tags={session.tags} />
+                  {!isSessionBillable(session, projects) && (
+                    <span className="inline-block mt-1 mr-1 text-xs px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded" title="Not billable">
+                      Non-billable
+                    </span>
+                  )}
+                  {session.invoiceNumber && (
+                    <span className="inline-block mt-1 text-xs px-2 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 rounded" title="Billed on this invoice">
+                      {session.invoiceNumber}
+                    </span>
+                  )}
+                  <span className="inline-block mt-1 ml-1"><SyncBadge collection="sessions" recordId={session.id} /></span>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                  <div className="flex sm:space-x-2 space-x-3">
-                    {isToday(session.start) && (
+                  {isSessionLocked(session, timesheets) ? (
+                    <span className="inline-flex text-gray-400 dark:text-gray-500" title="On a submitted or approved timesheet" aria-label="Locked by timesheet">
+                      <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                      </svg>
+                    </span>
+                  ) : (
+                    <div className="flex sm:space-x-2 space-x-3">
+                      {isToday(session.start) && (
+                        <button
+                          onClick={() => handleContinue(session)}
+                          className="text-green-600 hover:text-green-800 transition-colors"
+                          aria-label="Continue session"
+                          title="Continue"
+                        >
+                          <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
+                        </button>
+                      )}
                       <button
-                        onClick={() => handleContinue(session)}
-                        className="text-green-600 hover:text-green-800 transition-colors"
-                        aria-label="Continue session"
-                        title="Continue"
+                        onClick={() => handleEdit(session)}
+                        className="text-blue-600 hover:text-blue-800 transition-colors"
+                        aria-label="Edit session"
+                        title="Edit"
                       >
                         <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                         </svg>
                       </button>
-                    )}
-                    <button
-                      onClick={() => handleEdit(session)}
-                      className="text-blue-600 hover:text-blue-800 transition-colors"
-                      aria-label="Edit session"
-                      title="Edit"
-                    >
-                      <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                      </svg>
-                    </button>
-                    <button
-                      onClick={() => handleDelete(session)}
-                      className="text-red-600 hover:text-red-800 transition-colors"
-                      aria-label="Delete session"
-                      title="Delete"
-                    >
-                      <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
-                  </div>
+                      {!getSplitProblem(session, timesheets) && (
+                        <button
+                          onClick={() => setSplittingSession(session)}
+                          className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+                          aria-label="Split session"
+                          title="Split"
+                        >
+                          <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.121 14.121L19 19m-7-7l7-7m-7 7l-2.879 2.879M12 12L9.121 9.121m0 5.758a3 3 0 10-4.243 4.243 3 3 0 004.243-4.243zm0-5.758a3 3 0 10-4.243-4.243 3 3 0 004.243 4.243z" />
+                          </svg>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(session)}
+                        className="text-red-600 hover:text-red-800 transition-colors"
+                        aria-label="Delete session"
+                        title="Delete"
+                      >
+                        <svg className="w-5 h-5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  )}
                 </td>
               </tr>
             ))}
@@ -268,6 +399,13 @@ export function SessionsTable({ projectId, showAllProjects = false, sessions: ex
           onClose={() => setEditingSession(null)}
         />
       )}
+
+      {splittingSession && (
+        <SplitSessionModal
+          session={splittingSession}
+          onClose={() => setSplittingSession(null)}
+        />
+      )}
     </div>
   )
 }
@@ -285,6 +423,8 @@ function EditSessionModal({ session, onClose }: EditSessionModalProps) {
   const [projectId, setProjectId] = useState(session.projectId)
   const [duration, setDuration] = useState(formatDurationHHMM(session.durationMs))
   const [note, setNote] = useState(session.note || '')
+  const [billable, setBillable] = useState(isSessionBillable(session, projects))
+  const [tags, setTags] = useState<string[]>(session.tags || [])
 
   const handleDurationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setDuration(e.target.value)
@@ -307,7 +447,9 @@ function EditSessionModal({ session, onClose }: EditSessionModalProps) {
         start: session.start,
         stop: newStop,
         durationMs,
-        note: note || undefined
+        note: note || undefined,
+        billable,
+        tags
       })
 
       showToast('Session updated', 'success')
@@ -337,7 +479,7 @@ function EditSessionModal({ session, onClose }: EditSessionModalProps) {
             </label>
             <select
               value={projectId}
-              onChange={(e) => setProjectId(Number(e.target.value))}
+              onChange={(e) => setProjectId(e.target.value)}
               className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
               required
             >
@@ -375,6 +517,31 @@ function EditSessionModal({ session, onClose }: EditSessionModalProps) {
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Tags
+            </label>
+            {/* Tags like travel change the billed rate, so they're fixed once invoiced */}
+            <TagPicker value={tags} onChange={setTags} disabled={!!session.invoiceNumber} />
+          </div>
+
+          <div className="flex items-center">
+            <input
+              id="edit-session-billable"
+              type="checkbox"
+              checked={billable}
+              onChange={(e) => setBillable(e.target.checked)}
+              disabled={!!session.invoiceNumber}
+              className="h-4 w-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="edit-session-billable" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+              Billable
+              {session.invoiceNumber && (
+                <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(already billed on {session.invoiceNumber})</span>
+              )}
+            </label>
+          </div>
+
           <div className="flex justify-end space-x-3 pt-4">
             <button
               type="button"
@@ -395,3 +562,152 @@ function EditSessionModal({ session, onClose }: EditSessionModalProps) {
     </div>
   )
 }
+
+type SplitBy = 'time' | 'percent'
+
+interface SplitSessionModalProps {
+  session: Session
+  onClose: () => void
+}
+
+function SplitSessionModal({ session, onClose }: SplitSessionModalProps) {
+  const { splitSession } = useSessionsStore()
+  const { projects } = useProjectsStore()
+  const { showToast } = useUIStore()
+
+  const [splitBy, setSplitBy] = useState<SplitBy>('time')
+  const [time, setTime] = useState(() => dayjs(getSplitTimeAtPercent(session, 50)).format('HH:mm'))
+  const [percent, setPercent] = useState('50')
+  const [projectId, setProjectId] = useState(session.projectId)
+
+  // The split as it stands, or why it can't be made
+  const getPreview = () => {
+    try {
+      if (splitBy === 'percent' && !(Number(percent) > 0 && Number(percent) < 100)) {
+        throw new Error('Enter a percentage between 0 and 100')
+      }
+      const splitAt = splitBy === 'time'
+        ? parseTimeInput(time, session.start)
+        : getSplitTimeAtPercent(session, Number(percent))
+      return { splitAt, split: planSplit(session, splitAt, projectId), error: null }
+    } catch (error) {
+      return { splitAt: null, split: null, error: (error as Error).message }
+    }
+  }
+  const preview = getPreview()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (preview.splitAt === null) {
+      showToast(preview.error, 'error')
+      return
+    }
+
+    let newId: string
+    try {
+      newId = await splitSession(session.id, preview.splitAt, projectId)
+    } catch (error) {
+      showToast((error as Error).message, 'error')
+      return
+    }
+    onClose()
+
+    showToast(
+      'Session split',
+      'success',
+      {
+        label: 'Undo',
+        onClick: async () => {
+          try {
+            await useSessionsStore.getState().saveSessionChanges({
+              update: [{ id: session.id, changes: { stop: session.stop, durationMs: session.durationMs } }],
+              create: [],
+              remove: [newId]
+            }, { allowOverlap: true })
+            showToast('Split undone', 'success')
+          } catch (error) {
+            showToast((error as Error).message, 'error')
+          }
+        }
+      }
+    )
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose()
+    }
+  }
+
+  const inputClass = 'w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-25 dark:bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md" onKeyDown={handleKeyDown}>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Split Session</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {formatDate(session.start)}, {formatTime(session.start)} – {formatTime(getSessionEnd(session))} ({formatDurationHHMM(session.durationMs)})
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Split At
+            </label>
+            <div className="flex gap-2">
+              <select
+                value={splitBy}
+                onChange={(e) => setSplitBy(e.target.value as SplitBy)}
+                className="border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="time">Time</option>
+                <option value="percent">Percentage</option>
+              </select>
+              {splitBy === 'time' ? (
+                <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className={inputClass} required />
+              ) : (
+                <input type="number" min={1} max={99} value={percent} onChange={(e) => setPercent(e.target.value)} className={inputClass} required />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Project for the Second Part
+            </label>
+            <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass}>
+              {projects.filter(p => !p.archived || p.id === session.projectId).map(project => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className={`text-sm ${preview.split ? 'text-gray-600 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+            {preview.split
+              ? `First part ${formatDurationHHMM(preview.split.first.durationMs)}, second part ${formatDurationHHMM(preview.split.second.durationMs)}`
+              : preview.error}
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!preview.split}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              Split
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -5,10 +5,17 @@ import { useUIStore } from '../store/ui';
 import { usePredefinedNotesStore } from '../store/predefinedNotes';
 import { formatDuration, formatDate, formatTime } from '../utils/time';
 import { useNotificationSettingsStore } from '../store/notificationSettings';
+import { useProjectsStore } from '../store/projects';
+import { useBudgetsStore } from '../store/budgets';
 import { ManagePredefinedNotesModal } from './ManagePredefinedNotesModal';
+import { BudgetProgress } from './BudgetProgress';
+import { TagPicker } from './TagPicker';
+
+// How often a running timer is checked against its project's budget
+const BUDGET_CHECK_INTERVAL_MS = 60 * 1000;
 
 interface StopwatchProps {
-  projectId: number | null;
+  projectId: string | null;
 }
 
 export function Stopwatch({ projectId }: StopwatchProps) {
@@ -21,13 +28,17 @@ export function Stopwatch({ projectId }: StopwatchProps) {
     discardRunningSession,
     pauseSession,
     resumeSession,
+    setRunningTags,
   } = useSessionsStore();
 
   const { showConfirm, showToast } = useUIStore();
   const { predefinedNotes, loadPredefinedNotes } = usePredefinedNotesStore();
   const { loadSettings: loadNotificationSettings } = useNotificationSettingsStore();
+  const { projects } = useProjectsStore();
+  const { checkBudget } = useBudgetsStore();
   const [elapsed, setElapsed] = useState(0);
   const [note, setNote] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
   const [isManageNotesOpen, setIsManageNotesOpen] = useState(false);
   const intervalRef = useRef<NodeJS.Timeout>();
   const stopwatchRef = useRef<HTMLDivElement>(null);
@@ -54,6 +65,7 @@ export function Stopwatch({ projectId }: StopwatchProps) {
     } else {
       setNote('');
     }
+    setTags(runningSession?.tags || []);
   }, [runningSession, isRunning]);
 
   useEffect(() => {
@@ -82,6 +94,25 @@ export function Stopwatch({ projectId }: StopwatchProps) {
     }
   }, [isRunning, isCurrentProject, isPaused, getCurrentElapsed]);
 
+  // Unsaved timer time; a continued session's earlier time is already stored on that session
+  const project = projects.find(p => p.id === projectId);
+  const unsavedElapsed = isRunning && isCurrentProject
+    ? elapsed - (runningSession?.continuedFromSessionId ? runningSession.baseDuration : 0)
+    : 0;
+
+  // Alert when the running timer pushes the project past a budget threshold
+  useEffect(() => {
+    if (!isRunning || isPaused || !runningSession) return;
+
+    const check = () => {
+      const base = runningSession.continuedFromSessionId ? runningSession.baseDuration : 0;
+      checkBudget(runningSession.projectId, getCurrentElapsed() - base);
+    };
+    check();
+    const budgetInterval = setInterval(check, BUDGET_CHECK_INTERVAL_MS);
+    return () => clearInterval(budgetInterval);
+  }, [isRunning, isPaused, runningSession, checkBudget, getCurrentElapsed]);
+
   // --- New useEffect to update clock and date every second ---
   useEffect(() => {
     const clockInterval = setInterval(() => {
@@ -114,13 +145,17 @@ export function Stopwatch({ projectId }: StopwatchProps) {
           'Switch Project?',
           'A session is already running for another project. Do you want to stop it and start a new session for this project?',
           async () => {
-            await stopSession();
-            await startSession(projectId, note);
-            showToast('Session started for new project', 'success');
+            try {
+              await stopSession();
+              await startSession(projectId, note, tags);
+              showToast('Session started for new project', 'success');
+            } catch (error) {
+              showToast((error as Error).message, 'error');
+            }
           }
         );
       } else {
-        await startSession(projectId, note);
+        await startSession(projectId, note, tags);
         showToast('Session started', 'success');
       }
     } catch (error) {
@@ -132,6 +167,7 @@ export function Stopwatch({ projectId }: StopwatchProps) {
     try {
       await stopSession();
       setNote('');
+      setTags([]);
       showToast('Session ended and saved', 'success');
     } catch (error) {
       showToast((error as Error).message, 'error');
@@ -155,6 +191,7 @@ export function Stopwatch({ projectId }: StopwatchProps) {
           try {
             await discardRunningSession();
             setNote('');
+            setTags([]);
             showToast('Session discarded', 'info');
           } catch (error) {
             showToast((error as Error).message, 'error');
@@ -164,6 +201,7 @@ export function Stopwatch({ projectId }: StopwatchProps) {
     } else {
       setElapsed(0);
       setNote('');
+      setTags([]);
     }
   };
 
@@ -182,6 +220,14 @@ export function Stopwatch({ projectId }: StopwatchProps) {
   const canEnd = isRunning && isCurrentProject;
   const canPause = isRunning && isCurrentProject;
 
+  // Tags can still be changed while the timer runs, e.g. when a session turns out to be travel
+  const handleTagsChange = (newTags: string[]) => {
+    setTags(newTags);
+    if (isRunning && isCurrentProject) {
+      setRunningTags(newTags);
+    }
+  };
+
   const handlePredefinedNoteSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const selectedNote = e.target.value;
     if (selectedNote === '__manage__') {
@@ -276,6 +322,12 @@ export function Stopwatch({ projectId }: StopwatchProps) {
             />
           )}
 
+          {(!isRunning || isCurrentProject) && (
+            <div className="mb-4">
+              <TagPicker value={tags} onChange={handleTagsChange} />
+            </div>
+          )}
+
           <div className="flex justify-center space-x-2 sm:space-x-3">
             <button
               onClick={handleStart}
@@ -339,6 +391,8 @@ export function Stopwatch({ projectId }: StopwatchProps) {
             </button>
           </div>
 
+          {project && <BudgetProgress project={project} runningMs={unsavedElapsed} />}
+
           {isRunning && !isCurrentProject && (
             <p className="mt-3 text-sm text-orange-600">
               Another project session is running. Click "Switch & Start" to stop it and start this one.
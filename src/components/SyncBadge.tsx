@@ -0,0 +1,24 @@
+import { useOutboxStore } from '../store/outbox';
+import { getRecordSyncState } from '../utils/outbox';
+
+interface SyncBadgeProps {
+  collection: string;
+  recordId?: string;
+}
+
+// Small marker for a record whose latest change hasn't reached the server; nothing once it has
+export function SyncBadge({ collection, recordId }: SyncBadgeProps) {
+  const { entries } = useOutboxStore();
+  const state = getRecordSyncState(entries, collection, recordId);
+  if (!state) return null;
+
+  return state === 'failed' ? (
+    <span className="px-1.5 py-0.5 text-xs rounded bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300" title="This change could not be synced">
+      Sync failed
+    </span>
+  ) : (
+    <span className="px-1.5 py-0.5 text-xs rounded bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300" title="Waiting to be uploaded">
+      Pending
+    </span>
+  );
+}
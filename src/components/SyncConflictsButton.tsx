@@ -0,0 +1,29 @@
+import { useState } from 'react'
+import { useConflictsStore } from '../store/conflicts'
+import { ConflictResolutionModal } from './ConflictResolutionModal'
+
+// Header warning shown while records edited on two devices wait for a decision
+export function SyncConflictsButton() {
+  const { conflicts } = useConflictsStore()
+  const [isOpen, setIsOpen] = useState(false)
+
+  if (conflicts.length === 0 && !isOpen) {
+    return null
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center px-3 py-1 text-sm rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200 hover:bg-amber-200 dark:hover:bg-amber-900/60"
+        title="Review records that were changed on two devices"
+      >
+        <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" />
+        </svg>
+        {conflicts.length} {conflicts.length === 1 ? 'conflict' : 'conflicts'}
+      </button>
+      <ConflictResolutionModal isOpen={isOpen} onClose={() => setIsOpen(false)} />
+    </>
+  )
+}
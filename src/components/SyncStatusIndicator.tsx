@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import { useOutboxStore } from '../store/outbox';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { getCollectionLabel, getSyncStatus, type SyncState } from '../utils/outbox';
+
+const STATE_STYLES: Record<SyncState, { dot: string; text: string }> = {
+  synced: { dot: 'bg-green-500', text: 'text-gray-600 dark:text-gray-300' },
+  syncing: { dot: 'bg-blue-500 animate-pulse', text: 'text-blue-700 dark:text-blue-300' },
+  pending: { dot: 'bg-amber-500', text: 'text-amber-700 dark:text-amber-300' },
+  offline: { dot: 'bg-gray-400', text: 'text-gray-600 dark:text-gray-300' },
+  error: { dot: 'bg-red-500', text: 'text-red-700 dark:text-red-300' },
+};
+
+// Header status of the upload queue, with details and a manual sync in a dropdown
+export function SyncStatusIndicator() {
+  const { entries, isFlushing, isSyncingNow, lastSyncedAt, syncNow, retryFailed, discard } = useOutboxStore();
+  const isOnline = useOnlineStatus();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const { state, pending, failed } = getSyncStatus(entries, isOnline, isFlushing || isSyncingNow);
+  const failedEntries = entries.filter(e => e.failed);
+
+  const label = {
+    synced: 'Synced',
+    syncing: 'Syncing…',
+    pending: `${pending} pending`,
+    offline: pending > 0 ? `Offline · ${pending} pending` : 'Offline',
+    error: `${failed} failed`,
+  }[state];
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center px-3 py-1 text-sm rounded-full border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 ${STATE_STYLES[state].text}`}
+        aria-label={`Sync status: ${label}`}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <span className={`w-2 h-2 rounded-full mr-2 ${STATE_STYLES[state].dot}`} />
+        <span className="hidden sm:inline">{label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+          <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">{label}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {pending > 0
+                ? `${pending} ${pending === 1 ? 'change is' : 'changes are'} waiting to be uploaded${isOnline ? '' : ' once you are back online'}.`
+                : lastSyncedAt
+                  ? `All changes uploaded. Last checked ${new Date(lastSyncedAt).toLocaleTimeString()}.`
+                  : 'All changes uploaded.'}
+            </p>
+          </div>
+
+          {failedEntries.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {failedEntries.map(entry => (
+                <li key={entry.id} className="px-4 py-2 flex justify-between items-start gap-2 text-sm">
+                  <div>
+                    <p className="text-gray-900 dark:text-white">
+                      {getCollectionLabel(entry.collection)} {entry.operation === 'delete' ? 'deletion' : 'change'}
+                    </p>
+                    <p className="text-xs text-red-600 dark:text-red-400 break-words">{entry.lastError}</p>
+                  </div>
+                  <button
+                    onClick={() => discard(entry.id!)}
+                    className="text-xs text-gray-500 dark:text-gray-400 hover:underline flex-shrink-0"
+                    title="Stop trying to upload this change. It stays on this device."
+                  >
+                    Discard
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+            {failedEntries.length > 0 && (
+              <button
+                onClick={() => retryFailed()}
+                disabled={!isOnline}
+                className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-50"
+              >
+                Retry failed
+              </button>
+            )}
+            <button
+              onClick={() => syncNow()}
+              disabled={!isOnline || isSyncingNow}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSyncingNow ? 'Syncing…' : 'Sync now'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
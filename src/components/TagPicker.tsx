@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTagsStore } from '../store/tags';
+import { toggleTag } from '../utils/tags';
+import { ManageTagsModal } from './ManageTagsModal';
+
+interface TagPickerProps {
+  value: string[];  // Selected tag keys
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+export function TagPicker({ value, onChange, disabled = false }: TagPickerProps) {
+  const { tags } = useTagsStore();
+  const [isManageOpen, setIsManageOpen] = useState(false);
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Tags">
+        {tags.map(tag => {
+          const selected = value.includes(tag.key);
+          return (
+            <button
+              key={tag.key}
+              type="button"
+              onClick={() => onChange(toggleTag(value, tag.key))}
+              disabled={disabled}
+              aria-pressed={selected}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors disabled:opacity-50 ${
+                selected ? 'text-white border-transparent' : 'text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+              style={selected ? { backgroundColor: tag.color } : undefined}
+            >
+              {tag.name}
+            </button>
+          );
+        })}
+        <button
+          type="button"
+          onClick={() => setIsManageOpen(true)}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Manage tags
+        </button>
+      </div>
+      {/* Portalled so its form isn't nested in the form hosting the picker */}
+      {createPortal(
+        <ManageTagsModal isOpen={isManageOpen} onClose={() => setIsManageOpen(false)} />,
+        document.body
+      )}
+    </>
+  );
+}
+
+interface TagBadgesProps {
+  tags?: string[];
+}
+
+// Read-only chips for a session's tags; keys of deleted tags are skipped
+export function TagBadges({ tags: keys = [] }: TagBadgesProps) {
+  const { tags } = useTagsStore();
+  const shown = tags.filter(t => keys.includes(t.key));
+  if (shown.length === 0) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {shown.map(tag => (
+        <span
+          key={tag.key}
+          className="px-2 py-0.5 text-xs rounded-full text-white"
+          style={{ backgroundColor: tag.color }}
+        >
+          {tag.name}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Timesheet } from '../db/dexie';
+import { useTimesheetsStore } from '../store/timesheets';
+import { useOrganizationStore } from '../store/organization';
+import { useAuthStore } from '../store/auth';
+import { useUIStore } from '../store/ui';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { formatDurationHours, formatDateTime } from '../utils/time';
+import { formatWeek } from '../utils/timesheets';
+import { getMemberLabel } from '../utils/team';
+
+interface TimesheetApprovalQueueProps {
+  onReview: (timesheet: Timesheet) => void;  // Show the week's sessions of the member
+}
+
+// Submitted timesheets of the organization, for owners and admins to approve or reject
+export function TimesheetApprovalQueue({ onReview }: TimesheetApprovalQueueProps) {
+  const { queue, approveTimesheet, rejectTimesheet } = useTimesheetsStore();
+  const { organization } = useOrganizationStore();
+  const { user } = useAuthStore();
+  const { showToast } = useUIStore();
+  const isOnline = useOnlineStatus();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+
+  if (queue.length === 0) return null;
+
+  const getLabel = (timesheet: Timesheet) => {
+    const member = organization?.members?.[timesheet.userId];
+    return member ? getMemberLabel(member, timesheet.userId === user?.uid) : timesheet.userEmail || 'Unknown member';
+  };
+
+  const handleApprove = async (timesheet: Timesheet) => {
+    setBusyId(timesheet.id);
+    try {
+      await approveTimesheet(timesheet);
+      showToast('Timesheet approved', 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to approve timesheet', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (timesheet: Timesheet) => {
+    setBusyId(timesheet.id);
+    try {
+      await rejectTimesheet(timesheet, comment);
+      showToast('Timesheet rejected', 'info');
+      setRejectingId(null);
+      setComment('');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to reject timesheet', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Waiting for Approval</h3>
+      </div>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {queue.map(timesheet => (
+          <li key={timesheet.id} className="px-6 py-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <div className="text-sm">
+                <p className="font-medium text-gray-900 dark:text-white">{getLabel(timesheet)}</p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {formatWeek(timesheet.weekStart)} · {formatDurationHours(timesheet.totalMs)} h in {timesheet.sessionCount} {timesheet.sessionCount === 1 ? 'session' : 'sessions'}
+                  {timesheet.submittedAt ? ` · submitted ${formatDateTime(timesheet.submittedAt)}` : ''}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => onReview(timesheet)}
+                  className="px-4 py-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Review
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setRejectingId(rejectingId === timesheet.id ? null : timesheet.id);
+                    setComment('');
+                  }}
+                  disabled={!isOnline || busyId !== null}
+                  className="px-4 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleApprove(timesheet)}
+                  disabled={!isOnline || busyId !== null}
+                  className="px-4 py-1 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  {busyId === timesheet.id && rejectingId !== timesheet.id ? 'Approving...' : 'Approve'}
+                </button>
+              </div>
+            </div>
+
+            {rejectingId === timesheet.id && (
+              <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="What needs to change?"
+                  className="flex-1 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleReject(timesheet)}
+                  disabled={!isOnline || busyId !== null || !comment.trim()}
+                  className="px-4 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                >
+                  {busyId === timesheet.id ? 'Rejecting...' : 'Send Back'}
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/dexie';
+import { useTimesheetsStore } from '../store/timesheets';
+import { useUIStore } from '../store/ui';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { formatDurationHours } from '../utils/time';
+import {
+  TIMESHEET_STATUS_CLASSES,
+  TIMESHEET_STATUS_LABELS,
+  canSubmit,
+  formatWeek,
+  getWeekRange,
+  getWeekStart,
+  shiftWeek
+} from '../utils/timesheets';
+
+// The signed-in member's timesheet for a week of the active organization, to submit or recall
+export function TimesheetCard() {
+  const { orgId, timesheets, submitTimesheet, recallTimesheet } = useTimesheetsStore();
+  const { showToast, showConfirm } = useUIStore();
+  const isOnline = useOnlineStatus();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(Date.now()));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const weekMs = useLiveQuery(async () => {
+    if (!orgId) return 0;
+    const { start, end } = getWeekRange(weekStart);
+    const sessions = await db.sessions
+      .where('start').between(start, end, true, true)
+      .filter(s => s.organizationId === orgId)
+      .toArray();
+    return sessions.reduce((total, session) => total + session.durationMs, 0);
+  }, [orgId, weekStart], 0);
+
+  if (!orgId) return null;
+
+  const timesheet = timesheets.find(t => t.weekStart === weekStart);
+  const status = timesheet?.status ?? 'draft';
+  const isCurrentWeek = weekStart === getWeekStart(Date.now());
+
+  const handleSubmit = () => {
+    showConfirm(
+      'Submit Timesheet',
+      `Submit ${formatDurationHours(weekMs)} hours for ${formatWeek(weekStart)}? Its sessions can't be edited unless you recall it or it is rejected.`,
+      async () => {
+        setIsSaving(true);
+        try {
+          await submitTimesheet(weekStart);
+          showToast('Timesheet submitted', 'success');
+        } catch (error) {
+          showToast(error instanceof Error ? error.message : 'Failed to submit timesheet', 'error');
+        } finally {
+          setIsSaving(false);
+        }
+      }
+    );
+  };
+
+  const handleRecall = async () => {
+    setIsSaving(true);
+    try {
+      await recallTimesheet(weekStart);
+      showToast('Timesheet recalled', 'info');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to recall timesheet', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 no-print">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setWeekStart(shiftWeek(weekStart, -1))}
+            className="px-2 py-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            aria-label="Previous week"
+          >
+            ‹
+          </button>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Timesheet</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{formatWeek(weekStart)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setWeekStart(shiftWeek(weekStart, 1))}
+            disabled={isCurrentWeek}
+            className="px-2 py-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+            aria-label="Next week"
+          >
+            ›
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-700 dark:text-gray-300">
+            {formatDurationHours(timesheet && status !== 'draft' ? timesheet.totalMs : weekMs)} h
+          </span>
+          <span className={`text-xs px-2 py-0.5 rounded ${TIMESHEET_STATUS_CLASSES[status]}`}>
+            {TIMESHEET_STATUS_LABELS[status]}
+          </span>
+          {canSubmit(timesheet?.status) && (
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={!isOnline || isSaving || weekMs === 0}
+              className="px-4 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Submitting...' : status === 'rejected' ? 'Resubmit' : 'Submit'}
+            </button>
+          )}
+          {status === 'submitted' && (
+            <button
+              type="button"
+              onClick={handleRecall}
+              disabled={!isOnline || isSaving}
+              className="px-4 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Recall
+            </button>
+          )}
+        </div>
+      </div>
+
+      {status === 'rejected' && timesheet?.comment && (
+        <p className="mt-3 text-sm text-red-700 dark:text-red-300">
+          Rejected{timesheet.reviewedByEmail ? ` by ${timesheet.reviewedByEmail}` : ''}: {timesheet.comment}
+        </p>
+      )}
+    </div>
+  );
+}
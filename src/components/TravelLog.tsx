@@ -4,6 +4,7 @@ import { useCustomersStore } from '../store/customers';
 import { useProjectsStore } from '../store/projects';
 import { useUIStore } from '../store/ui';
 import EditTravelEntryModal from './EditTravelEntryModal';
+import { SyncBadge } from './SyncBadge';
 
 interface TravelLogProps {
   sessions: TravelEntry[];
@@ -33,24 +34,22 @@ const TravelLog: React.FC<TravelLogProps> = ({ sessions }) => {
     if (projects.length > 0) {
       console.log('📋 Current projects in TravelLog:', projects.map(p => ({ 
         id: p.id, 
-        firestoreId: p.firestoreId, 
         name: p.name,
-        customerId: p.customerId,
-        customerFirestoreId: p.customerFirestoreId
+        customerId: p.customerId
       })));
     }
   }, [projects]);
 
-  const findProject = (projectId: number | string) => {
-    return projects.find(p => p.id === projectId || p.firestoreId === projectId);
+  const findProject = (projectId: string) => {
+    return projects.find(p => p.id === projectId);
   };
 
-  const getProjectColor = (projectId: number | string) => {
+  const getProjectColor = (projectId: string) => {
     const project = findProject(projectId);
     return project?.color || '#6b7280'; // Default gray if no color
   };
 
-  const getProjectName = (projectId: number | string) => {
+  const getProjectName = (projectId: string) => {
     const project = findProject(projectId);
     if (!project) {
       // Debug: show the projectId that couldn't be found
@@ -59,14 +58,11 @@ const TravelLog: React.FC<TravelLogProps> = ({ sessions }) => {
     return project.name;
   };
 
-  const getCustomerName = (projectId: number | string) => {
+  const getCustomerName = (projectId: string) => {
     const project = findProject(projectId);
     if (!project) return 'N/A';
 
-    const customer = customers.find(c =>
-      (project.customerId && c.id === project.customerId) ||
-      (project.customerFirestoreId && c.firestoreId === project.customerFirestoreId)
-    );
+    const customer = customers.find(c => c.id === project.customerId);
     return customer?.companyName || 'N/A';
   };
 
@@ -128,7 +124,10 @@ const TravelLog: React.FC<TravelLogProps> = ({ sessions }) => {
                       {getProjectName(entry.projectId)}
                     </div>
                   </td>
-                  <td className="px-6 py-4">{entry.note}</td>
+                  <td className="px-6 py-4">
+                    {entry.note}
+                    <span className="block"><SyncBadge collection="travelEntries" recordId={entry.id} /></span>
+                  </td>
                   <td className="px-6 py-4">
                     <div className="flex items-center space-x-2">
                       <button onClick={() => handleEdit(entry)} className="text-blue-600 hover:text-blue-900 dark:text-blue-500 dark:hover:text-blue-300">
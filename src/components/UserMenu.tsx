@@ -1,5 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
 import { useAuthStore } from '../store/auth';
+import { useOrganizationStore } from '../store/organization';
+import { useUIStore } from '../store/ui';
+import { useOutboxStore } from '../store/outbox';
 import { Link } from 'react-router-dom';
 
 interface UserMenuProps {
@@ -10,7 +13,10 @@ interface UserMenuProps {
 export function UserMenu({ onLogout, isGuest }: UserMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
-  const { user } = useAuthStore();
+  const { user, activeOrganization } = useAuthStore();
+  const { organizations, switchOrganization } = useOrganizationStore();
+  const { showConfirm, showToast } = useUIStore();
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
 
   // Get user initials
   const getUserInitials = () => {
@@ -46,6 +52,37 @@ export function UserMenu({ onLogout, isGuest }: UserMenuProps) {
     return user?.displayName || user?.email || 'User';
   };
 
+  // Customers and projects of the current organization that aren't uploaded yet are
+  // dropped on switching, like everything on logging out
+  const handleSwitchOrganization = async (orgId: string) => {
+    setSwitchingTo(orgId);
+    const unsynced = await useOutboxStore.getState().flushSharedEntries();
+    if (unsynced > 0) {
+      setSwitchingTo(null);
+      showConfirm(
+        'Unsynced Changes',
+        `${unsynced} ${unsynced === 1 ? 'change' : 'changes'} to customers and projects of this organization ${unsynced === 1 ? 'has' : 'have'} not reached the server yet and will be lost if you switch now. Switch anyway?`,
+        () => switchTo(orgId)
+      );
+      return;
+    }
+    await switchTo(orgId);
+  };
+
+  // Reloads the organization, customers and projects of the chosen organization
+  const switchTo = async (orgId: string) => {
+    setSwitchingTo(orgId);
+    try {
+      await switchOrganization(orgId);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error switching organization:', error);
+      showToast('Failed to switch organization. Please try again.', 'error');
+    } finally {
+      setSwitchingTo(null);
+    }
+  };
+
   // Close dropdown when clicking outside
   useEffect(() => {
     if (!isOpen) return;
@@ -102,6 +139,39 @@ export function UserMenu({ onLogout, isGuest }: UserMenuProps) {
             )}
           </div>
 
+          {/* Organization switcher */}
+          {!isGuest && organizations.length > 1 && (
+            <div className="py-1 border-b border-gray-200 dark:border-gray-700" role="group" aria-label="Organizations">
+              <p className="px-4 py-1 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">Organizations</p>
+              {organizations.map(org => {
+                const isActive = org.firestoreId === activeOrganization;
+                return (
+                  <button
+                    key={org.firestoreId}
+                    onClick={() => handleSwitchOrganization(org.firestoreId!)}
+                    disabled={isActive || switchingTo !== null}
+                    aria-current={isActive ? 'true' : undefined}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:hover:bg-transparent flex items-center"
+                  >
+                    <span className="w-4 h-4 mr-3 flex-shrink-0">
+                      {isActive && (
+                        <svg className="w-4 h-4 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                        </svg>
+                      )}
+                    </span>
+                    <span className={`truncate ${isActive ? 'font-medium text-gray-900 dark:text-white' : ''}`}>
+                      {org.corporateInfo.companyName || 'Unnamed organization'}
+                    </span>
+                    {switchingTo === org.firestoreId && (
+                      <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">Switching...</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* Menu items */}
           <div className="py-1">
             <Link
@@ -0,0 +1,311 @@
+// src/components/WeekGrid.tsx
+
+import React, { useMemo, useRef, useState } from 'react';
+import dayjs from 'dayjs';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type Session } from '../db/dexie';
+import { useSessionsStore } from '../store/sessions';
+import { useProjectsStore } from '../store/projects';
+import { useAuthStore } from '../store/auth';
+import { useTimesheetsStore } from '../store/timesheets';
+import { useUIStore } from '../store/ui';
+import { formatDate, formatDurationHours, getDateRanges } from '../utils/time';
+import { formatWeek, getWeekRange, isSessionLocked, shiftWeek } from '../utils/timesheets';
+import { getSessionEnd } from '../utils/overlaps';
+import { formatHoursInput, getCellTotals, getWeekDays, parseHoursInput, planCellChange } from '../utils/weekGrid';
+
+const DAY_MS = 24 * 3600000;
+
+const cellKey = (projectId: string, day: string) => `${projectId}_${day}`;
+
+// Hours per project and day of a week, typed in directly
+export function WeekGrid() {
+  const { saveSessionChanges } = useSessionsStore();
+  const { projects } = useProjectsStore();
+  const activeOrganization = useAuthStore(state => state.activeOrganization);
+  const timesheets = useTimesheetsStore(state => state.timesheets);
+  const { showToast } = useUIStore();
+
+  const thisWeek = useMemo(() => formatDate(getDateRanges().thisWeek.start), []);
+  const [weekStart, setWeekStart] = useState(thisWeek);
+  const [addedProjectIds, setAddedProjectIds] = useState<string[]>([]);
+  // What is typed into cells and not saved yet. The ref is read on blur, before a re-render.
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const draftsRef = useRef(drafts);
+  const inputs = useRef(new Map<string, HTMLInputElement>());
+
+  const setDraft = (key: string, value: string | undefined) => {
+    const next = { ...draftsRef.current };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    draftsRef.current = next;
+    setDrafts(next);
+  };
+
+  const days = useMemo(() => getWeekDays(weekStart), [weekStart]);
+
+  const weekSessions = useLiveQuery(async () => {
+    const { start, end } = getWeekRange(weekStart);
+    return db.sessions.where('start').between(start, end, true, true).toArray();
+  }, [weekStart], [] as Session[]);
+
+  // Leave out sessions of another organization's projects
+  const sessions = useMemo(
+    () => weekSessions.filter(s => projects.some(p => p.id === s.projectId)),
+    [weekSessions, projects]
+  );
+  const cellTotals = useMemo(() => getCellTotals(sessions), [sessions]);
+
+  const rowProjectIds = useMemo(() => {
+    const ids = new Set([...cellTotals.keys(), ...addedProjectIds]);
+    const projectName = (id: string) => projects.find(p => p.id === id)?.name || '';
+    return [...ids].sort((a, b) => projectName(a).localeCompare(projectName(b)));
+  }, [cellTotals, addedProjectIds, projects]);
+
+  const availableProjects = projects.filter(p => !p.archived && !rowProjectIds.includes(p.id));
+
+  const getCellSessions = (projectId: string, day: string) =>
+    sessions.filter(s => s.projectId === projectId && formatDate(s.start) === day);
+
+  // Invoiced time and weeks on a submitted or approved timesheet stay as they are
+  const isCellReadOnly = (projectId: string, day: string) => {
+    const cellSessions = getCellSessions(projectId, day);
+    if (cellSessions.some(s => s.invoiceNumber || isSessionLocked(s, timesheets))) return true;
+    return isSessionLocked({ start: dayjs(day).valueOf(), organizationId: activeOrganization ?? undefined }, timesheets);
+  };
+
+  const changeWeek = (nextWeekStart: string) => {
+    setWeekStart(nextWeekStart);
+    setAddedProjectIds([]);
+    draftsRef.current = {};
+    setDrafts({});
+  };
+
+  const addRow = (projectId: string) => {
+    if (projectId) setAddedProjectIds(ids => [...ids, projectId]);
+  };
+
+  const copyLastWeek = async () => {
+    const { start, end } = getWeekRange(shiftWeek(weekStart, -1));
+    const lastWeek = await db.sessions.where('start').between(start, end, true, true).toArray();
+    const projectIds = [...new Set(lastWeek.map(s => s.projectId))]
+      .filter(id => availableProjects.some(p => p.id === id));
+    if (projectIds.length === 0) {
+      showToast('No other projects were worked on last week', 'info');
+      return;
+    }
+    setAddedProjectIds(ids => [...ids, ...projectIds]);
+    showToast(`Added ${projectIds.length} ${projectIds.length === 1 ? 'project' : 'projects'} from last week`, 'success');
+  };
+
+  const commitCell = async (projectId: string, day: string) => {
+    const key = cellKey(projectId, day);
+    const draft = draftsRef.current[key];
+    if (draft === undefined) return;
+    setDraft(key, undefined);
+
+    const targetMs = parseHoursInput(draft);
+    if (targetMs === null) {
+      showToast('Enter hours like 1.5 or 1:30', 'error');
+      return;
+    }
+    if (targetMs > DAY_MS) {
+      showToast('A day has at most 24 hours', 'error');
+      return;
+    }
+
+    const cellSessions = getCellSessions(projectId, day);
+    let change = planCellChange(cellSessions, targetMs);
+
+    // New time goes after the day's last session, so cells don't overlap each other.
+    // Noon on an empty day, like entries added by hand, so the day doesn't shift with the timezone.
+    const dayEnd = Math.max(dayjs(day).hour(12).valueOf(), ...weekSessions.filter(s => formatDate(s.start) === day).map(getSessionEnd));
+    const extended = change.update.length === 1 && change.remove.length === 0 ? cellSessions.find(s => s.id === change.update[0].id) : undefined;
+    if (extended && getSessionEnd(extended) < dayEnd && change.update[0].durationMs > extended.durationMs) {
+      change = { create: change.update[0].durationMs - extended.durationMs, update: [], remove: [] };
+    }
+    // Ending by midnight keeps the hours in this day's cell; an overlap this causes is refused on save
+    const createAt = Math.min(dayEnd, dayjs(day).add(1, 'day').valueOf() - (change.create ?? 0));
+
+    // One batch, so a cell is never left half changed
+    try {
+      await saveSessionChanges({
+        update: change.update.map(({ id, durationMs }) => {
+          const start = cellSessions.find(s => s.id === id)?.start ?? 0;
+          return { id, changes: { stop: start + durationMs, durationMs } };
+        }),
+        create: change.create
+          ? [{ projectId, start: createAt, stop: createAt + change.create, durationMs: change.create, tags: [] }]
+          : [],
+        remove: change.remove,
+      });
+    } catch (error) {
+      showToast((error as Error).message, 'error');
+    }
+  };
+
+  // Focus the next editable cell from a row and column, moving by a step either way.
+  // Leaving a cell saves it on blur.
+  const focusCell = (row: number, col: number, rowStep: number, colStep: number): boolean => {
+    for (let r = row + rowStep, c = col + colStep; r >= 0 && r < rowProjectIds.length && c >= 0 && c < days.length; r += rowStep, c += colStep) {
+      const input = inputs.current.get(cellKey(rowProjectIds[r], days[c]));
+      if (input && !input.disabled) {
+        input.focus();
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, col: number) => {
+    const input = e.currentTarget;
+    if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusCell(row, col, -1, 0);
+    } else if (e.key === 'ArrowDown' || e.key === 'Enter') {
+      e.preventDefault();
+      if (!focusCell(row, col, 1, 0) && e.key === 'Enter') input.blur();
+    } else if (e.key === 'ArrowLeft' && input.selectionStart === 0 && input.selectionEnd === 0) {
+      e.preventDefault();
+      focusCell(row, col, 0, -1);
+    } else if (e.key === 'ArrowRight' && input.selectionStart === input.value.length) {
+      e.preventDefault();
+      focusCell(row, col, 0, 1);
+    } else if (e.key === 'Escape') {
+      setDraft(cellKey(rowProjectIds[row], days[col]), undefined);
+      input.blur();
+    }
+  };
+
+  const dayTotal = (day: string) => rowProjectIds.reduce((total, id) => total + (cellTotals.get(id)?.get(day) || 0), 0);
+  const rowTotal = (projectId: string) => [...(cellTotals.get(projectId)?.values() ?? [])].reduce((total, ms) => total + ms, 0);
+  const weekTotal = days.reduce((total, day) => total + dayTotal(day), 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => changeWeek(shiftWeek(weekStart, -1))}
+            className="px-2 py-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            aria-label="Previous week"
+          >
+            ‹
+          </button>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{formatWeek(weekStart)}</h3>
+          <button
+            type="button"
+            onClick={() => changeWeek(shiftWeek(weekStart, 1))}
+            className="px-2 py-1 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            aria-label="Next week"
+          >
+            ›
+          </button>
+          {weekStart !== thisWeek && (
+            <button
+              type="button"
+              onClick={() => changeWeek(thisWeek)}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              This week
+            </button>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={copyLastWeek}
+          className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Copy Last Week's Rows
+        </button>
+      </div>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Project</th>
+              {days.map(day => (
+                <th key={day} className="px-2 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  {dayjs(day).format('ddd')}
+                  <span className="block font-normal normal-case">{dayjs(day).format('MMM D')}</span>
+                </th>
+              ))}
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rowProjectIds.map((projectId, row) => {
+              const project = projects.find(p => p.id === projectId);
+              return (
+                <tr key={projectId}>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-900 dark:text-gray-100">
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: project?.color || '#6b7280' }} />
+                      {project?.name || 'Unknown Project'}
+                    </div>
+                  </td>
+                  {days.map((day, col) => {
+                    const key = cellKey(projectId, day);
+                    const readOnly = isCellReadOnly(projectId, day);
+                    return (
+                      <td key={day} className="px-1 py-1">
+                        <input
+                          ref={input => {
+                            if (input) inputs.current.set(key, input);
+                            else inputs.current.delete(key);
+                          }}
+                          type="text"
+                          inputMode="decimal"
+                          value={drafts[key] ?? formatHoursInput(cellTotals.get(projectId)?.get(day) || 0)}
+                          onChange={(e) => setDraft(key, e.target.value)}
+                          onFocus={(e) => e.target.select()}
+                          onBlur={() => commitCell(projectId, day)}
+                          onKeyDown={(e) => handleKeyDown(e, row, col)}
+                          disabled={readOnly}
+                          title={readOnly ? 'Invoiced or on a submitted timesheet' : undefined}
+                          aria-label={`${project?.name || 'Unknown Project'} hours on ${day}`}
+                          className="w-16 text-center border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-1 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 dark:disabled:bg-gray-900 disabled:text-gray-500"
+                        />
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-2 text-right font-medium text-gray-900 dark:text-gray-100">{formatDurationHours(rowTotal(projectId))}</td>
+                </tr>
+              );
+            })}
+            <tr>
+              <td className="px-4 py-2" colSpan={days.length + 2}>
+                <select
+                  value=""
+                  onChange={(e) => addRow(e.target.value)}
+                  disabled={availableProjects.length === 0}
+                  className="border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Add a project row"
+                >
+                  <option value="">+ Add project</option>
+                  {availableProjects.map(project => (
+                    <option key={project.id} value={project.id}>{project.name}</option>
+                  ))}
+                </select>
+              </td>
+            </tr>
+          </tbody>
+          <tfoot className="bg-gray-50 dark:bg-gray-700 font-medium">
+            <tr>
+              <td className="px-4 py-3 text-gray-900 dark:text-white">Total</td>
+              {days.map(day => (
+                <td key={day} className="px-2 py-3 text-center text-gray-900 dark:text-white">{formatDurationHours(dayTotal(day))}</td>
+              ))}
+              <td className="px-4 py-3 text-right text-gray-900 dark:text-white">{formatDurationHours(weekTotal)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+      <p className="px-6 py-3 text-xs text-gray-500 dark:text-gray-400">
+        Type hours as 1.5 or 1:30. Arrow keys and Enter move between days and projects; Escape undoes a change that isn't saved yet.
+      </p>
+    </div>
+  );
+}
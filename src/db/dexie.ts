@@ -1,12 +1,21 @@
 import Dexie, { Table } from 'dexie'
+import { getLegacyTags } from '../utils/tags'
+import { buildIdMap, mapReference, migrateRecordIds, remapReferences } from '../utils/ids'
 
 export interface Contact {
   name: string
   email: string
 }
 
+export interface RoundingRule {
+  incrementMinutes: number  // 0 disables increment rounding
+  direction: 'up' | 'nearest' | 'down'
+  scope: 'session' | 'day'  // Round each session, or each day's total
+  minimumMinutes: number  // Minimum charge per session or per day, 0 for none
+}
+
 export interface Customer {
-  id?: number
+  id: string
   companyName: string
   address: string
   city: string
@@ -20,78 +29,137 @@ export interface Customer {
   distanceRate?: number;
   perDiemRate?: number
   currency?: string
+  taxExempt?: boolean
+  taxExemptNumber?: string  // Exemption certificate or status number shown on invoices
+  rounding?: RoundingRule  // Billing rounding; raw session durations are never changed
   createdAt: number
   archived: boolean
-  firestoreId?: string
+}
+
+export interface ProjectBudget {
+  hours?: number  // Hours budget; unset or 0 for none
+  amount?: number  // Money budget in the customer's currency; unset or 0 for none
+  resetMonthly: boolean  // Budget restarts at the start of each calendar month
 }
 
 export interface Project {
-  id?: number
+  id: string
   name: string
   color: string
   createdAt: number
   archived: boolean
-  customerId?: number  // Deprecated: kept for backward compatibility
-  customerFirestoreId?: string  // New: stores the Firestore ID of the customer
-  firestoreId?: string;
+  customerId?: string
+  billable?: boolean  // Default for new sessions; treated as billable when unset
+  budget?: ProjectBudget
+  budgetAlerts?: string[]  // "<period>:<threshold>" keys of budget alerts already sent
 }
 
 export interface Session {
-  id?: number
-  projectId: number
+  id: string
+  projectId: string
   start: number
   stop: number | null
   durationMs: number
   note?: string
   createdAt: number
-  firestoreId?: string;
+  invoiceNumber?: string | null  // Set once the session has been billed
+  billable?: boolean  // Falls back to the project default when unset
+  tags?: string[]  // Tag keys, e.g. 'travel'
+  organizationId?: string  // Organization active when the session was logged; lets its owners and admins see it
 }
 
 export interface Settings {
   id?: number
-  lastProjectId?: number
+  lastProjectId?: string
   theme: 'light' | 'dark'
   stopwatchPrecisionMs: number
   // New fields for notification settings
   showLiveTimer: boolean
   enableSmartReminders: boolean
   reminderThresholdHours: number
+  // Organization whose shared customers and projects are on this device; null for the user's own
+  sharedDataOrganizationId?: string | null
+  // Organization last chosen in the switcher on this device
+  activeOrganizationId?: string | null
 }
 
 export interface RunningSession {
   id?: number
   running: boolean
-  projectId: number
+  projectId: string
   startTs: number
   note?: string
+  tags?: string[]
   isPaused: boolean
   pauseStartTime: number | null
   totalPausedTime: number
   baseDuration: number
   // This ID links the running timer back to the original session entry
-  continuedFromSessionId: number | null
+  continuedFromSessionId: string | null
 }
 
 export interface PredefinedNote {
-  id?: number
+  id: string
   note: string
   createdAt: number
-  firestoreId?: string
+}
+
+export interface Tag {
+  id: string
+  key: string  // Stable slug stored on sessions, e.g. 'on-site'
+  name: string
+  color: string
+  createdAt: number
+  builtIn?: boolean  // Defined in code rather than stored
 }
 
 export interface TravelEntry {
-  id?: number
-  projectId: number | string
-  customerId: number | string
-  customerFirestoreId?: string
+  id: string
+  projectId: string
+  customerId: string
   date: number
   distance: number
   unit: 'km' | 'miles'
   note?: string
   createdAt: number
-  firestoreId?: string
   userId?: string
   organizationId?: string
+  invoiceNumber?: string | null  // Set once the distance has been billed
+}
+
+export type PerDiemMeal = 'breakfast' | 'lunch' | 'dinner'
+
+export interface PerDiemEntry {
+  id: string
+  projectId: string
+  customerId?: string
+  date: number  // Start of the day the per-diem applies to
+  meals: PerDiemMeal[]  // All three meals is a full day; fewer is a partial day
+  note?: string
+  createdAt: number
+  userId?: string
+  invoiceNumber?: string | null  // Set once the per-diem has been billed
+}
+
+export type ExpenseCategory = 'parking' | 'materials' | 'tolls' | 'meals' | 'lodging' | 'transport' | 'other'
+
+export interface Expense {
+  id: string
+  projectId: string
+  customerId?: string
+  date: number
+  category: ExpenseCategory
+  description?: string
+  amount: number  // Total paid, including taxPaid
+  currency: string
+  taxPaid: number  // Sales tax included in amount; recoverable, so not re-billed
+  billable: boolean
+  markupPercent: number  // Added on top of the pre-tax amount when billed, 0 for none
+  receiptUrl?: string
+  receiptPath?: string  // Firebase Storage path, kept so the file can be replaced or deleted
+  createdAt: number
+  userId?: string
+  invoiceNumber?: string | null  // Set once the expense has been billed
 }
 
 // New: Organization and CorporateInfo types
@@ -105,9 +173,19 @@ export interface CorporateInfo {
   phone: string
   email: string
   gstNumber: string
+  qstNumber?: string
+  pstNumber?: string  // PST registration for the seller's own province
   logoUrl?: string
 }
 
+export type OrganizationRole = 'owner' | 'admin' | 'user'
+
+export interface OrganizationMember {
+  role: OrganizationRole
+  addedAt: number
+  email?: string
+}
+
 export interface Organization {
   id?: number
   firestoreId?: string
@@ -115,16 +193,131 @@ export interface Organization {
   createdBy: string  // userId
   createdAt: number
   updatedAt: number
+  members?: Record<string, OrganizationMember>  // Keyed by userId
+}
+
+// Pending invitation to join an organization; only kept in Firestore
+export interface OrganizationInvitation {
+  orgId: string
+  orgName: string
+  email: string  // Lowercased; also the doc id
+  role: OrganizationRole
+  invitedBy: string  // userId
+  invitedByEmail?: string
+  createdAt: number
 }
 
 export interface User {
   id?: number
   userId: string  // Firebase Auth UID
   organizationId?: string  // Firestore organization ID
-  role?: 'owner' | 'admin' | 'user'
+  role?: OrganizationRole
   updatedAt: number
 }
 
+export interface InvoiceLine {
+  type: 'labour' | 'travelTime' | 'distance' | 'perDiem' | 'expense'
+  description: string
+  quantity: number
+  unit: string
+  rate: number
+  amount: number
+}
+
+export interface TaxLine {
+  code: 'GST' | 'HST' | 'PST' | 'QST'
+  label: string
+  rate: number  // Percent
+  amount: number
+  registrationNumber?: string
+}
+
+export interface Invoice {
+  id: string
+  number: string
+  customerId?: string
+  billTo: {
+    companyName: string
+    addressLines: string[]
+    taxExemptNumber?: string
+  }
+  seller: CorporateInfo  // Snapshot of the corporate info at the time of issue
+  periodStart: number
+  periodEnd: number
+  issuedAt: number
+  currency: string
+  lines: InvoiceLine[]
+  subtotal: number
+  taxes: TaxLine[]
+  total: number
+  status: 'issued' | 'void'
+  createdAt: number
+  // Ids of everything billed, released when the invoice is voided. Missing on older invoices.
+  billedIds?: {
+    sessions: string[]
+    travelEntries: string[]
+    expenses: string[]
+    perDiems: string[]
+  }
+}
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected'
+
+// A member's week in an organization, signed off before it is invoiced. Sessions of a
+// submitted or approved week can't be edited.
+export interface Timesheet {
+  id: string  // `${userId}_${weekStart}`, also the Firestore doc id
+  orgId: string
+  userId: string
+  userEmail?: string
+  weekStart: string  // Monday, YYYY-MM-DD
+  status: TimesheetStatus
+  totalMs: number  // Time logged in the week when it was submitted
+  sessionCount: number
+  comment?: string  // Why it was rejected
+  submittedAt?: number
+  reviewedBy?: string  // userId
+  reviewedByEmail?: string
+  reviewedAt?: number
+  updatedAt: number
+}
+
+// A record edited on this device and another one before either change was synced
+export interface SyncConflict {
+  id?: number
+  collection: string  // Synced collection, e.g. 'sessions'
+  recordId: string  // Id of the record, the same locally and in Firestore
+  remote: Record<string, unknown>  // Their version
+  remoteRevision: number
+  detectedAt: number
+}
+
+// A Firestore write that hasn't reached the server yet, replayed in id order
+export interface OutboxEntry {
+  id?: number
+  collection: string
+  recordId: string  // 'set' uploads the record as it is when the write runs
+  operation: 'set' | 'delete'
+  createdAt: number
+  attempts: number
+  nextAttemptAt: number
+  lastError?: string
+  failed?: boolean  // Won't succeed by retrying; waits for the user to retry or discard it
+  batchId?: string  // Entries queued together are written together, in one Firestore commit
+}
+
+// A synced record deleted on some device. Kept until the retention window passes so
+// a stale copy in a snapshot or on another device can't bring the record back.
+export interface Tombstone {
+  id?: number
+  collection: string
+  recordId: string
+  deletedAt: number
+}
+
+// Tables synced with Firestore, keyed by the id of their Firestore doc
+const SYNCED_TABLES = ['projects', 'sessions', 'predefinedNotes', 'customers', 'travelEntries', 'invoices', 'expenses', 'perDiems', 'tags']
+
 export class BuzTrackerDB extends Dexie {
   projects!: Table<Project>
   sessions!: Table<Session>
@@ -135,10 +328,337 @@ export class BuzTrackerDB extends Dexie {
   organizations!: Table<Organization>
   users!: Table<User>
   travelEntries!: Table<TravelEntry>
+  invoices!: Table<Invoice>
+  expenses!: Table<Expense>
+  perDiems!: Table<PerDiemEntry>
+  tags!: Table<Tag>
+  conflicts!: Table<SyncConflict>
+  outbox!: Table<OutboxEntry>
+  tombstones!: Table<Tombstone>
+  timesheets!: Table<Timesheet>
 
   constructor() {
     super('BuzTrackerDB')
 
+    // Bump DB version to 700 to add timesheets
+    this.version(700).stores({
+      projects: 'id, name, createdAt, archived, customerId',
+      sessions: 'id, projectId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: 'id, note, createdAt',
+      customers: 'id, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      invoices: 'id, number, customerId, issuedAt, status, createdAt',
+      expenses: 'id, projectId, customerId, date, category, createdAt, invoiceNumber',
+      perDiems: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      tags: 'id, &key, name, createdAt',
+      conflicts: '++id, &[collection+recordId], detectedAt',
+      outbox: '++id, [collection+recordId], createdAt',
+      tombstones: '++id, &[collection+recordId], deletedAt',
+      timesheets: 'id, orgId, userId, weekStart, status'
+    })
+
+    // Bump DB version to 690 to drop the tables used while re-keying records
+    this.version(690).stores({
+      projects: 'id, name, createdAt, archived, customerId',
+      sessions: 'id, projectId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: 'id, note, createdAt',
+      customers: 'id, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      invoices: 'id, number, customerId, issuedAt, status, createdAt',
+      expenses: 'id, projectId, customerId, date, category, createdAt, invoiceNumber',
+      perDiems: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      tags: 'id, &key, name, createdAt',
+      conflicts: '++id, &[collection+recordId], detectedAt',
+      outbox: '++id, [collection+recordId], createdAt',
+      tombstones: '++id, &[collection+recordId], deletedAt',
+      projectsNext: null,
+      sessionsNext: null,
+      predefinedNotesNext: null,
+      customersNext: null,
+      travelEntriesNext: null,
+      invoicesNext: null,
+      expensesNext: null,
+      perDiemsNext: null,
+      tagsNext: null
+    })
+
+    // Bump DB version to 680 to recreate synced tables keyed by string ids
+    this.version(680).stores({
+      projects: 'id, name, createdAt, archived, customerId',
+      sessions: 'id, projectId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: 'id, note, createdAt',
+      customers: 'id, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      invoices: 'id, number, customerId, issuedAt, status, createdAt',
+      expenses: 'id, projectId, customerId, date, category, createdAt, invoiceNumber',
+      perDiems: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      tags: 'id, &key, name, createdAt',
+      conflicts: '++id, &[collection+recordId], detectedAt',
+      outbox: '++id, [collection+recordId], createdAt',
+      tombstones: '++id, &[collection+recordId], deletedAt',
+      projectsNext: 'id, name, createdAt, archived, customerId',
+      sessionsNext: 'id, projectId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      predefinedNotesNext: 'id, note, createdAt',
+      customersNext: 'id, companyName, createdAt, archived',
+      travelEntriesNext: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      invoicesNext: 'id, number, customerId, issuedAt, status, createdAt',
+      expensesNext: 'id, projectId, customerId, date, category, createdAt, invoiceNumber',
+      perDiemsNext: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      tagsNext: 'id, &key, name, createdAt'
+    }).upgrade(async (trans) => {
+      for (const name of SYNCED_TABLES) {
+        await trans.table(name).bulkAdd(await trans.table(`${name}Next`).toArray());
+      }
+    })
+
+    // Bump DB version to 670 to drop synced tables keyed by auto-increment ids
+    this.version(670).stores({
+      projects: null,
+      sessions: null,
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: null,
+      customers: null,
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: null,
+      invoices: null,
+      expenses: null,
+      perDiems: null,
+      tags: null,
+      conflicts: '++id, &[collection+recordId], detectedAt',
+      outbox: '++id, [collection+recordId], createdAt',
+      tombstones: '++id, &[collection+recordId], deletedAt',
+      projectsNext: 'id, name, createdAt, archived, customerId',
+      sessionsNext: 'id, projectId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      predefinedNotesNext: 'id, note, createdAt',
+      customersNext: 'id, companyName, createdAt, archived',
+      travelEntriesNext: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      invoicesNext: 'id, number, customerId, issuedAt, status, createdAt',
+      expensesNext: 'id, projectId, customerId, date, category, createdAt, invoiceNumber',
+      perDiemsNext: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      tagsNext: 'id, &key, name, createdAt'
+    })
+
+    // Bump DB version to 660 to key synced records by ids shared with Firestore.
+    // Dexie can't change a primary key, so records are copied to *Next tables here and
+    // back to their own tables in 680.
+    this.version(660).stores({
+      projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
+      sessions: '++id, projectId, firestoreId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: '++id, firestoreId, note, createdAt',
+      customers: '++id, firestoreId, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      invoices: '++id, firestoreId, number, customerId, customerFirestoreId, issuedAt, status, createdAt',
+      expenses: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, category, createdAt, invoiceNumber',
+      perDiems: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      tags: '++id, &key, firestoreId, name, createdAt',
+      conflicts: '++id, &[collection+recordId], detectedAt',
+      outbox: '++id, [collection+recordId], createdAt',
+      tombstones: '++id, &[collection+recordId], deletedAt',
+      projectsNext: 'id, name, createdAt, archived, customerId',
+      sessionsNext: 'id, projectId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      predefinedNotesNext: 'id, note, createdAt',
+      customersNext: 'id, companyName, createdAt, archived',
+      travelEntriesNext: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      invoicesNext: 'id, number, customerId, issuedAt, status, createdAt',
+      expensesNext: 'id, projectId, customerId, date, category, createdAt, invoiceNumber',
+      perDiemsNext: 'id, projectId, customerId, date, createdAt, invoiceNumber',
+      tagsNext: 'id, &key, name, createdAt'
+    }).upgrade(async (trans) => {
+      // Migration: Records take the id of their Firestore doc, or a new one if never
+      // uploaded, and every reference to them is rewritten
+      const ids = new Map<string, Map<number, string>>();
+      for (const name of SYNCED_TABLES) {
+        ids.set(name, buildIdMap(await trans.table(name).toArray()));
+      }
+      const projectIds = ids.get('projects')!;
+      const customerIds = ids.get('customers')!;
+      const sessionIds = ids.get('sessions')!;
+
+      for (const name of SYNCED_TABLES) {
+        const records = await trans.table(name).toArray();
+        await trans.table(`${name}Next`).bulkAdd(
+          records.map(record => migrateRecordIds(record, ids.get(name)!, projectIds, customerIds))
+        );
+      }
+
+      await trans.table('runningSession').toCollection().modify((running: Record<string, unknown>) => {
+        running.projectId = mapReference(running.projectId, projectIds);
+        running.continuedFromSessionId = mapReference(running.continuedFromSessionId, sessionIds) ?? null;
+      });
+      await trans.table('settings').toCollection().modify((settings: Record<string, unknown>) => {
+        if (settings.lastProjectId !== undefined) settings.lastProjectId = mapReference(settings.lastProjectId, projectIds);
+      });
+      await trans.table('conflicts').toCollection().modify((conflict: Record<string, unknown>, ref) => {
+        const recordId = ids.get(conflict.collection as string)?.get(conflict.recordId as number);
+        if (!recordId) {
+          delete (ref as { value?: unknown }).value;
+          return;
+        }
+        conflict.recordId = recordId;
+        conflict.remote = remapReferences(conflict.remote as Record<string, unknown>, projectIds, customerIds);
+        delete conflict.firestoreId;
+      });
+      await trans.table('outbox').toCollection().modify((entry: Record<string, unknown>, ref) => {
+        const recordId = entry.operation === 'delete'
+          ? entry.firestoreId
+          : ids.get(entry.collection as string)?.get(entry.recordId as number);
+        if (!recordId) {
+          delete (ref as { value?: unknown }).value;
+          return;
+        }
+        entry.recordId = recordId;
+        delete entry.firestoreId;
+      });
+      await trans.table('tombstones').toCollection().modify((tombstone: Record<string, unknown>) => {
+        tombstone.recordId = tombstone.firestoreId;
+        delete tombstone.firestoreId;
+      });
+    })
+
+    // Bump DB version to 650 to add tombstones table
+    this.version(650).stores({
+      projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
+      sessions: '++id, projectId, firestoreId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: '++id, firestoreId, note, createdAt',
+      customers: '++id, firestoreId, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      invoices: '++id, firestoreId, number, customerId, customerFirestoreId, issuedAt, status, createdAt',
+      expenses: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, category, createdAt, invoiceNumber',
+      perDiems: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      tags: '++id, &key, firestoreId, name, createdAt',
+      conflicts: '++id, &[collection+recordId], detectedAt',
+      outbox: '++id, [collection+recordId], createdAt',
+      tombstones: '++id, &[collection+firestoreId], deletedAt'
+    })
+
+    // Bump DB version to 640 to add outbox table
+    this.version(640).stores({
+      projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
+      sessions: '++id, projectId, firestoreId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: '++id, firestoreId, note, createdAt',
+      customers: '++id, firestoreId, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      invoices: '++id, firestoreId, number, customerId, customerFirestoreId, issuedAt, status, createdAt',
+      expenses: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, category, createdAt, invoiceNumber',
+      perDiems: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      tags: '++id, &key, firestoreId, name, createdAt',
+      conflicts: '++id, &[collection+recordId], detectedAt',
+      outbox: '++id, [collection+recordId], createdAt'
+    })
+
+    // Bump DB version to 630 to add conflicts table
+    this.version(630).stores({
+      projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
+      sessions: '++id, projectId, firestoreId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: '++id, firestoreId, note, createdAt',
+      customers: '++id, firestoreId, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      invoices: '++id, firestoreId, number, customerId, customerFirestoreId, issuedAt, status, createdAt',
+      expenses: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, category, createdAt, invoiceNumber',
+      perDiems: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      tags: '++id, &key, firestoreId, name, createdAt',
+      conflicts: '++id, &[collection+recordId], detectedAt'
+    })
+
+    // Bump DB version to 620 to add tags table and index session tags
+    this.version(620).stores({
+      projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
+      sessions: '++id, projectId, firestoreId, start, stop, createdAt, *note, invoiceNumber, *tags',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: '++id, firestoreId, note, createdAt',
+      customers: '++id, firestoreId, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      invoices: '++id, firestoreId, number, customerId, customerFirestoreId, issuedAt, status, createdAt',
+      expenses: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, category, createdAt, invoiceNumber',
+      perDiems: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      tags: '++id, &key, firestoreId, name, createdAt'
+    }).upgrade(async (trans) => {
+      // Migration: Sessions used to be treated as travel when the note mentioned "travel"
+      await trans.table('sessions').toCollection().modify((session: Session) => {
+        if (session.tags === undefined) {
+          session.tags = getLegacyTags(session.note);
+        }
+      });
+    })
+
+    // Bump DB version to 619 to add perDiems table
+    this.version(619).stores({
+      projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
+      sessions: '++id, projectId, firestoreId, start, stop, createdAt, *note, invoiceNumber',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: '++id, firestoreId, note, createdAt',
+      customers: '++id, firestoreId, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      invoices: '++id, firestoreId, number, customerId, customerFirestoreId, issuedAt, status, createdAt',
+      expenses: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, category, createdAt, invoiceNumber',
+      perDiems: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber'
+    })
+
+    // Bump DB version to 618 to add expenses table
+    this.version(618).stores({
+      projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
+      sessions: '++id, projectId, firestoreId, start, stop, createdAt, *note, invoiceNumber',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: '++id, firestoreId, note, createdAt',
+      customers: '++id, firestoreId, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      invoices: '++id, firestoreId, number, customerId, customerFirestoreId, issuedAt, status, createdAt',
+      expenses: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, category, createdAt, invoiceNumber'
+    })
+
+    // Bump DB version to 617 to add invoices table and invoiceNumber indexes
+    this.version(617).stores({
+      projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
+      sessions: '++id, projectId, firestoreId, start, stop, createdAt, *note, invoiceNumber',
+      settings: '++id',
+      runningSession: '++id, running, projectId, startTs, isPaused, continuedFromSessionId',
+      predefinedNotes: '++id, firestoreId, note, createdAt',
+      customers: '++id, firestoreId, companyName, createdAt, archived',
+      organizations: '++id, firestoreId, createdBy, createdAt, updatedAt',
+      users: '++id, userId, organizationId, role, updatedAt',
+      travelEntries: '++id, firestoreId, projectId, customerId, customerFirestoreId, date, createdAt, invoiceNumber',
+      invoices: '++id, firestoreId, number, customerId, customerFirestoreId, issuedAt, status, createdAt'
+    })
+
     // Bump DB version to 616 to add travelEntries table
     this.version(616).stores({
       projects: '++id, firestoreId, name, createdAt, archived, customerId, customerFirestoreId',
@@ -232,7 +752,15 @@ export async function clearDatabase() {
     db.customers.clear(),
     db.organizations.clear(),
     db.users.clear(),
-    db.travelEntries.clear()
+    db.travelEntries.clear(),
+    db.invoices.clear(),
+    db.expenses.clear(),
+    db.perDiems.clear(),
+    db.tags.clear(),
+    db.conflicts.clear(),
+    db.outbox.clear(),
+    db.tombstones.clear(),
+    db.timesheets.clear()
   ]);
 }
 
@@ -0,0 +1,13 @@
+import { useOrganizationStore } from '../store/organization';
+import { useAuthStore } from '../store/auth';
+import { getMemberRole } from '../utils/members';
+import { can, type Permission } from '../utils/permissions';
+
+// Permission checks for the signed-in user's role in their organization
+export function useCan() {
+  const organization = useOrganizationStore(state => state.organization);
+  const user = useAuthStore(state => state.user);
+  const role = getMemberRole(organization, user?.uid);
+
+  return (permission: Permission) => can(role, permission);
+}
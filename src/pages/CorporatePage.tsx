@@ -5,22 +5,10 @@ import { useOrganizationStore } from '../store/organization';
 import { useAuthStore } from '../store/auth';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
 import { CorporateInfo } from '../db/dexie';
-
-const CANADIAN_PROVINCES = [
-  { code: 'AB', name: 'Alberta' },
-  { code: 'BC', name: 'British Columbia' },
-  { code: 'MB', name: 'Manitoba' },
-  { code: 'NB', name: 'New Brunswick' },
-  { code: 'NL', name: 'Newfoundland and Labrador' },
-  { code: 'NS', name: 'Nova Scotia' },
-  { code: 'NT', name: 'Northwest Territories' },
-  { code: 'NU', name: 'Nunavut' },
-  { code: 'ON', name: 'Ontario' },
-  { code: 'PE', name: 'Prince Edward Island' },
-  { code: 'QC', name: 'Quebec' },
-  { code: 'SK', name: 'Saskatchewan' },
-  { code: 'YT', name: 'Yukon' }
-];
+import { CANADIAN_PROVINCES } from '../utils/tax';
+import { OrganizationMembers } from '../components/OrganizationMembers';
+import { MyInvitations } from '../components/MyInvitations';
+import { useCan } from '../hooks/useCan';
 
 export function CorporatePage() {
   const { organization, isLoading, error, createOrganization, updateOrganization, loadOrganization } = useOrganizationStore();
@@ -37,6 +25,8 @@ export function CorporatePage() {
     phone: '',
     email: '',
     gstNumber: '',
+    qstNumber: '',
+    pstNumber: '',
     logoUrl: ''
   });
 
@@ -44,6 +34,8 @@ export function CorporatePage() {
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [isEditing, setIsEditing] = useState(false);
+  const can = useCan();
+  const canEdit = can('editCorporateInfo');
 
   useEffect(() => {
     loadOrganization();
@@ -67,6 +59,11 @@ export function CorporatePage() {
       errors.gstNumber = 'GST number must be in format: 123456789RT0001';
     }
 
+    // QST number validation (optional, but if provided, must be valid format)
+    if (formData.qstNumber && !/^\d{10}TQ\d{4}$/.test(formData.qstNumber)) {
+      errors.qstNumber = 'QST number must be in format: 1234567890TQ0001';
+    }
+
     // Email validation (optional, but if provided, must be valid)
     if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
       errors.email = 'Please enter a valid email address';
@@ -158,6 +155,8 @@ export function CorporatePage() {
         phone: '',
         email: '',
         gstNumber: '',
+        qstNumber: '',
+        pstNumber: '',
         logoUrl: ''
       });
     }
@@ -223,6 +222,8 @@ export function CorporatePage() {
         </div>
       )}
 
+      {!user?.isAnonymous && <MyInvitations />}
+
       <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
         <div className="space-y-6">
           {/* Company Name */}
@@ -397,6 +398,46 @@ export function CorporatePage() {
             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Format: 9 digits + RT + 4 digits</p>
           </div>
 
+          {/* QST Number */}
+          <div>
+            <label htmlFor="qstNumber" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              QST Number
+            </label>
+            <input
+              type="text"
+              id="qstNumber"
+              value={formData.qstNumber || ''}
+              onChange={(e) => handleInputChange('qstNumber', e.target.value.toUpperCase())}
+              disabled={!isEditing}
+              className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white ${
+                validationErrors.qstNumber ? 'border-red-500' : 'border-gray-300'
+              }`}
+              placeholder="1234567890TQ0001"
+              maxLength={16}
+            />
+            {validationErrors.qstNumber && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{validationErrors.qstNumber}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Only if registered with Revenu Québec. QST is charged to Quebec customers.</p>
+          </div>
+
+          {/* PST Number */}
+          <div>
+            <label htmlFor="pstNumber" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              PST Number
+            </label>
+            <input
+              type="text"
+              id="pstNumber"
+              value={formData.pstNumber || ''}
+              onChange={(e) => handleInputChange('pstNumber', e.target.value.toUpperCase())}
+              disabled={!isEditing}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              placeholder="PST-1234-5678"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Only if registered for PST in your province (BC, MB or SK). PST is charged to customers in the same province.</p>
+          </div>
+
           {/* Logo URL */}
           <div>
             <label htmlFor="logoUrl" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -420,9 +461,9 @@ export function CorporatePage() {
               <button
                 type="button"
                 onClick={() => setIsEditing(true)}
-                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                disabled={user?.isAnonymous || !isOnline}
-                title={user?.isAnonymous ? 'Guest users cannot edit corporate info' : (!isOnline ? 'You must be online to edit corporate info' : undefined)}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={user?.isAnonymous || !isOnline || !canEdit}
+                title={user?.isAnonymous ? 'Guest users cannot edit corporate info' : (!isOnline ? 'You must be online to edit corporate info' : (!canEdit ? 'Only owners can edit corporate info' : undefined))}
               >
                 Enable Editing
               </button>
@@ -456,6 +497,8 @@ export function CorporatePage() {
         </div>
       </form>
 
+      {organization && !user?.isAnonymous && <OrganizationMembers />}
+
       {/* Info Card */}
       <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-6">
         <h3 className="text-lg font-semibold text-blue-900 dark:text-blue-100 mb-2">About Corporate Information</h3>
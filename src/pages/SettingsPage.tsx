@@ -4,6 +4,7 @@ import { lazy } from 'react';
 import { ThemeSelector } from '../components/ThemeSelector';
 
 const NotificationSettings = lazy(() => import('../components/NotificationSettings'));
+const SessionSettings = lazy(() => import('../components/SessionSettings').then(module => ({ default: module.SessionSettings })));
 const CsvImportExportCard = lazy(() => import('../components/CsvImportExportCard').then(module => ({ default: module.CsvImportExportCard })));
 
 export function SettingsPage() {
@@ -31,6 +32,7 @@ export function SettingsPage() {
           </div>
         </div>
       </div>
+      <SessionSettings />
       <NotificationSettings />
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">About BuzTracker</h3>
@@ -0,0 +1,410 @@
+// src/pages/TeamPage.tsx
+
+import { useState, useMemo, useEffect } from 'react';
+import { useOrganizationStore } from '../store/organization';
+import { useAuthStore } from '../store/auth';
+import { useProjectsStore } from '../store/projects';
+import { useCustomersStore } from '../store/customers';
+import { useTeamStore } from '../store/team';
+import { useCan } from '../hooks/useCan';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { Session, Timesheet } from '../db/dexie';
+import { getDateRanges, formatDurationHours, formatDate, formatTime, getTotalDuration } from '../utils/time';
+import { DATE_FILTER_LABELS, excludeArchived, getDayKeys, getDayTotals, getFilterRange, getProjectTotals, type DateFilter } from '../utils/history';
+import { getMemberLabel, getMissingDays } from '../utils/team';
+import { sortMembers } from '../utils/members';
+import { getWeekRange } from '../utils/timesheets';
+import { HoursChart } from '../components/HoursChart';
+import { TimesheetApprovalQueue } from '../components/TimesheetApprovalQueue';
+
+type GroupBy = 'day' | 'project';
+
+// Hours per day are shown for up to a month
+const MAX_DAY_COLUMNS = 31;
+
+const MEMBER_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+const toHours = (ms: number) => parseFloat(formatDurationHours(ms));
+
+export function TeamPage() {
+  const { organization } = useOrganizationStore();
+  const { user } = useAuthStore();
+  const { projects } = useProjectsStore();
+  const { customers } = useCustomersStore();
+  const { memberSessions, isLoading, error, loadTeamSessions } = useTeamStore();
+  const isOnline = useOnlineStatus();
+  const can = useCan();
+  const canView = !!organization && can('viewTeamSessions');
+
+  const [dateFilter, setDateFilter] = useState<DateFilter>('thisWeek');
+  const [customStart, setCustomStart] = useState('');
+  const [customEnd, setCustomEnd] = useState('');
+  const [selectedProjectId, setSelectedProjectId] = useState('');
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+  const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
+
+  const dateRanges = useMemo(() => getDateRanges(), []);
+
+  const { startDate, endDate } = useMemo(
+    () => getFilterRange(dateFilter, customStart, customEnd, dateRanges),
+    [dateFilter, customStart, customEnd, dateRanges]
+  );
+
+  useEffect(() => {
+    if (canView && isOnline) {
+      loadTeamSessions(startDate, endDate);
+    }
+  }, [canView, isOnline, startDate, endDate, organization?.firestoreId, loadTeamSessions]);
+
+  const members = useMemo(() => sortMembers(organization?.members || {}), [organization]);
+
+  // Same archived project/customer rules and project filter as the history page
+  const filteredSessions = useMemo(() => {
+    const filtered: Record<string, Session[]> = {};
+    members.forEach(([userId]) => {
+      const sessions = excludeArchived(memberSessions[userId] || [], projects, customers);
+      filtered[userId] = selectedProjectId ? sessions.filter(s => s.projectId === selectedProjectId) : sessions;
+    });
+    return filtered;
+  }, [members, memberSessions, projects, customers, selectedProjectId]);
+
+  const days = useMemo(() => getDayKeys(startDate, endDate), [startDate, endDate]);
+  const showDays = days.length <= MAX_DAY_COLUMNS;
+
+  const memberDays = useMemo(() => members.map(([userId, member]) => {
+    const dayTotals = getDayTotals(filteredSessions[userId], startDate, endDate);
+    return {
+      userId,
+      member,
+      dayTotals,
+      missingDays: new Set(getMissingDays(dayTotals)),
+      totalMs: getTotalDuration(filteredSessions[userId]),
+    };
+  }), [members, filteredSessions, startDate, endDate]);
+
+  // Projects anyone logged time on, most hours first
+  const teamProjectTotals = useMemo(() => {
+    const totals = getProjectTotals(Object.values(filteredSessions).flat());
+    return [...totals.entries()].sort(([, a], [, b]) => b - a);
+  }, [filteredSessions]);
+
+  const chartData = useMemo(() => {
+    const labels = groupBy === 'project'
+      ? teamProjectTotals.map(([projectId]) => projects.find(p => p.id === projectId)?.name || 'Unknown')
+      : days;
+
+    const datasets = members.map(([userId, member], index) => {
+      const color = MEMBER_COLORS[index % MEMBER_COLORS.length];
+      const data = groupBy === 'project'
+        ? teamProjectTotals.map(([projectId]) => toHours(getProjectTotals(filteredSessions[userId]).get(projectId) || 0))
+        : Array.from(getDayTotals(filteredSessions[userId], startDate, endDate).values()).map(toHours);
+      return {
+        label: getMemberLabel(member, userId === user?.uid),
+        data,
+        backgroundColor: color,
+        borderColor: color,
+        borderWidth: 1
+      };
+    });
+
+    return { labels, datasets };
+  }, [groupBy, teamProjectTotals, days, members, filteredSessions, projects, startDate, endDate, user]);
+
+  const selectedMember = members.find(([userId]) => userId === selectedMemberId);
+  const selectedSessions = useMemo(
+    () => [...(selectedMemberId ? filteredSessions[selectedMemberId] || [] : [])].sort((a, b) => b.start - a.start),
+    [selectedMemberId, filteredSessions]
+  );
+
+  // Show the member's sessions of the week under review
+  const handleReview = (timesheet: Timesheet) => {
+    const { start, end } = getWeekRange(timesheet.weekStart);
+    setDateFilter('custom');
+    setCustomStart(formatDate(start));
+    setCustomEnd(formatDate(end));
+    setSelectedProjectId('');
+    setSelectedMemberId(timesheet.userId);
+  };
+
+  const getProjectName = (projectId: string) => projects.find(p => p.id === projectId)?.name || 'Unknown Project';
+
+  const getCustomerName = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    return customers.find(c => c.id === project?.customerId)?.companyName || 'N/A';
+  };
+
+  if (!canView) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Team</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">Only owners and admins of an organization can see their team's timesheets.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Team Timesheets</h2>
+          <button
+            onClick={() => loadTeamSessions(startDate, endDate)}
+            disabled={!isOnline || isLoading}
+            className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 md:gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Date Range
+            </label>
+            <select
+              value={dateFilter}
+              onChange={(e) => setDateFilter(e.target.value as DateFilter)}
+              className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(DATE_FILTER_LABELS) as DateFilter[]).map(filter => (
+                <option key={filter} value={filter}>{DATE_FILTER_LABELS[filter]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Group By
+            </label>
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+              className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="day">Day</option>
+              <option value="project">Project</option>
+            </select>
+          </div>
+
+          <div className="col-span-2 md:col-span-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Project
+            </label>
+            <select
+              value={selectedProjectId}
+              onChange={(e) => setSelectedProjectId(e.target.value)}
+              className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Projects</option>
+              {projects.filter(p => !p.archived && !customers.find(c => c.id === p.customerId)?.archived).map(project => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {dateFilter === 'custom' && (
+          <div className="grid grid-cols-2 gap-2 md:gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Start Date
+              </label>
+              <input
+                type="date"
+                value={customStart}
+                onChange={(e) => setCustomStart(e.target.value)}
+                className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                End Date
+              </label>
+              <input
+                type="date"
+                value={customEnd}
+                onChange={(e) => setCustomEnd(e.target.value)}
+                className="w-full border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        )}
+
+        {!isOnline && (
+          <p className="mt-4 text-sm text-yellow-700 dark:text-yellow-400">You are offline. Team timesheets load once you're back online.</p>
+        )}
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+      </div>
+
+      {can('approveTimesheets') && <TimesheetApprovalQueue onReview={handleReview} />}
+
+      {/* Hours per member per day */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Hours per Day</h3>
+          {showDays && (
+            <span className="flex items-center text-xs text-gray-600 dark:text-gray-400">
+              <span className="inline-block w-3 h-3 mr-1 rounded-sm bg-red-100 dark:bg-red-900/40 border border-red-300 dark:border-red-700" />
+              Workday without time
+            </span>
+          )}
+        </div>
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Member</th>
+                {showDays && days.map(day => (
+                  <th key={day} className="px-2 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider whitespace-nowrap">
+                    {new Date(`${day}T00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {memberDays.map(({ userId, member, dayTotals, missingDays, totalMs }) => (
+                <tr
+                  key={userId}
+                  onClick={() => setSelectedMemberId(userId === selectedMemberId ? null : userId)}
+                  className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 ${userId === selectedMemberId ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                >
+                  <td className="px-4 py-3 text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                    {getMemberLabel(member, userId === user?.uid)}
+                    {!showDays && missingDays.size > 0 && (
+                      <span className="ml-2 text-xs text-red-600 dark:text-red-400">{missingDays.size} workdays without time</span>
+                    )}
+                  </td>
+                  {showDays && days.map(day => {
+                    const ms = dayTotals.get(day) || 0;
+                    const isMissing = missingDays.has(day);
+                    return (
+                      <td
+                        key={day}
+                        className={`px-2 py-3 text-right tabular-nums ${isMissing ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300' : 'text-gray-700 dark:text-gray-300'}`}
+                        title={isMissing ? 'No time logged' : undefined}
+                      >
+                        {ms > 0 ? toHours(ms).toFixed(1) : '–'}
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-3 text-right font-semibold text-gray-900 dark:text-white tabular-nums">{toHours(totalMs).toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {!showDays && (
+          <p className="px-6 py-3 text-xs text-gray-500 dark:text-gray-400">Choose a range of a month or less to see hours per day.</p>
+        )}
+      </div>
+
+      {/* Hours per member per project */}
+      {teamProjectTotals.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Hours per Project</h3>
+          </div>
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Member</th>
+                  {teamProjectTotals.map(([projectId]) => (
+                    <th key={projectId} className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider whitespace-nowrap">
+                      {getProjectName(projectId)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {members.map(([userId, member]) => {
+                  const projectTotals = getProjectTotals(filteredSessions[userId]);
+                  return (
+                    <tr key={userId}>
+                      <td className="px-4 py-3 text-gray-900 dark:text-gray-100 whitespace-nowrap">{getMemberLabel(member, userId === user?.uid)}</td>
+                      {teamProjectTotals.map(([projectId]) => {
+                        const ms = projectTotals.get(projectId) || 0;
+                        return (
+                          <td key={projectId} className="px-4 py-3 text-right text-gray-700 dark:text-gray-300 tabular-nums">
+                            {ms > 0 ? toHours(ms).toFixed(1) : '–'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+                <tr className="bg-gray-50 dark:bg-gray-700 font-semibold">
+                  <td className="px-4 py-3 text-gray-900 dark:text-white">Total</td>
+                  {teamProjectTotals.map(([projectId, ms]) => (
+                    <td key={projectId} className="px-4 py-3 text-right text-gray-900 dark:text-white tabular-nums">{toHours(ms).toFixed(1)}</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Chart */}
+      {chartData.datasets.some(dataset => dataset.data.some(val => val > 0)) && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+          <HoursChart data={chartData} title={groupBy === 'project' ? 'Hours by Project' : 'Hours per Day'} stacked />
+        </div>
+      )}
+
+      {/* Drill-down into one member's sessions */}
+      {selectedMember && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Sessions of {getMemberLabel(selectedMember[1], selectedMember[0] === user?.uid)}
+            </h3>
+            <button
+              onClick={() => setSelectedMemberId(null)}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              aria-label="Close sessions"
+            >
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          {selectedSessions.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">No sessions in this range</p>
+          ) : (
+            <div className="overflow-x-auto overflow-y-auto max-h-[24rem] custom-scrollbar">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    {['Date', 'Time', 'Duration', 'Customer', 'Project', 'Note'].map(heading => (
+                      <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">{heading}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {selectedSessions.map(session => (
+                    <tr key={session.id}>
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-900 dark:text-gray-100">{formatDate(session.start)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                        {formatTime(session.start)}{session.stop ? ` – ${formatTime(session.stop)}` : ''}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-900 dark:text-gray-100 tabular-nums">{formatDurationHours(session.durationMs)}h</td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{getCustomerName(session.projectId)}</td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{getProjectName(session.projectId)}</td>
+                      <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{session.note}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+// src/pages/TimesheetPage.tsx
+
+import { useState } from 'react';
+import { WeekGrid } from '../components/WeekGrid';
+import { SessionsCalendar } from '../components/SessionsCalendar';
+
+type TimesheetView = 'grid' | 'calendar';
+
+const VIEW_LABELS: Record<TimesheetView, string> = {
+  grid: 'Grid',
+  calendar: 'Calendar',
+};
+
+export function TimesheetPage() {
+  const [view, setView] = useState<TimesheetView>('grid');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Timesheet</h2>
+        <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+          {(Object.keys(VIEW_LABELS) as TimesheetView[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={`px-3 py-1 text-sm ${view === option ? 'bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+            >
+              {VIEW_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {view === 'grid' ? <WeekGrid /> : <SessionsCalendar />}
+    </div>
+  );
+}
@@ -1,17 +1,28 @@
 import { db as firestoreDB } from '../firebase';
 import {
   collection,
+  collectionGroup,
   doc,
   setDoc,
   getDoc,
+  getDocs,
+  deleteDoc,
   updateDoc,
+  deleteField,
+  arrayUnion,
+  arrayRemove,
   onSnapshot,
+  query,
+  where,
+  writeBatch,
   Unsubscribe,
   serverTimestamp,
   Timestamp,
-  FieldValue
+  FieldValue,
+  Firestore
 } from 'firebase/firestore';
-import { Organization, CorporateInfo } from '../db/dexie';
+import { Organization, CorporateInfo, OrganizationInvitation, OrganizationMember, OrganizationRole, Session, Timesheet, TimesheetStatus } from '../db/dexie';
+import { getUserOrganizationIds as getOrganizationIds, normalizeEmail } from '../utils/members';
 
 export interface FirestoreOrganization {
   corporateInfo: CorporateInfo;
@@ -20,19 +31,65 @@ export interface FirestoreOrganization {
   updatedAt: Timestamp | FieldValue | number;
   members?: {
     [userId: string]: {
-      role: 'owner' | 'admin' | 'user';
+      role: OrganizationRole;
       addedAt: Timestamp | FieldValue | number;
       email?: string;
     };
   };
 }
 
+export interface FirestoreInvitation extends Omit<OrganizationInvitation, 'createdAt'> {
+  createdAt: Timestamp | FieldValue | number;
+}
+
+function toMillis(value: Timestamp | FieldValue | number | undefined): number {
+  if (value instanceof Timestamp) return value.toMillis();
+  return typeof value === 'number' ? value : Date.now();
+}
+
+function toOrganization(orgId: string, data: FirestoreOrganization): Organization {
+  const members: Record<string, OrganizationMember> = {};
+  Object.entries(data.members || {}).forEach(([userId, member]) => {
+    members[userId] = { role: member.role, addedAt: toMillis(member.addedAt), ...(member.email ? { email: member.email } : {}) };
+  });
+
+  return {
+    firestoreId: orgId,
+    corporateInfo: data.corporateInfo,
+    createdBy: data.createdBy,
+    createdAt: toMillis(data.createdAt),
+    updatedAt: toMillis(data.updatedAt),
+    members,
+  };
+}
+
+function toInvitation(data: FirestoreInvitation): OrganizationInvitation {
+  return { ...data, createdAt: toMillis(data.createdAt) };
+}
+
+function getFirestore() {
+  if (!firestoreDB) {
+    throw new Error('Firestore is not initialized. Please check your Firebase configuration.');
+  }
+  return firestoreDB;
+}
+
+// Firestore errors carry a message meant for developers; wrap it for the UI
+function toUserError(action: string, error: unknown): Error {
+  console.error(`Error trying to ${action}:`, error);
+  if (error instanceof Error) {
+    return new Error(`Failed to ${action}: ${error.message}`);
+  }
+  return new Error(`Failed to ${action}. Please check your internet connection and try again.`);
+}
+
 /**
  * Create a new organization in Firestore
  */
 export async function createOrganization(
   userId: string,
-  corporateInfo: CorporateInfo
+  corporateInfo: CorporateInfo,
+  email?: string
 ): Promise<string> {
   if (!firestoreDB) {
     throw new Error('Firestore is not initialized. Please check your Firebase configuration.');
@@ -51,15 +108,17 @@ export async function createOrganization(
         [userId]: {
           role: 'owner',
           addedAt: serverTimestamp(),
+          ...(email ? { email: normalizeEmail(email) } : {}),
         }
       }
     };
 
     await setDoc(orgRef, orgData);
 
-    // Update user document with organizationId
+    // Add the organization to the user document
     const userRef = doc(firestoreDB, 'users', userId);
     await setDoc(userRef, {
+      organizations: arrayUnion(orgId),
       organizationId: orgId,
       role: 'owner',
       updatedAt: serverTimestamp()
@@ -90,15 +149,7 @@ export async function getOrganization(orgId: string): Promise<Organization | nul
     return null;
   }
 
-  const data = orgSnap.data() as FirestoreOrganization;
-
-  return {
-    firestoreId: orgSnap.id,
-    corporateInfo: data.corporateInfo,
-    createdBy: data.createdBy,
-    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toMillis() : (typeof data.createdAt === 'number' ? data.createdAt : Date.now()),
-    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toMillis() : (typeof data.updatedAt === 'number' ? data.updatedAt : Date.now()),
-  };
+  return toOrganization(orgSnap.id, orgSnap.data() as FirestoreOrganization);
 }
 
 /**
@@ -129,9 +180,9 @@ export async function updateOrganization(
 }
 
 /**
- * Get user's organization ID from Firestore
+ * Get the IDs of every organization the user belongs to from Firestore
  */
-export async function getUserOrganizationId(userId: string): Promise<string | null> {
+export async function getUserOrganizationIds(userId: string): Promise<string[]> {
   if (!firestoreDB) {
     throw new Error('Firestore is not initialized');
   }
@@ -140,11 +191,10 @@ export async function getUserOrganizationId(userId: string): Promise<string | nu
   const userSnap = await getDoc(userRef);
 
   if (!userSnap.exists()) {
-    return null;
+    return [];
   }
 
-  const data = userSnap.data();
-  return data.organizationId || null;
+  return getOrganizationIds(userSnap.data());
 }
 
 /**
@@ -165,23 +215,270 @@ export function subscribeToOrganization(
     orgRef,
     (snapshot) => {
       if (snapshot.exists()) {
-        const data = snapshot.data() as FirestoreOrganization;
-        const org: Organization = {
-          firestoreId: snapshot.id,
-          corporateInfo: data.corporateInfo,
-          createdBy: data.createdBy,
-          createdAt: data.createdAt instanceof Timestamp
-            ? data.createdAt.toMillis()
-            : (typeof data.createdAt === 'number' ? data.createdAt : Date.now()),
-          updatedAt: data.updatedAt instanceof Timestamp
-            ? data.updatedAt.toMillis()
-            : (typeof data.updatedAt === 'number' ? data.updatedAt : Date.now()),
-        };
-        onUpdate(org);
+        onUpdate(toOrganization(snapshot.id, snapshot.data() as FirestoreOrganization));
       }
     },
     (error) => {
       onError(error);
     }
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Invite someone by email. Re-inviting the same address replaces the old invitation.
+ */
+export async function inviteMember(
+  orgId: string,
+  orgName: string,
+  email: string,
+  role: OrganizationRole,
+  invitedBy: { uid: string; email?: string | null }
+): Promise<void> {
+  const firestore = getFirestore();
+  const address = normalizeEmail(email);
+  const invitation: FirestoreInvitation = {
+    orgId,
+    orgName,
+    email: address,
+    role,
+    invitedBy: invitedBy.uid,
+    ...(invitedBy.email ? { invitedByEmail: invitedBy.email } : {}),
+    createdAt: serverTimestamp(),
+  };
+
+  try {
+    await setDoc(doc(firestore, 'organizations', orgId, 'invitations', address), invitation);
+  } catch (error) {
+    throw toUserError('send invitation', error);
+  }
+}
+
+/**
+ * Withdraw a pending invitation, or decline one sent to you
+ */
+export async function deleteInvitation(orgId: string, email: string): Promise<void> {
+  const firestore = getFirestore();
+  try {
+    await deleteDoc(doc(firestore, 'organizations', orgId, 'invitations', normalizeEmail(email)));
+  } catch (error) {
+    throw toUserError('remove invitation', error);
+  }
+}
+
+/**
+ * Pending invitations of an organization, for its owners and admins
+ */
+export function subscribeToInvitations(
+  orgId: string,
+  onUpdate: (invitations: OrganizationInvitation[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  const firestore = getFirestore();
+  return onSnapshot(
+    collection(firestore, 'organizations', orgId, 'invitations'),
+    (snapshot) => onUpdate(snapshot.docs.map(d => toInvitation(d.data() as FirestoreInvitation))),
+    (error) => onError(error)
+  );
+}
+
+/**
+ * Invitations sent to an email address, across all organizations
+ */
+export async function getInvitationsForEmail(email: string): Promise<OrganizationInvitation[]> {
+  const firestore = getFirestore();
+  const snapshot = await getDocs(query(collectionGroup(firestore, 'invitations'), where('email', '==', normalizeEmail(email))));
+  return snapshot.docs.map(d => toInvitation(d.data() as FirestoreInvitation));
+}
+
+/**
+ * Join the organization with the invited role. Membership, the user's organization and
+ * removing the invitation are written together; the rules check the invitation exists.
+ */
+export async function acceptInvitation(invitation: OrganizationInvitation, userId: string): Promise<void> {
+  const firestore = getFirestore();
+  const batch = writeBatch(firestore);
+
+  batch.update(doc(firestore, 'organizations', invitation.orgId), {
+    [`members.${userId}`]: { role: invitation.role, addedAt: serverTimestamp(), email: invitation.email },
+    updatedAt: serverTimestamp(),
+  });
+  batch.set(doc(firestore, 'users', userId), {
+    organizations: arrayUnion(invitation.orgId),
+    organizationId: invitation.orgId,
+    role: invitation.role,
+    updatedAt: serverTimestamp(),
+  }, { merge: true });
+  batch.delete(doc(firestore, 'organizations', invitation.orgId, 'invitations', invitation.email));
+
+  try {
+    await batch.commit();
+  } catch (error) {
+    throw toUserError('accept invitation', error);
+  }
+}
+
+/**
+ * Change another member's role
+ */
+export async function updateMemberRole(orgId: string, userId: string, role: OrganizationRole): Promise<void> {
+  const firestore = getFirestore();
+  try {
+    await updateDoc(doc(firestore, 'organizations', orgId), {
+      [`members.${userId}.role`]: role,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    throw toUserError('change role', error);
+  }
+}
+
+/**
+ * Remove a member. Their own user document still points at the organization until
+ * their app notices it can no longer read it.
+ */
+export async function removeMember(orgId: string, userId: string): Promise<void> {
+  const firestore = getFirestore();
+  try {
+    await updateDoc(doc(firestore, 'organizations', orgId), {
+      [`members.${userId}`]: deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    throw toUserError('remove member', error);
+  }
+}
+
+// Fields that drop an organization from the user's document. organizationId moves on
+// to one of their other organizations, if any.
+async function withoutOrganization(firestore: Firestore, userId: string, orgId: string) {
+  const data = (await getDoc(doc(firestore, 'users', userId))).data();
+  const fields: Record<string, FieldValue | string> = {
+    organizations: arrayRemove(orgId),
+    updatedAt: serverTimestamp(),
+  };
+  if (data?.organizationId === orgId) {
+    fields.organizationId = getOrganizationIds(data).find(id => id !== orgId) ?? deleteField();
+    fields.role = deleteField();
+  }
+  return fields;
+}
+
+/**
+ * Leave an organization and clear it from the user's document
+ */
+export async function leaveOrganization(orgId: string, userId: string): Promise<void> {
+  const firestore = getFirestore();
+  const batch = writeBatch(firestore);
+
+  try {
+    batch.update(doc(firestore, 'organizations', orgId), {
+      [`members.${userId}`]: deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+    batch.set(doc(firestore, 'users', userId), await withoutOrganization(firestore, userId, orgId), { merge: true });
+    await batch.commit();
+  } catch (error) {
+    throw toUserError('leave organization', error);
+  }
+}
+
+/**
+ * Clear a stale organization from the user's own document, e.g. after being removed
+ */
+export async function clearUserOrganization(userId: string, orgId: string): Promise<void> {
+  const firestore = getFirestore();
+  await setDoc(doc(firestore, 'users', userId), await withoutOrganization(firestore, userId, orgId), { merge: true });
+}
+
+/**
+ * A member's sessions logged in the organization that started between two times. Owners
+ * and admins may read them; deleted sessions are left out.
+ */
+export async function getMemberSessions(orgId: string, userId: string, start: number, end: number): Promise<Session[]> {
+  const firestore = getFirestore();
+  try {
+    const snapshot = await getDocs(query(
+      collection(firestore, 'users', userId, 'sessions'),
+      where('organizationId', '==', orgId),
+      where('start', '>=', start),
+      where('start', '<=', end)
+    ));
+    return snapshot.docs
+      .map(sessionDoc => ({ ...sessionDoc.data(), id: sessionDoc.id }) as Session & { deletedAt?: number })
+      .filter(session => !session.deletedAt);
+  } catch (error) {
+    throw toUserError('load team sessions', error);
+  }
+}
+
+// Weekly timesheets of an organization's members
+function timesheetsOf(orgId: string) {
+  return collection(getFirestore(), 'organizations', orgId, 'timesheets');
+}
+
+/**
+ * Submit a week for approval, or recall it back to a draft. Replaces the whole doc, which
+ * clears the comment and review of an earlier rejection.
+ */
+export async function saveTimesheet(timesheet: Timesheet): Promise<void> {
+  try {
+    await setDoc(doc(timesheetsOf(timesheet.orgId), timesheet.id), timesheet);
+  } catch (error) {
+    throw toUserError(timesheet.status === 'submitted' ? 'submit timesheet' : 'update timesheet', error);
+  }
+}
+
+/**
+ * Approve or reject a submitted timesheet. Rejections carry a comment for the member.
+ */
+export async function reviewTimesheet(
+  orgId: string,
+  timesheetId: string,
+  status: Extract<TimesheetStatus, 'approved' | 'rejected'>,
+  reviewer: { uid: string; email: string | null },
+  comment?: string
+): Promise<void> {
+  try {
+    await updateDoc(doc(timesheetsOf(orgId), timesheetId), {
+      status,
+      comment: status === 'rejected' ? comment?.trim() || '' : '',
+      reviewedBy: reviewer.uid,
+      reviewedByEmail: reviewer.email || '',
+      reviewedAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  } catch (error) {
+    throw toUserError(status === 'approved' ? 'approve timesheet' : 'reject timesheet', error);
+  }
+}
+
+/**
+ * The signed-in member's own timesheets in an organization
+ */
+export function subscribeToMyTimesheets(
+  orgId: string,
+  userId: string,
+  onUpdate: (timesheets: Timesheet[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(timesheetsOf(orgId), where('userId', '==', userId)),
+    (snapshot) => onUpdate(snapshot.docs.map(d => d.data() as Timesheet)),
+    (error) => onError(error)
+  );
+}
+
+/**
+ * Timesheets waiting for approval, for owners and admins
+ */
+export function subscribeToSubmittedTimesheets(
+  orgId: string,
+  onUpdate: (timesheets: Timesheet[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(timesheetsOf(orgId), where('status', '==', 'submitted')),
+    (snapshot) => onUpdate(snapshot.docs.map(d => d.data() as Timesheet)),
+    (error) => onError(error)
+  );
+}
@@ -0,0 +1,887 @@
+import { Table } from 'dexie';
+import { getAuth } from 'firebase/auth';
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  runTransaction,
+  setDoc,
+  where,
+  writeBatch,
+  CollectionReference,
+  DocumentChange,
+  DocumentData,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db, type OrganizationRole, type OutboxEntry, type SyncConflict } from '../db/dexie';
+import { db as firestoreDB } from '../firebase';
+import { getConflictFields, type ConflictField } from '../utils/conflicts';
+import { getRetryDelay, getTombstoneCutoff, isPermanentSyncError } from '../utils/outbox';
+import { clearRestrictedFields } from '../utils/permissions';
+import { useAuthStore } from '../store/auth';
+import { createId } from '../utils/ids';
+
+/**
+ * Every synced record is keyed by an id generated on the device that created it,
+ * which is also the id of its Firestore document.
+ *
+ * `revision` counts edits and is bumped on every local write; `syncedRevision` is the
+ * revision of the Firestore version this copy is based on and never leaves the device.
+ * A record with `revision > syncedRevision` has local edits that aren't uploaded yet.
+ */
+export interface SyncedRecord {
+  id: string;
+  updatedAt?: number;
+  revision?: number;
+  syncedRevision?: number;
+  // Only on Firestore docs: when the record was deleted. Local copies are removed instead.
+  deletedAt?: number;
+}
+
+export interface SyncDefinition<T extends SyncedRecord> {
+  // Firestore subcollection under users/{uid}
+  collection: string;
+  // Kept under organizations/{orgId} instead while the user is in one, for all its members
+  shared?: boolean;
+  table: Table<T>;
+  // Fields that only make sense on this device and are never uploaded
+  localOnlyFields?: string[];
+  // Fix-ups for incoming docs, e.g. defaults for fields older clients didn't write
+  fromFirestore?: (record: T) => T;
+  // Called after remote changes were applied, typically to reload the store
+  onChange: () => unknown;
+  onError?: (error: Error) => void;
+}
+
+export interface SyncHandle<T extends SyncedRecord> {
+  collection: string;
+  // Listen for remote changes; without a signed-in user this just calls onChange
+  start: () => void;
+  stop: () => void;
+  // Refresh the store from the local table, e.g. after it was cleared
+  reload: () => unknown;
+  // Queue every record that was never uploaded or has local edits the outbox lost track of
+  reconcile: () => Promise<void>;
+  // Queue an upload of a new or changed record and flush the outbox. Does nothing for guests.
+  push: (id: string) => Promise<void>;
+  // Queue a tombstone for the Firestore doc of a record that was already deleted locally
+  remove: (record: T) => Promise<void>;
+  // Queue uploads of changed records and tombstones of deleted ones to be written all
+  // at once, e.g. for a bulk edit, and flush the outbox. Does nothing for guests.
+  pushBatch: (ids: string[], removed?: T[]) => Promise<void>;
+  // Perform one outbox write; throws when it failed
+  write: (entry: OutboxEntry) => Promise<void>;
+  // Perform the outbox writes of one batch in a single commit; throws when it failed
+  writeBatch: (entries: OutboxEntry[]) => Promise<void>;
+  // Current local version of a conflicting record and the fields that differ
+  getConflictDetails: (conflict: SyncConflict) => Promise<ConflictDetails | null>;
+  // Replace the local record with the chosen values and upload them over their version
+  resolveConflict: (conflict: SyncConflict, values: Record<string, unknown>) => Promise<void>;
+}
+
+export interface ConflictDetails {
+  conflict: SyncConflict;
+  mine: Record<string, unknown>;
+  fields: ConflictField[];
+}
+
+const registry = new Map<string, SyncHandle<SyncedRecord>>();
+const sharedCollections = new Set<string>();
+const conflictListeners = new Set<() => void>();
+const outboxListeners = new Set<() => void>();
+
+const notifyConflictsChanged = () => conflictListeners.forEach(listener => listener());
+const notifyOutboxChanged = () => outboxListeners.forEach(listener => listener());
+
+/**
+ * Thrown for writes that can't succeed no matter how often they are retried.
+ */
+class PermanentSyncError extends Error {
+  code = 'failed-precondition';
+}
+
+const findOutboxEntries = (collection: string, recordId: string) =>
+  db.outbox.where('[collection+recordId]').equals([collection, recordId]).toArray();
+
+// A pending upload already covers later edits, since it sends the record as it is then
+const enqueueSet = async (collection: string, recordId: string, batchId?: string) => {
+  const existing = await findOutboxEntries(collection, recordId);
+  if (existing.some(entry => entry.operation === 'set')) return;
+  const now = Date.now();
+  await db.outbox.add({
+    collection, recordId, operation: 'set', createdAt: now, attempts: 0, nextAttemptAt: now,
+    ...(batchId ? { batchId } : {}),
+  });
+  notifyOutboxChanged();
+};
+
+// Pending uploads of a deleted record are dropped; a doc that was never uploaded, and
+// isn't being uploaded right now, needs no delete
+const enqueueDelete = async (collection: string, recordId: string, uploaded: boolean, batchId?: string) => {
+  const existing = await findOutboxEntries(collection, recordId);
+  await db.outbox.bulkDelete(existing.map(entry => entry.id!));
+  if (uploaded || existing.length > 0) {
+    const now = Date.now();
+    await db.outbox.add({
+      collection, recordId, operation: 'delete', createdAt: now, attempts: 0, nextAttemptAt: now,
+      ...(batchId ? { batchId } : {}),
+    });
+  }
+  notifyOutboxChanged();
+};
+
+// Firestore commits at most 500 writes at once
+const MAX_BATCH_WRITES = 500;
+
+const getUserCollection = (name: string): CollectionReference | null => {
+  const user = getAuth().currentUser;
+  if (!user || !firestoreDB) return null;
+  return collection(firestoreDB, 'users', user.uid, name);
+};
+
+// The organization the shared collections sync with, or null for the user's own data.
+// Only moves on once the data got there; until known, they follow the active organization.
+let sharedDataOrganizationId: string | null | undefined;
+
+// Where a collection lives for the signed-in user right now
+const getCollection = (name: string): CollectionReference | null => {
+  const orgId = sharedDataOrganizationId === undefined
+    ? useAuthStore.getState().activeOrganization
+    : sharedDataOrganizationId;
+  if (sharedCollections.has(name) && orgId && getAuth().currentUser && firestoreDB) {
+    return collection(firestoreDB, 'organizations', orgId, name);
+  }
+  return getUserCollection(name);
+};
+
+/**
+ * Register a Dexie table for two-way sync with users/{uid}/{collection}, or with
+ * organizations/{orgId}/{collection} for shared collections of a user in an organization.
+ *
+ * Local writes go to Dexie first and are queued in the outbox, which uploads them
+ * in order once online and keeps them across reloads until they succeed. Incoming changes are
+ * applied in one Dexie transaction per snapshot, and the snapshot echo of our own pending
+ * writes is ignored so it can't overwrite newer local edits.
+ */
+export function defineSync<T extends SyncedRecord>(definition: SyncDefinition<T>): SyncHandle<T> {
+  const { table, collection: name, localOnlyFields = [] } = definition;
+  const tables = [table, db.conflicts, db.outbox, db.tombstones];
+  let unsubscribe: Unsubscribe | null = null;
+
+  // Every local write is an edit; writes that only carry sync bookkeeping are not
+  table.hook('creating', (_primKey, record) => {
+    if (record.syncedRevision === undefined) {
+      record.revision = (record.revision ?? 0) + 1;
+      record.updatedAt = Date.now();
+    }
+  });
+  table.hook('updating', (modifications, _primKey, record) => {
+    const fields = Object.keys(modifications);
+    if (fields.includes('syncedRevision')) return undefined;
+    return { revision: (record.revision ?? 0) + 1, updatedAt: Date.now() };
+  });
+
+  const findTombstone = (recordId: string) =>
+    db.tombstones.where('[collection+recordId]').equals([name, recordId]).first();
+
+  const addTombstone = async (recordId: string, deletedAt: number) => {
+    if (!(await findTombstone(recordId))) {
+      await db.tombstones.add({ collection: name, recordId, deletedAt });
+    }
+  };
+
+  // A deletion from another device wins over local edits, including unsynced ones
+  const applyDeletion = async (recordId: string, deletedAt: number) => {
+    await table.delete(recordId);
+    await db.outbox.where('[collection+recordId]').equals([name, recordId]).delete();
+    await db.conflicts.where('[collection+recordId]').equals([name, recordId]).delete();
+    await addTombstone(recordId, deletedAt);
+  };
+
+  const findConflict = (recordId: string) =>
+    db.conflicts.where('[collection+recordId]').equals([name, recordId]).first();
+
+  const getDifferences = (mine: object, theirs: object) =>
+    getConflictFields(mine as Record<string, unknown>, theirs as Record<string, unknown>, localOnlyFields);
+
+  // Firestore data -> local record
+  const toLocal = (data: DocumentData, id: string): T => {
+    const record: Record<string, unknown> = { ...data, id };
+    // Docs written before ids were shared kept customer references in customerFirestoreId
+    if (typeof record.customerFirestoreId === 'string') {
+      record.customerId = record.customerId ?? record.customerFirestoreId;
+      delete record.customerFirestoreId;
+    }
+    return definition.fromFirestore ? definition.fromFirestore(record as T) : record as T;
+  };
+
+  // Local record -> Firestore data
+  const toRemote = (record: T): DocumentData => {
+    const data: Record<string, unknown> = { ...record } as Record<string, unknown>;
+    delete data.id;
+    delete data.syncedRevision;
+    localOnlyFields.forEach(field => delete data[field]);
+    // Firestore rejects undefined values
+    return JSON.parse(JSON.stringify(data));
+  };
+
+  // Keep their latest version for the user to resolve; returns true for a new conflict
+  const queueConflict = async (local: T, remote: T): Promise<boolean> => {
+    const existing = await findConflict(local.id);
+    const update = { remote: remote as Record<string, unknown>, remoteRevision: remote.revision ?? 0 };
+    if (existing?.id !== undefined) {
+      await db.conflicts.update(existing.id, update);
+      return false;
+    }
+    console.warn(`Sync: Conflict on ${name} record ${local.id}, edited here and on another device`);
+    await db.conflicts.add({ ...update, collection: name, recordId: local.id, detectedAt: Date.now() });
+    return true;
+  };
+
+  // Returns true when the change raised a new conflict
+  const applyChange = async (change: DocumentChange): Promise<boolean> => {
+    const id = change.doc.id;
+    const existing = await table.get(id);
+
+    if (change.type === 'removed') {
+      if (existing) await table.delete(id);
+      return false;
+    }
+
+    const data = change.doc.data();
+    if (data.deletedAt) {
+      await applyDeletion(id, data.deletedAt);
+      return false;
+    }
+    // Deleted here, and the tombstone hasn't reached the server yet
+    if (await findTombstone(id)) return false;
+
+    // Our own write coming back before the server confirmed it
+    if (existing && change.doc.metadata.hasPendingWrites) return false;
+
+    const record = toLocal(data, id);
+    const remoteRevision = record.revision ?? 0;
+
+    if (existing) {
+      const baseRevision = existing.syncedRevision ?? 0;
+      if ((existing.revision ?? 0) > baseRevision) {
+        // Only we edited it since the last sync, so our pending upload wins
+        if (remoteRevision <= baseRevision) return false;
+        // Both sides edited it; identical edits need no resolution
+        if (getDifferences(existing, record).length > 0) {
+          return queueConflict(existing, record);
+        }
+      }
+      await table.update(id, { ...record, syncedRevision: remoteRevision });
+      return false;
+    }
+
+    try {
+      await table.add({ ...record, syncedRevision: remoteRevision });
+    } catch (error) {
+      // e.g. a unique index clash, like a tag with the same key created on two devices
+      console.warn(`Sync: Skipped ${name} doc ${id}:`, error);
+    }
+    return false;
+  };
+
+  const handle: SyncHandle<T> = {
+    collection: name,
+
+    start: () => {
+      const col = getCollection(name);
+      if (!col) {
+        definition.onChange();
+        return;
+      }
+      if (unsubscribe) return;
+
+      console.log(`Starting Firestore ${name} sync...`);
+      unsubscribe = onSnapshot(col, async (snapshot) => {
+        const changes = snapshot.docChanges();
+        if (changes.length === 0) return;
+
+        let newConflicts = 0;
+        await db.transaction('rw', tables, async () => {
+          for (const change of changes) {
+            if (await applyChange(change)) newConflicts++;
+          }
+        });
+        await definition.onChange();
+        if (newConflicts > 0) notifyConflictsChanged();
+      }, (error) => {
+        console.error(`Error with Firestore ${name} listener:`, error);
+        unsubscribe = null;
+        definition.onError?.(error);
+      });
+    },
+
+    stop: () => {
+      if (unsubscribe) {
+        console.log(`Stopping Firestore ${name} sync.`);
+        unsubscribe();
+        unsubscribe = null;
+      }
+    },
+
+    reload: () => definition.onChange(),
+
+    reconcile: async () => {
+      const col = getCollection(name);
+      if (!col) return;
+
+      const unsynced = await table
+        .filter(r => r.syncedRevision === undefined || (r.revision ?? 0) > r.syncedRevision)
+        .toArray();
+      if (unsynced.length === 0) return;
+      console.log(`Reconciling ${unsynced.length} ${name}...`);
+
+      for (const record of unsynced) {
+        try {
+          await handle.push(record.id);
+        } catch (error) {
+          console.error(`Failed to reconcile ${name} record ${record.id}:`, error);
+        }
+      }
+      await definition.onChange();
+    },
+
+    push: async (id) => {
+      if (!getCollection(name)) return;
+      await enqueueSet(name, id);
+      await flushOutbox();
+    },
+
+    remove: async (record) => {
+      if (!getCollection(name)) return;
+      const uploaded = record.syncedRevision !== undefined;
+      if (uploaded) {
+        await addTombstone(record.id, Date.now());
+      }
+      await enqueueDelete(name, record.id, uploaded);
+      await flushOutbox();
+    },
+
+    pushBatch: async (ids, removed = []) => {
+      if (!getCollection(name)) return;
+      const writes: Array<{ id: string } | { record: T }> = [
+        ...ids.map(id => ({ id })),
+        ...removed.map(record => ({ record })),
+      ];
+      for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+        const batchId = createId();
+        for (const write of writes.slice(i, i + MAX_BATCH_WRITES)) {
+          if ('id' in write) {
+            await enqueueSet(name, write.id, batchId);
+            continue;
+          }
+          const uploaded = write.record.syncedRevision !== undefined;
+          if (uploaded) {
+            await addTombstone(write.record.id, Date.now());
+          }
+          await enqueueDelete(name, write.record.id, uploaded, batchId);
+        }
+      }
+      await flushOutbox();
+    },
+
+    writeBatch: async (entries) => {
+      const col = getCollection(name);
+      if (!col) throw new Error('Not signed in');
+
+      // The same checks as single writes, with every read done before the writes
+      const uploads: Array<{ entry: OutboxEntry; record: T }> = [];
+      for (const entry of entries) {
+        if (entry.operation !== 'set') continue;
+        const record = await table.get(entry.recordId);
+        if (record && !(await findConflict(entry.recordId))) uploads.push({ entry, record });
+      }
+      const remoteDeletions = await runTransaction(firestoreDB!, async (transaction) => {
+        const deletions: Array<{ id: string; deletedAt: number }> = [];
+        for (const { record } of uploads) {
+          if (record.syncedRevision === undefined) continue;
+          const current = await transaction.get(doc(col, record.id));
+          const deletedAt = current.data()?.deletedAt as number | undefined;
+          if (deletedAt) deletions.push({ id: record.id, deletedAt });
+        }
+        for (const entry of entries) {
+          if (entry.operation === 'delete') {
+            transaction.set(doc(col, entry.recordId), { deletedAt: entry.createdAt }, { merge: true });
+          }
+        }
+        for (const { record } of uploads) {
+          if (!deletions.some(deletion => deletion.id === record.id)) {
+            transaction.set(doc(col, record.id), toRemote(record));
+          }
+        }
+        return deletions;
+      });
+
+      for (const { record } of uploads) {
+        const deletion = remoteDeletions.find(d => d.id === record.id);
+        if (deletion) {
+          await applyDeletion(record.id, deletion.deletedAt);
+        } else {
+          await table.update(record.id, { syncedRevision: record.revision ?? 0 } as Partial<T>);
+        }
+      }
+      if (remoteDeletions.length > 0) {
+        await definition.onChange();
+      }
+    },
+
+    write: async (entry) => {
+      const col = getCollection(name);
+      if (!col) throw new Error('Not signed in');
+
+      // Soft delete, so devices that are offline now still learn about it later
+      if (entry.operation === 'delete') {
+        await setDoc(doc(col, entry.recordId), { deletedAt: entry.createdAt }, { merge: true });
+        return;
+      }
+
+      const record = await table.get(entry.recordId);
+      // Deleted since it was queued
+      if (!record) return;
+      // Uploading now would overwrite their version before the user picked one;
+      // resolving the conflict queues the upload again
+      if (await findConflict(entry.recordId)) return;
+      const data = toRemote(record);
+      const id = entry.recordId;
+      const ref = doc(col, id);
+
+      if (record.syncedRevision !== undefined) {
+        // Don't overwrite a tombstone written by a device we haven't heard from yet
+        const remoteDeletedAt = await runTransaction(firestoreDB!, async (transaction) => {
+          const current = await transaction.get(ref);
+          const deletedAt = current.data()?.deletedAt as number | undefined;
+          if (!deletedAt) transaction.set(ref, data);
+          return deletedAt;
+        });
+        if (remoteDeletedAt) {
+          await applyDeletion(id, remoteDeletedAt);
+          await definition.onChange();
+          return;
+        }
+      } else {
+        await setDoc(ref, data);
+      }
+      await table.update(id, { syncedRevision: record.revision ?? 0 } as Partial<T>);
+    },
+
+    getConflictDetails: async (conflict) => {
+      const mine = await table.get(conflict.recordId);
+      if (!mine) return null;
+      return { conflict, mine: mine as Record<string, unknown>, fields: getDifferences(mine, conflict.remote) };
+    },
+
+    resolveConflict: async (conflict, values) => {
+      const mine = await table.get(conflict.recordId);
+      const keepsTheirs = !!mine && getDifferences({ ...mine, ...values }, conflict.remote).length === 0;
+
+      await db.transaction('rw', table, db.conflicts, async () => {
+        if (mine) {
+          const resolved: Record<string, unknown> = { ...values };
+          ['id', 'syncedRevision'].forEach(field => delete resolved[field]);
+          // Based on their version now; any change on top of it is a new revision to upload
+          resolved.syncedRevision = conflict.remoteRevision;
+          resolved.revision = keepsTheirs
+            ? conflict.remoteRevision
+            : Math.max(mine.revision ?? 0, conflict.remoteRevision) + 1;
+          resolved.updatedAt = Date.now();
+          await table.update(conflict.recordId, resolved as Partial<T>);
+        }
+        await db.conflicts.delete(conflict.id!);
+      });
+
+      if (mine && !keepsTheirs) {
+        await handle.push(conflict.recordId);
+      }
+      await definition.onChange();
+      notifyConflictsChanged();
+    },
+  };
+
+  registry.set(name, handle as unknown as SyncHandle<SyncedRecord>);
+  if (definition.shared) sharedCollections.add(name);
+  return handle;
+}
+
+let flushing: Promise<void> | null = null;
+let completedWrites = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleRetry = (at: number) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, Math.max(at - Date.now(), 0));
+};
+
+const processOutbox = async () => {
+  for (;;) {
+    if (!getAuth().currentUser || !firestoreDB || !navigator.onLine) return;
+
+    const entry = await db.outbox.orderBy('id').filter(e => !e.failed).first();
+    if (!entry) return;
+    // Entries run in order, so a write waiting for its retry holds back the rest
+    if (entry.nextAttemptAt > Date.now()) {
+      scheduleRetry(entry.nextAttemptAt);
+      return;
+    }
+
+    // A batch goes out whole, so its entries succeed, retry and fail together
+    const entries = entry.batchId
+      ? await db.outbox.orderBy('id').filter(e => e.batchId === entry.batchId && !e.failed).toArray()
+      : [entry];
+    const entryIds = entries.map(e => e.id!);
+    const description = entry.batchId
+      ? `batch of ${entries.length} ${entry.collection} writes`
+      : `${entry.operation} of ${entry.collection} record ${entry.recordId}`;
+
+    try {
+      const handle = registry.get(entry.collection);
+      if (!handle) throw new PermanentSyncError(`No sync registered for ${entry.collection}`);
+      if (entry.batchId) {
+        await handle.writeBatch(entries);
+      } else {
+        await handle.write(entry);
+      }
+      await db.outbox.bulkDelete(entryIds);
+      completedWrites += entries.length;
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const code = (error as { code?: string }).code;
+      const lastError = (error as Error).message;
+      if (isPermanentSyncError(code, attempts)) {
+        console.error(`Sync: Giving up on ${description}:`, error);
+        await db.outbox.where('id').anyOf(entryIds).modify({ attempts, lastError, failed: true });
+        continue;
+      }
+      const nextAttemptAt = Date.now() + getRetryDelay(attempts);
+      console.warn(`Sync: ${description} failed, retrying`, error);
+      await db.outbox.where('id').anyOf(entryIds).modify({ attempts, lastError, nextAttemptAt });
+      scheduleRetry(nextAttemptAt);
+      return;
+    } finally {
+      notifyOutboxChanged();
+    }
+  }
+};
+
+/**
+ * Replay queued writes in order. Safe to call at any time; concurrent calls share one run.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = processOutbox()
+      .catch(error => console.error("Sync: Outbox flush failed:", error))
+      .finally(() => {
+        flushing = null;
+        notifyOutboxChanged();
+      });
+    notifyOutboxChanged();
+  }
+  return flushing;
+}
+
+/**
+ * Flush without waiting for retry backoff, e.g. when the user asks to sync now.
+ */
+export async function flushOutboxNow(): Promise<void> {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  await db.outbox.filter(e => !e.failed).modify({ nextAttemptAt: Date.now() });
+  // A run already in progress may have stopped at an entry that was waiting
+  await flushing;
+  await flushOutbox();
+}
+
+export function isOutboxFlushing(): boolean {
+  return flushing !== null;
+}
+
+/**
+ * Writes that reached the server since the app started, e.g. to report what a manual sync did.
+ */
+export function getCompletedWriteCount(): number {
+  return completedWrites;
+}
+
+/**
+ * Queued writes, oldest first, including the ones that failed for good.
+ */
+export function getOutbox(): Promise<OutboxEntry[]> {
+  return db.outbox.orderBy('id').toArray();
+}
+
+/**
+ * Give failed writes another round of attempts.
+ */
+export async function retryFailedOutbox(): Promise<void> {
+  await db.outbox.filter(e => !!e.failed).modify({ failed: false, attempts: 0, nextAttemptAt: Date.now() });
+  notifyOutboxChanged();
+  await flushOutbox();
+}
+
+/**
+ * Drop a write that keeps failing. The local record stays as it is.
+ */
+export async function discardOutboxEntry(id: number): Promise<void> {
+  await db.outbox.delete(id);
+  notifyOutboxChanged();
+}
+
+/**
+ * Queue uploads of records changed outside their store, e.g. items stamped with an invoice number.
+ */
+export async function pushRecords(collection: string, ids: string[]): Promise<void> {
+  if (!registry.has(collection) || !getAuth().currentUser) return;
+  for (const id of ids) {
+    await enqueueSet(collection, id);
+  }
+  await flushOutbox();
+}
+
+/**
+ * Whether a collection is kept per organization, so its local records and pending
+ * writes are dropped when leaving or switching organizations.
+ */
+export function isSharedCollection(name: string): boolean {
+  return sharedCollections.has(name);
+}
+
+/**
+ * Subscribe to outbox entries being added, written or failing. Returns an unsubscribe function.
+ */
+export function onOutboxChanged(listener: () => void): () => void {
+  outboxListeners.add(listener);
+  return () => outboxListeners.delete(listener);
+}
+
+/**
+ * Open conflicts with the current local version of each record. Conflicts whose
+ * record was deleted locally in the meantime are dropped.
+ */
+export async function getConflicts(): Promise<ConflictDetails[]> {
+  const conflicts = await db.conflicts.orderBy('detectedAt').toArray();
+  const details: ConflictDetails[] = [];
+  for (const conflict of conflicts) {
+    const found = await registry.get(conflict.collection)?.getConflictDetails(conflict);
+    if (found) {
+      details.push(found);
+    } else {
+      await db.conflicts.delete(conflict.id!);
+    }
+  }
+  return details;
+}
+
+/**
+ * Settle a conflict with the field values the user chose, e.g. all of theirs.
+ */
+export async function resolveConflict(conflict: SyncConflict, values: Record<string, unknown>): Promise<void> {
+  const handle = registry.get(conflict.collection);
+  if (!handle) throw new Error(`No sync registered for ${conflict.collection}`);
+  await handle.resolveConflict(conflict, values);
+}
+
+/**
+ * Subscribe to conflicts being detected or resolved. Returns an unsubscribe function.
+ */
+export function onConflictsChanged(listener: () => void): () => void {
+  conflictListeners.add(listener);
+  return () => conflictListeners.delete(listener);
+}
+
+/**
+ * Queue deletions of records removed outside their store, e.g. the sessions of a deleted project.
+ */
+export async function removeRecords(collection: string, records: SyncedRecord[]): Promise<void> {
+  const handle = registry.get(collection);
+  if (!handle) return;
+  for (const record of records) {
+    await handle.remove(record);
+  }
+}
+
+/**
+ * Purge tombstones older than the retention window, locally and in Firestore.
+ */
+export async function collectGarbage(now = Date.now()): Promise<void> {
+  const cutoff = getTombstoneCutoff(now);
+  await db.tombstones.where('deletedAt').below(cutoff).delete();
+
+  if (!firestoreDB || !navigator.onLine) return;
+  for (const name of registry.keys()) {
+    const col = getCollection(name);
+    if (!col) continue;
+    try {
+      const expired = await getDocs(query(col, where('deletedAt', '<', cutoff)));
+      // Batches are limited to 500 writes
+      for (let i = 0; i < expired.docs.length; i += 500) {
+        const batch = writeBatch(firestoreDB);
+        expired.docs.slice(i, i + 500).forEach(expiredDoc => batch.delete(expiredDoc.ref));
+        await batch.commit();
+      }
+      if (!expired.empty) {
+        console.log(`Sync: Purged ${expired.size} deleted ${name}`);
+      }
+    } catch (error) {
+      console.error(`Sync: Failed to purge deleted ${name}:`, error);
+    }
+  }
+}
+
+// Version of the layout of a user's synced data, recorded on users/{uid}
+const SYNC_DATA_VERSION = 2;
+
+/**
+ * Bring the user's Firestore data up to the current layout before syncing. Doc ids
+ * already are the record ids; references to customers move from customerFirestoreId
+ * to customerId. Runs once per user; until it has, incoming docs are read either way.
+ */
+export async function migrateFirestoreData(): Promise<void> {
+  const user = getAuth().currentUser;
+  if (!user || !firestoreDB || !navigator.onLine) return;
+  const userRef = doc(firestoreDB, 'users', user.uid);
+
+  try {
+    const userDoc = await getDoc(userRef);
+    if ((userDoc.data()?.syncDataVersion ?? 1) >= SYNC_DATA_VERSION) return;
+
+    for (const name of registry.keys()) {
+      const legacy = await getDocs(query(getUserCollection(name)!, where('customerFirestoreId', '>', '')));
+      // Batches are limited to 500 writes
+      for (let i = 0; i < legacy.docs.length; i += 500) {
+        const batch = writeBatch(firestoreDB);
+        legacy.docs.slice(i, i + 500).forEach(legacyDoc => {
+          const data = legacyDoc.data();
+          batch.update(legacyDoc.ref, { customerId: data.customerId ?? data.customerFirestoreId, customerFirestoreId: deleteField() });
+        });
+        await batch.commit();
+      }
+      if (!legacy.empty) {
+        console.log(`Sync: Migrated ${legacy.size} ${name} to shared ids`);
+      }
+    }
+    await setDoc(userRef, { syncDataVersion: SYNC_DATA_VERSION }, { merge: true });
+  } catch (error) {
+    // Tried again on the next start
+    console.error('Sync: Failed to migrate Firestore data:', error);
+  }
+}
+
+// Move the user's own docs of the shared collections into the organization, keeping their ids.
+// Fields the user's role may not write there, like project budgets for plain members, stay behind.
+const moveSharedDataToOrganization = async (orgId: string) => {
+  const org = await getDoc(doc(firestoreDB!, 'organizations', orgId));
+  const role = org.data()?.members?.[getAuth().currentUser!.uid]?.role as OrganizationRole | undefined;
+
+  for (const name of sharedCollections) {
+    const own = await getDocs(getUserCollection(name)!);
+    const strippedIds: string[] = [];
+    // Batches are limited to 500 writes, two per doc
+    for (let i = 0; i < own.docs.length; i += 250) {
+      const batch = writeBatch(firestoreDB!);
+      own.docs.slice(i, i + 250).forEach(ownDoc => {
+        const data = ownDoc.data();
+        // Deleted docs only matter to the user's other devices, which switch over too
+        if (!data.deletedAt) {
+          if (clearRestrictedFields(name, role, data)) {
+            strippedIds.push(ownDoc.id);
+          }
+          batch.set(doc(firestoreDB!, 'organizations', orgId, name, ownDoc.id), data);
+        }
+        batch.delete(ownDoc.ref);
+      });
+      await batch.commit();
+    }
+    // The local copies match what the organization got
+    if (strippedIds.length > 0) {
+      await db.table(name).where('id').anyOf(strippedIds).modify((record: Record<string, unknown>) => {
+        clearRestrictedFields(name, role, record);
+      });
+    }
+    if (!own.empty) {
+      console.log(`Sync: Moved ${own.size} ${name} into organization ${orgId}`);
+    }
+  }
+};
+
+// Drop the local copies of shared collections, along with their pending writes and conflicts
+const clearSharedData = async () => {
+  const unsynced = await db.outbox.filter(entry => sharedCollections.has(entry.collection)).count();
+  if (unsynced > 0) {
+    console.warn(`Sync: Dropping ${unsynced} writes to the previous organization that never reached the server`);
+  }
+  for (const name of sharedCollections) {
+    await db.table(name).clear();
+    await db.outbox.where('collection').equals(name).delete();
+    await db.conflicts.where('collection').equals(name).delete();
+    await db.tombstones.where('collection').equals(name).delete();
+  }
+  notifyOutboxChanged();
+  notifyConflictsChanged();
+};
+
+/**
+ * Point the shared collections at the user's active organization, or back at the user's
+ * own data. Joining an organization moves the user's records into it; leaving or
+ * switching drops the old organization's records from this device. Listeners of the shared
+ * collections are restarted against the new location, or against the old one when the
+ * change failed, which then rejects; it's tried again on the next start.
+ */
+export async function syncSharedDataSource(): Promise<void> {
+  const user = getAuth().currentUser;
+  if (!user || !firestoreDB) return;
+  const orgId = useAuthStore.getState().activeOrganization;
+  const settings = await db.settings.toCollection().first();
+  if (!settings?.id) return;
+  const previous = settings.sharedDataOrganizationId ?? null;
+  sharedDataOrganizationId = previous;
+  if (previous === orgId) return;
+
+  const shared = [...sharedCollections].map(name => registry.get(name)!);
+  shared.forEach(handle => handle.stop());
+
+  try {
+    if (previous) {
+      // Upload what's pending to the old organization before dropping its records
+      await flushOutboxNow();
+      await clearSharedData();
+    } else if (orgId) {
+      await moveSharedDataToOrganization(orgId);
+    }
+    await db.settings.update(settings.id, { sharedDataOrganizationId: orgId });
+    // Pending uploads go to the new location from now on
+    sharedDataOrganizationId = orgId;
+  } catch (error) {
+    console.error('Sync: Failed to change where customers and projects sync:', error);
+    throw new Error(orgId && !previous
+      ? "Your customers and projects couldn't be moved into the organization yet. They keep syncing as before, and moving them is tried again on the next start."
+      : "Your customers and projects couldn't be switched to this organization yet. It's tried again on the next start.");
+  } finally {
+    for (const handle of shared) {
+      // The first snapshot of an empty organization brings no changes to reload on
+      await handle.reload();
+      await handle.reconcile();
+      handle.start();
+    }
+  }
+}
+
+/**
+ * Stop every registered listener, e.g. on sign-out.
+ */
+export function stopAllSync(): void {
+  registry.forEach(handle => handle.stop());
+  sharedDataOrganizationId = undefined;
+}
@@ -1,12 +1,15 @@
 import { create } from 'zustand';
 import { User } from 'firebase/auth';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { db } from '../firebase';
+import { db as localDB } from '../db/dexie';
+import { getUserOrganizationIds } from '../utils/members';
 
 // This interface defines the structure of the user document stored in Firestore.
 interface UserDocument {
-  organizations?: string[];
-  activeOrganization?: string;
+  organizations?: string[]; // Every organization the user belongs to
+  activeOrganization?: string; // Chosen before the choice was kept per device
+  organizationId?: string; // The organization the user most recently created or joined
   // other user-specific fields can go here
 }
 
@@ -17,8 +20,16 @@ interface AuthState {
   isLoading: boolean; // To track the initial auth state check
   // Asynchronously sets the user and fetches their associated data from Firestore.
   setUserAndOrg: (user: User | null) => Promise<void>;
-  // Sets the active organization in the state and updates it in Firestore.
-  setActiveOrganization: (orgId: string) => Promise<void>;
+  // Sets the active organization in the state and remembers it on this device.
+  setActiveOrganization: (orgId: string | null) => Promise<void>;
+  // Replaces the organizations the user belongs to, e.g. after joining or leaving one.
+  setOrganizations: (orgIds: string[]) => void;
+}
+
+// The organization last chosen on this device
+async function getDeviceOrganizationId(): Promise<string | null> {
+  const settings = await localDB.settings.toCollection().first();
+  return settings?.activeOrganizationId ?? null;
 }
 
 export const useAuthStore = create<AuthState>((set, get) => ({
@@ -34,10 +45,13 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         const userSnap = await getDoc(userRef);
 
         if (userSnap.exists()) {
-          const userDoc = userSnap.data() as UserDocument;
-          // Determine the active organization: use the one from the doc, or default to the first in the list.
-          const activeOrg = userDoc.activeOrganization || (userDoc.organizations?.[0] || null);
-          
+          const data = userSnap.data() as UserDocument;
+          const userDoc = { ...data, organizations: getUserOrganizationIds(data) };
+          // Determine the active organization: this device's last choice, then the one from the doc,
+          // or default to the first in the list.
+          const choices = [await getDeviceOrganizationId(), userDoc.activeOrganization];
+          const activeOrg = choices.find(id => id && userDoc.organizations.includes(id)) || userDoc.organizations[0] || null;
+
           set({
             user,
             userDoc,
@@ -61,22 +75,24 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
 
-  setActiveOrganization: async (orgId: string) => {
+  setActiveOrganization: async (orgId) => {
     const { user, userDoc } = get();
 
     // Ensure the user is logged in and the orgId is valid for them.
-    if (user && userDoc?.organizations?.includes(orgId)) {
+    if (user && (orgId === null || userDoc?.organizations?.includes(orgId))) {
       set({ activeOrganization: orgId });
-      // Persist this change to Firestore so it's remembered across sessions.
-      try {
-        const userRef = doc(db, 'users', user.uid);
-        await updateDoc(userRef, { activeOrganization: orgId });
-      } catch (error) {
-        console.error("Failed to update active organization in Firestore:", error);
-        // Optional: revert state change on UI if persistence fails
+      // Each device keeps its own choice, so two devices can work in different organizations.
+      const settings = await localDB.settings.toCollection().first();
+      if (settings?.id) {
+        await localDB.settings.update(settings.id, { activeOrganizationId: orgId });
       }
     } else {
       console.warn(`Attempted to switch to an invalid or un-authed organization: ${orgId}`);
     }
   },
+
+  setOrganizations: (orgIds) => {
+    const { userDoc } = get();
+    set({ userDoc: { ...userDoc, organizations: orgIds } });
+  },
 }));
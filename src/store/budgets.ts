@@ -0,0 +1,76 @@
+import { create } from 'zustand';
+import { getAuth } from 'firebase/auth';
+import { doc, setDoc } from 'firebase/firestore';
+import { db } from '../db/dexie';
+import { db as firestoreDb } from '../firebase';
+import { useProjectsStore } from './projects';
+import { useCustomersStore } from './customers';
+import { useUIStore } from './ui';
+import { getBudgetAlertKey, getBudgetUsage, getNewBudgetAlerts } from '../utils/budget';
+import { getProjectCustomer } from '../utils/rounding';
+
+interface BudgetsState {
+  // Check a project's budget and alert on any newly crossed threshold.
+  // runningMs is unsaved time from the running timer.
+  checkBudget: (projectId: string, runningMs?: number) => Promise<void>;
+}
+
+// Guards against overlapping checks for the same project (e.g. timer tick while a session saves)
+const checksInFlight = new Set<string>();
+
+export const useBudgetsStore = create<BudgetsState>(() => ({
+  checkBudget: async (projectId, runningMs = 0) => {
+    if (checksInFlight.has(projectId)) return;
+    checksInFlight.add(projectId);
+
+    try {
+      const { projects, updateProject } = useProjectsStore.getState();
+      const project = projects.find(p => p.id === projectId);
+      if (!project?.budget) return;
+
+      const customer = getProjectCustomer(projectId, projects, useCustomersStore.getState().customers);
+      const sessions = await db.sessions.where('projectId').equals(projectId).toArray();
+      const usage = getBudgetUsage(project, sessions, customer, runningMs);
+      if (!usage) return;
+
+      const crossed = getNewBudgetAlerts(project, usage);
+      if (crossed.length === 0) return;
+
+      // Record the alerts on the project so other devices and later reloads don't repeat them.
+      // Keys from earlier periods are dropped so the list doesn't grow forever.
+      const currentKeys = (project.budgetAlerts || []).filter(key => key.startsWith(`${usage.period.key}:`));
+      await updateProject(projectId, {
+        budgetAlerts: [...currentKeys, ...crossed.map(t => getBudgetAlertKey(usage.period, t))],
+      });
+
+      // Only the highest threshold is worth a toast if several were crossed at once
+      const threshold = Math.max(...crossed);
+      const message = threshold >= 100
+        ? `"${project.name}" is over budget`
+        : `"${project.name}" has used ${threshold}% of its budget`;
+      useUIStore.getState().showToast(message, threshold >= 100 ? 'error' : 'info');
+
+      // Writing the alert document triggers a push notification from Cloud Functions.
+      // The document id is deterministic, so a second device writing it doesn't notify twice.
+      const user = getAuth().currentUser;
+      if (user && firestoreDb) {
+        const alertId = `${project.id}_${usage.period.key}_${threshold}`;
+        try {
+          await setDoc(doc(firestoreDb, 'users', user.uid, 'budgetAlerts', alertId), {
+            projectId: project.id,
+            projectName: project.name,
+            threshold,
+            period: usage.period.key,
+            createdAt: Date.now(),
+          });
+        } catch (error) {
+          console.error('Failed to record budget alert in Firestore:', error);
+        }
+      }
+    } catch (error) {
+      console.error('Budget check failed:', error);
+    } finally {
+      checksInFlight.delete(projectId);
+    }
+  },
+}));
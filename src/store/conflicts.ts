@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { useUIStore } from './ui';
+import {
+  getConflicts,
+  onConflictsChanged,
+  resolveConflict as resolveSyncConflict,
+  type ConflictDetails,
+} from '../services/syncEngine';
+import { mergeConflict, type ConflictChoice } from '../utils/conflicts';
+
+export type { ConflictDetails };
+
+interface ConflictsState {
+  // Records edited on this device and another one, oldest first
+  conflicts: ConflictDetails[];
+  loadConflicts: () => Promise<void>;
+  // Fields missing from choices keep this device's value
+  resolveConflict: (details: ConflictDetails, choices: Record<string, ConflictChoice>) => Promise<void>;
+}
+
+export const useConflictsStore = create<ConflictsState>((set, get) => ({
+  conflicts: [],
+
+  loadConflicts: async () => {
+    const previousCount = get().conflicts.length;
+    try {
+      const conflicts = await getConflicts();
+      set({ conflicts });
+      if (conflicts.length > previousCount) {
+        useUIStore.getState().showToast('Some records were changed on another device too. Review the sync conflicts.', 'error');
+      }
+    } catch (error) {
+      console.error("Failed to load sync conflicts:", error);
+    }
+  },
+
+  resolveConflict: async (details, choices) => {
+    const values = mergeConflict(details.mine, details.conflict.remote, choices);
+    try {
+      await resolveSyncConflict(details.conflict, values);
+    } catch (error) {
+      console.error("Failed to resolve sync conflict:", error);
+      useUIStore.getState().showToast('Failed to resolve the conflict', 'error');
+    }
+  },
+}));
+
+onConflictsChanged(() => useConflictsStore.getState().loadConflicts());
@@ -1,14 +1,18 @@
 import { create } from 'zustand';
 import { db, Customer } from '../db/dexie';
-import { db as firestoreDB } from '../firebase';
-import { collection, addDoc, doc, updateDoc, deleteDoc, onSnapshot, query, Unsubscribe } from 'firebase/firestore';
 import { useAuthStore } from './auth';
-
-// Keep track of the unsubscribe function for customers
-let unsubscribeFromCustomers: Unsubscribe | null = null;
-
-// Track recently added firestoreIds to prevent duplicates from sync listener
-const recentlyAddedIds = new Set<string>();
+import { defineSync, type SyncHandle } from '../services/syncEngine';
+import { createId } from '../utils/ids';
+import { can, changesCustomerRates, clearRestrictedFields } from '../utils/permissions';
+import { useOrganizationStore } from './organization';
+
+const customersSync: SyncHandle<Customer> = defineSync<Customer>({
+  collection: 'customers',
+  shared: true,
+  table: db.customers,
+  onChange: () => useCustomersStore.getState().loadCustomers(),
+  onError: () => useCustomersStore.setState({ error: "Failed to sync customers." }),
+});
 
 interface CustomersState {
   customers: Customer[];
@@ -18,11 +22,12 @@ interface CustomersState {
   // Actions
   loadCustomers: () => Promise<void>;
   addCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Promise<void>;
-  updateCustomer: (id: number, updates: Partial<Customer>) => Promise<void>;
-  deleteCustomer: (id: number) => Promise<void>;
-  archiveCustomer: (id: number, archived: boolean) => Promise<void>;
+  updateCustomer: (id: string, updates: Partial<Customer>) => Promise<void>;
+  deleteCustomer: (id: string) => Promise<void>;
+  archiveCustomer: (id: string, archived: boolean) => Promise<void>;
   startCustomerSync: () => void;
   stopCustomerSync: () => void;
+  reconcileCustomers: () => Promise<void>;
 }
 
 export const useCustomersStore = create<CustomersState>((set, get) => ({
@@ -30,91 +35,15 @@ export const useCustomersStore = create<CustomersState>((set, get) => ({
   isLoading: false,
   error: null,
 
-  startCustomerSync: () => {
-    const user = useAuthStore.getState().user;
-    if (!user || !firestoreDB) {
-      console.log("User not logged in or firestore not available. Skipping customer sync.");
-      get().loadCustomers(); // Still load local customers
-      return;
-    }
-
-    if (unsubscribeFromCustomers) {
-      console.log("Customer sync already active.");
-      return;
-    }
-
-    console.log("Starting Firestore customer sync...");
-    const customersCollection = query(collection(firestoreDB, 'users', user.uid, 'customers'));
-
-    unsubscribeFromCustomers = onSnapshot(customersCollection, async (snapshot) => {
-      await db.transaction('rw', db.customers, async () => {
-        for (const change of snapshot.docChanges()) {
-          const fsCustomer = { ...change.doc.data(), firestoreId: change.doc.id } as Customer;
-          const existingCustomer = await db.customers.where('firestoreId').equals(fsCustomer.firestoreId!).first();
-
-          switch (change.type) {
-            case 'added':
-              // If this was recently added locally, skip adding from snapshot to avoid duplicates.
-              if (fsCustomer.firestoreId && recentlyAddedIds.has(fsCustomer.firestoreId)) {
-                // Skip adding - the timeout in addCustomer will clean up the tracking set
-                break;
-              }
-              if (!existingCustomer) {
-                await db.customers.add(fsCustomer);
-              }
-              break;
-            case 'modified':
-              if (existingCustomer?.id) {
-                await db.customers.update(existingCustomer.id, fsCustomer);
-              }
-              break;
-            case 'removed':
-              if (existingCustomer?.id) {
-                await db.customers.delete(existingCustomer.id);
-              }
-              break;
-          }
-        }
-      });
-      // After processing changes, reload all customers from Dexie to update UI
-      await get().loadCustomers();
-    }, (error) => {
-      console.error("Error with Firestore customer snapshot listener:", error);
-      set({ error: "Failed to sync customers." });
-    });
-  },
-
-  stopCustomerSync: () => {
-    if (unsubscribeFromCustomers) {
-      console.log("Stopping Firestore customer sync.");
-      unsubscribeFromCustomers();
-      unsubscribeFromCustomers = null;
-    }
-  },
+  startCustomerSync: () => customersSync.start(),
+  stopCustomerSync: () => customersSync.stop(),
+  reconcileCustomers: () => customersSync.reconcile(),
 
   loadCustomers: async () => {
     set({ isLoading: true, error: null });
     try {
-      const allCustomers = await db.customers.orderBy('createdAt').toArray();
-
-      // Remove duplicates based on firestoreId
-      // Keep the first occurrence of each firestoreId
-      const seenFirestoreIds = new Set<string>();
-      const uniqueCustomers = allCustomers.filter(customer => {
-        if (customer.firestoreId) {
-          if (seenFirestoreIds.has(customer.firestoreId)) {
-            // This is a duplicate - delete it from Dexie
-            db.customers.delete(customer.id!).catch(err =>
-              console.error('Error deleting duplicate customer:', err)
-            );
-            return false; // Don't include in the result
-          }
-          seenFirestoreIds.add(customer.firestoreId);
-        }
-        return true;
-      });
-
-      set({ customers: uniqueCustomers, isLoading: false });
+      const customers = await db.customers.orderBy('createdAt').toArray();
+      set({ customers, isLoading: false });
     } catch (error) {
       set({ error: (error as Error).message, isLoading: false });
     }
@@ -128,40 +57,12 @@ export const useCustomersStore = create<CustomersState>((set, get) => ({
     }
 
     try {
-      const newCustomer: Omit<Customer, 'id'> = {
-        ...customerData,
-        createdAt: Date.now(),
-      };
-
-      // Add to Firestore first
-      if (firestoreDB) {
-        const docRef = await addDoc(
-          collection(firestoreDB, 'users', user.uid, 'customers'),
-          newCustomer
-        );
-
-        // Track this firestoreId IMMEDIATELY so the sync listener doesn't add a duplicate
-        recentlyAddedIds.add(docRef.id);
-
-        // Also add to Dexie immediately for instant UI feedback
-        await db.customers.add({
-          ...newCustomer,
-          firestoreId: docRef.id
-        });
-
-        // Reload customers to update UI
-        await get().loadCustomers();
-
-        // Clean up the tracking set after a delay to ensure sync listener has processed
-        setTimeout(() => {
-          recentlyAddedIds.delete(docRef.id);
-        }, 5000); // 5 seconds should be more than enough
-      } else {
-        // If no Firestore, just add to Dexie
-        await db.customers.add(newCustomer);
-        // Reload customers only in guest mode
-        await get().loadCustomers();
-      }
+      const customer: Customer = { ...customerData, id: createId(), createdAt: Date.now() };
+      // Members without rate rights add customers at no rate, as the rules require
+      clearRestrictedFields('customers', useOrganizationStore.getState().getMyRole(), customer as unknown as Record<string, unknown>);
+      const id = await db.customers.add(customer) as string;
+      await get().loadCustomers();
+      await customersSync.push(id);
     } catch (error) {
       set({ error: (error as Error).message });
     }
@@ -179,21 +80,13 @@ export const useCustomersStore = create<CustomersState>((set, get) => ({
       if (!customer) {
         throw new Error("Customer not found");
       }
-
-      // Update in Firestore if it has a firestoreId
-      if (customer.firestoreId && firestoreDB) {
-        const customerRef = doc(firestoreDB, 'users', user.uid, 'customers', customer.firestoreId);
-        await updateDoc(customerRef, updates);
-        // Also update Dexie immediately for instant UI feedback
-        await db.customers.update(id, updates);
-        // Reload customers to update UI
-        await get().loadCustomers();
-      } else {
-        // If no Firestore, update Dexie directly
-        await db.customers.update(id, updates);
-        // Reload customers only in guest mode
-        await get().loadCustomers();
+      if (changesCustomerRates(customer, updates) && !can(useOrganizationStore.getState().getMyRole(), 'editCustomerRates')) {
+        throw new Error("Only owners and admins can change customer rates");
       }
+
+      await db.customers.update(id, updates);
+      await get().loadCustomers();
+      await customersSync.push(id);
     } catch (error) {
       set({ error: (error as Error).message });
     }
@@ -211,21 +104,13 @@ export const useCustomersStore = create<CustomersState>((set, get) => ({
       if (!customer) {
         throw new Error("Customer not found");
       }
-
-      // Delete from Firestore if it has a firestoreId
-      if (customer.firestoreId && firestoreDB) {
-        const customerRef = doc(firestoreDB, 'users', user.uid, 'customers', customer.firestoreId);
-        await deleteDoc(customerRef);
-        // Also delete from Dexie immediately for instant UI feedback
-        await db.customers.delete(id);
-        // Reload customers to update UI
-        await get().loadCustomers();
-      } else {
-        // If no Firestore, delete from Dexie directly
-        await db.customers.delete(id);
-        // Reload customers only in guest mode
-        await get().loadCustomers();
+      if (!can(useOrganizationStore.getState().getMyRole(), 'deleteCustomers')) {
+        throw new Error("Only owners and admins can delete customers");
       }
+
+      await db.customers.delete(id);
+      await get().loadCustomers();
+      await customersSync.remove(customer);
     } catch (error) {
       set({ error: (error as Error).message });
     }
@@ -0,0 +1,173 @@
+import { create } from 'zustand';
+import { db, type Expense } from '../db/dexie';
+import { getAuth } from 'firebase/auth';
+import { useUIStore } from './ui';
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { storage } from '../firebase';
+import { defineSync, type SyncHandle } from '../services/syncEngine';
+import { getReceiptPath } from '../utils/expense';
+import { createId } from '../utils/ids';
+
+export type { Expense };
+
+const expensesSync: SyncHandle<Expense> = defineSync<Expense>({
+  collection: 'expenses',
+  table: db.expenses,
+  onChange: () => useExpensesStore.getState().loadExpenses(),
+  onError: () => useExpensesStore.setState({ error: "Failed to sync.", isSyncing: false }),
+});
+
+type NewExpense = Omit<Expense, 'id' | 'createdAt' | 'receiptUrl' | 'receiptPath'>;
+
+interface ExpensesState {
+  expenses: Expense[];
+  isLoading: boolean;
+  error: string | null;
+  isSyncing: boolean;
+  loadExpenses: () => Promise<void>;
+  // receiptFile is uploaded to Firebase Storage when signed in and online
+  createExpense: (expense: NewExpense, receiptFile?: File) => Promise<boolean>;
+  // Pass a File to replace the receipt, or null to remove it
+  updateExpense: (id: string, updates: Partial<Expense>, receiptFile?: File | null) => Promise<boolean>;
+  deleteExpense: (id: string) => Promise<void>;
+  startSync: () => void;
+  stopSync: () => void;
+  reconcileExpenses: () => Promise<void>;
+}
+
+// Upload a receipt image for the signed-in user, following the avatars/ pattern in storage.rules
+const uploadReceipt = async (file: File): Promise<Pick<Expense, 'receiptUrl' | 'receiptPath'> | null> => {
+  const user = getAuth().currentUser;
+  if (!user || !storage || !navigator.onLine) {
+    useUIStore.getState().showToast('Receipts can only be uploaded while signed in and online', 'info');
+    return null;
+  }
+  const receiptPath = getReceiptPath(user.uid, file.name);
+  const storageRef = ref(storage, receiptPath);
+  await uploadBytes(storageRef, file, { contentType: file.type });
+  const receiptUrl = await getDownloadURL(storageRef);
+  return { receiptUrl, receiptPath };
+};
+
+const deleteReceipt = async (receiptPath: string | undefined) => {
+  if (!receiptPath || !storage || !navigator.onLine) return;
+  try {
+    await deleteObject(ref(storage, receiptPath));
+  } catch (error) {
+    console.error("Failed to delete receipt:", error);
+  }
+};
+
+export const useExpensesStore = create<ExpensesState>((set) => ({
+  expenses: [],
+  isLoading: true,
+  error: null,
+  isSyncing: false,
+
+  startSync: () => {
+    expensesSync.start();
+    set({ isSyncing: !!getAuth().currentUser });
+  },
+
+  stopSync: () => {
+    expensesSync.stop();
+    set({ isSyncing: false });
+  },
+
+  loadExpenses: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const expenses = await db.expenses.orderBy('date').reverse().toArray();
+      set({ expenses, isLoading: false });
+    } catch (e) {
+      console.error("Failed to load expenses:", e);
+      set({ error: "Failed to load expenses.", isLoading: false });
+    }
+  },
+
+  createExpense: async (expenseData, receiptFile) => {
+    const user = getAuth().currentUser;
+    const { showToast } = useUIStore.getState();
+
+    try {
+      const project = await db.projects.get(expenseData.projectId);
+      if (!project) {
+        throw new Error(`Project with ID ${expenseData.projectId} not found locally.`);
+      }
+
+      const receipt = receiptFile ? await uploadReceipt(receiptFile) : null;
+
+      const newExpense: Expense = {
+        ...expenseData,
+        ...receipt,
+        id: createId(),
+        projectId: project.id,
+        customerId: project.customerId,
+        createdAt: Date.now(),
+        userId: user?.uid,
+      };
+
+      await db.expenses.add(newExpense);
+      set(state => ({
+        expenses: [newExpense, ...state.expenses].sort((a, b) => b.date - a.date)
+      }));
+
+      try {
+        await expensesSync.push(newExpense.id);
+      } catch (firestoreError) {
+        console.error("Firestore sync failed:", firestoreError);
+        showToast('Expense saved locally, but failed to sync.', 'error');
+      }
+      return true;
+    } catch (error) {
+      console.error("Failed to create expense:", error);
+      showToast('Failed to add expense', 'error');
+      return false;
+    }
+  },
+
+  updateExpense: async (id, updates, receiptFile) => {
+    const { showToast } = useUIStore.getState();
+
+    try {
+      const existing = await db.expenses.get(id);
+      if (!existing) return false;
+
+      const changes: Partial<Expense> = { ...updates };
+      if (receiptFile) {
+        const receipt = await uploadReceipt(receiptFile);
+        if (receipt) {
+          await deleteReceipt(existing.receiptPath);
+          Object.assign(changes, receipt);
+        }
+      } else if (receiptFile === null && existing.receiptPath) {
+        await deleteReceipt(existing.receiptPath);
+        changes.receiptUrl = '';
+        changes.receiptPath = '';
+      }
+
+      await db.expenses.update(id, changes);
+      set(state => ({ expenses: state.expenses.map(e => e.id === id ? { ...e, ...changes } : e) }));
+
+      await expensesSync.push(id);
+      return true;
+    } catch (error) {
+      console.error("Failed to update expense:", error);
+      showToast('Failed to update expense', 'error');
+      return false;
+    }
+  },
+
+  deleteExpense: async (id) => {
+    const expenseToDelete = await db.expenses.get(id);
+    if (!expenseToDelete) return;
+
+    await db.expenses.delete(id);
+    set(state => ({ expenses: state.expenses.filter(e => e.id !== id) }));
+
+    await deleteReceipt(expenseToDelete.receiptPath);
+    await expensesSync.remove(expenseToDelete);
+  },
+
+  reconcileExpenses: () => expensesSync.reconcile(),
+}));
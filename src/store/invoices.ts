@@ -0,0 +1,269 @@
+import { create } from 'zustand';
+import { db, type Invoice, type Customer, type Session, type TravelEntry, type Expense, type PerDiemEntry } from '../db/dexie';
+import { getAuth } from 'firebase/auth';
+import { doc, runTransaction } from 'firebase/firestore';
+import { db as firestoreDb } from '../firebase';
+import { useUIStore } from './ui';
+import { useOrganizationStore } from './organization';
+import { useSessionsStore } from './sessions';
+import { useTravelEntriesStore } from './travelEntries';
+import { useExpensesStore } from './expenses';
+import { usePerDiemsStore } from './perDiems';
+import { defineSync, pushRecords, type SyncHandle } from '../services/syncEngine';
+import { formatAddressMultiline } from '../utils/customer';
+import { createId } from '../utils/ids';
+import { calculateTaxes, getTaxTotal } from '../utils/tax';
+import { getUninvoicedExpenses } from '../utils/expense';
+import { getUninvoicedPerDiems } from '../utils/perDiem';
+import {
+  buildInvoiceLines,
+  formatInvoiceNumber,
+  getInvoiceSequence,
+  getInvoiceSubtotal,
+  getNextInvoiceNumber,
+  roundCurrency,
+  getUninvoicedSessions,
+  getUninvoicedTravelEntries,
+  isExpenseInCurrency,
+} from '../utils/invoice';
+
+export type { Invoice };
+
+const invoicesSync: SyncHandle<Invoice> = defineSync<Invoice>({
+  collection: 'invoices',
+  table: db.invoices,
+  onChange: () => useInvoicesStore.getState().loadInvoices(),
+  onError: () => useInvoicesStore.setState({ error: "Failed to sync.", isSyncing: false }),
+});
+
+// Everything that gets stamped with an invoice number when billed
+interface BilledItems {
+  sessions: Session[];
+  travelEntries: TravelEntry[];
+  expenses: Expense[];
+  perDiems: PerDiemEntry[];
+}
+
+interface CreateInvoiceInput extends BilledItems {
+  customer: Customer;
+  periodStart: number;
+  periodEnd: number;
+}
+
+interface InvoicesState {
+  invoices: Invoice[];
+  isLoading: boolean;
+  error: string | null;
+  isSyncing: boolean;
+  loadInvoices: () => Promise<void>;
+  createInvoice: (input: CreateInvoiceInput) => Promise<Invoice | null>;
+  voidInvoice: (id: string) => Promise<void>;
+  startSync: () => void;
+  stopSync: () => void;
+  reconcileInvoices: () => Promise<void>;
+}
+
+const INVOICE_OFFLINE_ERROR = 'Invoice numbers are handed out online. Connect to the internet and try again.';
+
+/**
+ * The next invoice number. Signed in, it comes from a counter in the user's config doc,
+ * taken in a transaction, so no two devices can issue the same number; the counter
+ * starts past the highest number this device knows. Guests only have this device.
+ */
+const allocateInvoiceNumber = async (localNumbers: string[]): Promise<string> => {
+  const nextLocal = getNextInvoiceNumber(localNumbers);
+  const user = getAuth().currentUser;
+  if (!user || !firestoreDb) return nextLocal;
+
+  const counterRef = doc(firestoreDb, 'users', user.uid, 'config', 'invoiceCounter');
+  return runTransaction(firestoreDb, async (transaction) => {
+    const counter = await transaction.get(counterRef);
+    const next = Math.max((counter.data()?.last as number | undefined) ?? 0, getInvoiceSequence(nextLocal) - 1) + 1;
+    transaction.set(counterRef, { last: next });
+    return formatInvoiceNumber(next);
+  });
+};
+
+// Everything billed on an invoice, read back from Dexie by the ids it recorded. Older
+// invoices recorded none, so their items are found by the invoice number.
+const getBilledItems = async (invoice: Invoice): Promise<BilledItems> => {
+  const { billedIds, number } = invoice;
+  if (!billedIds) {
+    return {
+      sessions: await db.sessions.where('invoiceNumber').equals(number).toArray(),
+      travelEntries: await db.travelEntries.where('invoiceNumber').equals(number).toArray(),
+      expenses: await db.expenses.where('invoiceNumber').equals(number).toArray(),
+      perDiems: await db.perDiems.where('invoiceNumber').equals(number).toArray(),
+    };
+  }
+  const isBilled = <T extends { invoiceNumber?: string | null }>(item: T | undefined): item is T => item?.invoiceNumber === number;
+  return {
+    sessions: (await db.sessions.bulkGet(billedIds.sessions)).filter(isBilled),
+    travelEntries: (await db.travelEntries.bulkGet(billedIds.travelEntries)).filter(isBilled),
+    expenses: (await db.expenses.bulkGet(billedIds.expenses)).filter(isBilled),
+    perDiems: (await db.perDiems.bulkGet(billedIds.perDiems)).filter(isBilled),
+  };
+};
+
+// Upload everything billed after its invoice number changed locally
+const pushBilledItems = async ({ sessions, travelEntries, expenses, perDiems }: BilledItems) => {
+  await pushRecords('sessions', sessions.map(s => s.id));
+  await pushRecords('travelEntries', travelEntries.map(e => e.id));
+  await pushRecords('expenses', expenses.map(e => e.id));
+  await pushRecords('perDiems', perDiems.map(e => e.id));
+};
+
+export const useInvoicesStore = create<InvoicesState>((set) => ({
+  invoices: [],
+  isLoading: true,
+  error: null,
+  isSyncing: false,
+
+  startSync: () => {
+    invoicesSync.start();
+    set({ isSyncing: !!getAuth().currentUser });
+  },
+
+  stopSync: () => {
+    invoicesSync.stop();
+    set({ isSyncing: false });
+  },
+
+  loadInvoices: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const invoices = await db.invoices.orderBy('issuedAt').reverse().toArray();
+      // Invoices issued before sales tax support have no tax lines
+      set({ invoices: invoices.map(i => ({ ...i, taxes: i.taxes || [] })), isLoading: false });
+    } catch (e) {
+      console.error("Failed to load invoices:", e);
+      set({ error: "Failed to load invoices.", isLoading: false });
+    }
+  },
+
+  createInvoice: async ({ customer, sessions, travelEntries, expenses, perDiems, periodStart, periodEnd }) => {
+    const { showToast } = useUIStore.getState();
+    const seller = useOrganizationStore.getState().organization?.corporateInfo;
+
+    if (!seller) {
+      showToast('Add your corporate information before creating invoices', 'error');
+      return null;
+    }
+
+    try {
+      // Re-read from Dexie so anything billed since the caller loaded its data is excluded
+      const sessionIds = sessions.map(s => s.id);
+      const entryIds = travelEntries.map(e => e.id);
+      const billableSessions = getUninvoicedSessions((await db.sessions.bulkGet(sessionIds)).filter((s): s is Session => !!s));
+      const billableEntries = getUninvoicedTravelEntries((await db.travelEntries.bulkGet(entryIds)).filter((e): e is TravelEntry => !!e));
+      const expenseIds = expenses.map(e => e.id);
+      const billableExpenses = getUninvoicedExpenses((await db.expenses.bulkGet(expenseIds)).filter((e): e is Expense => !!e))
+        .filter(e => isExpenseInCurrency(e, customer));
+      const perDiemIds = perDiems.map(e => e.id);
+      const billablePerDiems = getUninvoicedPerDiems((await db.perDiems.bulkGet(perDiemIds)).filter((e): e is PerDiemEntry => !!e));
+
+      const lines = buildInvoiceLines(customer, billableSessions, billableEntries, billableExpenses, billablePerDiems);
+      if (lines.length === 0) {
+        showToast('Nothing left to invoice for this customer', 'info');
+        return null;
+      }
+
+      const subtotal = getInvoiceSubtotal(lines);
+      const taxes = calculateTaxes(subtotal, seller, customer);
+      const existing = await db.invoices.toArray();
+      let number: string;
+      try {
+        number = await allocateInvoiceNumber(existing.map(i => i.number));
+      } catch (error) {
+        console.error("Failed to allocate an invoice number:", error);
+        showToast(INVOICE_OFFLINE_ERROR, 'error');
+        return null;
+      }
+      const now = Date.now();
+
+      const invoice: Invoice = {
+        id: createId(),
+        number,
+        customerId: customer.id,
+        billTo: {
+          companyName: customer.companyName,
+          addressLines: formatAddressMultiline(customer),
+          taxExemptNumber: customer.taxExempt ? customer.taxExemptNumber : undefined,
+        },
+        seller,
+        periodStart,
+        periodEnd,
+        issuedAt: now,
+        currency: customer.currency || 'CAD',
+        lines,
+        subtotal,
+        taxes,
+        total: roundCurrency(subtotal + getTaxTotal(taxes)),
+        status: 'issued',
+        createdAt: now,
+        billedIds: {
+          sessions: billableSessions.map(s => s.id),
+          travelEntries: billableEntries.map(e => e.id),
+          expenses: billableExpenses.map(e => e.id),
+          perDiems: billablePerDiems.map(e => e.id),
+        },
+      };
+
+      await db.transaction('rw', [db.invoices, db.sessions, db.travelEntries, db.expenses, db.perDiems], async () => {
+        await db.invoices.add(invoice);
+        await db.sessions.where('id').anyOf(billableSessions.map(s => s.id)).modify({ invoiceNumber: invoice.number });
+        await db.travelEntries.where('id').anyOf(billableEntries.map(e => e.id)).modify({ invoiceNumber: invoice.number });
+        await db.expenses.where('id').anyOf(billableExpenses.map(e => e.id)).modify({ invoiceNumber: invoice.number });
+        await db.perDiems.where('id').anyOf(billablePerDiems.map(e => e.id)).modify({ invoiceNumber: invoice.number });
+      });
+
+      set(state => ({ invoices: [invoice, ...state.invoices] }));
+      useSessionsStore.getState().loadSessions();
+      useTravelEntriesStore.getState().loadTravelEntries();
+      useExpensesStore.getState().loadExpenses();
+      usePerDiemsStore.getState().loadPerDiems();
+
+      // Queued in the outbox, so this goes through once online
+      await invoicesSync.push(invoice.id);
+      await pushBilledItems({
+        sessions: billableSessions,
+        travelEntries: billableEntries,
+        expenses: billableExpenses,
+        perDiems: billablePerDiems,
+      });
+
+      return invoice;
+    } catch (error) {
+      console.error("Failed to create invoice:", error);
+      showToast('Failed to create invoice', 'error');
+      return null;
+    }
+  },
+
+  voidInvoice: async (id) => {
+    const invoice = await db.invoices.get(id);
+    if (!invoice) return;
+
+    // Release everything billed so it can be invoiced again
+    const billed = await getBilledItems(invoice);
+
+    await db.transaction('rw', [db.invoices, db.sessions, db.travelEntries, db.expenses, db.perDiems], async () => {
+      await db.invoices.update(id, { status: 'void' });
+      await db.sessions.where('id').anyOf(billed.sessions.map(s => s.id)).modify({ invoiceNumber: null });
+      await db.travelEntries.where('id').anyOf(billed.travelEntries.map(e => e.id)).modify({ invoiceNumber: null });
+      await db.expenses.where('id').anyOf(billed.expenses.map(e => e.id)).modify({ invoiceNumber: null });
+      await db.perDiems.where('id').anyOf(billed.perDiems.map(e => e.id)).modify({ invoiceNumber: null });
+    });
+    set(state => ({ invoices: state.invoices.map(i => i.id === id ? { ...i, status: 'void' } : i) }));
+    useSessionsStore.getState().loadSessions();
+    useTravelEntriesStore.getState().loadTravelEntries();
+    useExpensesStore.getState().loadExpenses();
+    usePerDiemsStore.getState().loadPerDiems();
+
+    await invoicesSync.push(id);
+    await pushBilledItems(billed);
+  },
+
+  // Billed items have their own local edits, so their stores' reconcile uploads them
+  reconcileInvoices: () => invoicesSync.reconcile(),
+}));
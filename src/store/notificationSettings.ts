@@ -1,15 +1,21 @@
 import { create } from 'zustand';
 import { db } from '../db/dexie';
 import { auth, db as firestoreDb } from '../firebase';
-import { doc, setDoc } from 'firebase/firestore';
+import { doc, onSnapshot, setDoc, type Unsubscribe } from 'firebase/firestore';
 
 // Define the shape of the settings that this store will manage.
 interface NotificationSettings {
   showLiveTimer: boolean;
   enableSmartReminders: boolean;
   reminderThresholdHours: number;
+  allowOverlaps: boolean;  // Not a notification. Kept per user in the config doc only, not on the device.
 }
 
+// Settings that follow the user across devices, read from the config doc instead of Dexie
+const USER_SETTINGS: Array<keyof NotificationSettings> = ['allowOverlaps'];
+
+let unsubscribeFromConfig: Unsubscribe | null = null;
+
 // Define the full state of the Zustand store, including data, loading/error states, and actions.
 interface NotificationSettingsState {
   settings: NotificationSettings;
@@ -18,6 +24,8 @@ interface NotificationSettingsState {
   loadSettings: () => Promise<void>;
   updateSetting: <K extends keyof NotificationSettings>(key: K, value: NotificationSettings[K]) => Promise<void>;
   setEnableSmartReminders: (enabled: boolean) => Promise<void>;
+  startConfigSync: () => void;
+  stopConfigSync: () => void;
 }
 
 // Default values for the settings.
@@ -25,6 +33,7 @@ const defaultSettings: NotificationSettings = {
   showLiveTimer: true,
   enableSmartReminders: false,
   reminderThresholdHours: 4,
+  allowOverlaps: false,
 };
 
 export const useNotificationSettingsStore = create<NotificationSettingsState>((set) => ({
@@ -48,6 +57,7 @@ export const useNotificationSettingsStore = create<NotificationSettingsState>((s
             showLiveTimer: mergedSettings.showLiveTimer,
             enableSmartReminders: mergedSettings.enableSmartReminders,
             reminderThresholdHours: mergedSettings.reminderThresholdHours,
+            allowOverlaps: useNotificationSettingsStore.getState().settings.allowOverlaps,
           },
           isLoading: false,
         });
@@ -63,13 +73,16 @@ export const useNotificationSettingsStore = create<NotificationSettingsState>((s
 
   /**
    * Updates a single setting value in both the Dexie database and the Zustand store.
+   * User settings skip Dexie and are saved to the Firestore config doc only.
    * @param key The name of the setting to update.
    * @param value The new value for the setting.
    */
   updateSetting: async (key, value) => {
     try {
       // 1. Update the local Dexie database first for offline reliability.
-      await db.settings.update(1, { [key]: value });
+      if (!USER_SETTINGS.includes(key)) {
+        await db.settings.update(1, { [key]: value });
+      }
 
       // 2. Update the local state for immediate UI feedback.
       const newSettings = { ...useNotificationSettingsStore.getState().settings, [key]: value };
@@ -98,4 +111,33 @@ export const useNotificationSettingsStore = create<NotificationSettingsState>((s
     // in the UI component layer when this action is called.
     await useNotificationSettingsStore.getState().updateSetting('enableSmartReminders', enabled);
   },
+
+  /**
+   * Listens to the user's config doc for the settings that follow the user, so a
+   * change on one device applies on all of them.
+   */
+  startConfigSync: () => {
+    const user = auth.currentUser;
+    if (!user || !firestoreDb || unsubscribeFromConfig) return;
+    const settingsDocRef = doc(firestoreDb, 'users', user.uid, 'config', 'settings');
+    unsubscribeFromConfig = onSnapshot(
+      settingsDocRef,
+      (snapshot) => {
+        const data = snapshot.data() ?? {};
+        const userSettings = Object.fromEntries(USER_SETTINGS.map(key => [key, data[key] ?? defaultSettings[key]]));
+        set({ settings: { ...useNotificationSettingsStore.getState().settings, ...userSettings } });
+      },
+      (error) => {
+        console.error('Error syncing user settings:', error);
+      }
+    );
+  },
+
+  // The user settings belong to the signed-in user, so they go back to the defaults
+  stopConfigSync: () => {
+    unsubscribeFromConfig?.();
+    unsubscribeFromConfig = null;
+    const userSettings = Object.fromEntries(USER_SETTINGS.map(key => [key, defaultSettings[key]]));
+    set({ settings: { ...useNotificationSettingsStore.getState().settings, ...userSettings } });
+  },
 }));
@@ -1,19 +1,36 @@
 import { create } from 'zustand';
-import { db, Organization, CorporateInfo } from '../db/dexie';
+import { db, Organization, CorporateInfo, OrganizationInvitation, OrganizationRole } from '../db/dexie';
 import { 
   createOrganization as createOrgFirestore,
   getOrganization as getOrgFirestore,
   updateOrganization as updateOrgFirestore,
-  getUserOrganizationId,
-  subscribeToOrganization
+  getUserOrganizationIds,
+  subscribeToOrganization,
+  subscribeToInvitations,
+  inviteMember as inviteMemberFirestore,
+  deleteInvitation,
+  getInvitationsForEmail,
+  acceptInvitation as acceptInvitationFirestore,
+  updateMemberRole,
+  removeMember as removeMemberFirestore,
+  leaveOrganization as leaveOrganizationFirestore,
+  clearUserOrganization
 } from '../services/organizationService';
 import { useAuthStore } from './auth';
-import { Unsubscribe } from 'firebase/firestore';
+import { useTimesheetsStore } from './timesheets';
+import { useUIStore } from './ui';
+import { FirestoreError, Unsubscribe } from 'firebase/firestore';
+import { canInvite, getMemberRole, isLastOwner } from '../utils/members';
+import { syncSharedDataSource } from '../services/syncEngine';
 
 let unsubscribeFromOrganization: Unsubscribe | null = null;
+let unsubscribeFromInvitations: Unsubscribe | null = null;
 
 interface OrganizationState {
-  organization: Organization | null;
+  organization: Organization | null;  // The active organization
+  organizations: Organization[];  // Every organization the user belongs to
+  invitations: OrganizationInvitation[];  // Pending invitations of the organization
+  myInvitations: OrganizationInvitation[];  // Invitations sent to the signed-in user
   isLoading: boolean;
   error: string | null;
   isSyncing: boolean;
@@ -24,11 +41,90 @@ interface OrganizationState {
   updateOrganization: (corporateInfo: Partial<CorporateInfo>) => Promise<void>;
   startOrganizationSync: () => Promise<void>;
   stopOrganizationSync: () => void;
+  switchOrganization: (orgId: string) => Promise<void>;
   clearOrganization: () => void;
+  getMyRole: () => OrganizationRole | undefined;
+  inviteMember: (email: string, role: OrganizationRole) => Promise<void>;
+  revokeInvitation: (email: string) => Promise<void>;
+  loadMyInvitations: () => Promise<void>;
+  acceptInvitation: (invitation: OrganizationInvitation) => Promise<void>;
+  declineInvitation: (invitation: OrganizationInvitation) => Promise<void>;
+  changeMemberRole: (userId: string, role: OrganizationRole) => Promise<void>;
+  removeMember: (userId: string) => Promise<void>;
+  leaveOrganization: () => Promise<void>;
+}
+
+// Customers and projects follow the active organization
+async function setActiveOrganization(orgId: string | null) {
+  const auth = useAuthStore.getState();
+  if (orgId && !auth.userDoc?.organizations?.includes(orgId)) {
+    auth.setOrganizations([...(auth.userDoc?.organizations ?? []), orgId]);
+  }
+  await useAuthStore.getState().setActiveOrganization(orgId);
+  try {
+    await syncSharedDataSource();
+  } catch (error) {
+    useUIStore.getState().showToast((error as Error).message, 'error');
+  }
+}
+
+async function saveOrganization(org: Organization) {
+  const existingOrg = await db.organizations.where('firestoreId').equals(org.firestoreId!).first();
+  if (existingOrg) {
+    await db.organizations.update(existingOrg.id!, org);
+  } else {
+    await db.organizations.add(org);
+  }
+}
+
+// The organization, or null when the user is no longer a member. Being denied means we were removed.
+async function fetchMembership(orgId: string, userId: string): Promise<Organization | null> {
+  let org: Organization | null;
+  try {
+    org = await getOrgFirestore(orgId);
+  } catch (error) {
+    if ((error as FirestoreError).code !== 'permission-denied') throw error;
+    return null;
+  }
+  return org?.members?.[userId] ? org : null;
+}
+
+// Drop the organization from this device, after leaving it or being removed from it. When it
+// was the active one, the user carries on in one of their other organizations.
+async function forgetOrganization(orgId: string, userId: string) {
+  await db.organizations.where('firestoreId').equals(orgId).delete();
+  const existingUser = await db.users.where('userId').equals(userId).first();
+  if (existingUser?.organizationId === orgId) {
+    await db.users.update(existingUser.id!, { organizationId: undefined, role: undefined, updatedAt: Date.now() });
+  }
+  const auth = useAuthStore.getState();
+  const remaining = (auth.userDoc?.organizations ?? []).filter(id => id !== orgId);
+  auth.setOrganizations(remaining);
+  if (auth.activeOrganization === orgId) {
+    await setActiveOrganization(remaining[0] ?? null);
+  }
+}
+
+// Only owners and admins see pending invitations; follows changes to our own role
+function watchInvitations(orgId: string, role: OrganizationRole | undefined, onUpdate: (invitations: OrganizationInvitation[]) => void) {
+  if (canInvite(role) && !unsubscribeFromInvitations) {
+    unsubscribeFromInvitations = subscribeToInvitations(
+      orgId,
+      (invitations) => onUpdate(invitations.sort((a, b) => b.createdAt - a.createdAt)),
+      (error) => console.error('Error with Firestore invitations snapshot listener:', error)
+    );
+  } else if (!canInvite(role) && unsubscribeFromInvitations) {
+    unsubscribeFromInvitations();
+    unsubscribeFromInvitations = null;
+    onUpdate([]);
+  }
 }
 
 export const useOrganizationStore = create<OrganizationState>((set, get) => ({
   organization: null,
+  organizations: [],
+  invitations: [],
+  myInvitations: [],
   isLoading: false,
   error: null,
   isSyncing: false,
@@ -38,11 +134,12 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
     try {
       // Load from IndexedDB first
       const orgs = await db.organizations.toArray();
-      if (orgs.length > 0) {
-        set({ organization: orgs[0], isLoading: false });
-      } else {
-        set({ organization: null, isLoading: false });
-      }
+      const activeOrg = useAuthStore.getState().activeOrganization;
+      set({
+        organizations: orgs,
+        organization: orgs.find(o => o.firestoreId === activeOrg) ?? (activeOrg ? null : orgs[0] ?? null),
+        isLoading: false
+      });
     } catch (error) {
       console.error('Error loading organization:', error);
       set({ error: 'Failed to load organization', isLoading: false });
@@ -58,7 +155,7 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
     set({ isLoading: true, error: null });
     try {
       // Create in Firestore
-      const orgId = await createOrgFirestore(user.uid, corporateInfo);
+      const orgId = await createOrgFirestore(user.uid, corporateInfo, user.email || undefined);
 
       // Create in IndexedDB
       const now = Date.now();
@@ -68,6 +165,7 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
         createdBy: user.uid,
         createdAt: now,
         updatedAt: now,
+        members: { [user.uid]: { role: 'owner', addedAt: now, ...(user.email ? { email: user.email.toLowerCase() } : {}) } },
       };
 
       await db.organizations.add(newOrg);
@@ -89,9 +187,10 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
         });
       }
 
-      set({ organization: newOrg, isLoading: false });
-      
-      // Start syncing after creation
+      // Switch to the new organization and start syncing it
+      get().stopOrganizationSync();
+      set({ organization: newOrg, organizations: [...get().organizations, newOrg], isLoading: false });
+      await setActiveOrganization(orgId);
       await get().startOrganizationSync();
     } catch (error) {
       console.error('Error creating organization:', error);
@@ -121,11 +220,13 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
         updatedAt: Date.now()
       };
 
-      if (organization.id) {
-        await db.organizations.update(organization.id, updatedOrg);
-      }
+      await saveOrganization(updatedOrg);
 
-      set({ organization: updatedOrg, isLoading: false });
+      set({
+        organization: updatedOrg,
+        organizations: get().organizations.map(o => o.firestoreId === updatedOrg.firestoreId ? updatedOrg : o),
+        isLoading: false
+      });
     } catch (error) {
       console.error('Error updating organization:', error);
       set({ error: 'Failed to update organization', isLoading: false });
@@ -149,28 +250,36 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
     set({ isSyncing: true });
 
     try {
-      // Get user's organization ID
-      const orgId = await getUserOrganizationId(user.uid);
-      
-      if (!orgId) {
-        console.log('User has no organization yet.');
-        set({ isSyncing: false });
-        await get().loadOrganization();
-        return;
-      }
-
-      // Fetch organization once to ensure we have it
-      const org = await getOrgFirestore(orgId);
-      if (org) {
-        // Save to IndexedDB
-        const existingOrg = await db.organizations.where('firestoreId').equals(orgId).first();
-        if (existingOrg) {
-          await db.organizations.update(existingOrg.id!, org);
+      // Refresh every organization of the user, including ones joined or left on other devices
+      const organizations: Organization[] = [];
+      for (const orgId of await getUserOrganizationIds(user.uid)) {
+        const org = await fetchMembership(orgId, user.uid);
+        if (org) {
+          await saveOrganization(org);
+          organizations.push(org);
         } else {
-          await db.organizations.add(org);
+          console.log(`User is no longer a member of organization ${orgId}.`);
+          await clearUserOrganization(user.uid, orgId);
         }
-        set({ organization: org });
       }
+      await db.organizations.filter(o => !organizations.some(org => org.firestoreId === o.firestoreId)).delete();
+      useAuthStore.getState().setOrganizations(organizations.map(o => o.firestoreId!));
+      set({ organizations });
+
+      // Fall back to another organization when the active one is gone
+      const activeOrg = useAuthStore.getState().activeOrganization;
+      const org = organizations.find(o => o.firestoreId === activeOrg) ?? organizations[0];
+      if (org?.firestoreId !== activeOrg) {
+        await setActiveOrganization(org?.firestoreId ?? null);
+      }
+      if (!org) {
+        console.log('User has no organization yet.');
+        set({ organization: null, isSyncing: false });
+        return;
+      }
+      const orgId = org.firestoreId!;
+      const myRole = org.members?.[user.uid]?.role;
+      set({ organization: org });
 
       // Subscribe to real-time updates
       console.log('Starting Firestore organization sync...');
@@ -178,22 +287,33 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
         orgId,
         async (updatedOrg) => {
           // Update IndexedDB
-          const existingOrg = await db.organizations.where('firestoreId').equals(orgId).first();
-          if (existingOrg) {
-            await db.organizations.update(existingOrg.id!, updatedOrg);
-          } else {
-            await db.organizations.add(updatedOrg);
-          }
-          
+          await saveOrganization(updatedOrg);
+
           // Update state
-          set({ organization: updatedOrg });
+          set({
+            organization: updatedOrg,
+            organizations: get().organizations.map(o => o.firestoreId === orgId ? updatedOrg : o)
+          });
+          watchInvitations(orgId, updatedOrg.members?.[user.uid]?.role, invitations => set({ invitations }));
+          useTimesheetsStore.getState().startTimesheetSync(orgId, updatedOrg.members?.[user.uid]?.role);
         },
-        (error) => {
+        async (error) => {
+          if ((error as FirestoreError).code === 'permission-denied') {
+            // Removed from the organization while signed in
+            get().stopOrganizationSync();
+            await clearUserOrganization(user.uid, orgId).catch(err => console.error('Error clearing organization from user:', err));
+            await forgetOrganization(orgId, user.uid);
+            await get().startOrganizationSync();
+            return;
+          }
           console.error('Error with Firestore organization snapshot listener:', error);
           set({ error: 'Failed to sync organization' });
         }
       );
 
+      watchInvitations(orgId, myRole, invitations => set({ invitations }));
+      useTimesheetsStore.getState().startTimesheetSync(orgId, myRole);
+
       set({ isSyncing: false });
     } catch (error) {
       console.error('Error starting organization sync:', error);
@@ -207,11 +327,119 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
       unsubscribeFromOrganization();
       unsubscribeFromOrganization = null;
     }
-    set({ isSyncing: false });
+    if (unsubscribeFromInvitations) {
+      unsubscribeFromInvitations();
+      unsubscribeFromInvitations = null;
+    }
+    useTimesheetsStore.getState().stopTimesheetSync();
+    set({ isSyncing: false, invitations: [] });
+  },
+
+  switchOrganization: async (orgId) => {
+    if (orgId === useAuthStore.getState().activeOrganization) return;
+    get().stopOrganizationSync();
+    set({ organization: get().organizations.find(o => o.firestoreId === orgId) ?? null });
+    await setActiveOrganization(orgId);
+    await get().startOrganizationSync();
   },
 
   clearOrganization: () => {
     get().stopOrganizationSync();
-    set({ organization: null, isLoading: false, error: null, isSyncing: false });
+    set({ organization: null, organizations: [], myInvitations: [], isLoading: false, error: null, isSyncing: false });
+  },
+
+  getMyRole: () => getMemberRole(get().organization, useAuthStore.getState().user?.uid),
+
+  inviteMember: async (email, role) => {
+    const user = useAuthStore.getState().user;
+    const { organization } = get();
+    if (!user || !organization?.firestoreId) {
+      throw new Error('No organization to invite to');
+    }
+    const existing = Object.values(organization.members || {}).some(m => m.email === email.trim().toLowerCase());
+    if (existing) {
+      throw new Error(`${email} is already a member`);
+    }
+    await inviteMemberFirestore(organization.firestoreId, organization.corporateInfo.companyName, email, role, user);
+  },
+
+  revokeInvitation: async (email) => {
+    const { organization } = get();
+    if (!organization?.firestoreId) return;
+    await deleteInvitation(organization.firestoreId, email);
+  },
+
+  loadMyInvitations: async () => {
+    const user = useAuthStore.getState().user;
+    if (!user?.email || user.isAnonymous) {
+      set({ myInvitations: [] });
+      return;
+    }
+    try {
+      const invitations = await getInvitationsForEmail(user.email);
+      // No point offering to join organizations we're already in
+      const orgIds = get().organizations.map(o => o.firestoreId);
+      set({ myInvitations: invitations.filter(i => !orgIds.includes(i.orgId)) });
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+    }
+  },
+
+  acceptInvitation: async (invitation) => {
+    const user = useAuthStore.getState().user;
+    if (!user) {
+      throw new Error('User must be logged in to accept an invitation');
+    }
+    await acceptInvitationFirestore(invitation, user.uid);
+
+    const existingUser = await db.users.where('userId').equals(user.uid).first();
+    if (existingUser) {
+      await db.users.update(existingUser.id!, { organizationId: invitation.orgId, role: invitation.role, updatedAt: Date.now() });
+    } else {
+      await db.users.add({ userId: user.uid, organizationId: invitation.orgId, role: invitation.role, updatedAt: Date.now() });
+    }
+
+    // Switch to the organization just joined
+    set({ myInvitations: get().myInvitations.filter(i => i.orgId !== invitation.orgId) });
+    get().stopOrganizationSync();
+    await setActiveOrganization(invitation.orgId);
+    await get().startOrganizationSync();
+  },
+
+  declineInvitation: async (invitation) => {
+    await deleteInvitation(invitation.orgId, invitation.email);
+    set({ myInvitations: get().myInvitations.filter(i => i.orgId !== invitation.orgId) });
+  },
+
+  changeMemberRole: async (userId, role) => {
+    const { organization } = get();
+    if (!organization?.firestoreId || !organization.members) return;
+    if (role !== 'owner' && isLastOwner(organization.members, userId)) {
+      throw new Error('Make someone else an owner first');
+    }
+    await updateMemberRole(organization.firestoreId, userId, role);
+  },
+
+  removeMember: async (userId) => {
+    const { organization } = get();
+    if (!organization?.firestoreId || !organization.members) return;
+    if (isLastOwner(organization.members, userId)) {
+      throw new Error('The last owner cannot be removed');
+    }
+    await removeMemberFirestore(organization.firestoreId, userId);
+  },
+
+  leaveOrganization: async () => {
+    const user = useAuthStore.getState().user;
+    const { organization } = get();
+    if (!user || !organization?.firestoreId) return;
+    if (organization.members && isLastOwner(organization.members, user.uid)) {
+      throw new Error('Make someone else an owner before leaving');
+    }
+
+    await leaveOrganizationFirestore(organization.firestoreId, user.uid);
+    get().stopOrganizationSync();
+    await forgetOrganization(organization.firestoreId, user.uid);
+    await get().startOrganizationSync();
   }
 }));
@@ -0,0 +1,118 @@
+import { create } from 'zustand';
+import { useUIStore } from './ui';
+import { useCustomersStore } from './customers';
+import { useProjectsStore } from './projects';
+import { useSessionsStore } from './sessions';
+import { usePredefinedNotesStore } from './predefinedNotes';
+import { useTagsStore } from './tags';
+import { useTravelEntriesStore } from './travelEntries';
+import { useExpensesStore } from './expenses';
+import { usePerDiemsStore } from './perDiems';
+import { useInvoicesStore } from './invoices';
+import { useConflictsStore } from './conflicts';
+import {
+  discardOutboxEntry,
+  flushOutbox,
+  flushOutboxNow,
+  getCompletedWriteCount,
+  getOutbox,
+  isOutboxFlushing,
+  isSharedCollection,
+  onOutboxChanged,
+  retryFailedOutbox,
+} from '../services/syncEngine';
+import { describeSyncResult } from '../utils/outbox';
+import type { OutboxEntry } from '../db/dexie';
+
+export type { OutboxEntry };
+
+interface OutboxState {
+  // Writes waiting for the server, oldest first
+  entries: OutboxEntry[];
+  isFlushing: boolean;
+  isSyncingNow: boolean;
+  lastSyncedAt: number | null;  // Last time the outbox was emptied
+  loadOutbox: () => Promise<void>;
+  flush: () => Promise<void>;
+  retryFailed: () => Promise<void>;
+  discard: (id: number) => Promise<void>;
+  // Reconcile every store, upload the outbox and report the result in a toast
+  syncNow: () => Promise<void>;
+  // Upload what's pending, then count the writes to customers and projects still waiting,
+  // which leaving or switching the organization would drop
+  flushSharedEntries: () => Promise<number>;
+}
+
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  entries: [],
+  isFlushing: false,
+  isSyncingNow: false,
+  lastSyncedAt: null,
+
+  loadOutbox: async () => {
+    const previouslyFailed = new Set(get().entries.filter(e => e.failed).map(e => e.id));
+    try {
+      const entries = await getOutbox();
+      const isFlushing = isOutboxFlushing();
+      set({ entries, isFlushing, ...(entries.length === 0 && !isFlushing ? { lastSyncedAt: Date.now() } : {}) });
+
+      const newlyFailed = entries.filter(e => e.failed && !previouslyFailed.has(e.id));
+      if (newlyFailed.length > 0) {
+        useUIStore.getState().showToast(
+          `${newlyFailed.length} ${newlyFailed.length === 1 ? 'change' : 'changes'} could not be synced: ${newlyFailed[0].lastError}`,
+          'error',
+          { label: 'Retry', onClick: () => get().retryFailed() }
+        );
+      }
+    } catch (error) {
+      console.error("Failed to load outbox:", error);
+    }
+  },
+
+  flush: () => flushOutbox(),
+
+  retryFailed: () => retryFailedOutbox(),
+
+  discard: (id) => discardOutboxEntry(id),
+
+  syncNow: async () => {
+    if (get().isSyncingNow) return;
+    set({ isSyncingNow: true });
+    const writesBefore = getCompletedWriteCount();
+    try {
+      await useCustomersStore.getState().reconcileCustomers();
+      await useProjectsStore.getState().reconcileProjects();
+      await useSessionsStore.getState().reconcileSessions();
+      await usePredefinedNotesStore.getState().reconcilePredefinedNotes();
+      await useTagsStore.getState().reconcileTags();
+      await useTravelEntriesStore.getState().reconcileTravelEntries();
+      await useExpensesStore.getState().reconcileExpenses();
+      await usePerDiemsStore.getState().reconcilePerDiems();
+      await useInvoicesStore.getState().reconcileInvoices();
+      await flushOutboxNow();
+      await get().loadOutbox();
+
+      const { entries } = get();
+      const failed = entries.filter(e => e.failed).length;
+      useUIStore.getState().showToast(describeSyncResult({
+        uploaded: getCompletedWriteCount() - writesBefore,
+        pending: entries.length - failed,
+        failed,
+        conflicts: useConflictsStore.getState().conflicts.length,
+      }), failed > 0 ? 'error' : 'success');
+    } catch (error) {
+      console.error("Manual sync failed:", error);
+      useUIStore.getState().showToast('Sync failed', 'error');
+    } finally {
+      set({ isSyncingNow: false });
+    }
+  },
+
+  flushSharedEntries: async () => {
+    await flushOutboxNow();
+    await get().loadOutbox();
+    return get().entries.filter(entry => isSharedCollection(entry.collection)).length;
+  },
+}));
+
+onOutboxChanged(() => useOutboxStore.getState().loadOutbox());
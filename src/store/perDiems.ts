@@ -0,0 +1,122 @@
+import { create } from 'zustand';
+import { db, type PerDiemEntry } from '../db/dexie';
+import { getAuth } from 'firebase/auth';
+import { useUIStore } from './ui';
+import { defineSync, type SyncHandle } from '../services/syncEngine';
+import { useProjectsStore } from './projects';
+import { createId } from '../utils/ids';
+
+export type { PerDiemEntry };
+
+const perDiemsSync: SyncHandle<PerDiemEntry> = defineSync<PerDiemEntry>({
+  collection: 'perDiems',
+  table: db.perDiems,
+  onChange: () => usePerDiemsStore.getState().loadPerDiems(),
+  onError: () => usePerDiemsStore.setState({ error: "Failed to sync.", isSyncing: false }),
+});
+
+type NewPerDiem = Pick<PerDiemEntry, 'projectId' | 'date' | 'meals' | 'note'>;
+
+interface PerDiemsState {
+  perDiems: PerDiemEntry[];
+  isLoading: boolean;
+  error: string | null;
+  isSyncing: boolean;
+  loadPerDiems: () => Promise<void>;
+  // Adds several entries at once, e.g. accepted suggestions. Returns how many were added.
+  createPerDiems: (entries: NewPerDiem[]) => Promise<number>;
+  updatePerDiem: (id: string, updates: Partial<PerDiemEntry>) => Promise<void>;
+  deletePerDiem: (id: string) => Promise<void>;
+  startSync: () => void;
+  stopSync: () => void;
+  reconcilePerDiems: () => Promise<void>;
+}
+
+export const usePerDiemsStore = create<PerDiemsState>((set, get) => ({
+  perDiems: [],
+  isLoading: true,
+  error: null,
+  isSyncing: false,
+
+  startSync: () => {
+    perDiemsSync.start();
+    set({ isSyncing: !!getAuth().currentUser });
+  },
+
+  stopSync: () => {
+    perDiemsSync.stop();
+    set({ isSyncing: false });
+  },
+
+  loadPerDiems: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const perDiems = await db.perDiems.orderBy('date').reverse().toArray();
+      set({ perDiems, isLoading: false });
+    } catch (e) {
+      console.error("Failed to load per-diem entries:", e);
+      set({ error: "Failed to load per-diem entries.", isLoading: false });
+    }
+  },
+
+  createPerDiems: async (entries) => {
+    const user = getAuth().currentUser;
+    const { showToast } = useUIStore.getState();
+    const projects = useProjectsStore.getState().projects;
+    let added = 0;
+
+    try {
+      for (const entry of entries) {
+        const project = projects.find(p => p.id === entry.projectId);
+        if (!project) {
+          console.error(`Project with ID ${entry.projectId} not found locally.`);
+          continue;
+        }
+
+        const newEntry: PerDiemEntry = {
+          ...entry,
+          id: createId(),
+          projectId: project.id,
+          customerId: project.customerId,
+          createdAt: Date.now(),
+          userId: user?.uid,
+        };
+        await db.perDiems.add(newEntry);
+        added++;
+
+        try {
+          await perDiemsSync.push(newEntry.id);
+        } catch (firestoreError) {
+          console.error("Firestore sync failed:", firestoreError);
+          showToast('Per diem saved locally, but failed to sync.', 'error');
+        }
+      }
+    } catch (error) {
+      console.error("Failed to create per-diem entries:", error);
+      showToast('Failed to add per diem', 'error');
+    }
+
+    await get().loadPerDiems();
+    return added;
+  },
+
+  updatePerDiem: async (id, updates) => {
+    const existing = await db.perDiems.get(id);
+    if (!existing) return;
+
+    await db.perDiems.update(id, updates);
+    set(state => ({ perDiems: state.perDiems.map(e => e.id === id ? { ...e, ...updates } : e) }));
+    await perDiemsSync.push(id);
+  },
+
+  deletePerDiem: async (id) => {
+    const entryToDelete = await db.perDiems.get(id);
+    if (!entryToDelete) return;
+
+    await db.perDiems.delete(id);
+    set(state => ({ perDiems: state.perDiems.filter(e => e.id !== id) }));
+    await perDiemsSync.remove(entryToDelete);
+  },
+
+  reconcilePerDiems: () => perDiemsSync.reconcile(),
+}));
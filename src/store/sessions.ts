@@ -4,24 +4,156 @@ import { getAuth } from 'firebase/auth';
 import { useProjectsStore } from './projects';
 import { useUIStore } from './ui';
 import { useNotificationSettingsStore } from './notificationSettings';
+import { useBudgetsStore } from './budgets';
+import { useAuthStore } from './auth';
+import { useTimesheetsStore } from './timesheets';
 import {
-  addDoc,
-  collection,
   doc,
-  updateDoc,
   deleteDoc,
-  onSnapshot,
-  query,
-  Unsubscribe,
-  writeBatch,
   setDoc,
 } from 'firebase/firestore';
 import { db as firestoreDb } from '../firebase';
-import { startOfDay, endOfDay } from '../utils/time';
+import { startOfDay, endOfDay, formatDate, formatTime } from '../utils/time';
 import { audioManager } from '../utils/audioManager';
+import { isProjectBillable } from '../utils/billable';
+import { getLegacyTags } from '../utils/tags';
+import { defineSync, type SyncHandle } from '../services/syncEngine';
+import { createId } from '../utils/ids';
+import { findOverlapping, getFixProblem, getSessionEnd, type Overlap } from '../utils/overlaps';
+import { getMergeProblem, getSplitProblem, planMerge, planSplit } from '../utils/splitMerge';
+
+const sessionsSync: SyncHandle<Session> = defineSync<Session>({
+  collection: 'sessions',
+  table: db.sessions,
+  // Sessions saved before tags existed get the same migration as local ones
+  fromFirestore: session => ({ ...session, tags: session.tags ?? getLegacyTags(session.note) }),
+  onChange: () => useSessionsStore.getState().loadSessions(),
+  onError: () => useSessionsStore.setState({ error: "Failed to sync sessions.", isSyncing: false, isLoading: false }),
+});
+
+// Sessions logged on the active organization's projects before sessions recorded their
+// organization, so its owners and admins can see them
+const claimOrganizationSessions = async () => {
+  const orgId = useAuthStore.getState().activeOrganization;
+  if (!orgId) return;
+  const projectIds = new Set((await db.projects.toArray()).map(p => p.id));
+  await db.sessions
+    .filter(s => !s.organizationId && projectIds.has(s.projectId))
+    .modify({ organizationId: orgId });
+};
+
+const SESSION_LOCKED_ERROR = "This session is on a submitted or approved timesheet";
+const SESSION_INVOICED_ERROR = "Invoiced sessions can't be deleted. Void their invoice first.";
+const TIMER_LOCKED_ERROR = "The timer's time falls on a submitted or approved timesheet, so it keeps running";
+
+// New sessions join the active organization unless they name one, and with it its signed-off weeks
+const isNewSessionLocked = (session: Pick<Session, 'start' | 'organizationId'>) =>
+  useTimesheetsStore.getState().isSessionLocked({
+    start: session.start,
+    organizationId: session.organizationId ?? useAuthStore.getState().activeOrganization ?? undefined,
+  });
+
+// Per user, from the config doc, so every device of the user follows it
+const allowsOverlaps = () => useNotificationSettingsStore.getState().settings.allowOverlaps;
+
+const getOverlapError = (other: Session) => {
+  const project = useProjectsStore.getState().projects.find(p => p.id === other.projectId);
+  return new Error(
+    `This overlaps ${project?.name ?? 'another'} time on ${formatDate(other.start)} from ${formatTime(other.start)} to ${formatTime(getSessionEnd(other))}. ` +
+    'Change it, or allow overlapping sessions in Settings.'
+  );
+};
+
+// Unless the user allows overlaps, a session may not overlap any other one
+const assertNoOverlap = async (session: Pick<Session, 'start' | 'stop' | 'durationMs'> & { id?: string }) => {
+  if (allowsOverlaps()) return;
+
+  const earlier = await db.sessions.where('start').below(getSessionEnd(session)).toArray();
+  const [other] = findOverlapping(session, earlier);
+  if (other) throw getOverlapError(other);
+};
+
+// A new session as saved: stamped with the project's billable default, so later changes
+// to it don't rewrite history, and with the active organization
+const toNewSession = (sessionData: Omit<Session, 'id' | 'createdAt'>): Session => {
+  const project = useProjectsStore.getState().projects.find(p => p.id === sessionData.projectId);
+  const organizationId = sessionData.organizationId ?? useAuthStore.getState().activeOrganization;
+  return {
+    ...sessionData,
+    ...(organizationId ? { organizationId } : {}),
+    id: createId(),
+    billable: sessionData.billable ?? isProjectBillable(project),
+    tags: sessionData.tags ?? [],
+    createdAt: Date.now(),
+  };
+};
+
+export interface SessionUpdate {
+  id: string;
+  changes: Partial<Session>;
+}
+
+export interface SessionChanges {
+  update: SessionUpdate[];
+  create: Array<Omit<Session, 'id' | 'createdAt'>>;
+  remove: string[];
+}
 
-// Keep track of the unsubscribe function
-let unsubscribeFromFirestore: Unsubscribe | null = null;
+interface SaveOptions {
+  allowOverlap?: boolean;  // Save even when it overlaps other sessions, e.g. time the timer recorded
+}
+
+/**
+ * Save changes to several sessions in one Dexie transaction and upload them in one
+ * batch, so they apply all together or not at all. Rejects, changing nothing, when a
+ * session is on a signed-off timesheet or, unless allowed, the changed and created
+ * sessions would overlap others. Resolves to the ids of the created sessions.
+ */
+const saveSessionChanges = async ({ update, create, remove }: SessionChanges, options: SaveOptions = {}): Promise<string[]> => {
+  const found = await db.sessions.bulkGet([...update.map(u => u.id), ...remove]);
+  if (found.some(session => !session)) throw new Error('Session not found');
+  const before = found as Session[];
+  const updated = update.map(({ changes }, index) => ({ ...before[index], ...changes }));
+  const removed = before.slice(update.length);
+  const created = create.map(toNewSession);
+
+  const { isSessionLocked } = useTimesheetsStore.getState();
+  if ([...before, ...updated, ...created].some(session => isSessionLocked(session))) {
+    throw new Error(SESSION_LOCKED_ERROR);
+  }
+  if (!options.allowOverlap && !allowsOverlaps()) {
+    const changedById = new Map(updated.map(session => [session.id, session]));
+    const removedIds = new Set(remove);
+    const all = [
+      ...(await db.sessions.toArray()).filter(session => !removedIds.has(session.id)).map(session => changedById.get(session.id) ?? session),
+      ...created,
+    ];
+    for (const session of [...updated, ...created]) {
+      const [other] = findOverlapping(session, all);
+      if (other) throw getOverlapError(other);
+    }
+  }
+
+  await db.transaction('rw', db.sessions, async () => {
+    for (const { id, changes } of update) {
+      await db.sessions.update(id, changes);
+    }
+    await db.sessions.bulkAdd(created);
+    await db.sessions.bulkDelete(remove);
+  });
+  useSessionsStore.getState().loadSessions();
+  new Set([...before, ...updated, ...created].map(session => session.projectId))
+    .forEach(projectId => useBudgetsStore.getState().checkBudget(projectId));
+
+  try {
+    await sessionsSync.pushBatch([...update.map(u => u.id), ...created.map(s => s.id)], removed);
+  } catch (firestoreError) {
+    console.error("Failed to sync session changes to Firestore. They remain saved locally.", firestoreError);
+  }
+  return created.map(session => session.id);
+};
+
+const isTimeChange = (changes: Partial<Session>) => 'start' in changes || 'stop' in changes || 'durationMs' in changes;
 
 // --- Media Session API Integration ---
 
@@ -123,11 +255,29 @@ interface SessionsState {
   loadSessions: (filters?: {
     startDate?: number;
     endDate?: number;
-    projectIds?: number[];
+    projectIds?: string[];
   }) => Promise<void>;
-  createSession: (session: Omit<Session, 'id' | 'createdAt' | 'firestoreId'>) => Promise<void>;
-  updateSession: (id: number, updates: Partial<Session>) => Promise<void>;
-  deleteSession: (id: number) => Promise<void>;
+  // Both reject when the session would overlap another one and the user doesn't allow overlaps,
+  // or when it is on a submitted or approved timesheet.
+  // createSession resolves to the new session's id, or undefined when it couldn't be saved.
+  createSession: (session: Omit<Session, 'id' | 'createdAt'>, options?: SaveOptions) => Promise<string | undefined>;
+  updateSession: (id: string, updates: Partial<Session>, options?: SaveOptions) => Promise<void>;
+  // Both also reject for sessions on a submitted or approved timesheet
+  deleteSession: (id: string) => Promise<void>;  // Also rejects for invoiced sessions
+  // Rejects, changing nothing, when either session is invoiced or locked
+  fixOverlap: (overlap: Overlap, fix: SessionChanges) => Promise<void>;
+  // Both reject, changing nothing, when the sessions can't be split or merged
+  splitSession: (id: string, splitAt: number, projectId?: string) => Promise<string>;
+  mergeSessions: (ids: string[]) => Promise<void>;
+  // Saves the changes in one batch, e.g. to undo a split or merge; resolves to the created ids
+  saveSessionChanges: (changes: SessionChanges, options?: SaveOptions) => Promise<string[]>;
+  // Bulk changes, saved and uploaded together. They reject, changing nothing, when a
+  // session is locked or, unless allowed, would overlap another one.
+  updateSessions: (updates: SessionUpdate[], options?: SaveOptions) => Promise<SessionUpdate[]>;  // Resolves to the updates that undo them
+  deleteSessions: (ids: string[]) => Promise<Session[]>;  // Resolves to the deleted sessions; invoiced ones are kept
+  // Add deleted sessions back, as new sessions since their ids stay deleted. Rejects,
+  // adding none, when one is on a submitted or approved timesheet.
+  restoreSessions: (sessions: Session[]) => Promise<void>;
 
   // Sync actions
   startSync: () => void;
@@ -136,7 +286,8 @@ interface SessionsState {
 
   // Running session management
   loadRunningSession: () => Promise<void>;
-  startSession: (projectId: number, note?: string) => Promise<void>;
+  startSession: (projectId: string, note?: string, tags?: string[]) => Promise<void>;
+  setRunningTags: (tags: string[]) => Promise<void>;
   stopSession: () => Promise<void>;
   discardRunningSession: () => Promise<void>;
   getCurrentElapsed: () => number;
@@ -146,12 +297,12 @@ interface SessionsState {
   continueSession: (session: Session) => Promise<void>;
 
   // Queries
-  getTodaySessions: (projectId?: number) => Session[];
-  getSessionsByDateRange: (start: number, end: number, projectIds?: number[]) => Session[];
+  getTodaySessions: (projectId?: string) => Session[];
+  getSessionsByDateRange: (start: number, end: number, projectIds?: string[]) => Session[];
   getTotalDuration: (sessions: Session[]) => number;
 
   // Bulk operations
-  clearTodaySessions: (projectId: number) => Promise<void>;
+  clearTodaySessions: (projectId: string) => Promise<void>;  // Rejects when a session is on a signed-off timesheet
 }
 
 export const useSessionsStore = create<SessionsState>((set, get) => ({
@@ -162,145 +313,19 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
   isSyncing: false,
 
   startSync: () => {
-    const user = getAuth().currentUser;
-    if (!user || !firestoreDb) {
-      console.log("User not logged in or firestore not available. Skipping sync.");
-      get().loadSessions(); // Load local data for logged-out user
-      return;
-    }
-
-    if (unsubscribeFromFirestore) {
-      console.log("Sync already active.");
-      return;
-    }
-
-    set({ isSyncing: true });
-    console.log("Starting Firestore sync...");
-
-    const sessionsCollection = query(collection(firestoreDb, 'users', user.uid, 'sessions'));
-
-    unsubscribeFromFirestore = onSnapshot(sessionsCollection, async (snapshot) => {
-      set({ isLoading: true });
-      const changes = snapshot.docChanges();
-      const projects = useProjectsStore.getState().projects;
-
-      // Wrap all changes in a single transaction for efficiency and atomicity
-      await db.transaction('rw', db.sessions, async () => {
-        for (const change of changes) {
-          const firestoreSessionData = change.doc.data();
-          const firestoreId = change.doc.id;
-
-          // Find the corresponding local project using the Firestore project ID
-          const localProject = projects.find(p => p.firestoreId === firestoreSessionData.projectId);
-          
-          const existingSessionByFirestoreId = await db.sessions.where('firestoreId').equals(firestoreId).first();
-
-          switch (change.type) {
-            case 'added':
-              if (existingSessionByFirestoreId) continue; // Already exists, do nothing.
-
-              if (localProject?.id) {
-                // Check for a logical duplicate (created offline, not yet linked)
-                const logicalDuplicate = await db.sessions.where({
-                  projectId: localProject.id,
-                  start: firestoreSessionData.start,
-                }).first();
-
-                if (logicalDuplicate?.id) {
-                  // Found an offline session. Link it instead of creating a new one.
-                  console.log(`Sync: Linking local session to Firestore doc ${firestoreId}`);
-                  await db.sessions.update(logicalDuplicate.id, { firestoreId });
-                } else {
-                  // Genuinely new session, add it.
-                  console.log(`Sync: Adding new session from Firestore to Dexie ${firestoreId}`);
-                  await db.sessions.put({
-                    ...firestoreSessionData,
-                    firestoreId,
-                    projectId: localProject.id,
-                  } as Session);
-                }
-              }
-              break;
-            case 'modified':
-              if (existingSessionByFirestoreId?.id && localProject?.id) {
-                console.log(`Sync: Modifying session in Dexie from Firestore ${firestoreId}`);
-                await db.sessions.update(existingSessionByFirestoreId.id, {
-                  ...firestoreSessionData,
-                  projectId: localProject.id,
-                });
-              }
-              break;
-            case 'removed':
-              if (existingSessionByFirestoreId?.id) {
-                console.log(`Sync: Removing session from Dexie via Firestore ${firestoreId}`);
-                await db.sessions.delete(existingSessionByFirestoreId.id);
-              }
-              break;
-          }
-        }
-      });
-
-      // After processing all changes, reload the full session list from Dexie
-      if (changes.length > 0) {
-        console.log("Sync: Changes detected, reloading sessions from Dexie.");
-        await get().loadSessions();
-      }
-      set({ isLoading: false, isSyncing: false });
-
-    }, (error) => {
-      console.error("Error with Firestore snapshot listener:", error);
-      set({ error: "Failed to sync sessions.", isSyncing: false, isLoading: false });
-    });
+    sessionsSync.start();
+    set({ isSyncing: !!getAuth().currentUser });
   },
 
   stopSync: () => {
-    if (unsubscribeFromFirestore) {
-      console.log("Stopping Firestore sync.");
-      unsubscribeFromFirestore();
-      unsubscribeFromFirestore = null;
-      set({ isSyncing: false });
-    }
+    sessionsSync.stop();
+    set({ isSyncing: false });
   },
 
   reconcileSessions: async () => {
-    const user = getAuth().currentUser;
-    if (!user || !firestoreDb) return;
-
     try {
-      const unsyncedSessions = await db.sessions.filter(s => !s.firestoreId).toArray();
-      if (unsyncedSessions.length === 0) return;
-
-      const projects = useProjectsStore.getState().projects;
-
-      for (const session of unsyncedSessions) {
-        const project = projects.find(p => p.id === session.projectId);
-
-        if (project?.firestoreId) {
-          const sessionForFirestore = {
-            projectId: project.firestoreId,
-            start: session.start,
-            stop: session.stop,
-            durationMs: session.durationMs,
-            note: session.note,
-            createdAt: session.createdAt,
-          };
-
-          try {
-            const docRef = await addDoc(
-              collection(firestoreDb, 'users', user.uid, 'sessions'),
-              sessionForFirestore
-            );
-
-            if (session.id) {
-              await db.sessions.update(session.id, { firestoreId: docRef.id });
-            }
-          } catch (error) {
-            console.error(`Failed to upload session ${session.id}:`, error);
-          }
-        }
-      }
-
-      await get().loadSessions();
+      await claimOrganizationSessions();
+      await sessionsSync.reconcile();
     } catch (error) {
       console.error("Session reconciliation failed:", error);
     }
@@ -331,55 +356,46 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
     }
   },
   
-  createSession: async (sessionData) => {
+  createSession: async (sessionData, options = {}) => {
+    if (isNewSessionLocked(sessionData)) throw new Error(SESSION_LOCKED_ERROR);
+    if (!options.allowOverlap) {
+      await assertNoOverlap(sessionData);
+    }
     try {
-      const user = getAuth().currentUser;
-
       // 1. Create the session object for Dexie.
-      const newSessionForDexie: Omit<Session, 'id' | 'firestoreId'> = {
-        ...sessionData,
-        createdAt: Date.now(),
-      };
+      const newSession = toNewSession(sessionData);
 
       // 2. ALWAYS save to Dexie first. This guarantees data is not lost.
-      const newDexieId = await db.sessions.add(newSessionForDexie as Session);
-      
+      await db.sessions.add(newSession);
+
       // 3. Eagerly update the UI with the local data.
       get().loadSessions();
+      useBudgetsStore.getState().checkBudget(sessionData.projectId);
 
-      // 4. If online and logged in, attempt to sync to Firestore.
-      if (user && firestoreDb && navigator.onLine) {
-        const projects = useProjectsStore.getState().projects;
-        const project = projects.find(p => p.id === sessionData.projectId);
-
-        if (project?.firestoreId) {
-          const newSessionForFirestore = {
-            ...newSessionForDexie,
-            projectId: project.firestoreId, // Use the string ID for Firestore
-          };
-
-          try {
-            const docRef = await addDoc(collection(firestoreDb, 'users', user.uid, 'sessions'), newSessionForFirestore);
-            // 5. If successful, update the local record with the firestoreId to link them.
-            await db.sessions.update(newDexieId, { firestoreId: docRef.id });
-            // The onSnapshot listener will handle the UI update for the linked record, so no need to call loadSessions() again.
-          } catch (firestoreError) {
-            console.error('Failed to sync new session to Firestore. It remains saved locally.', firestoreError);
-            // The session is already saved locally, so no data is lost.
-            // A background sync process or the next app load can sync it later.
-          }
-        } else {
-           console.error(`Project with Dexie ID ${sessionData.projectId} does not have a Firestore ID. Cannot save session to Firestore.`);
-        }
+      // 4. Upload when online; otherwise reconcile picks it up on the next start.
+      try {
+        await sessionsSync.push(newSession.id);
+      } catch (firestoreError) {
+        console.error('Failed to sync new session to Firestore. It remains saved locally.', firestoreError);
       }
+      return newSession.id;
     } catch (error) {
       set({ error: (error as Error).message });
+      return undefined;
     }
   },
 
-  updateSession: async (id, updates) => {
+  updateSession: async (id, updates, options = {}) => {
+    const session = await db.sessions.get(id);
+    // Neither edit a signed-off week nor move a session into one
+    const { isSessionLocked } = useTimesheetsStore.getState();
+    if (session && (isSessionLocked(session) || isSessionLocked({ ...session, ...updates }))) {
+      throw new Error(SESSION_LOCKED_ERROR);
+    }
+    if (session && !options.allowOverlap && isTimeChange(updates)) {
+      await assertNoOverlap({ ...session, ...updates });
+    }
     try {
-      const session = await db.sessions.get(id);
       if (session && updates.durationMs === undefined) {
         const start = updates.start ?? session.start;
         const stop = updates.stop ?? session.stop;
@@ -389,30 +405,14 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
       }
       await db.sessions.update(id, updates);
       get().loadSessions();
+      if (session) {
+        useBudgetsStore.getState().checkBudget(updates.projectId ?? session.projectId);
+      }
 
-      // Then, update Firestore
-      const updatedSession = await db.sessions.get(id);
-      const user = getAuth().currentUser;
-      if (user && firestoreDb && updatedSession?.firestoreId) {
-        const firestoreUpdates: { [key: string]: any } = { ...updates };
-
-        if (updates.projectId !== undefined) {
-          const projects = useProjectsStore.getState().projects;
-          const project = projects.find(p => p.id === updates.projectId);
-          if (!project?.firestoreId) {
-            throw new Error(`Cannot update session: Project with Dexie ID ${updates.projectId} has no Firestore ID.`);
-          }
-          firestoreUpdates.projectId = project.firestoreId;
-        }
-
-        try {
-            const sessionDocRef = doc(firestoreDb, 'users', user.uid, 'sessions', updatedSession.firestoreId);
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            const { id: localId, firestoreId, ...finalUpdates } = { ...updatedSession, ...firestoreUpdates };
-            await updateDoc(sessionDocRef, finalUpdates);
-        } catch (firestoreError) {
-          console.error("Error updating session in Firestore:", firestoreError);
-        }
+      try {
+        await sessionsSync.push(id);
+      } catch (firestoreError) {
+        console.error("Error updating session in Firestore:", firestoreError);
       }
     } catch (error) {
       set({ error: (error as Error).message });
@@ -420,27 +420,149 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
   },
 
   deleteSession: async (id) => {
+    const sessionToDelete = await db.sessions.get(id);
+    if (!sessionToDelete) return;
+    if (useTimesheetsStore.getState().isSessionLocked(sessionToDelete)) {
+      throw new Error(SESSION_LOCKED_ERROR);
+    }
+    if (sessionToDelete.invoiceNumber) throw new Error(SESSION_INVOICED_ERROR);
     try {
-      const sessionToDelete = await db.sessions.get(id);
-      if (!sessionToDelete) return;
-
       await db.sessions.delete(id);
       get().loadSessions();
 
-      const user = getAuth().currentUser;
-      if (user && firestoreDb && sessionToDelete.firestoreId) {
-        try {
-            const sessionDocRef = doc(firestoreDb, 'users', user.uid, 'sessions', sessionToDelete.firestoreId);
-            await deleteDoc(sessionDocRef);
-        } catch (firestoreError) {
-          console.error("Error deleting session from Firestore:", firestoreError);
-        }
+      try {
+        await sessionsSync.remove(sessionToDelete);
+      } catch (firestoreError) {
+        console.error("Error deleting session from Firestore:", firestoreError);
       }
     } catch (error) {
       set({ error: (error as Error).message });
     }
   },
 
+  fixOverlap: async (overlap, fix) => {
+    const problem = getFixProblem(overlap, useTimesheetsStore.getState().timesheets);
+    if (problem) throw new Error(problem);
+    // Fixes only rearrange time that is already there, so they may touch other sessions
+    await saveSessionChanges(fix, { allowOverlap: true });
+  },
+
+  splitSession: async (id, splitAt, projectId) => {
+    const session = await db.sessions.get(id);
+    if (!session) throw new Error('Session not found');
+    const problem = getSplitProblem(session, useTimesheetsStore.getState().timesheets);
+    if (problem) throw new Error(problem);
+    const { first, second } = planSplit(session, splitAt, projectId);
+
+    // The parts cover the same time as the session did, so overlaps aren't checked
+    const [newId] = await saveSessionChanges({ update: [{ id, changes: first }], create: [second], remove: [] }, { allowOverlap: true });
+    return newId;
+  },
+
+  mergeSessions: async (ids) => {
+    const selected = (await db.sessions.bulkGet(ids)).filter((s): s is Session => !!s);
+    if (selected.length !== ids.length) throw new Error('Session not found');
+    const problem = getMergeProblem(
+      selected,
+      await db.sessions.toArray(),
+      useTimesheetsStore.getState().timesheets,
+      useProjectsStore.getState().projects
+    );
+    if (problem) throw new Error(problem);
+
+    const { keep, changes, remove } = planMerge(selected);
+    await saveSessionChanges({ update: [{ id: keep, changes }], create: [], remove }, { allowOverlap: true });
+  },
+
+  saveSessionChanges,
+
+  updateSessions: async (updates, options = {}) => {
+    const found = await db.sessions.bulkGet(updates.map(update => update.id));
+    if (found.some(session => !session)) throw new Error('Session not found');
+    const before = found as Session[];
+    const after = updates.map(({ changes }, index) => ({ ...before[index], ...changes }));
+
+    const { isSessionLocked } = useTimesheetsStore.getState();
+    if (before.some((session, index) => isSessionLocked(session) || isSessionLocked(after[index]))) {
+      throw new Error(SESSION_LOCKED_ERROR);
+    }
+    if (!options.allowOverlap && updates.some(({ changes }) => isTimeChange(changes)) && !allowsOverlaps()) {
+      const changedById = new Map(after.map(session => [session.id, session]));
+      const all = (await db.sessions.toArray()).map(session => changedById.get(session.id) ?? session);
+      for (const session of after) {
+        const [other] = findOverlapping(session, all);
+        if (other) throw getOverlapError(other);
+      }
+    }
+
+    const undo = updates.map(({ id, changes }, index) => ({
+      id,
+      changes: Object.fromEntries(Object.keys(changes).map(key => [key, before[index][key as keyof Session]])) as Partial<Session>,
+    }));
+
+    await db.transaction('rw', db.sessions, async () => {
+      for (const { id, changes } of updates) {
+        await db.sessions.update(id, changes);
+      }
+    });
+    get().loadSessions();
+    new Set([...before, ...after].map(session => session.projectId))
+      .forEach(projectId => useBudgetsStore.getState().checkBudget(projectId));
+
+    try {
+      await sessionsSync.pushBatch(updates.map(update => update.id));
+    } catch (firestoreError) {
+      console.error("Error updating sessions in Firestore:", firestoreError);
+    }
+    return undo;
+  },
+
+  deleteSessions: async (ids) => {
+    const found = await db.sessions.bulkGet(ids);
+    // Billed time goes only by voiding its invoice, as in every other bulk edit
+    const sessionsToDelete = found.filter((session): session is Session => !!session && !session.invoiceNumber);
+    const { isSessionLocked } = useTimesheetsStore.getState();
+    if (sessionsToDelete.some(session => isSessionLocked(session))) {
+      throw new Error(SESSION_LOCKED_ERROR);
+    }
+
+    await db.sessions.bulkDelete(sessionsToDelete.map(session => session.id));
+    get().loadSessions();
+
+    try {
+      await sessionsSync.pushBatch([], sessionsToDelete);
+    } catch (firestoreError) {
+      console.error("Error deleting sessions from Firestore:", firestoreError);
+    }
+    return sessionsToDelete;
+  },
+
+  restoreSessions: async (sessions) => {
+    if (sessions.some(isNewSessionLocked)) throw new Error(SESSION_LOCKED_ERROR);
+    const restored: Session[] = sessions.map(session => ({
+      id: createId(),
+      projectId: session.projectId,
+      start: session.start,
+      stop: session.stop,
+      durationMs: session.durationMs,
+      note: session.note,
+      billable: session.billable,
+      tags: session.tags ?? [],
+      ...(session.invoiceNumber ? { invoiceNumber: session.invoiceNumber } : {}),
+      ...(session.organizationId ? { organizationId: session.organizationId } : {}),
+      createdAt: Date.now(),
+    }));
+
+    await db.sessions.bulkAdd(restored);
+    get().loadSessions();
+
+    try {
+      await sessionsSync.pushBatch(restored.map(session => session.id));
+    } catch (firestoreError) {
+      console.error("Failed to sync restored sessions to Firestore. They remain saved locally.", firestoreError);
+    }
+  },
+
   loadRunningSession: async () => {
     try {
       const running = await db.runningSession.toCollection().first();
@@ -450,7 +572,7 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
     }
   },
 
-  startSession: async (projectId, note) => {
+  startSession: async (projectId, note, tags = []) => {
     try {
       audioManager.play();
   
@@ -465,6 +587,7 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
         projectId,
         startTs: now,
         note,
+        tags,
         isPaused: false,
         pauseStartTime: null,
         totalPausedTime: 0,
@@ -483,10 +606,10 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
       if (user && firestoreDb) {
         const projects = useProjectsStore.getState().projects;
         const project = projects.find(p => p.id === projectId);
-        if (project?.firestoreId) {
+        if (project) {
           const runningSessionDocRef = doc(firestoreDb, 'users', user.uid, 'status', 'runningSession');
           await setDoc(runningSessionDocRef, {
-            projectId: project.firestoreId,
+            projectId: project.id,
             projectName: project.name,
             startTs: newRunningSession.startTs,
             note: newRunningSession.note || ''
@@ -499,6 +622,14 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
     }
   },
 
+  setRunningTags: async (tags) => {
+    const running = get().runningSession;
+    if (!running?.id) return;
+
+    await db.runningSession.update(running.id, { tags });
+    set({ runningSession: { ...running, tags } });
+  },
+
   discardRunningSession: async () => {
     try {
       await db.runningSession.clear();
@@ -521,8 +652,10 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
   },
 
   stopSession: async () => {
+    const running = get().runningSession;
+    // Checked before anything changes: errors below are only recorded, and the time would be lost
+    if (running && isNewSessionLocked({ start: running.startTs })) throw new Error(TIMER_LOCKED_ERROR);
     try {
-      const running = get().runningSession;
       if (!running) {
         throw new Error('No running session found');
       }
@@ -534,24 +667,29 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
       }
       const currentTimerDuration = (now - running.startTs) - totalPaused;
       const finalDuration = running.baseDuration + currentTimerDuration;
+      const continued = running.continuedFromSessionId ? await db.sessions.get(running.continuedFromSessionId) : undefined;
   
-      // If this was a continued session, update the original session
-      if (running.continuedFromSessionId) {
-        await get().updateSession(running.continuedFromSessionId, {
+      // If this was a continued session, update the original session, unless it is on a
+      // signed-off week by now: then the timer's own time becomes a session of its own.
+      // The timer's time is kept even when it overlaps; the overlaps report shows it.
+      if (continued && !useTimesheetsStore.getState().isSessionLocked(continued)) {
+        await get().updateSession(continued.id, {
           stop: now,
           durationMs: finalDuration,
           note: running.note, // Carry over the latest note
+          tags: running.tags ?? [],
           projectId: running.projectId
-        });
+        }, { allowOverlap: true });
       } else {
         // Otherwise, create a new session
         await get().createSession({
           projectId: running.projectId,
           start: running.startTs,
           stop: now,
-          durationMs: finalDuration,
+          durationMs: running.continuedFromSessionId ? currentTimerDuration : finalDuration,
           note: running.note,
-        });
+          tags: running.tags ?? [],
+        }, { allowOverlap: true });
       }
   
       await db.runningSession.clear();
@@ -584,11 +722,12 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
         projectId: sessionToContinue.projectId,
         startTs: now,
         note: sessionToContinue.note,
+        tags: sessionToContinue.tags ?? [],
         isPaused: false,
         pauseStartTime: null,
         totalPausedTime: 0,
         baseDuration: sessionToContinue.durationMs,
-        continuedFromSessionId: sessionToContinue.id!,
+        continuedFromSessionId: sessionToContinue.id,
       };
 
       await db.runningSession.clear();
@@ -688,31 +827,23 @@ export const useSessionsStore = create<SessionsState>((set, get) => ({
   },
 
   clearTodaySessions: async (projectId) => {
-    try {
-      const today = startOfDay(Date.now());
-      const tomorrow = endOfDay(Date.now());
+    const sessionsToDelete = await db.sessions
+      .where('start')
+      .between(startOfDay(Date.now()), endOfDay(Date.now()))
+      .and(s => s.projectId === projectId)
+      .toArray();
+    const { isSessionLocked } = useTimesheetsStore.getState();
+    if (sessionsToDelete.some(session => isSessionLocked(session))) {
+      throw new Error(SESSION_LOCKED_ERROR);
+    }
 
-      const sessionsToDelete = await db.sessions
-        .where('start')
-        .between(today, tomorrow)
-        .and(s => s.projectId === projectId)
-        .toArray();
+    try {
+      const ids = sessionsToDelete.map(s => s.id);
+      await db.sessions.bulkDelete(ids);
+      get().loadSessions();
 
-      const user = getAuth().currentUser;
-      const firestoreDBInstance = firestoreDb;
-      if (user && firestoreDBInstance) {
-        const batch = writeBatch(firestoreDBInstance);
-        sessionsToDelete.forEach(session => {
-          if (session.firestoreId) {
-            const docRef = doc(firestoreDBInstance, 'users', user.uid, 'sessions', session.firestoreId);
-            batch.delete(docRef);
-          }
-        });
-        await batch.commit();
-      } else {
-        const ids = sessionsToDelete.map(s => s.id!).filter(Boolean);
-        await db.sessions.bulkDelete(ids);
-        get().loadSessions();
+      for (const session of sessionsToDelete) {
+        await sessionsSync.remove(session);
       }
     } catch (error) {
       set({ error: (error as Error).message });
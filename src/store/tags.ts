@@ -0,0 +1,121 @@
+import { create } from 'zustand';
+import { db, type Tag } from '../db/dexie';
+import { getAuth } from 'firebase/auth';
+import { useUIStore } from './ui';
+import { useSessionsStore } from './sessions';
+import { useTimesheetsStore } from './timesheets';
+import { defineSync, type SyncHandle } from '../services/syncEngine';
+import { mergeTags, toTagKey } from '../utils/tags';
+import { createId } from '../utils/ids';
+
+export type { Tag };
+
+const tagsSync: SyncHandle<Tag> = defineSync<Tag>({
+  collection: 'tags',
+  table: db.tags,
+  localOnlyFields: ['builtIn'],
+  onChange: () => useTagsStore.getState().loadTags(),
+  onError: () => useTagsStore.setState({ error: "Failed to sync.", isSyncing: false }),
+});
+
+interface TagsState {
+  tags: Tag[];  // Built-in tags followed by the user's own
+  isLoading: boolean;
+  error: string | null;
+  isSyncing: boolean;
+  loadTags: () => Promise<void>;
+  // Returns the new tag, or undefined when the name is empty or already taken
+  createTag: (name: string, color: string) => Promise<Tag | undefined>;
+  updateTag: (id: string, updates: Pick<Tag, 'name' | 'color'>) => Promise<void>;
+  // Also removes the tag from every session that has it
+  deleteTag: (id: string) => Promise<void>;
+  startSync: () => void;
+  stopSync: () => void;
+  reconcileTags: () => Promise<void>;
+}
+
+export const useTagsStore = create<TagsState>((set, get) => ({
+  tags: mergeTags([]),
+  isLoading: true,
+  error: null,
+  isSyncing: false,
+
+  startSync: () => {
+    tagsSync.start();
+    set({ isSyncing: !!getAuth().currentUser });
+  },
+
+  stopSync: () => {
+    tagsSync.stop();
+    set({ isSyncing: false });
+  },
+
+  loadTags: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userTags = await db.tags.orderBy('name').toArray();
+      set({ tags: mergeTags(userTags), isLoading: false });
+    } catch (e) {
+      console.error("Failed to load tags:", e);
+      set({ error: "Failed to load tags.", isLoading: false });
+    }
+  },
+
+  createTag: async (name, color) => {
+    const { showToast } = useUIStore.getState();
+
+    const key = toTagKey(name);
+    if (!key) {
+      showToast('Tag name is required', 'error');
+      return undefined;
+    }
+    if (get().tags.some(t => t.key === key)) {
+      showToast(`A tag named "${name.trim()}" already exists`, 'error');
+      return undefined;
+    }
+
+    const newTag: Tag = { id: createId(), key, name: name.trim(), color, createdAt: Date.now() };
+    try {
+      await db.tags.add(newTag);
+      await get().loadTags();
+
+      try {
+        await tagsSync.push(newTag.id);
+      } catch (firestoreError) {
+        console.error("Firestore sync failed:", firestoreError);
+        showToast('Tag saved locally, but failed to sync.', 'error');
+      }
+      return newTag;
+    } catch (error) {
+      console.error("Failed to create tag:", error);
+      showToast('Failed to add tag', 'error');
+      return undefined;
+    }
+  },
+
+  updateTag: async (id, updates) => {
+    // The key stays the same so sessions keep their tag after a rename
+    await db.tags.update(id, updates);
+    await get().loadTags();
+    await tagsSync.push(id);
+  },
+
+  deleteTag: async (id) => {
+    const tagToDelete = await db.tags.get(id);
+    if (!tagToDelete) return;
+
+    const taggedSessions = await db.sessions.where('tags').equals(tagToDelete.key).toArray();
+    const { updateSession } = useSessionsStore.getState();
+    // Sessions on a signed-off timesheet keep the tag
+    const { isSessionLocked } = useTimesheetsStore.getState();
+    for (const session of taggedSessions.filter(s => !isSessionLocked(s))) {
+      await updateSession(session.id, { tags: session.tags!.filter(t => t !== tagToDelete.key) });
+    }
+
+    await db.tags.delete(id);
+    await get().loadTags();
+    await tagsSync.remove(tagToDelete);
+  },
+
+  reconcileTags: () => tagsSync.reconcile(),
+}));
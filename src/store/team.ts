@@ -0,0 +1,60 @@
+import { create } from 'zustand';
+import { db, Session } from '../db/dexie';
+import { getMemberSessions } from '../services/organizationService';
+import { useAuthStore } from './auth';
+import { useOrganizationStore } from './organization';
+
+// Only the latest request may set state when the range changes while loading
+let latestRequest = 0;
+
+interface TeamState {
+  orgId: string | null;  // Organization the sessions belong to
+  memberSessions: Record<string, Session[]>;  // By member user ID
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadTeamSessions: (start: number, end: number) => Promise<void>;
+  clearTeamSessions: () => void;
+}
+
+export const useTeamStore = create<TeamState>((set, get) => ({
+  orgId: null,
+  memberSessions: {},
+  isLoading: false,
+  error: null,
+
+  loadTeamSessions: async (start, end) => {
+    const user = useAuthStore.getState().user;
+    const { organization } = useOrganizationStore.getState();
+    const orgId = organization?.firestoreId;
+    if (!user || !orgId) {
+      set({ orgId: null, memberSessions: {}, isLoading: false });
+      return;
+    }
+
+    const request = ++latestRequest;
+    // Never show another organization's sessions while switching
+    set({ isLoading: true, error: null, ...(get().orgId !== orgId ? { orgId, memberSessions: {} } : {}) });
+    try {
+      const entries = await Promise.all(Object.keys(organization.members || {}).map(async (userId) => {
+        // Our own sessions are on this device, including ones not uploaded yet
+        const sessions = userId === user.uid
+          ? await db.sessions.where('start').between(start, end, true, true).filter(s => s.organizationId === orgId).toArray()
+          : await getMemberSessions(orgId, userId, start, end);
+        return [userId, sessions] as const;
+      }));
+      if (request !== latestRequest) return;
+      set({ memberSessions: Object.fromEntries(entries), isLoading: false });
+    } catch (error) {
+      if (request !== latestRequest) return;
+      console.error('Error loading team sessions:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  clearTeamSessions: () => {
+    latestRequest++;
+    set({ orgId: null, memberSessions: {}, isLoading: false, error: null });
+  }
+}));
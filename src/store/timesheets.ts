@@ -0,0 +1,196 @@
+import { create } from 'zustand';
+import { Unsubscribe } from 'firebase/firestore';
+import { db, OrganizationRole, Session, Timesheet } from '../db/dexie';
+import {
+  saveTimesheet,
+  reviewTimesheet,
+  subscribeToMyTimesheets,
+  subscribeToSubmittedTimesheets
+} from '../services/organizationService';
+import { flushOutboxNow } from '../services/syncEngine';
+import { useAuthStore } from './auth';
+import { can } from '../utils/permissions';
+import { canSubmit, getTimesheetId, getWeekRange, isSessionLocked } from '../utils/timesheets';
+
+let unsubscribeFromMine: Unsubscribe | null = null;
+let unsubscribeFromQueue: Unsubscribe | null = null;
+
+interface TimesheetsState {
+  orgId: string | null;  // Organization the timesheets belong to
+  timesheets: Timesheet[];  // The signed-in member's own, also kept on this device
+  queue: Timesheet[];  // Submitted timesheets waiting for approval, for owners and admins
+  error: string | null;
+
+  // Actions
+  loadTimesheets: () => Promise<void>;
+  startTimesheetSync: (orgId: string, role: OrganizationRole | undefined) => void;
+  stopTimesheetSync: () => void;
+  isSessionLocked: (session: Pick<Session, 'start' | 'organizationId'>) => boolean;
+  submitTimesheet: (weekStart: string) => Promise<void>;
+  recallTimesheet: (weekStart: string) => Promise<void>;
+  approveTimesheet: (timesheet: Timesheet) => Promise<void>;
+  rejectTimesheet: (timesheet: Timesheet, comment: string) => Promise<void>;
+}
+
+// A fresh timesheet doc without any review; Firestore rejects undefined fields
+function newTimesheet(orgId: string, user: { uid: string; email: string | null }, weekStart: string, sessions: Session[]): Timesheet {
+  return {
+    id: getTimesheetId(user.uid, weekStart),
+    orgId,
+    userId: user.uid,
+    ...(user.email ? { userEmail: user.email.toLowerCase() } : {}),
+    weekStart,
+    status: 'draft',
+    totalMs: sessions.reduce((total, session) => total + session.durationMs, 0),
+    sessionCount: sessions.length,
+    updatedAt: Date.now(),
+  };
+}
+
+async function storeTimesheet(timesheet: Timesheet) {
+  await db.timesheets.put(timesheet);
+  useTimesheetsStore.setState(state => ({
+    timesheets: [...state.timesheets.filter(t => t.id !== timesheet.id), timesheet]
+  }));
+}
+
+export const useTimesheetsStore = create<TimesheetsState>((set, get) => ({
+  orgId: null,
+  timesheets: [],
+  queue: [],
+  error: null,
+
+  loadTimesheets: async () => {
+    const user = useAuthStore.getState().user;
+    const orgId = useAuthStore.getState().activeOrganization;
+    if (!user || !orgId) {
+      set({ orgId: null, timesheets: [] });
+      return;
+    }
+    try {
+      const timesheets = await db.timesheets
+        .where('orgId').equals(orgId)
+        .filter(t => t.userId === user.uid)
+        .toArray();
+      set({ orgId, timesheets });
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+
+  startTimesheetSync: (orgId, role) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return;
+    if (get().orgId !== orgId) {
+      get().stopTimesheetSync();
+    }
+
+    if (!unsubscribeFromMine) {
+      set({ orgId });
+      get().loadTimesheets();
+      unsubscribeFromMine = subscribeToMyTimesheets(
+        orgId,
+        user.uid,
+        async (timesheets) => {
+          await db.transaction('rw', db.timesheets, async () => {
+            await db.timesheets.where('orgId').equals(orgId).delete();
+            await db.timesheets.bulkPut(timesheets);
+          });
+          set({ timesheets });
+        },
+        (error) => {
+          console.error('Error with Firestore timesheets snapshot listener:', error);
+          set({ error: 'Failed to sync timesheets' });
+        }
+      );
+    }
+
+    // Only owners and admins approve timesheets; follows changes to our own role
+    const approves = role !== undefined && can(role, 'approveTimesheets');
+    if (approves && !unsubscribeFromQueue) {
+      unsubscribeFromQueue = subscribeToSubmittedTimesheets(
+        orgId,
+        (queue) => set({ queue: queue.sort((a, b) => (a.submittedAt ?? 0) - (b.submittedAt ?? 0)) }),
+        (error) => console.error('Error with Firestore timesheet queue snapshot listener:', error)
+      );
+    } else if (!approves && unsubscribeFromQueue) {
+      unsubscribeFromQueue();
+      unsubscribeFromQueue = null;
+      set({ queue: [] });
+    }
+  },
+
+  stopTimesheetSync: () => {
+    if (unsubscribeFromMine) {
+      unsubscribeFromMine();
+      unsubscribeFromMine = null;
+    }
+    if (unsubscribeFromQueue) {
+      unsubscribeFromQueue();
+      unsubscribeFromQueue = null;
+    }
+    set({ orgId: null, timesheets: [], queue: [], error: null });
+  },
+
+  isSessionLocked: (session) => isSessionLocked(session, get().timesheets),
+
+  submitTimesheet: async (weekStart) => {
+    const user = useAuthStore.getState().user;
+    const orgId = get().orgId;
+    if (!user || !orgId) {
+      throw new Error('Timesheets are only kept in an organization');
+    }
+    const existing = get().timesheets.find(t => t.weekStart === weekStart);
+    if (!canSubmit(existing?.status)) {
+      throw new Error('This week has already been submitted');
+    }
+
+    // Reviewers look at the uploaded sessions, so upload the week first
+    await flushOutboxNow();
+    const { start, end } = getWeekRange(weekStart);
+    const sessions = await db.sessions
+      .where('start').between(start, end, true, true)
+      .filter(s => s.organizationId === orgId)
+      .toArray();
+
+    const timesheet: Timesheet = {
+      ...newTimesheet(orgId, user, weekStart, sessions),
+      status: 'submitted',
+      submittedAt: Date.now(),
+    };
+    await saveTimesheet(timesheet);
+    await storeTimesheet(timesheet);
+  },
+
+  recallTimesheet: async (weekStart) => {
+    const user = useAuthStore.getState().user;
+    const orgId = get().orgId;
+    const existing = get().timesheets.find(t => t.weekStart === weekStart);
+    if (!user || !orgId || existing?.status !== 'submitted') {
+      throw new Error('Only a submitted timesheet can be recalled');
+    }
+
+    const timesheet: Timesheet = {
+      ...newTimesheet(orgId, user, weekStart, []),
+      totalMs: existing.totalMs,
+      sessionCount: existing.sessionCount,
+    };
+    await saveTimesheet(timesheet);
+    await storeTimesheet(timesheet);
+  },
+
+  approveTimesheet: async (timesheet) => {
+    const user = useAuthStore.getState().user;
+    if (!user) throw new Error('User not logged in');
+    await reviewTimesheet(timesheet.orgId, timesheet.id, 'approved', user);
+  },
+
+  rejectTimesheet: async (timesheet, comment) => {
+    const user = useAuthStore.getState().user;
+    if (!user) throw new Error('User not logged in');
+    if (!comment.trim()) {
+      throw new Error('Please say why the timesheet is rejected');
+    }
+    await reviewTimesheet(timesheet.orgId, timesheet.id, 'rejected', user, comment);
+  }
+}));
@@ -24,7 +24,7 @@ interface UIState {
     requireText?: string  // Optional: text that must be typed to enable confirm button
   } | null
   toasts: ToastState[]
-  currentProjectId: number | null
+  currentProjectId: string | null
   theme: 'light' | 'dark'
   openProjectManager: () => void
   closeProjectManager: () => void
@@ -36,7 +36,7 @@ interface UIState {
   hideConfirm: () => void
   showToast: (message: string, type?: 'success' | 'error' | 'info', action?: { label: string; onClick: () => void }) => void
   removeToast: (id: string) => void
-  setCurrentProject: (projectId: number | null) => void
+  setCurrentProject: (projectId: string | null) => void
   setTheme: (theme: 'light' | 'dark') => void
 }
 
@@ -96,7 +96,7 @@ const toast: ToastState = { id, message, type, action };
 },
   
   // FIX: Added the parameter types back
-    setCurrentProject: (projectId: number | null) => {
+    setCurrentProject: (projectId: string | null) => {
     set({ currentProjectId: projectId });
       if (projectId) {
         db.settings.toCollection().first().then(settings => {
@@ -0,0 +1,47 @@
+// src/utils/billable.ts
+
+import { Project, Session } from '../db/dexie';
+
+export interface BillableSummary {
+  billableMs: number
+  nonBillableMs: number
+  utilization: number  // Billable share of all tracked time, 0-100
+}
+
+// Projects are billable unless they have been explicitly marked otherwise
+export function isProjectBillable(project: Pick<Project, 'billable'> | undefined): boolean {
+  return project?.billable ?? true;
+}
+
+// A session's own flag wins; older sessions without one follow their project's default
+export function isSessionBillable(session: Pick<Session, 'billable' | 'projectId'>, projects: Project[]): boolean {
+  if (session.billable !== undefined) return session.billable;
+  const project = projects.find(p => p.id === session.projectId);
+  return isProjectBillable(project);
+}
+
+// Keep only the sessions that count as billable time
+export function filterBillableSessions<T extends Pick<Session, 'billable' | 'projectId'>>(sessions: T[], projects: Project[]): T[] {
+  return sessions.filter(s => isSessionBillable(s, projects));
+}
+
+// Split tracked time into billable and non-billable and work out utilization
+export function getBillableSummary(sessions: Session[], projects: Project[]): BillableSummary {
+  let billableMs = 0;
+  let nonBillableMs = 0;
+
+  sessions.forEach(session => {
+    if (isSessionBillable(session, projects)) {
+      billableMs += session.durationMs;
+    } else {
+      nonBillableMs += session.durationMs;
+    }
+  });
+
+  const totalMs = billableMs + nonBillableMs;
+  return {
+    billableMs,
+    nonBillableMs,
+    utilization: totalMs > 0 ? (billableMs / totalMs) * 100 : 0,
+  };
+}
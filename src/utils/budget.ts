@@ -0,0 +1,154 @@
+// src/utils/budget.ts
+
+import dayjs from 'dayjs';
+import { Customer, Project, ProjectBudget, Session } from '../db/dexie';
+import { isSessionBillable } from './billable';
+import { isTravelSession } from './invoice';
+import { formatDate } from './time';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+// Percentages of budget at which the user is alerted
+export const BUDGET_THRESHOLDS = [80, 100];
+
+export interface BudgetPeriod {
+  start: number
+  end: number | null  // null for budgets that never reset
+  key: string  // "YYYY-MM" for monthly budgets, "total" otherwise
+}
+
+export interface BudgetUsage {
+  hoursUsed: number
+  amountUsed: number
+  hoursBudget?: number
+  amountBudget?: number
+  percent: number  // The larger of hours and money usage, 0-100+
+  period: BudgetPeriod
+}
+
+export interface BurnDownData {
+  labels: string[]
+  remaining: number[]
+  ideal: number[]
+  unit: 'hours' | 'amount'
+}
+
+// A budget only counts when it has an hours or money limit
+export function hasBudget(budget: ProjectBudget | undefined): budget is ProjectBudget {
+  return !!budget && ((budget.hours ?? 0) > 0 || (budget.amount ?? 0) > 0);
+}
+
+// The window of time the budget covers: the current calendar month, or all time
+export function getBudgetPeriod(budget: ProjectBudget, now: number = Date.now()): BudgetPeriod {
+  if (budget.resetMonthly) {
+    return {
+      start: dayjs(now).startOf('month').valueOf(),
+      end: dayjs(now).endOf('month').valueOf(),
+      key: dayjs(now).format('YYYY-MM'),
+    };
+  }
+  return { start: 0, end: null, key: 'total' };
+}
+
+// Money value of a session at the customer's rates; non-billable time costs nothing
+function getSessionAmount(session: Session, projects: Project[], customer: Customer | undefined): number {
+  if (!customer || !isSessionBillable(session, projects)) return 0;
+  const rate = isTravelSession(session) ? customer.travelRate ?? customer.standardRate : customer.standardRate;
+  return (session.durationMs / MS_PER_HOUR) * rate;
+}
+
+// Hours and money spent against a project's budget in the current period.
+// runningMs adds time from a timer that has not been saved yet.
+export function getBudgetUsage(
+  project: Project,
+  sessions: Session[],
+  customer: Customer | undefined,
+  runningMs: number = 0,
+  now: number = Date.now()
+): BudgetUsage | null {
+  if (!hasBudget(project.budget)) return null;
+
+  const period = getBudgetPeriod(project.budget, now);
+  const periodSessions = sessions.filter(s => s.projectId === project.id && s.start >= period.start);
+  const running: Session[] = runningMs > 0
+    ? [{ id: 'running', projectId: project.id, start: now, stop: null, durationMs: runningMs, createdAt: now }]
+    : [];
+
+  const counted = [...periodSessions, ...running];
+  const hoursUsed = counted.reduce((total, s) => total + s.durationMs, 0) / MS_PER_HOUR;
+  const amountUsed = counted.reduce((total, s) => total + getSessionAmount(s, [project], customer), 0);
+
+  const { hours: hoursBudget, amount: amountBudget } = project.budget;
+  const ratios = [
+    hoursBudget ? hoursUsed / hoursBudget : 0,
+    amountBudget ? amountUsed / amountBudget : 0,
+  ];
+
+  return {
+    hoursUsed,
+    amountUsed,
+    hoursBudget: hoursBudget || undefined,
+    amountBudget: amountBudget || undefined,
+    percent: Math.max(...ratios) * 100,
+    period,
+  };
+}
+
+// Key recorded on the project once an alert has been sent, e.g. "2024-03:80"
+export function getBudgetAlertKey(period: BudgetPeriod, threshold: number): string {
+  return `${period.key}:${threshold}`;
+}
+
+// Thresholds reached in this period that have not been alerted yet
+export function getNewBudgetAlerts(project: Project, usage: BudgetUsage): number[] {
+  const sent = new Set(project.budgetAlerts || []);
+  return BUDGET_THRESHOLDS.filter(t => usage.percent >= t && !sent.has(getBudgetAlertKey(usage.period, t)));
+}
+
+// Daily remaining budget for the current period, in hours (or money for money-only budgets).
+// Monthly budgets also get a straight-line "ideal" burn to compare against.
+export function getBurnDown(
+  project: Project,
+  sessions: Session[],
+  customer: Customer | undefined,
+  now: number = Date.now()
+): BurnDownData | null {
+  if (!hasBudget(project.budget)) return null;
+
+  const unit = project.budget.hours ? 'hours' : 'amount';
+  const total = (unit === 'hours' ? project.budget.hours : project.budget.amount) || 0;
+  const period = getBudgetPeriod(project.budget, now);
+  const projectSessions = sessions.filter(s => s.projectId === project.id && s.start >= period.start);
+
+  // Fixed budgets run from the first session (or project creation) to today
+  const firstStart = projectSessions.reduce((min, s) => Math.min(min, s.start), project.createdAt || now);
+  const start = dayjs(period.key === 'total' ? Math.min(firstStart, now) : period.start).startOf('day');
+  const end = dayjs(period.end ?? now).startOf('day');
+
+  const usedByDay = new Map<string, number>();
+  projectSessions.forEach(s => {
+    const day = formatDate(s.start);
+    const value = unit === 'hours' ? s.durationMs / MS_PER_HOUR : getSessionAmount(s, [project], customer);
+    usedByDay.set(day, (usedByDay.get(day) || 0) + value);
+  });
+
+  const days = Math.max(end.diff(start, 'day'), 0) + 1;
+  const labels: string[] = [];
+  const remaining: number[] = [];
+  const ideal: number[] = [];
+  let used = 0;
+
+  for (let i = 0; i < days; i++) {
+    const day = start.add(i, 'day');
+    const label = day.format('YYYY-MM-DD');
+    labels.push(label);
+    if (period.end !== null) {
+      ideal.push(Math.round(total * (1 - (i + 1) / days) * 100) / 100);
+    }
+    used += usedByDay.get(label) || 0;
+    // Days after today in a monthly period have no actual value yet
+    remaining.push(day.valueOf() > now ? NaN : Math.round((total - used) * 100) / 100);
+  }
+
+  return { labels, remaining, ideal, unit };
+}
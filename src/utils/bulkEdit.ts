@@ -0,0 +1,45 @@
+// src/utils/bulkEdit.ts
+
+import type { Session, Timesheet } from '../db/dexie';
+import { isSessionLocked } from './timesheets';
+
+export type BulkEdit =
+  | { type: 'project'; projectId: string }
+  | { type: 'note'; mode: 'set' | 'append'; text: string }
+  | { type: 'shift'; minutes: number }
+  | { type: 'billable'; billable: boolean }
+  | { type: 'invoiced'; invoiceNumber: string };  // Only for sessions not invoiced yet
+
+/**
+ * The changes a bulk edit makes to each session. Sessions it leaves as they are get
+ * no entry. Invoiced sessions and ones on a signed-off timesheet are always left as
+ * they are: billed time changes only by voiding its invoice.
+ */
+export function planBulkEdit(sessions: Session[], edit: BulkEdit, timesheets: Timesheet[]): Array<{ id: string; changes: Partial<Session> }> {
+  const updates: Array<{ id: string; changes: Partial<Session> | null }> = sessions.map(session => {
+    if (session.invoiceNumber || isSessionLocked(session, timesheets)) return { id: session.id, changes: null };
+    switch (edit.type) {
+      case 'project':
+        return { id: session.id, changes: session.projectId === edit.projectId ? null : { projectId: edit.projectId } };
+      case 'note': {
+        const text = edit.text.trim();
+        const note = edit.mode === 'append' && session.note ? (text ? `${session.note}; ${text}` : session.note) : text;
+        return { id: session.id, changes: note === (session.note ?? '') ? null : { note: note || undefined } };
+      }
+      case 'shift': {
+        const offsetMs = edit.minutes * 60000;
+        return {
+          id: session.id,
+          changes: offsetMs === 0 ? null : { start: session.start + offsetMs, stop: session.stop === null ? null : session.stop + offsetMs },
+        };
+      }
+      case 'billable':
+        return { id: session.id, changes: session.billable === edit.billable ? null : { billable: edit.billable } };
+      case 'invoiced': {
+        const invoiceNumber = edit.invoiceNumber.trim();
+        return { id: session.id, changes: invoiceNumber ? { invoiceNumber } : null };
+      }
+    }
+  });
+  return updates.filter((update): update is { id: string; changes: Partial<Session> } => update.changes !== null);
+}
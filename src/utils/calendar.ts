@@ -0,0 +1,133 @@
+// src/utils/calendar.ts
+
+import dayjs from 'dayjs';
+import isoWeek from 'dayjs/plugin/isoWeek';
+import type { Session } from '../db/dexie';
+
+dayjs.extend(isoWeek);
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+export const CALENDAR_VIEW_LABELS: Record<CalendarView, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+};
+
+// Dragging snaps to quarter hours; no session is shorter than one
+export const SNAP_MINUTES = 15;
+
+const MINUTE_MS = 60000;
+const DAY_MINUTES = 24 * 60;
+
+// The days (YYYY-MM-DD) a view shows around a day. A month fills whole weeks.
+export function getCalendarDays(view: CalendarView, anchor: string): string[] {
+  const day = dayjs(anchor);
+  const first = view === 'day' ? day
+    : view === 'week' ? day.startOf('isoWeek')
+    : day.startOf('month').startOf('isoWeek');
+  const last = view === 'day' ? day
+    : view === 'week' ? day.endOf('isoWeek')
+    : day.endOf('month').endOf('isoWeek');
+
+  const days: string[] = [];
+  for (let current = first; !current.isAfter(last, 'day'); current = current.add(1, 'day')) {
+    days.push(current.format('YYYY-MM-DD'));
+  }
+  return days;
+}
+
+// The same place one day, week or month before or after
+export function shiftAnchor(view: CalendarView, anchor: string, offset: number): string {
+  return dayjs(anchor).add(offset, view).format('YYYY-MM-DD');
+}
+
+export function formatCalendarTitle(view: CalendarView, anchor: string): string {
+  const day = dayjs(anchor);
+  if (view === 'day') return day.format('dddd, MMM D, YYYY');
+  if (view === 'month') return day.format('MMMM YYYY');
+  const monday = day.startOf('isoWeek');
+  return `${monday.format('MMM D')} – ${monday.add(6, 'day').format('MMM D, YYYY')}`;
+}
+
+export function snapMinutes(minutes: number): number {
+  return Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+}
+
+// A time of day, in minutes since midnight, as a timestamp on that day
+export function atMinutes(day: string, minutes: number): number {
+  return dayjs(day).startOf('day').add(minutes, 'minute').valueOf();
+}
+
+export interface CalendarBlock {
+  session: Session;
+  top: number;  // Minutes since midnight, clipped to the day
+  bottom: number;
+  lane: number;  // Column within the group of sessions overlapping it
+  lanes: number;
+}
+
+/**
+ * Where sessions sit in a day column. Overlapping sessions share the width side by
+ * side, so overlaps stand out. Sessions running past midnight are cut off at the end
+ * of the day they started.
+ */
+export function layoutDay(sessions: Session[], day: string): CalendarBlock[] {
+  const midnight = dayjs(day).startOf('day').valueOf();
+  const blocks = sessions
+    .map(session => {
+      const top = Math.max(0, (session.start - midnight) / MINUTE_MS);
+      const stop = session.stop ?? session.start + session.durationMs;
+      const bottom = Math.min(DAY_MINUTES, Math.max(top + 1, (stop - midnight) / MINUTE_MS));
+      return { session, top, bottom, lane: 0, lanes: 1 };
+    })
+    .sort((a, b) => a.top - b.top || b.bottom - a.bottom);
+
+  // Group sessions that overlap each other, then give each a free lane in its group
+  let group: CalendarBlock[] = [];
+  let groupBottom = -1;
+  const closeGroup = () => {
+    const lanes = Math.max(1, ...group.map(block => block.lane + 1));
+    group.forEach(block => { block.lanes = lanes; });
+    group = [];
+  };
+
+  blocks.forEach(block => {
+    if (block.top >= groupBottom) closeGroup();
+    const laneBottoms: number[] = [];
+    group.forEach(other => {
+      laneBottoms[other.lane] = Math.max(laneBottoms[other.lane] ?? -1, other.bottom);
+    });
+    let lane = 0;
+    while (laneBottoms[lane] !== undefined && laneBottoms[lane] > block.top) lane++;
+    block.lane = lane;
+    group.push(block);
+    groupBottom = Math.max(groupBottom, block.bottom);
+  });
+  closeGroup();
+
+  return blocks;
+}
+
+// A session moved to another day and time, keeping its length
+export function moveSession(session: Pick<Session, 'start' | 'durationMs'>, day: string, startMinutes: number): { start: number; stop: number; durationMs: number } {
+  const start = atMinutes(day, startMinutes);
+  return { start, stop: start + session.durationMs, durationMs: session.durationMs };
+}
+
+// A session with its start or end edge dragged to a time of its day
+export function resizeSession(
+  session: Pick<Session, 'start' | 'durationMs'>,
+  edge: 'start' | 'stop',
+  minutes: number
+): { start: number; stop: number; durationMs: number } {
+  const day = dayjs(session.start).format('YYYY-MM-DD');
+  let start = session.start;
+  let stop = session.start + session.durationMs;
+  if (edge === 'start') {
+    start = Math.min(atMinutes(day, minutes), stop - SNAP_MINUTES * MINUTE_MS);
+  } else {
+    stop = Math.max(atMinutes(day, minutes), start + SNAP_MINUTES * MINUTE_MS);
+  }
+  return { start, stop, durationMs: stop - start };
+}
@@ -0,0 +1,83 @@
+// src/utils/conflicts.ts
+
+// Sync bookkeeping that differs between two copies of a record without being a user edit
+export const SYNC_METADATA_FIELDS = ['id', 'firestoreId', 'revision', 'syncedRevision', 'updatedAt'];
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export interface ConflictField {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+// JSON with sorted object keys, so equal values compare equal regardless of key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+// Fields whose values differ between the two versions, in the order they appear on mine
+export function getConflictFields(
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+  ignoredFields: string[] = []
+): ConflictField[] {
+  const ignored = new Set([...SYNC_METADATA_FIELDS, ...ignoredFields]);
+  const fields = Array.from(new Set([...Object.keys(mine), ...Object.keys(theirs)]));
+  return fields
+    .filter(field => !ignored.has(field) && !isSameValue(mine[field], theirs[field]))
+    .map(field => ({ field, mine: mine[field], theirs: theirs[field] }));
+}
+
+// Mine with the fields chosen as 'theirs' taken from their version; unlisted fields keep mine
+export function mergeConflict(
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+  choices: Record<string, ConflictChoice>
+): Record<string, unknown> {
+  const merged = { ...mine };
+  Object.entries(choices).forEach(([field, choice]) => {
+    if (choice === 'theirs') {
+      merged[field] = theirs[field];
+    }
+  });
+  return merged;
+}
+
+// Same choice for every field, e.g. "keep mine" or "keep theirs"
+export function chooseAll(fields: ConflictField[], choice: ConflictChoice): Record<string, ConflictChoice> {
+  return Object.fromEntries(fields.map(f => [f.field, choice]));
+}
+
+// "durationMs" -> "Duration ms"
+export function formatFieldName(field: string): string {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Readable value for the resolution view; timestamp fields are shown as dates
+export function formatConflictValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number' && /(start|stop|date|At|Ts|Start|End)$/.test(field)) {
+    return new Date(value).toLocaleString();
+  }
+  if (Array.isArray(value) && value.every(v => typeof v !== 'object')) {
+    return value.length > 0 ? value.join(', ') : '—';
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
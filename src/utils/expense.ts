@@ -0,0 +1,46 @@
+// src/utils/expense.ts
+
+import { Expense, ExpenseCategory } from '../db/dexie';
+
+export const EXPENSE_CATEGORIES: { value: ExpenseCategory; label: string }[] = [
+  { value: 'parking', label: 'Parking' },
+  { value: 'materials', label: 'Materials' },
+  { value: 'tolls', label: 'Tolls' },
+  { value: 'meals', label: 'Meals' },
+  { value: 'lodging', label: 'Lodging' },
+  { value: 'transport', label: 'Transport' },
+  { value: 'other', label: 'Other' },
+];
+
+// Receipts larger than this are rejected by storage.rules
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+
+export function getExpenseCategoryLabel(category: ExpenseCategory): string {
+  return EXPENSE_CATEGORIES.find(c => c.value === category)?.label || 'Other';
+}
+
+// Amount charged to the customer: the pre-tax cost plus markup. Tax paid is recovered
+// separately, and sales tax on the invoice is added on top of the subtotal.
+export function getExpenseBillableAmount(expense: Expense): number {
+  const preTax = Math.max(expense.amount - (expense.taxPaid || 0), 0);
+  return Math.round(preTax * (1 + (expense.markupPercent || 0) / 100) * 100) / 100;
+}
+
+// Billable expenses that have not been invoiced yet
+export function getUninvoicedExpenses(expenses: Expense[]): Expense[] {
+  return expenses.filter(e => e.billable && !e.invoiceNumber);
+}
+
+// Amount paid per currency, e.g. { CAD: 120.5, USD: 30 }
+export function getExpenseTotals(expenses: Expense[]): Record<string, number> {
+  return expenses.reduce((totals, e) => {
+    totals[e.currency] = Math.round(((totals[e.currency] || 0) + e.amount) * 100) / 100;
+    return totals;
+  }, {} as Record<string, number>);
+}
+
+// Storage path for a receipt; the timestamp keeps replaced receipts from colliding
+export function getReceiptPath(userId: string, fileName: string, now: number = Date.now()): string {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return `receipts/${userId}/${now}_${safeName}`;
+}
@@ -0,0 +1,79 @@
+// src/utils/history.ts
+
+import type { Customer, Project } from '../db/dexie';
+import { formatDate, getDateRanges } from './time';
+
+export type DateFilter = 'today' | 'thisWeek' | 'lastWeek' | 'thisMonth' | 'lastMonth' | 'thisYear' | 'lastYear' | 'custom';
+
+export const DATE_FILTER_LABELS: Record<DateFilter, string> = {
+  thisYear: 'This Year',
+  lastYear: 'Last Year',
+  today: 'Today',
+  thisWeek: 'This Week',
+  lastWeek: 'Last Week',
+  thisMonth: 'This Month',
+  lastMonth: 'Last Month',
+  custom: 'Custom Range',
+};
+
+// Start and end of a date filter; a custom range falls back to today for a missing bound
+export function getFilterRange(
+  dateFilter: DateFilter,
+  customStart: string,
+  customEnd: string,
+  dateRanges: ReturnType<typeof getDateRanges>
+): { startDate: number; endDate: number } {
+  if (dateFilter === 'custom') {
+    return {
+      startDate: customStart ? new Date(customStart).getTime() : dateRanges.today.start,
+      endDate: customEnd ? new Date(customEnd).setHours(23, 59, 59, 999) : dateRanges.today.end
+    };
+  }
+
+  const range = dateRanges[dateFilter];
+  return { startDate: range.start, endDate: range.end };
+}
+
+// Leave out entries of archived projects and of projects of archived customers
+export function excludeArchived<T extends { projectId: string }>(entries: T[], projects: Project[], customers: Customer[]): T[] {
+  return entries.filter(entry => {
+    const project = projects.find(p => p.id === entry.projectId);
+    if (project?.archived) return false;
+    const customer = project?.customerId ? customers.find(c => c.id === project.customerId) : undefined;
+    return !customer?.archived;
+  });
+}
+
+// Every day (YYYY-MM-DD) from start to end
+export function getDayKeys(start: number, end: number): string[] {
+  const days: string[] = [];
+  const current = new Date(start);
+  const endDate = new Date(end);
+  while (current <= endDate) {
+    days.push(formatDate(current.getTime()));
+    current.setDate(current.getDate() + 1);
+  }
+  return days;
+}
+
+// Milliseconds per day, oldest first, including days in the range without any time
+export function getDayTotals(sessions: Array<{ start: number; durationMs: number }>, start: number, end: number): Map<string, number> {
+  const totals = new Map<string, number>();
+  sessions.forEach(session => {
+    const day = formatDate(session.start);
+    totals.set(day, (totals.get(day) || 0) + session.durationMs);
+  });
+  getDayKeys(start, end).forEach(day => {
+    if (!totals.has(day)) totals.set(day, 0);
+  });
+  return new Map([...totals.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Milliseconds per project, in order of first appearance
+export function getProjectTotals(sessions: Array<{ projectId: string; durationMs: number }>): Map<string, number> {
+  const totals = new Map<string, number>();
+  sessions.forEach(session => {
+    totals.set(session.projectId, (totals.get(session.projectId) || 0) + session.durationMs);
+  });
+  return totals;
+}
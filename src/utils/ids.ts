@@ -0,0 +1,62 @@
+// src/utils/ids.ts
+
+// Records are keyed by an id generated on the device that created them. The same id
+// is the Firestore doc id, so nothing needs translating between the two.
+export function createId(): string {
+  return crypto.randomUUID();
+}
+
+// Before ids were shared, records had a local auto-increment id and, once uploaded, the
+// id of their Firestore doc. Uploaded records keep that doc id; the rest get a new one.
+export function buildIdMap(records: { id?: number; firestoreId?: string }[]): Map<number, string> {
+  const ids = new Map<number, string>();
+  records.forEach(record => {
+    if (record.id !== undefined) ids.set(record.id, record.firestoreId || createId());
+  });
+  return ids;
+}
+
+// A local id -> its new id. Strings were already doc ids; dangling numbers stay dangling.
+export function mapReference(value: unknown, ids: Map<number, string>): string | undefined {
+  if (typeof value === 'number') return ids.get(value) ?? String(value);
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Rewrite projectId and customerId to new ids. Customer references used to be kept twice,
+// as the local customerId and the customerFirestoreId that was uploaded.
+export function remapReferences(
+  record: Record<string, unknown>,
+  projectIds: Map<number, string>,
+  customerIds: Map<number, string>
+): Record<string, unknown> {
+  const migrated: Record<string, unknown> = { ...record };
+  delete migrated.firestoreId;
+  delete migrated.customerFirestoreId;
+  if ('projectId' in record) migrated.projectId = mapReference(record.projectId, projectIds);
+  const customerId = mapReference(record.customerId, customerIds) ?? mapReference(record.customerFirestoreId, customerIds);
+  if (customerId) {
+    migrated.customerId = customerId;
+  } else {
+    delete migrated.customerId;
+  }
+  return migrated;
+}
+
+// A record of a synced table, keyed by its new id
+export function migrateRecordIds(
+  record: Record<string, unknown>,
+  ids: Map<number, string>,
+  projectIds: Map<number, string>,
+  customerIds: Map<number, string>
+): Record<string, unknown> {
+  const migrated = remapReferences(record, projectIds, customerIds);
+  migrated.id = ids.get(record.id as number);
+  if (record.firestoreId) {
+    // Uploaded before revisions were tracked, so in sync as far as we know
+    if (migrated.syncedRevision === undefined) migrated.syncedRevision = migrated.revision ?? 0;
+  } else {
+    // Never uploaded; no syncedRevision makes sync pick it up
+    delete migrated.syncedRevision;
+  }
+  return migrated;
+}
@@ -0,0 +1,159 @@
+// src/utils/invoice.ts
+
+import { Customer, Session, TravelEntry, InvoiceLine, Expense, PerDiemEntry } from '../db/dexie';
+import { formatDate } from './time';
+import { getRoundedDurations } from './rounding';
+import { EXPENSE_CATEGORIES, getExpenseBillableAmount } from './expense';
+import { getPerDiemDays } from './perDiem';
+import { TRAVEL_TAG, hasTag } from './tags';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+const KM_PER_MILE = 1.609344;
+
+// Round a monetary amount to cents
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Sessions tagged as travel are billed at the customer's travel rate
+export function isTravelSession(session: Session): boolean {
+  return hasTag(session, TRAVEL_TAG);
+}
+
+// Convert a distance between km and miles
+export function convertDistance(distance: number, from: 'km' | 'miles', to: 'km' | 'miles'): number {
+  if (from === to) return distance;
+  return from === 'miles' ? distance * KM_PER_MILE : distance / KM_PER_MILE;
+}
+
+// Distinct days (YYYY-MM-DD) with travel time or travel distance, used for per-diems
+export function getTravelDays(sessions: Session[], travelEntries: TravelEntry[]): string[] {
+  const days = new Set<string>();
+  sessions.filter(isTravelSession).forEach(s => days.add(formatDate(s.start)));
+  travelEntries.forEach(e => days.add(formatDate(e.date)));
+  return Array.from(days).sort();
+}
+
+// Sessions and travel entries that have not been billed yet (and are not still running)
+export function getUninvoicedSessions(sessions: Session[]): Session[] {
+  return sessions.filter(s => !s.invoiceNumber && s.stop !== null);
+}
+
+export function getUninvoicedTravelEntries(travelEntries: TravelEntry[]): TravelEntry[] {
+  return travelEntries.filter(e => !e.invoiceNumber);
+}
+
+// Expenses can only be billed in the customer's invoice currency
+export function isExpenseInCurrency(expense: Expense, customer: Customer): boolean {
+  return expense.currency === (customer.currency || 'CAD');
+}
+
+// Build invoice lines from sessions, travel distance, per-diem days and expenses using the
+// customer's rates and rounding rule. Expenses get one line per category. Per-diem entries are
+// billed when given; otherwise every travel day counts as a full per-diem day.
+export function buildInvoiceLines(
+  customer: Customer,
+  sessions: Session[],
+  travelEntries: TravelEntry[],
+  expenses: Expense[] = [],
+  perDiems?: PerDiemEntry[]
+): InvoiceLine[] {
+  const lines: InvoiceLine[] = [];
+
+  const rounded = getRoundedDurations(sessions, customer.rounding);
+  const labourMs = sessions.filter(s => !isTravelSession(s)).reduce((total, s) => total + (rounded.get(s) ?? s.durationMs), 0);
+  const travelMs = sessions.filter(isTravelSession).reduce((total, s) => total + (rounded.get(s) ?? s.durationMs), 0);
+
+  if (labourMs > 0) {
+    const hours = roundCurrency(labourMs / MS_PER_HOUR);
+    lines.push({
+      type: 'labour',
+      description: 'Professional services',
+      quantity: hours,
+      unit: 'hr',
+      rate: customer.standardRate,
+      amount: roundCurrency(hours * customer.standardRate),
+    });
+  }
+
+  if (travelMs > 0) {
+    const hours = roundCurrency(travelMs / MS_PER_HOUR);
+    const rate = customer.travelRate ?? customer.standardRate;
+    lines.push({
+      type: 'travelTime',
+      description: 'Travel time',
+      quantity: hours,
+      unit: 'hr',
+      rate,
+      amount: roundCurrency(hours * rate),
+    });
+  }
+
+  const distanceUnit = customer.travelDistanceUnit || 'km';
+  const distance = travelEntries.reduce(
+    (total, e) => total + convertDistance(e.distance, e.unit || 'km', distanceUnit),
+    0
+  );
+
+  if (distance > 0 && customer.distanceRate) {
+    const quantity = Math.round(distance * 10) / 10;
+    lines.push({
+      type: 'distance',
+      description: 'Travel distance',
+      quantity,
+      unit: distanceUnit,
+      rate: customer.distanceRate,
+      amount: roundCurrency(quantity * customer.distanceRate),
+    });
+  }
+
+  const perDiemDays = perDiems ? getPerDiemDays(perDiems) : getTravelDays(sessions, travelEntries).length;
+  if (perDiemDays > 0 && customer.perDiemRate) {
+    lines.push({
+      type: 'perDiem',
+      description: 'Per diem',
+      quantity: perDiemDays,
+      unit: 'day',
+      rate: customer.perDiemRate,
+      amount: roundCurrency(perDiemDays * customer.perDiemRate),
+    });
+  }
+
+  const billableExpenses = expenses.filter(e => e.billable && isExpenseInCurrency(e, customer));
+  EXPENSE_CATEGORIES.forEach(({ value, label }) => {
+    const categoryExpenses = billableExpenses.filter(e => e.category === value);
+    if (categoryExpenses.length === 0) return;
+    const amount = roundCurrency(categoryExpenses.reduce((total, e) => total + getExpenseBillableAmount(e), 0));
+    lines.push({
+      type: 'expense',
+      description: `Expenses: ${label} (${categoryExpenses.length} ${categoryExpenses.length === 1 ? 'receipt' : 'receipts'})`,
+      quantity: 1,
+      unit: 'lot',
+      rate: amount,
+      amount,
+    });
+  });
+
+  return lines;
+}
+
+// Sum of all line amounts
+export function getInvoiceSubtotal(lines: InvoiceLine[]): number {
+  return roundCurrency(lines.reduce((total, line) => total + line.amount, 0));
+}
+
+// Position of an invoice number in the sequence, e.g. INV-0042 -> 42; 0 when it has none
+export function getInvoiceSequence(number: string): number {
+  const match = /(\d+)$/.exec(number);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+export function formatInvoiceNumber(sequence: number): string {
+  return `INV-${sequence.toString().padStart(4, '0')}`;
+}
+
+// Next sequential invoice number, e.g. INV-0001 -> INV-0002
+export function getNextInvoiceNumber(existingNumbers: string[]): string {
+  const highest = existingNumbers.reduce((max, n) => Math.max(max, getInvoiceSequence(n)), 0);
+  return formatInvoiceNumber(highest + 1);
+}
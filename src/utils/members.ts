@@ -0,0 +1,69 @@
+// src/utils/members.ts
+
+import type { Organization, OrganizationMember, OrganizationRole } from '../db/dexie';
+import { can } from './permissions';
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  user: 'Member',
+};
+
+const ROLE_RANK: Record<OrganizationRole, number> = { owner: 3, admin: 2, user: 1 };
+
+// Invitations are keyed by email, so the same address always maps to the same doc
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@/]+@[^\s@/]+\.[^\s@/]+$/.test(email);
+}
+
+// A user's role in an organization. Organizations created before members were synced
+// only know their creator.
+export function getMemberRole(organization: Organization | null, userId: string | undefined): OrganizationRole | undefined {
+  if (!organization || !userId) return undefined;
+  return organization.members?.[userId]?.role ?? (organization.createdBy === userId ? 'owner' : undefined);
+}
+
+// Every organization a user belongs to. Users who joined before they could belong to
+// several only have organizationId.
+export function getUserOrganizationIds(userDoc: { organizations?: string[]; organizationId?: string } | null | undefined): string[] {
+  const ids = [...(userDoc?.organizations ?? []), ...(userDoc?.organizationId ? [userDoc.organizationId] : [])];
+  return [...new Set(ids)];
+}
+
+// Invitations need an organization to invite to
+export function canInvite(role: OrganizationRole | undefined): boolean {
+  return role !== undefined && can(role, 'manageMembers');
+}
+
+// Roles the actor may hand out: owners any, admins only plain members
+export function getAssignableRoles(role: OrganizationRole | undefined): OrganizationRole[] {
+  if (role === 'owner') return ['owner', 'admin', 'user'];
+  if (role === 'admin') return ['user'];
+  return [];
+}
+
+// Owners manage everyone; admins can only remove plain members
+export function canManageMember(actorRole: OrganizationRole | undefined, targetRole: OrganizationRole): boolean {
+  if (actorRole === 'owner') return true;
+  return actorRole === 'admin' && targetRole === 'user';
+}
+
+export function countOwners(members: Record<string, OrganizationMember>): number {
+  return Object.values(members).filter(m => m.role === 'owner').length;
+}
+
+// The last owner has to hand the organization over before stepping down or leaving
+export function isLastOwner(members: Record<string, OrganizationMember>, userId: string): boolean {
+  return members[userId]?.role === 'owner' && countOwners(members) === 1;
+}
+
+// Highest role first, then by email
+export function sortMembers(members: Record<string, OrganizationMember>): [string, OrganizationMember][] {
+  return Object.entries(members).sort(([, a], [, b]) =>
+    ROLE_RANK[b.role] - ROLE_RANK[a.role] || (a.email || '').localeCompare(b.email || '')
+  );
+}
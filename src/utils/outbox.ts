@@ -0,0 +1,101 @@
+// src/utils/outbox.ts
+
+import type { OutboxEntry } from '../db/dexie';
+
+// After this many failed attempts a write is reported instead of retried
+export const MAX_OUTBOX_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Firestore error codes that retrying the same write can't fix
+const PERMANENT_ERROR_CODES = [
+  'permission-denied',
+  'invalid-argument',
+  'not-found',
+  'already-exists',
+  'failed-precondition',
+  'out-of-range',
+  'unimplemented',
+  'data-loss',
+];
+
+// Exponential backoff: 2s, 4s, 8s, ... capped at 5 minutes
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export function isPermanentSyncError(code: string | undefined, attempts: number): boolean {
+  return (!!code && PERMANENT_ERROR_CODES.includes(code)) || attempts >= MAX_OUTBOX_ATTEMPTS;
+}
+
+const COLLECTION_LABELS: Record<string, string> = {
+  sessions: 'Session',
+  projects: 'Project',
+  customers: 'Customer',
+  predefinedNotes: 'Predefined note',
+  tags: 'Tag',
+  travelEntries: 'Travel entry',
+  expenses: 'Expense',
+  perDiems: 'Per diem',
+  invoices: 'Invoice',
+};
+
+// "travelEntries" -> "Travel entry"
+export function getCollectionLabel(collection: string): string {
+  return COLLECTION_LABELS[collection] || collection;
+}
+
+// Deleted records stay marked as deleted this long before they are purged for good.
+// A device that stays offline for longer may bring its copies back.
+export const TOMBSTONE_RETENTION_DAYS = 60;
+
+// Tombstones deleted before this time can be purged
+export function getTombstoneCutoff(now: number): number {
+  return now - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+export type SyncState = 'offline' | 'error' | 'syncing' | 'pending' | 'synced';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  failed: number;
+}
+
+// Overall status for the header; failures outrank everything since they need the user
+export function getSyncStatus(entries: OutboxEntry[], isOnline: boolean, isFlushing: boolean): SyncStatus {
+  const failed = entries.filter(e => e.failed).length;
+  const pending = entries.length - failed;
+  let state: SyncState = 'synced';
+  if (failed > 0) state = 'error';
+  else if (!isOnline) state = 'offline';
+  else if (isFlushing && pending > 0) state = 'syncing';
+  else if (pending > 0) state = 'pending';
+  return { state, pending, failed };
+}
+
+// Whether a record's latest change is still on its way to the server, or failed to get there
+export function getRecordSyncState(entries: OutboxEntry[], collection: string, recordId?: string): 'pending' | 'failed' | undefined {
+  if (recordId === undefined) return undefined;
+  const own = entries.filter(e => e.collection === collection && e.recordId === recordId);
+  if (own.some(e => e.failed)) return 'failed';
+  return own.length > 0 ? 'pending' : undefined;
+}
+
+export interface SyncResult {
+  uploaded: number;
+  pending: number;
+  failed: number;
+  conflicts: number;
+}
+
+// Toast text after a manual sync
+export function describeSyncResult({ uploaded, pending, failed, conflicts }: SyncResult): string {
+  const parts: string[] = [];
+  if (uploaded > 0) parts.push(`${uploaded} ${uploaded === 1 ? 'change' : 'changes'} uploaded`);
+  if (pending > 0) parts.push(`${pending} still pending`);
+  if (failed > 0) parts.push(`${failed} failed`);
+  if (conflicts > 0) parts.push(`${conflicts} ${conflicts === 1 ? 'conflict needs' : 'conflicts need'} review`);
+  return parts.length > 0 ? `Sync finished: ${parts.join(', ')}` : 'Everything is already in sync';
+}
@@ -0,0 +1,113 @@
+// src/utils/overlaps.ts
+
+import type { Session, Timesheet } from '../db/dexie';
+import { isSessionLocked } from './timesheets';
+
+type TimeRange = Pick<Session, 'start' | 'stop' | 'durationMs'>;
+
+export interface Overlap {
+  first: Session;  // The one that starts first
+  second: Session;
+  overlapMs: number;
+}
+
+export function getSessionEnd(session: TimeRange): number {
+  return session.stop ?? session.start + session.durationMs;
+}
+
+// Milliseconds two sessions share; sessions that only touch don't overlap
+export function getOverlapMs(a: TimeRange, b: TimeRange): number {
+  return Math.max(0, Math.min(getSessionEnd(a), getSessionEnd(b)) - Math.max(a.start, b.start));
+}
+
+// Sessions a new or changed session would overlap, leaving out the session itself
+export function findOverlapping(session: TimeRange & { id?: string }, sessions: Session[]): Session[] {
+  return sessions.filter(other => other.id !== session.id && getOverlapMs(session, other) > 0);
+}
+
+// Every pair of overlapping sessions, in order of start
+export function findOverlaps(sessions: Session[]): Overlap[] {
+  const ordered = [...sessions].sort((a, b) => a.start - b.start || getSessionEnd(b) - getSessionEnd(a));
+  const overlaps: Overlap[] = [];
+  ordered.forEach((first, index) => {
+    for (const second of ordered.slice(index + 1)) {
+      if (second.start >= getSessionEnd(first)) break;
+      const overlapMs = getOverlapMs(first, second);
+      if (overlapMs > 0) overlaps.push({ first, second, overlapMs });
+    }
+  });
+  return overlaps;
+}
+
+// The second session lies wholly within the first; split it rather than trim it
+export function isContained({ first, second }: Overlap): boolean {
+  return getSessionEnd(second) <= getSessionEnd(first);
+}
+
+// Why an overlap can't be fixed here, or null: billed time and signed-off weeks stay as they are
+export function getFixProblem({ first, second }: Overlap, timesheets: Timesheet[]): string | null {
+  if (first.invoiceNumber || second.invoiceNumber) return 'Invoiced sessions can\'t be changed here';
+  if (isSessionLocked(first, timesheets) || isSessionLocked(second, timesheets)) {
+    return 'This session is on a submitted or approved timesheet';
+  }
+  return null;
+}
+
+export interface OverlapFix {
+  update: Array<{ id: string; changes: Partial<Session> }>;
+  create: Array<Omit<Session, 'id' | 'createdAt'>>;
+  remove: string[];
+}
+
+// End the first session where the second starts
+export function trimOverlap({ first, second }: Overlap): OverlapFix {
+  return {
+    update: [{ id: first.id, changes: { stop: second.start, durationMs: second.start - first.start } }],
+    create: [],
+    remove: [],
+  };
+}
+
+// Cut the first session around the second: the part before it and the part after it
+export function splitOverlap({ first, second }: Overlap): OverlapFix {
+  const fix: OverlapFix = { update: [], create: [], remove: [] };
+  const secondEnd = getSessionEnd(second);
+  const firstEnd = getSessionEnd(first);
+  const after = { stop: firstEnd, start: secondEnd, durationMs: firstEnd - secondEnd };
+
+  if (second.start > first.start) {
+    fix.update.push({ id: first.id, changes: { stop: second.start, durationMs: second.start - first.start } });
+    if (firstEnd > secondEnd) {
+      fix.create.push({
+        projectId: first.projectId,
+        ...after,
+        note: first.note,
+        billable: first.billable,
+        tags: first.tags ?? [],
+        ...(first.organizationId ? { organizationId: first.organizationId } : {}),
+      });
+    }
+  } else if (firstEnd > secondEnd) {
+    fix.update.push({ id: first.id, changes: after });
+  } else {
+    fix.remove.push(first.id);
+  }
+  return fix;
+}
+
+// One session from the start of the first to the end of the later of the two. It keeps
+// the time worked in both, counting the shared time once, so pauses stay pauses.
+export function mergeOverlap({ first, second, overlapMs }: Overlap): OverlapFix {
+  const stop = Math.max(getSessionEnd(first), getSessionEnd(second));
+  const workedMs = Math.max(first.durationMs + second.durationMs - overlapMs, first.durationMs, second.durationMs);
+  const notes = [first.note, second.note].filter((note, index, all): note is string => !!note && all.indexOf(note) === index);
+  const tags = [...new Set([...(first.tags ?? []), ...(second.tags ?? [])])];
+  return {
+    update: [{
+      id: first.id,
+      changes: { stop, durationMs: Math.min(workedMs, stop - first.start), note: notes.join('; ') || undefined, tags },
+    }],
+    create: [],
+    remove: [second.id],
+  };
+}
@@ -0,0 +1,92 @@
+// src/utils/perDiem.ts
+
+import { Customer, PerDiemEntry, PerDiemMeal, Project, Session, TravelEntry } from '../db/dexie';
+import { getProjectCustomer } from './rounding';
+import { formatDate } from './time';
+import dayjs from 'dayjs';
+
+// Share of the daily rate each meal is worth; all three make a full day
+export const PER_DIEM_MEALS: { value: PerDiemMeal; label: string; percent: number }[] = [
+  { value: 'breakfast', label: 'Breakfast', percent: 25 },
+  { value: 'lunch', label: 'Lunch', percent: 25 },
+  { value: 'dinner', label: 'Dinner', percent: 50 },
+];
+
+export const FULL_DAY_MEALS: PerDiemMeal[] = PER_DIEM_MEALS.map(m => m.value);
+
+export interface PerDiemSuggestion {
+  projectId: string
+  date: number  // Start of day
+}
+
+// Percentage of the daily rate covered by the claimed meals
+export function getPerDiemPercent(meals: PerDiemMeal[]): number {
+  return PER_DIEM_MEALS.filter(m => meals.includes(m.value)).reduce((total, m) => total + m.percent, 0);
+}
+
+// Number of days claimed, counting partial days as fractions, e.g. 2.75
+export function getPerDiemDays(entries: PerDiemEntry[]): number {
+  return entries.reduce((total, e) => total + getPerDiemPercent(e.meals), 0) / 100;
+}
+
+// Money owed for per-diem entries at a daily rate
+export function getPerDiemAmount(entries: PerDiemEntry[], rate: number): number {
+  return Math.round(getPerDiemDays(entries) * rate * 100) / 100;
+}
+
+// "Full day", or the claimed meals, e.g. "Breakfast, Lunch"
+export function describePerDiemMeals(meals: PerDiemMeal[]): string {
+  if (FULL_DAY_MEALS.every(m => meals.includes(m))) return 'Full day';
+  const labels = PER_DIEM_MEALS.filter(m => meals.includes(m.value)).map(m => m.label);
+  return labels.length > 0 ? labels.join(', ') : 'No meals';
+}
+
+export function getUninvoicedPerDiems(entries: PerDiemEntry[]): PerDiemEntry[] {
+  return entries.filter(e => !e.invoiceNumber);
+}
+
+// One per customer and day, so two projects at the same customer don't claim twice
+function getPerDiemKey(customer: Customer, date: number): string {
+  return `${customer.id}|${formatDate(date)}`;
+}
+
+// Days with travel or sessions at a customer that has a per-diem rate and no per-diem entry yet.
+// Each suggestion uses the project with the most time that day.
+export function getPerDiemSuggestions(
+  sessions: Session[],
+  travelEntries: TravelEntry[],
+  perDiems: PerDiemEntry[],
+  projects: Project[],
+  customers: Customer[]
+): PerDiemSuggestion[] {
+  const claimed = new Set<string>();
+  perDiems.forEach(e => {
+    const customer = getProjectCustomer(e.projectId, projects, customers);
+    if (customer) claimed.add(getPerDiemKey(customer, e.date));
+  });
+
+  const days = new Map<string, { date: number; timeByProject: Map<string, number> }>();
+  const addActivity = (projectId: string, date: number, ms: number) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project || project.archived) return;
+    const customer = getProjectCustomer(project.id, projects, customers);
+    if (!customer?.perDiemRate || customer.archived) return;
+
+    const key = getPerDiemKey(customer, date);
+    if (claimed.has(key)) return;
+
+    const day = days.get(key) || { date: dayjs(date).startOf('day').valueOf(), timeByProject: new Map() };
+    day.timeByProject.set(project.id, (day.timeByProject.get(project.id) || 0) + ms);
+    days.set(key, day);
+  };
+
+  sessions.filter(s => s.stop !== null).forEach(s => addActivity(s.projectId, s.start, s.durationMs));
+  travelEntries.forEach(e => addActivity(e.projectId, e.date, 0));
+
+  return Array.from(days.values())
+    .map(day => {
+      const [projectId] = Array.from(day.timeByProject.entries()).sort((a, b) => b[1] - a[1])[0];
+      return { projectId, date: day.date };
+    })
+    .sort((a, b) => a.date - b.date);
+}
@@ -0,0 +1,88 @@
+// src/utils/permissions.ts
+
+import type { Customer, OrganizationRole } from '../db/dexie';
+
+export type Permission =
+  | 'editCorporateInfo'
+  | 'manageMembers'
+  | 'editCustomerRates'
+  | 'deleteCustomers'
+  | 'deleteProjects'
+  | 'editProjectBudgets'
+  | 'viewTeamSessions'
+  | 'approveTimesheets';
+
+// Roles allowed to do each thing. firestore.rules enforces the same model.
+const PERMISSIONS: Record<Permission, OrganizationRole[]> = {
+  editCorporateInfo: ['owner'],
+  manageMembers: ['owner', 'admin'],
+  editCustomerRates: ['owner', 'admin'],
+  deleteCustomers: ['owner', 'admin'],
+  deleteProjects: ['owner', 'admin'],
+  editProjectBudgets: ['owner', 'admin'],
+  viewTeamSessions: ['owner', 'admin'],
+  approveTimesheets: ['owner', 'admin'],
+};
+
+/**
+ * Whether a member with this role may do something. Without an organization
+ * (role undefined) all data is the user's own, so everything is allowed.
+ */
+export function can(role: OrganizationRole | undefined, permission: Permission): boolean {
+  if (role === undefined) return true;
+  return PERMISSIONS[permission].includes(role);
+}
+
+// What a customer is billed at; only editable with editCustomerRates
+export const CUSTOMER_RATE_FIELDS = [
+  'standardRate',
+  'travelRate',
+  'travelDistanceUnit',
+  'distanceRate',
+  'perDiemRate',
+  'currency',
+  'rounding',
+] as const;
+
+// Fields of shared records that only some roles may write, by collection. Without the
+// permission a field is left out, or set to its `cleared` value where records need one.
+const RESTRICTED_FIELDS: Record<string, Array<{ field: string; permission: Permission; cleared?: unknown }>> = {
+  projects: [{ field: 'budget', permission: 'editProjectBudgets' }],
+  customers: CUSTOMER_RATE_FIELDS.map(field => ({
+    field,
+    permission: 'editCustomerRates' as const,
+    ...(field === 'standardRate' ? { cleared: 0 } : {}),
+  })),
+};
+
+/**
+ * Take the fields of a shared collection this role may not write out of a record, in
+ * place, e.g. the budgets of the projects a member brings along when joining an
+ * organization. Returns whether the record had any of them.
+ */
+export function clearRestrictedFields(collection: string, role: OrganizationRole | undefined, record: Record<string, unknown>): boolean {
+  let changed = false;
+  (RESTRICTED_FIELDS[collection] ?? [])
+    .filter(({ permission }) => !can(role, permission))
+    .forEach(({ field, cleared }) => {
+      if (!(field in record) || record[field] === cleared) return;
+      changed = true;
+      if (cleared === undefined) delete record[field];
+      else record[field] = cleared;
+    });
+  return changed;
+}
+
+// True when the updates change any rate of the customer
+export function changesCustomerRates(customer: Customer, updates: Partial<Customer>): boolean {
+  return CUSTOMER_RATE_FIELDS.some(field =>
+    field in updates && JSON.stringify(updates[field]) !== JSON.stringify(customer[field])
+  );
+}
+
+// The updates without any rate fields, for users who may edit the rest of a customer
+export function withoutCustomerRates<T extends Partial<Customer>>(updates: T): T {
+  const rest = { ...updates };
+  CUSTOMER_RATE_FIELDS.forEach(field => delete rest[field]);
+  return rest;
+}
@@ -0,0 +1,102 @@
+// src/utils/rounding.ts
+
+import { Customer, Project, RoundingRule, Session } from '../db/dexie';
+import { formatDate } from './time';
+
+const MS_PER_MINUTE = 1000 * 60;
+
+export const DEFAULT_ROUNDING_RULE: RoundingRule = {
+  incrementMinutes: 0,
+  direction: 'up',
+  scope: 'session',
+  minimumMinutes: 0,
+};
+
+// A rule only changes anything when it has an increment or a minimum charge
+export function hasRounding(rule: RoundingRule | undefined): rule is RoundingRule {
+  return !!rule && (rule.incrementMinutes > 0 || rule.minimumMinutes > 0);
+}
+
+// Round a single duration to the rule's increment, then apply the minimum charge
+export function roundDuration(durationMs: number, rule: RoundingRule | undefined): number {
+  if (!hasRounding(rule) || durationMs <= 0) return Math.max(durationMs, 0);
+
+  let rounded = durationMs;
+  const incrementMs = rule.incrementMinutes * MS_PER_MINUTE;
+  if (incrementMs > 0) {
+    const units = durationMs / incrementMs;
+    const whole = rule.direction === 'up' ? Math.ceil(units) : rule.direction === 'down' ? Math.floor(units) : Math.round(units);
+    rounded = whole * incrementMs;
+  }
+
+  return Math.max(rounded, rule.minimumMinutes * MS_PER_MINUTE);
+}
+
+// Rounded duration for each session under one rule; raw durationMs is never modified.
+// With per-day rounding the rounded day total is shared across that day's sessions
+// in proportion to their raw time, so rows always add up to the rounded total.
+export function getRoundedDurations(sessions: Session[], rule: RoundingRule | undefined): Map<Session, number> {
+  const rounded = new Map<Session, number>();
+
+  if (!hasRounding(rule) || rule.scope === 'session') {
+    sessions.forEach(s => rounded.set(s, roundDuration(s.durationMs, rule)));
+    return rounded;
+  }
+
+  const days = new Map<string, Session[]>();
+  sessions.forEach(s => {
+    const day = formatDate(s.start);
+    days.set(day, [...(days.get(day) || []), s]);
+  });
+
+  days.forEach(daySessions => {
+    const rawMs = daySessions.reduce((total, s) => total + s.durationMs, 0);
+    const dayMs = roundDuration(rawMs, rule);
+    daySessions.forEach(s => {
+      rounded.set(s, rawMs > 0 ? (s.durationMs / rawMs) * dayMs : dayMs / daySessions.length);
+    });
+  });
+
+  return rounded;
+}
+
+// Resolve the customer a project belongs to
+export function getProjectCustomer(projectId: string, projects: Project[], customers: Customer[]): Customer | undefined {
+  const project = projects.find(p => p.id === projectId);
+  if (!project?.customerId) return undefined;
+  return customers.find(c => c.id === project.customerId);
+}
+
+// Rounded durations for sessions that may span several customers, each with its own rule
+export function getRoundedDurationsByCustomer(sessions: Session[], projects: Project[], customers: Customer[]): Map<Session, number> {
+  const byCustomer = new Map<Customer | undefined, Session[]>();
+  sessions.forEach(s => {
+    const customer = getProjectCustomer(s.projectId, projects, customers);
+    byCustomer.set(customer, [...(byCustomer.get(customer) || []), s]);
+  });
+
+  const rounded = new Map<Session, number>();
+  byCustomer.forEach((customerSessions, customer) => {
+    getRoundedDurations(customerSessions, customer?.rounding).forEach((ms, s) => rounded.set(s, ms));
+  });
+  return rounded;
+}
+
+// Sum rounded durations, falling back to the raw duration for sessions without an entry
+export function getRoundedTotal(sessions: Session[], rounded: Map<Session, number>): number {
+  return sessions.reduce((total, s) => total + (rounded.get(s) ?? s.durationMs), 0);
+}
+
+// Short description of a rule, e.g. "15 min up, per session, 60 min minimum"
+export function describeRoundingRule(rule: RoundingRule | undefined): string {
+  if (!hasRounding(rule)) return 'No rounding';
+  const parts: string[] = [];
+  if (rule.incrementMinutes > 0) {
+    parts.push(`${rule.incrementMinutes} min ${rule.direction}`);
+  }
+  parts.push(rule.scope === 'day' ? 'per day' : 'per session');
+  if (rule.minimumMinutes > 0) {
+    parts.push(`${rule.minimumMinutes} min minimum`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,118 @@
+// src/utils/splitMerge.ts
+
+import dayjs from 'dayjs';
+import type { Project, Session, Timesheet } from '../db/dexie';
+import { isSessionBillable } from './billable';
+import { getSessionEnd } from './overlaps';
+import { isSessionLocked } from './timesheets';
+
+type NewSession = Omit<Session, 'id' | 'createdAt'>;
+
+export interface SessionSplit {
+  first: Pick<Session, 'stop' | 'durationMs'>;  // Changes to the session being split
+  second: NewSession;
+}
+
+// The time a share (0-100) of the way through a session falls at, to the minute
+export function getSplitTimeAtPercent(session: Pick<Session, 'start' | 'stop' | 'durationMs'>, percent: number): number {
+  const end = getSessionEnd(session);
+  return dayjs(session.start + (end - session.start) * percent / 100).startOf('minute').valueOf();
+}
+
+// Why a session can't be split, or null: billed time and signed-off weeks stay as they are
+export function getSplitProblem(session: Session, timesheets: Timesheet[]): string | null {
+  if (session.invoiceNumber) return 'Invoiced sessions can\'t be split';
+  return isSessionLocked(session, timesheets) ? 'This session is on a submitted or approved timesheet' : null;
+}
+
+/**
+ * Cut a session in two at a time inside it, the second part optionally going to
+ * another project. Time paused within the session is shared out in proportion, so
+ * the two parts add up to the original duration.
+ */
+export function planSplit(session: Session, splitAt: number, projectId = session.projectId): SessionSplit {
+  const end = getSessionEnd(session);
+  if (splitAt <= session.start || splitAt >= end) {
+    throw new Error('Split the session at a time between its start and end');
+  }
+
+  const firstDurationMs = Math.round(session.durationMs * (splitAt - session.start) / (end - session.start));
+  return {
+    first: { stop: splitAt, durationMs: firstDurationMs },
+    second: {
+      projectId,
+      start: splitAt,
+      stop: end,
+      durationMs: session.durationMs - firstDurationMs,
+      note: session.note,
+      // A different project has its own billable default
+      ...(projectId === session.projectId ? { billable: session.billable } : {}),
+      tags: session.tags ?? [],
+      ...(session.organizationId ? { organizationId: session.organizationId } : {}),
+    },
+  };
+}
+
+// Why sessions can't be merged, or null when they can: they must be on one project
+// and day, all billable or all not, with no other session in the time they will cover,
+// and none of them invoiced or on a signed-off timesheet
+export function getMergeProblem(selected: Session[], sessions: Session[], timesheets: Timesheet[], projects: Project[]): string | null {
+  if (selected.length < 2) return 'Select at least two sessions to merge';
+  if (selected.some(session => session.invoiceNumber)) return 'Invoiced sessions can\'t be merged';
+  if (selected.some(session => isSessionLocked(session, timesheets))) {
+    return 'This session is on a submitted or approved timesheet';
+  }
+
+  const ordered = [...selected].sort((a, b) => a.start - b.start);
+  const [first] = ordered;
+  const last = ordered[ordered.length - 1];
+  if (ordered.some(session => session.projectId !== first.projectId)) {
+    return 'Only sessions on the same project can be merged';
+  }
+  if (!dayjs(first.start).isSame(last.start, 'day')) {
+    return 'Only sessions on the same day can be merged';
+  }
+  // The merged session has one billable flag, so picking one would bill time differently
+  const billable = isSessionBillable(first, projects);
+  if (ordered.some(session => isSessionBillable(session, projects) !== billable)) {
+    return 'Billable and non-billable sessions can\'t be merged';
+  }
+
+  // Whatever its project, a session in the merged span would be counted twice
+  const selectedIds = new Set(ordered.map(session => session.id));
+  const end = Math.max(...ordered.map(getSessionEnd));
+  const between = sessions.some(session =>
+    !selectedIds.has(session.id) &&
+    session.start < end &&
+    getSessionEnd(session) > first.start
+  );
+  return between ? 'Only sessions next to each other can be merged' : null;
+}
+
+export interface SessionMerge {
+  keep: string;  // The earliest session, which takes in the others
+  changes: Partial<Session>;
+  remove: string[];
+}
+
+// One session from the first start to the last end. The gaps between the parts are
+// pauses, so the duration is the time worked in them.
+export function planMerge(selected: Session[]): SessionMerge {
+  const ordered = [...selected].sort((a, b) => a.start - b.start);
+  const [first, ...rest] = ordered;
+  const stop = Math.max(...ordered.map(getSessionEnd));
+  const workedMs = ordered.reduce((total, session) => total + session.durationMs, 0);
+  const notes = ordered.map(session => session.note?.trim()).filter((note, index, all): note is string => !!note && all.indexOf(note) === index);
+  const tags = [...new Set(ordered.flatMap(session => session.tags ?? []))];
+
+  return {
+    keep: first.id,
+    changes: {
+      stop,
+      durationMs: Math.min(workedMs, stop - first.start),
+      note: notes.join('; ') || undefined,
+      tags,
+    },
+    remove: rest.map(session => session.id),
+  };
+}
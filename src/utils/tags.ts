@@ -0,0 +1,38 @@
+// src/utils/tags.ts
+
+import { Session, Tag } from '../db/dexie';
+
+// Sessions with this tag are billed at the customer's travel rate
+export const TRAVEL_TAG = 'travel';
+
+// Tags every user has; reports rely on them, so they can't be renamed or deleted
+export const BUILT_IN_TAGS: Tag[] = [
+  { id: TRAVEL_TAG, key: TRAVEL_TAG, name: 'Travel', color: '#f59e0b', createdAt: 0, builtIn: true },
+];
+
+export const TAG_COLORS = ['#3b82f6', '#10b981', '#8b5cf6', '#ef4444', '#ec4899', '#14b8a6', '#6b7280'];
+
+// Stable key for a tag name, e.g. "On-site Work" -> "on-site-work"
+export function toTagKey(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// Built-in tags first, then the user's own; user tags can't shadow a built-in key
+export function mergeTags(userTags: Tag[]): Tag[] {
+  const builtInKeys = new Set(BUILT_IN_TAGS.map(t => t.key));
+  return [...BUILT_IN_TAGS, ...userTags.filter(t => !builtInKeys.has(t.key))];
+}
+
+export function hasTag(session: Pick<Session, 'tags'>, key: string): boolean {
+  return !!session.tags?.includes(key);
+}
+
+// Adds the key when missing, removes it otherwise
+export function toggleTag(tags: string[], key: string): string[] {
+  return tags.includes(key) ? tags.filter(t => t !== key) : [...tags, key];
+}
+
+// Tags for sessions recorded before tags existed, when "travel" in the note marked travel time
+export function getLegacyTags(note?: string): string[] {
+  return note?.toLowerCase().includes('travel') ? [TRAVEL_TAG] : [];
+}
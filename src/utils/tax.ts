@@ -0,0 +1,115 @@
+// src/utils/tax.ts
+
+import { CorporateInfo, Customer, TaxLine } from '../db/dexie';
+import { roundCurrency } from './invoice';
+
+export const CANADIAN_PROVINCES = [
+  { code: 'AB', name: 'Alberta' },
+  { code: 'BC', name: 'British Columbia' },
+  { code: 'MB', name: 'Manitoba' },
+  { code: 'NB', name: 'New Brunswick' },
+  { code: 'NL', name: 'Newfoundland and Labrador' },
+  { code: 'NS', name: 'Nova Scotia' },
+  { code: 'NT', name: 'Northwest Territories' },
+  { code: 'NU', name: 'Nunavut' },
+  { code: 'ON', name: 'Ontario' },
+  { code: 'PE', name: 'Prince Edward Island' },
+  { code: 'QC', name: 'Quebec' },
+  { code: 'SK', name: 'Saskatchewan' },
+  { code: 'YT', name: 'Yukon' }
+];
+
+interface ProvinceTaxRates {
+  hst?: number
+  pst?: number
+  qst?: number
+}
+
+// Provincial rates in percent; provinces without HST charge the 5% GST
+const PROVINCE_TAX_RATES: Record<string, ProvinceTaxRates> = {
+  AB: {},
+  BC: { pst: 7 },
+  MB: { pst: 7 },
+  NB: { hst: 15 },
+  NL: { hst: 15 },
+  NS: { hst: 14 },
+  NT: {},
+  NU: {},
+  ON: { hst: 13 },
+  PE: { hst: 15 },
+  QC: { qst: 9.975 },
+  SK: { pst: 6 },
+  YT: {},
+};
+
+export const GST_RATE = 5;
+
+// Normalize a province name or code ("Ontario", "on") to its two-letter code
+export function normalizeProvince(province: string | undefined): string | null {
+  if (!province) return null;
+  const value = province.trim().toLowerCase();
+  const match = CANADIAN_PROVINCES.find(p => p.code.toLowerCase() === value || p.name.toLowerCase() === value);
+  return match?.code || null;
+}
+
+// Treat a blank country as Canada, since most customers are domestic
+export function isCanadianCountry(country: string | undefined): boolean {
+  if (!country?.trim()) return true;
+  return ['canada', 'ca', 'can'].includes(country.trim().toLowerCase());
+}
+
+export type TaxCustomer = Pick<Customer, 'province' | 'country' | 'taxExempt'>;
+export type TaxSeller = Pick<CorporateInfo, 'province' | 'gstNumber' | 'qstNumber' | 'pstNumber'>;
+
+// Work out which taxes apply to a sale, returned as lines with a zero amount
+export function getTaxRegime(seller: TaxSeller | undefined, customer: TaxCustomer): TaxLine[] {
+  // Exempt customers and exported services are not taxed
+  if (!seller || customer.taxExempt || !isCanadianCountry(customer.country)) return [];
+
+  const sellerProvince = normalizeProvince(seller.province);
+  // Services are taxed where the customer is; fall back to the seller's province
+  const placeOfSupply = normalizeProvince(customer.province) || sellerProvince;
+  if (!placeOfSupply) return [];
+
+  const rates = PROVINCE_TAX_RATES[placeOfSupply];
+  const lines: TaxLine[] = [];
+
+  // Small suppliers without a GST/HST registration don't collect GST/HST
+  if (seller.gstNumber) {
+    if (rates.hst) {
+      lines.push({ code: 'HST', label: `HST (${placeOfSupply})`, rate: rates.hst, amount: 0, registrationNumber: seller.gstNumber });
+    } else {
+      lines.push({ code: 'GST', label: 'GST', rate: GST_RATE, amount: 0, registrationNumber: seller.gstNumber });
+    }
+  }
+
+  // QST is collected by any seller registered with Revenu Québec
+  if (rates.qst && seller.qstNumber) {
+    lines.push({ code: 'QST', label: 'QST', rate: rates.qst, amount: 0, registrationNumber: seller.qstNumber });
+  }
+
+  // PST registrations are provincial, so only the seller's own province is collected
+  if (rates.pst && seller.pstNumber && placeOfSupply === sellerProvince) {
+    lines.push({ code: 'PST', label: `PST (${placeOfSupply})`, rate: rates.pst, amount: 0, registrationNumber: seller.pstNumber });
+  }
+
+  return lines;
+}
+
+// Apply the tax regime to a subtotal
+export function calculateTaxes(subtotal: number, seller: TaxSeller | undefined, customer: TaxCustomer): TaxLine[] {
+  return getTaxRegime(seller, customer).map(line => ({
+    ...line,
+    amount: roundCurrency(subtotal * line.rate / 100),
+  }));
+}
+
+// Sum of all tax line amounts
+export function getTaxTotal(taxes: TaxLine[]): number {
+  return roundCurrency(taxes.reduce((total, line) => total + line.amount, 0));
+}
+
+// Format a tax line label with its rate, e.g. "GST 5%"
+export function formatTaxLabel(line: TaxLine): string {
+  return `${line.label} ${line.rate}%`;
+}
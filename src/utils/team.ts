@@ -0,0 +1,25 @@
+// src/utils/team.ts
+
+import dayjs from 'dayjs';
+import type { OrganizationMember } from '../db/dexie';
+import { formatDate } from './time';
+
+// Monday to Friday
+export function isWorkday(day: string): boolean {
+  const weekday = dayjs(day).day();
+  return weekday !== 0 && weekday !== 6;
+}
+
+// Workdays up to today without any time logged
+export function getMissingDays(dayTotals: Map<string, number>, now = Date.now()): string[] {
+  const today = formatDate(now);
+  return [...dayTotals.entries()]
+    .filter(([day, ms]) => ms === 0 && day <= today && isWorkday(day))
+    .map(([day]) => day);
+}
+
+// Members are only known by email; older entries may not have one
+export function getMemberLabel(member: OrganizationMember | undefined, isMe: boolean): string {
+  const name = member?.email || 'Unknown member';
+  return isMe ? `${name} (you)` : name;
+}
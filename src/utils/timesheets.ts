@@ -0,0 +1,71 @@
+// src/utils/timesheets.ts
+
+import dayjs from 'dayjs';
+import isoWeek from 'dayjs/plugin/isoWeek';
+import type { Session, Timesheet, TimesheetStatus } from '../db/dexie';
+
+dayjs.extend(isoWeek);
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const TIMESHEET_STATUS_CLASSES: Record<TimesheetStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  submitted: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+// Monday (YYYY-MM-DD) of the week a time falls in
+export function getWeekStart(timestamp: number): string {
+  return dayjs(timestamp).startOf('isoWeek').format('YYYY-MM-DD');
+}
+
+// First and last millisecond of a week
+export function getWeekRange(weekStart: string): { start: number; end: number } {
+  const monday = dayjs(weekStart).startOf('day');
+  return { start: monday.valueOf(), end: monday.add(6, 'day').endOf('day').valueOf() };
+}
+
+// The week before or after, `offset` weeks away
+export function shiftWeek(weekStart: string, offset: number): string {
+  return dayjs(weekStart).add(offset, 'week').format('YYYY-MM-DD');
+}
+
+// e.g. "Oct 12 – Oct 18, 2026"
+export function formatWeek(weekStart: string): string {
+  const monday = dayjs(weekStart);
+  return `${monday.format('MMM D')} – ${monday.add(6, 'day').format('MMM D, YYYY')}`;
+}
+
+export function getTimesheetId(userId: string, weekStart: string): string {
+  return `${userId}_${weekStart}`;
+}
+
+// Submitted and approved weeks are signed off, or about to be
+export function isLockedStatus(status: TimesheetStatus | undefined): boolean {
+  return status === 'submitted' || status === 'approved';
+}
+
+// A week without a timesheet is a draft
+export function canSubmit(status: TimesheetStatus | undefined): boolean {
+  return !status || status === 'draft' || status === 'rejected';
+}
+
+// The timesheet a session is on, if its week has one in the session's organization
+export function findSessionTimesheet(
+  session: Pick<Session, 'start' | 'organizationId'>,
+  timesheets: Timesheet[]
+): Timesheet | undefined {
+  if (!session.organizationId) return undefined;
+  const weekStart = getWeekStart(session.start);
+  return timesheets.find(t => t.orgId === session.organizationId && t.weekStart === weekStart);
+}
+
+export function isSessionLocked(session: Pick<Session, 'start' | 'organizationId'>, timesheets: Timesheet[]): boolean {
+  return isLockedStatus(findSessionTimesheet(session, timesheets)?.status);
+}
@@ -0,0 +1,88 @@
+// src/utils/weekGrid.ts
+
+import dayjs from 'dayjs';
+import type { Session } from '../db/dexie';
+import { formatDate } from './time';
+
+const HOUR_MS = 3600000;
+
+// The seven days (YYYY-MM-DD) of the week starting on a Monday
+export function getWeekDays(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, index) => dayjs(weekStart).add(index, 'day').format('YYYY-MM-DD'));
+}
+
+// Milliseconds per project and day, for the projects and days the sessions fall on
+export function getCellTotals(sessions: Array<Pick<Session, 'projectId' | 'start' | 'durationMs'>>): Map<string, Map<string, number>> {
+  const totals = new Map<string, Map<string, number>>();
+  sessions.forEach(session => {
+    const days = totals.get(session.projectId) ?? new Map<string, number>();
+    const day = formatDate(session.start);
+    days.set(day, (days.get(day) || 0) + session.durationMs);
+    totals.set(session.projectId, days);
+  });
+  return totals;
+}
+
+/**
+ * Hours typed into a cell: decimal hours ("1.5") or hours and minutes ("1:30").
+ * Empty means no time; anything else unreadable or negative is null.
+ */
+export function parseHoursInput(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return 0;
+
+  const clock = trimmed.match(/^(\d+):([0-5]?\d)$/);
+  if (clock) {
+    return (Number(clock[1]) * 60 + Number(clock[2])) * 60000;
+  }
+
+  if (!/^\d*\.?\d+$/.test(trimmed)) return null;
+  return Math.round(Number(trimmed) * 60) * 60000;
+}
+
+// A cell's hours as typed back into it, e.g. "1.5"; empty for no time
+export function formatHoursInput(ms: number): string {
+  if (ms <= 0) return '';
+  return String(Math.round((ms / HOUR_MS) * 100) / 100);
+}
+
+export interface CellChange {
+  create?: number;  // Duration of a new session, when the cell has none
+  update: Array<{ id: string; durationMs: number }>;
+  remove: string[];
+}
+
+/**
+ * How to bring a cell's sessions to a new total. More time extends the latest session;
+ * less trims sessions from the latest back, removing the ones trimmed to nothing.
+ */
+export function planCellChange(sessions: Array<Pick<Session, 'id' | 'start' | 'durationMs'>>, targetMs: number): CellChange {
+  const change: CellChange = { update: [], remove: [] };
+  const ordered = [...sessions].sort((a, b) => a.start - b.start);
+  const currentMs = ordered.reduce((total, session) => total + session.durationMs, 0);
+
+  if (targetMs === currentMs) return change;
+
+  if (targetMs > currentMs) {
+    const latest = ordered[ordered.length - 1];
+    if (latest) {
+      change.update.push({ id: latest.id, durationMs: latest.durationMs + targetMs - currentMs });
+    } else {
+      change.create = targetMs;
+    }
+    return change;
+  }
+
+  let excess = currentMs - targetMs;
+  for (const session of ordered.reverse()) {
+    if (excess <= 0) break;
+    if (session.durationMs <= excess) {
+      change.remove.push(session.id);
+      excess -= session.durationMs;
+    } else {
+      change.update.push({ id: session.id, durationMs: session.durationMs - excess });
+      excess = 0;
+    }
+  }
+  return change;
+}